@@ -0,0 +1,339 @@
+#!/usr/bin/env node
+/**
+ * hql-tools lints and formats HQL files outside the editor with the same
+ * validators, rules and formatter the language server uses, so CI can gate
+ * merges on what the editor shows.
+ *
+ *   hql-tools lint [paths...] [--format text|json|sarif]
+ *   hql-tools fmt [paths...] [--check]
+ *
+ * Exit codes: 0 when clean, 1 when errors were found or files need
+ * formatting, 2 for invalid usage.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { parse, ParseError } from '../parser';
+import { SymbolManager } from '../server/symbolManager';
+import { ValidatorManager } from '../server/validator/validatorManager';
+import { VALIDATION_RULES } from '../server/validator/validationRules';
+import { HqlFormatter } from '../server/formatter/hqlFormatter';
+import { resolveFormatOptions } from '../server/formatter/formatOptions';
+import { ProjectConfigManager } from '../server/projectConfig';
+import { findFilesInDirectory, pathToUri } from '../server/utils/module-utils';
+
+const USAGE = `Usage:
+  hql-tools lint [paths...] [--format text|json|sarif]
+  hql-tools fmt [paths...] [--check]
+
+Paths may be files or directories (searched for .hql files) and default to
+the current directory. Settings come from hql.json/.hqlfmt files.`;
+
+const OUTPUT_FORMATS = ['text', 'json', 'sarif'];
+
+/**
+ * The diagnostics found in one file
+ */
+interface FileDiagnostics {
+  file: string;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Thrown for invalid command lines; reported with the usage text
+ */
+class UsageError extends Error {}
+
+/**
+ * Run the command line and return the exit code
+ */
+export async function main(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  if (!command || command === '--help' || command === '-h') {
+    process.stdout.write(USAGE + '\n');
+    return command ? 0 : 2;
+  }
+
+  try {
+    const { paths, flags } = parseArguments(rest);
+    const projectConfig = createProjectConfig();
+
+    switch (command) {
+      case 'lint': {
+        const format = flags.get('format') || 'text';
+        if (!OUTPUT_FORMATS.includes(format)) {
+          throw new UsageError(`Unknown output format '${format}'`);
+        }
+        return await lint(collectFiles(paths), format, projectConfig);
+      }
+      case 'fmt':
+        return format(collectFiles(paths), flags.has('check'), projectConfig);
+      default:
+        throw new UsageError(`Unknown command '${command}'`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Split arguments into paths and `--flag` / `--flag value` options
+ */
+function parseArguments(args: string[]): { paths: string[]; flags: Map<string, string> } {
+  const paths: string[] = [];
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      paths.push(arg);
+      continue;
+    }
+
+    const [name, inline] = arg.substring(2).split('=', 2);
+    if (name === 'format') {
+      const value = inline ?? args[++i];
+      if (!value) {
+        throw new UsageError('--format needs a value');
+      }
+      flags.set(name, value);
+    } else if (name === 'check') {
+      flags.set(name, 'true');
+    } else {
+      throw new UsageError(`Unknown option '${arg}'`);
+    }
+  }
+
+  return { paths: paths.length > 0 ? paths : ['.'], flags };
+}
+
+/**
+ * Find the .hql files named by the arguments
+ */
+function collectFiles(paths: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const target of paths) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(target);
+    } catch (_e) {
+      throw new UsageError(`No such file or directory: ${target}`);
+    }
+
+    if (stat.isDirectory()) {
+      findFilesInDirectory(path.resolve(target), ['.hql']).forEach(file => files.add(file));
+    } else {
+      files.add(path.resolve(target));
+    }
+  }
+
+  return [...files].sort();
+}
+
+/**
+ * Read project configuration relative to the working directory, reporting
+ * problems in the files on stderr
+ */
+function createProjectConfig(): ProjectConfigManager {
+  const projectConfig = new ProjectConfigManager((filePath, problems) => {
+    for (const problem of problems) {
+      process.stderr.write(`${relative(filePath)}: warning: ${problem}\n`);
+    }
+  });
+  projectConfig.setWorkspaceFolders([{ uri: pathToUri(process.cwd()) }]);
+  return projectConfig;
+}
+
+/**
+ * Validate files and print their diagnostics
+ */
+async function lint(files: string[], format: string, projectConfig: ProjectConfigManager): Promise<number> {
+  const symbolManager = new SymbolManager();
+  const validator = new ValidatorManager(symbolManager, projectConfig);
+  const documents = files.map(file => TextDocument.create(pathToUri(file), 'hql', 1, fs.readFileSync(file, 'utf8')));
+
+  // Load every file first so names defined in one are known in the others
+  for (const document of documents) {
+    symbolManager.addDocument(document);
+    await symbolManager.updateDocumentSymbols(document);
+  }
+
+  const results: FileDiagnostics[] = [];
+  for (let i = 0; i < documents.length; i++) {
+    const diagnostics = await validator.collectDiagnostics(documents[i], true) || [];
+    results.push({ file: files[i], diagnostics });
+  }
+
+  if (format === 'json') {
+    process.stdout.write(JSON.stringify(toJson(results), null, 2) + '\n');
+  } else if (format === 'sarif') {
+    process.stdout.write(JSON.stringify(toSarif(results), null, 2) + '\n');
+  } else {
+    printText(results);
+  }
+
+  const hasErrors = results.some(result => result.diagnostics.some(isError));
+  return hasErrors ? 1 : 0;
+}
+
+/**
+ * Print diagnostics as `file:line:col: severity: message [rule]`
+ */
+function printText(results: FileDiagnostics[]): void {
+  let errors = 0;
+  let warnings = 0;
+
+  for (const { file, diagnostics } of results) {
+    for (const diagnostic of diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      const code = diagnostic.code !== undefined ? ` [${diagnostic.code}]` : '';
+      process.stdout.write(
+        `${relative(file)}:${line + 1}:${character + 1}: ${severityName(diagnostic)}: ${diagnostic.message}${code}\n`
+      );
+      if (isError(diagnostic)) {
+        errors++;
+      } else if (diagnostic.severity === DiagnosticSeverity.Warning) {
+        warnings++;
+      }
+    }
+  }
+
+  process.stderr.write(`${errors} error(s), ${warnings} warning(s) in ${results.length} file(s)\n`);
+}
+
+/**
+ * Describe diagnostics as plain objects with 1-based positions
+ */
+function toJson(results: FileDiagnostics[]): object[] {
+  return results.flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => ({
+    file: relative(file),
+    line: diagnostic.range.start.line + 1,
+    column: diagnostic.range.start.character + 1,
+    endLine: diagnostic.range.end.line + 1,
+    endColumn: diagnostic.range.end.character + 1,
+    severity: severityName(diagnostic),
+    code: diagnostic.code,
+    message: diagnostic.message
+  })));
+}
+
+/**
+ * Describe diagnostics as a SARIF 2.1.0 log for code scanning tools
+ */
+function toSarif(results: FileDiagnostics[]): object {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'hql-tools',
+          rules: VALIDATION_RULES.map(id => ({ id }))
+        }
+      },
+      results: results.flatMap(({ file, diagnostics }) => diagnostics.map(diagnostic => ({
+        ruleId: diagnostic.code !== undefined ? String(diagnostic.code) : undefined,
+        level: isError(diagnostic)
+          ? 'error'
+          : diagnostic.severity === DiagnosticSeverity.Warning ? 'warning' : 'note',
+        message: { text: diagnostic.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: relative(file).split(path.sep).join('/') },
+            region: {
+              startLine: diagnostic.range.start.line + 1,
+              startColumn: diagnostic.range.start.character + 1,
+              endLine: diagnostic.range.end.line + 1,
+              endColumn: diagnostic.range.end.character + 1
+            }
+          }
+        }]
+      })))
+    }]
+  };
+}
+
+/**
+ * Format files in place, or with check only list the ones that would change
+ */
+function format(files: string[], check: boolean, projectConfig: ProjectConfigManager): number {
+  const formatter = new HqlFormatter();
+  let failed = 0;
+  let changed = 0;
+
+  for (const file of files) {
+    const text = fs.readFileSync(file, 'utf8');
+    const document = TextDocument.create(pathToUri(file), 'hql', 1, text);
+
+    // Code that does not parse cannot be laid out
+    try {
+      parse(text, false);
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      process.stderr.write(
+        `${relative(file)}:${error.position.line}:${error.position.column}: error: ${error.message}\n`
+      );
+      failed++;
+      continue;
+    }
+
+    const options = resolveFormatOptions(projectConfig.getConfig(document.uri).format);
+    const edits = formatter.reindentDocument(document, options);
+    if (edits.length === 0) continue;
+
+    changed++;
+    if (check) {
+      process.stdout.write(`${relative(file)}\n`);
+    } else {
+      fs.writeFileSync(file, TextDocument.applyEdits(document, edits));
+      process.stdout.write(`formatted ${relative(file)}\n`);
+    }
+  }
+
+  process.stderr.write(check
+    ? `${changed} of ${files.length} file(s) need formatting\n`
+    : `formatted ${changed} of ${files.length} file(s)\n`);
+
+  return failed > 0 || (check && changed > 0) ? 1 : 0;
+}
+
+/**
+ * Diagnostics without a severity are errors, as in the LSP specification
+ */
+function isError(diagnostic: Diagnostic): boolean {
+  return diagnostic.severity === undefined || diagnostic.severity === DiagnosticSeverity.Error;
+}
+
+function severityName(diagnostic: Diagnostic): string {
+  switch (diagnostic.severity) {
+    case DiagnosticSeverity.Warning: return 'warning';
+    case DiagnosticSeverity.Information: return 'info';
+    case DiagnosticSeverity.Hint: return 'hint';
+    default: return 'error';
+  }
+}
+
+function relative(file: string): string {
+  return path.relative(process.cwd(), file) || file;
+}
+
+if (require.main === module) {
+  // Shared code logs progress with console.log; keep stdout for reports
+  console.log = console.error;
+
+  main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+      process.stderr.write(`hql-tools: ${error instanceof Error ? error.stack : String(error)}\n`);
+      process.exit(2);
+    }
+  );
+}
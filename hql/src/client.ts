@@ -1,68 +1,137 @@
+import { HttpTransport } from './nrepl/http-transport';
+import { NReplClient } from './nrepl/nrepl-client';
+import { SocketTransport } from './nrepl/socket-transport';
+import { ReplTransport } from './nrepl/transport';
+
+/**
+ * Default address of the HQL nREPL server
+ */
+export const DEFAULT_SERVER_URL = "nrepl://localhost:5100";
+
+// One client, and so one session, per server
+const clients: Map<string, Promise<NReplClient>> = new Map();
+
+// Clients of nREPL URLs whose server only answered over HTTP
+const httpFallbacks: WeakSet<NReplClient> = new WeakSet();
+
+/**
+ * Whether a server URL points at the HTTP `/eval` fallback rather than an nREPL socket
+ */
+export function isHttpServerUrl(serverUrl: string): boolean {
+  return /^https?:\/\//i.test(serverUrl);
+}
+
+/**
+ * Create the transport for a server URL: `http(s)://` uses the HTTP fallback,
+ * `nrepl://host:port` (or just `host:port`) speaks bencode over TCP.
+ */
+export function createTransport(serverUrl: string): ReplTransport {
+  if (isHttpServerUrl(serverUrl)) {
+    return new HttpTransport(serverUrl.replace(/\/+$/, ''));
+  }
+
+  const url = parseNReplUrl(serverUrl);
+  return new SocketTransport(url.hostname || 'localhost', Number(url.port) || 5100);
+}
+
+/**
+ * Get the client connected to a server, connecting on first use. A server
+ * at an nREPL URL that doesn't speak nREPL but answers the HTTP `/ping`
+ * endpoint on the same host and port is used through the HTTP fallback.
+ */
+export function getReplClient(serverUrl: string = DEFAULT_SERVER_URL): Promise<NReplClient> {
+  let client = clients.get(serverUrl);
+  if (!client) {
+    const connecting = connectReplClient(serverUrl);
+    const forget = () => {
+      if (clients.get(serverUrl) === connecting) {
+        clients.delete(serverUrl);
+      }
+    };
+    // A failed attempt is retried on the next request
+    connecting.then(connected => connected.onClose(forget), forget);
+    clients.set(serverUrl, connecting);
+    client = connecting;
+  }
+  return client;
+}
+
+/**
+ * Connect over nREPL, or over HTTP when only the `/ping` endpoint answers
+ */
+async function connectReplClient(serverUrl: string): Promise<NReplClient> {
+  const client = new NReplClient(createTransport(serverUrl));
+  try {
+    await client.connect();
+    return client;
+  } catch (error) {
+    if (isHttpServerUrl(serverUrl)) {
+      throw error;
+    }
+
+    const httpUrl = toHttpServerUrl(serverUrl);
+    if (!(await pingServer(httpUrl))) {
+      throw error;
+    }
+    const fallback = new NReplClient(new HttpTransport(httpUrl));
+    await fallback.connect();
+    httpFallbacks.add(fallback);
+    return fallback;
+  }
+}
+
+/**
+ * The HTTP address a server is reached at: the URL itself for `http(s)://`,
+ * or the same host and port when the client of an nREPL URL fell back to
+ * HTTP. Undefined for servers that speak nREPL.
+ */
+export async function getHttpServerUrl(serverUrl: string = DEFAULT_SERVER_URL): Promise<string | undefined> {
+  if (isHttpServerUrl(serverUrl)) {
+    return serverUrl.replace(/\/+$/, '');
+  }
+
+  const client = await clients.get(serverUrl)?.catch(() => undefined);
+  return client && httpFallbacks.has(client) ? toHttpServerUrl(serverUrl) : undefined;
+}
+
 /**
- * Interface for nREPL response
+ * Close the sessions and connections of all clients
  */
-export interface NReplResponse {
-  error?: string;
-  result?: string;
-  warnings?: string[];
-  metadata?: {
-    time_ms?: number;
-    type?: string;
-    format?: string;
-  };
+export async function closeReplClients(): Promise<void> {
+  const open = [...clients.values()];
+  clients.clear();
+  await Promise.all(open.map(client => client.then(connected => connected.close()).catch(() => undefined)));
 }
 
 /**
- * Sends HQL code to the nREPL server (default URL: http://localhost:5100) via HTTP POST.
- * Supports cancellation via AbortSignal.
- * 
+ * Sends HQL code to the nREPL server (default URL: nrepl://localhost:5100).
+ * Supports cancellation via AbortSignal, which interrupts the evaluation.
+ *
  * @param code The HQL code to evaluate
- * @param serverUrl The nREPL server URL (defaults to http://localhost:5100)
+ * @param serverUrl The nREPL server URL (defaults to nrepl://localhost:5100)
  * @param signal Optional AbortSignal for cancellation support
+ * @param onOutput Optional callback for output printed while evaluating
  * @returns Promise resolving to the evaluation result
  */
 export async function fetchEvaluation(
-  code: string, 
-  serverUrl: string = "http://localhost:5100",
-  signal?: AbortSignal
+  code: string,
+  serverUrl: string = DEFAULT_SERVER_URL,
+  signal?: AbortSignal,
+  onOutput?: (stream: 'out' | 'err', text: string) => void
 ): Promise<string> {
   try {
-    // Prepare the request
-    const requestOptions: RequestInit = {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ code }),
-      signal
-    };
-    
-    // Send the request to the nREPL server
-    const response = await fetch(`${serverUrl}/eval`, requestOptions);
-    
-    // Parse the response
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Server returned ${response.status}: ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
-    }
-    
-    const json = (await response.json()) as NReplResponse;
-    
-    // Handle errors
-    if (json.error) {
-      throw new Error(json.error);
-    }
-    
-    // Handle warnings
-    if (json.warnings && json.warnings.length > 0) {
-      // Return both result and warnings
-      return `${json.result || ""}${json.result ? "\n" : ""}// Warnings: ${json.warnings.join(", ")}`;
+    const result = await (await getReplClient(serverUrl)).eval(code, { signal, onOutput });
+
+    if (result.interrupted || signal?.aborted) {
+      throw new Error("Evaluation interrupted");
     }
-    
-    // Format the result based on metadata if available
-    if (json.metadata?.time_ms) {
-      return `${json.result || ""} (${json.metadata.time_ms}ms)`;
+
+    // Handle errors; the message is whatever the server printed to err
+    if (result.ex) {
+      throw new Error(result.err.trim() || result.ex);
     }
-    
-    return json.result || "";
+
+    return result.values.join("\n");
   } catch (error) {
     if (signal?.aborted) {
       // Create a special error type for aborted requests
@@ -70,33 +139,72 @@ export async function fetchEvaluation(
       abortError.name = "AbortError";
       throw abortError;
     }
-    
+
     // Re-throw the error
     throw error;
   }
 }
 
 /**
- * Determines if a server is alive by sending a simple ping request.
- * 
- * @param serverUrl The URL to check (defaults to http://localhost:5100)
+ * Determines if a server is alive: a `describe` request over nREPL, or a
+ * ping request for the HTTP fallback.
+ *
+ * @param serverUrl The URL to check (defaults to nrepl://localhost:5100)
  * @returns Promise resolving to true if server is alive, false otherwise
  */
-export async function isServerAlive(serverUrl: string = "http://localhost:5100"): Promise<boolean> {
+export async function isServerAlive(serverUrl: string = DEFAULT_SERVER_URL): Promise<boolean> {
+  if (isHttpServerUrl(serverUrl)) {
+    return pingServer(serverUrl);
+  }
+
+  let timeoutId: NodeJS.Timeout | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => reject(new Error("timed out")), 1000);
+    });
+    const client = await Promise.race([getReplClient(serverUrl), timeout]);
+    if (httpFallbacks.has(client)) {
+      // The fallback answers `describe` itself
+      return await pingServer(toHttpServerUrl(serverUrl));
+    }
+    await Promise.race([client.describe(), timeout]);
+    return true;
+  } catch (error) {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Send a simple ping to the HTTP endpoint with a short timeout
+ */
+async function pingServer(serverUrl: string): Promise<boolean> {
   try {
-    // Send a simple ping with a short timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 1000);
-    
+
     const response = await fetch(`${serverUrl}/ping`, {
       method: "GET",
       headers: { "Content-Type": "application/json" },
       signal: controller.signal
     });
-    
+
     clearTimeout(timeoutId);
     return response.ok;
   } catch (error) {
     return false;
   }
-}
\ No newline at end of file
+}
+
+function parseNReplUrl(serverUrl: string): URL {
+  return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(serverUrl) ? serverUrl : `nrepl://${serverUrl}`);
+}
+
+/**
+ * The HTTP address of the same host and port as an nREPL URL
+ */
+function toHttpServerUrl(serverUrl: string): string {
+  const url = parseNReplUrl(serverUrl);
+  return `http://${url.hostname || 'localhost'}:${url.port || 5100}`;
+}
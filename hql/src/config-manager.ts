@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { DEFAULT_SERVER_URL } from './client';
 
 /**
  * Configuration manager for HQL extension settings
@@ -54,7 +55,7 @@ export class ConfigManager {
    * Get the REPL server URL
    */
   public getServerUrl(): string {
-    return this.get<string>('server.url', 'http://localhost:5100');
+    return this.get<string>('server.url', DEFAULT_SERVER_URL);
   }
 
   /**
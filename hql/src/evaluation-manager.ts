@@ -17,6 +17,7 @@ export class EvaluationManager {
   private static instance: EvaluationManager;
   private activeEvaluations: Map<string, AbortController> = new Map();
   private lastResults: Map<string, { code: string, result: string, success: boolean }> = new Map();
+  private outputChannel: vscode.OutputChannel | null = null;
 
   // Debounce timers for showing notifications
   private serverStartPrompt: NodeJS.Timeout | null = null;
@@ -89,6 +90,17 @@ export class EvaluationManager {
     return true;
   }
 
+  /**
+   * Show what evaluated code prints, as the server streams it
+   */
+  private showOutput = (_stream: 'out' | 'err', text: string): void => {
+    if (!this.outputChannel) {
+      this.outputChannel = vscode.window.createOutputChannel('HQL REPL Output');
+      this.outputChannel.show(true);
+    }
+    this.outputChannel.append(text);
+  };
+
   /**
    * Format evaluation error messages for better readability
    */
@@ -154,7 +166,7 @@ export class EvaluationManager {
       }
       
       const serverUrl = config.getServerUrl();
-      const result = await fetchEvaluation(code, serverUrl, abortController.signal);
+      const result = await fetchEvaluation(code, serverUrl, abortController.signal, this.showOutput);
       
       if (!this.activeEvaluations.has(requestId)) {
         // This request was canceled, don't show the result
@@ -227,7 +239,7 @@ export class EvaluationManager {
       }
       
       const serverUrl = config.getServerUrl();
-      const result = await fetchEvaluation(code, serverUrl, abortController.signal);
+      const result = await fetchEvaluation(code, serverUrl, abortController.signal, this.showOutput);
       
       if (!this.activeEvaluations.has(requestId)) {
         // This request was canceled, don't show the result
@@ -10,6 +10,7 @@ import { ui } from "./ui/ui-manager";
 import { config } from "./config-manager";
 import { evaluator } from "./evaluation-manager";
 import { startServer, stopServer, restartServer, isServerRunning } from './server-manager';
+import { closeReplClients } from './client';
 import { Logger } from './logger';
 import { activateParedit } from './paredit/index';
 
@@ -99,6 +100,15 @@ export function activate(context: vscode.ExtensionContext) {
     }
   ));
 
+  // Extract to Variable applies the language server's extract refactoring
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "hql.extractVariable",
+    () => vscode.commands.executeCommand('editor.action.codeAction', {
+      kind: 'refactor.extract.variable',
+      apply: 'first'
+    })
+  ));
+
   // Register REPL server commands
   context.subscriptions.push(vscode.commands.registerCommand('hql.startREPLServer', async () => {
     await startServer();
@@ -342,8 +352,20 @@ function startLanguageServer(context: vscode.ExtensionContext): LanguageClient {
     // Register the server for HQL documents
     documentSelector: [{ scheme: 'file', language: 'hql' }],
     synchronize: {
-      // Notify the server about file changes to .hql files contained in the workspace
-      fileEvents: vscode.workspace.createFileSystemWatcher('**/*.hql')
+      // Notify the server about changes to .hql files, the scripts and typings
+      // HQL modules import, and project configuration files
+      fileEvents: [
+        vscode.workspace.createFileSystemWatcher('**/*.hql'),
+        vscode.workspace.createFileSystemWatcher('**/*.{js,mjs,cjs,d.ts,d.mts}'),
+        vscode.workspace.createFileSystemWatcher('**/{hql.json,.hqlfmt}')
+      ]
+    },
+    middleware: {
+      workspace: {
+        // Installing packages rewrites node_modules wholesale; don't flood the server with it
+        didChangeWatchedFile: (event, next) =>
+          isExcludedFromWatching(vscode.Uri.parse(event.uri)) ? Promise.resolve() : next(event)
+      }
     },
     outputChannel: outputChannel,
     revealOutputChannelOn: 4 // Only on error
@@ -363,6 +385,24 @@ function startLanguageServer(context: vscode.ExtensionContext): LanguageClient {
   return client;
 }
 
+/**
+ * Whether a changed file lies in a directory the server does not follow:
+ * node_modules, or one excluded by the files.watcherExclude setting
+ */
+function isExcludedFromWatching(uri: vscode.Uri): boolean {
+  const filePath = uri.path;
+  if (/\/node_modules\//.test(filePath)) {
+    return true;
+  }
+
+  const excluded = vscode.workspace.getConfiguration('files', uri).get<Record<string, boolean>>('watcherExclude', {});
+  return Object.keys(excluded).some(pattern => {
+    // Only the common `**/dir/**` form is understood
+    const match = /^\*\*\/([^*?{}[\]]+)\/\*\*$/.exec(pattern);
+    return excluded[pattern] && match !== null && filePath.includes(`/${match[1]}/`);
+  });
+}
+
 // This method is called when the extension is deactivated
 export function deactivate(): Thenable<void> | undefined {
   logger.info('Deactivating HQL extension');
@@ -370,15 +410,16 @@ export function deactivate(): Thenable<void> | undefined {
   // Clear any evaluations
   evaluator.cancelAllEvaluations();
   
+  // Close the nREPL sessions
+  const closingClients = closeReplClients();
+  
   // Stop the server
   stopServer().catch(err => {
     logger.error(`Error stopping server: ${err}`);
   });
   
-  if (client) {
-    return client.stop();
-  }
-  return undefined;
+  // Deactivation waits for the sessions to close and the language server to stop
+  return Promise.all([closingClients, client?.stop()]).then(() => undefined);
 }
 
 /**
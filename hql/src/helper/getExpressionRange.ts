@@ -14,6 +14,14 @@ function escapeRegExp(str: string): string {
  * Finds the range of an expression in the document
  */
 export function findExpressionRange(document: ITextDocument, exp: SExp): Range {
+  // Nodes from the parser carry their exact source range
+  if (exp.range) {
+    return Range.create(
+      document.positionAt(exp.range.start.offset),
+      document.positionAt(exp.range.end.offset)
+    );
+  }
+  
   const text = document.getText();
   const expString = expressionToString(exp);
   
@@ -0,0 +1,137 @@
+/**
+ * Values that bencode can carry. nREPL only sends UTF-8 text, so byte
+ * strings are decoded to strings.
+ */
+export type BencodeValue = string | number | BencodeValue[] | { [key: string]: BencodeValue | undefined };
+
+/**
+ * Encode a value: `i42e`, `5:hello`, `l...e` and `d...e` with sorted keys
+ */
+export function encode(value: BencodeValue | undefined | null | boolean): Buffer {
+  return Buffer.concat(encodeParts(value, []));
+}
+
+function encodeParts(value: BencodeValue | undefined | null | boolean, parts: Buffer[]): Buffer[] {
+  if (typeof value === 'number') {
+    parts.push(Buffer.from(`i${Math.trunc(value)}e`));
+  } else if (typeof value === 'boolean') {
+    // nREPL has no booleans; 'true'/'false' is what servers expect for flags
+    encodeParts(String(value), parts);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    parts.push(Buffer.from(`${bytes.length}:`), bytes);
+  } else if (Array.isArray(value)) {
+    parts.push(Buffer.from('l'));
+    for (const item of value) {
+      encodeParts(item, parts);
+    }
+    parts.push(Buffer.from('e'));
+  } else if (value) {
+    parts.push(Buffer.from('d'));
+    for (const key of Object.keys(value).sort()) {
+      // Missing optional fields are left out rather than sent empty
+      if (value[key] === undefined || value[key] === null) continue;
+      encodeParts(key, parts);
+      encodeParts(value[key], parts);
+    }
+    parts.push(Buffer.from('e'));
+  } else {
+    throw new Error(`Cannot bencode ${value}`);
+  }
+  return parts;
+}
+
+/**
+ * Thrown when the input is not bencode at all, as opposed to incomplete
+ */
+export class BencodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BencodeError';
+  }
+}
+
+/**
+ * Marks the end of the available input in the middle of a value
+ */
+const INCOMPLETE = Symbol('incomplete');
+
+/**
+ * Decodes a stream of bencoded values. Socket data arrives in arbitrary
+ * chunks, so bytes of an unfinished value are kept until the rest arrives.
+ */
+export class BencodeDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Add a chunk and return the values that are now complete
+   */
+  public push(chunk: Buffer): BencodeValue[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const values: BencodeValue[] = [];
+
+    while (this.buffer.length > 0) {
+      const result = this.decodeAt(0);
+      if (result === INCOMPLETE) break;
+      values.push(result.value);
+      this.buffer = this.buffer.subarray(result.end);
+    }
+
+    return values;
+  }
+
+  /**
+   * Drop any partial value, e.g. after the connection was reset
+   */
+  public reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  private decodeAt(offset: number): { value: BencodeValue; end: number } | typeof INCOMPLETE {
+    if (offset >= this.buffer.length) return INCOMPLETE;
+    const marker = String.fromCharCode(this.buffer[offset]);
+
+    if (marker === 'i') {
+      const end = this.buffer.indexOf('e', offset);
+      if (end < 0) return INCOMPLETE;
+      const text = this.buffer.toString('ascii', offset + 1, end);
+      if (!/^-?\d+$/.test(text)) throw new BencodeError(`Invalid integer '${text}'`);
+      return { value: Number(text), end: end + 1 };
+    }
+
+    if (marker === 'l' || marker === 'd') {
+      const items: BencodeValue[] = [];
+      let position = offset + 1;
+      while (true) {
+        if (position >= this.buffer.length) return INCOMPLETE;
+        if (this.buffer[position] === 0x65 /* e */) break;
+        const item = this.decodeAt(position);
+        if (item === INCOMPLETE) return INCOMPLETE;
+        items.push(item.value);
+        position = item.end;
+      }
+
+      if (marker === 'l') {
+        return { value: items, end: position + 1 };
+      }
+
+      const dict: { [key: string]: BencodeValue } = {};
+      for (let i = 0; i + 1 < items.length; i += 2) {
+        dict[String(items[i])] = items[i + 1];
+      }
+      return { value: dict, end: position + 1 };
+    }
+
+    if (marker >= '0' && marker <= '9') {
+      const colon = this.buffer.indexOf(':', offset);
+      if (colon < 0) return INCOMPLETE;
+      const lengthText = this.buffer.toString('ascii', offset, colon);
+      if (!/^\d+$/.test(lengthText)) throw new BencodeError(`Invalid string length '${lengthText}'`);
+      const end = colon + 1 + Number(lengthText);
+      if (end > this.buffer.length) return INCOMPLETE;
+      return { value: this.buffer.toString('utf8', colon + 1, end), end };
+    }
+
+    throw new BencodeError(`Unexpected '${marker}' in bencode data`);
+  }
+}
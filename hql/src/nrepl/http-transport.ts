@@ -0,0 +1,140 @@
+import { NReplMessage, NReplRequest, ReplTransport } from './transport';
+
+/**
+ * Response of the HTTP `/eval` endpoint
+ */
+export interface HttpEvalResponse {
+  error?: string;
+  result?: string;
+  warnings?: string[];
+  metadata?: {
+    time_ms?: number;
+    type?: string;
+    format?: string;
+  };
+}
+
+/**
+ * Fallback for servers that only offer `POST /eval` with a JSON body.
+ * The ops are answered locally as far as that endpoint allows: `eval` and
+ * `load-file` evaluate code, `interrupt` aborts the request, and `describe`
+ * reports just those ops. Anything else is an unknown op.
+ */
+export class HttpTransport implements ReplTransport {
+  private pending: Map<string, AbortController> = new Map();
+  private messageHandler: (message: NReplMessage) => void = () => {};
+  private closed = false;
+
+  constructor(private serverUrl: string) {}
+
+  public async connect(): Promise<void> {
+    this.closed = false;
+  }
+
+  public send(request: NReplRequest): void {
+    switch (request.op) {
+      case 'eval':
+        this.evaluate(request, String(request.code ?? ''));
+        break;
+      case 'load-file':
+        this.evaluate(request, String(request.file ?? ''));
+        break;
+      case 'interrupt': {
+        const controller = this.pending.get(String(request['interrupt-id']));
+        controller?.abort();
+        this.reply(request, { status: controller ? ['done'] : ['session-idle', 'done'] });
+        break;
+      }
+      case 'clone':
+        this.reply(request, { 'new-session': 'http', status: ['done'] });
+        break;
+      case 'close':
+        this.reply(request, { status: ['session-closed', 'done'] });
+        break;
+      case 'describe':
+        this.reply(request, {
+          ops: { eval: {}, 'load-file': {}, interrupt: {}, describe: {}, clone: {}, close: {} },
+          status: ['done']
+        });
+        break;
+      default:
+        this.reply(request, { status: ['error', 'unknown-op', 'done'] });
+    }
+  }
+
+  public onMessage(handler: (message: NReplMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  public onClose(): void {
+    // Every request is its own HTTP exchange; there is no connection to lose
+  }
+
+  public close(): void {
+    this.closed = true;
+    for (const controller of this.pending.values()) {
+      controller.abort();
+    }
+    this.pending.clear();
+  }
+
+  private async evaluate(request: NReplRequest, code: string): Promise<void> {
+    const id = request.id || '';
+    const controller = new AbortController();
+    this.pending.set(id, controller);
+
+    try {
+      const response = await fetch(`${this.serverUrl}/eval`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Server returned ${response.status}: ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+      }
+
+      const json = (await response.json()) as HttpEvalResponse;
+      if (json.error) {
+        this.reply(request, { err: json.error });
+        this.reply(request, { ex: 'Error', status: ['eval-error'] });
+      } else {
+        this.reply(request, { value: formatResult(json) });
+      }
+      this.reply(request, { status: ['done'] });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.reply(request, { status: ['interrupted', 'done'] });
+      } else {
+        // Transport failures are reported like evaluation errors
+        this.reply(request, { err: (error as Error).message || String(error) });
+        this.reply(request, { ex: 'TransportError', status: ['eval-error', 'done'] });
+      }
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+
+  private reply(request: NReplRequest, message: NReplMessage): void {
+    if (!this.closed) {
+      this.messageHandler({ id: request.id, session: request.session, ...message });
+    }
+  }
+}
+
+/**
+ * Show warnings and timing alongside the result, as the HTTP server reports them
+ */
+function formatResult(json: HttpEvalResponse): string {
+  if (json.warnings && json.warnings.length > 0) {
+    return `${json.result || ""}${json.result ? "\n" : ""}// Warnings: ${json.warnings.join(", ")}`;
+  }
+
+  if (json.metadata?.time_ms) {
+    return `${json.result || ""} (${json.metadata.time_ms}ms)`;
+  }
+
+  return json.result || "";
+}
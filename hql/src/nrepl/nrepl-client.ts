@@ -0,0 +1,331 @@
+import { BencodeValue } from './bencode';
+import { NReplMessage, NReplRequest, ReplTransport } from './transport';
+
+/**
+ * Options for evaluating code
+ */
+export interface EvalOptions {
+  ns?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  signal?: AbortSignal; // aborting sends an interrupt for the evaluation
+  onOutput?: (stream: 'out' | 'err', text: string) => void; // called as output is streamed
+}
+
+/**
+ * Everything the server streamed back for one evaluation
+ */
+export interface EvalResult {
+  values: string[];
+  out: string;
+  err: string;
+  ex?: string; // the exception type, when evaluation failed
+  ns?: string;
+  interrupted: boolean;
+}
+
+/**
+ * A completion candidate from the `completions` op
+ */
+export interface NReplCompletion {
+  candidate: string;
+  type?: string;
+  ns?: string;
+}
+
+/**
+ * A request that failed as a whole, as opposed to code that threw
+ */
+export class NReplError extends Error {
+  constructor(message: string, public status: string[] = []) {
+    super(message);
+    this.name = 'NReplError';
+  }
+}
+
+interface PendingRequest {
+  messages: NReplMessage[];
+  onMessage?: (message: NReplMessage) => void;
+  resolve: (messages: NReplMessage[]) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * An nREPL client: a session on the server and the standard ops, over
+ * any transport. Requests carry an id, and the streamed responses are
+ * collected per id until the server reports the request done.
+ */
+export class NReplClient {
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+  private session: string | null = null;
+  private connecting: Promise<void> | null = null;
+  private closeHandlers: Array<() => void> = [];
+
+  /**
+   * @param requestTimeout How long a request may go without a response
+   * before it fails and the session is closed, in milliseconds; 0 waits forever
+   */
+  constructor(private transport: ReplTransport, private requestTimeout: number = 30000) {
+    transport.onMessage(message => this.handleMessage(message));
+    transport.onClose(error => this.handleClose(error));
+  }
+
+  /**
+   * Connect and open a session; later calls share the same attempt
+   */
+  public connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        await this.transport.connect();
+        const [response] = await this.request({ op: 'clone' }, false);
+        this.session = typeof response?.['new-session'] === 'string' ? response['new-session'] : null;
+      })();
+      // A failed attempt may be retried
+      this.connecting.catch(() => { this.connecting = null; });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Whether the session is open
+   */
+  public get isConnected(): boolean {
+    return this.session !== null;
+  }
+
+  /**
+   * Register a handler for when the connection is lost or closed
+   */
+  public onClose(handler: () => void): void {
+    this.closeHandlers.push(handler);
+  }
+
+  /**
+   * Send a request in the session and collect its responses up to 'done'
+   */
+  public request(
+    request: NReplRequest,
+    inSession: boolean = true,
+    onMessage?: (message: NReplMessage) => void
+  ): Promise<NReplMessage[]> {
+    const id = request.id || String(this.nextId++);
+    const message: NReplRequest = { ...request, id };
+    if (inSession && this.session) {
+      message.session = this.session;
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { messages: [], onMessage, resolve, reject };
+      this.pending.set(id, pending);
+      try {
+        this.transport.send(message);
+        this.startTimer(id, request.op, pending);
+      } catch (error) {
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Evaluate code, streaming its output to `options.onOutput`
+   */
+  public async eval(code: string, options: EvalOptions = {}): Promise<EvalResult> {
+    await this.connect();
+    const id = String(this.nextId++);
+    const result: EvalResult = { values: [], out: '', err: '', interrupted: false };
+
+    const onAbort = () => {
+      this.interrupt(id).catch(() => { /* the evaluation may have finished meanwhile */ });
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    try {
+      await this.request(
+        { op: 'eval', id, code, ns: options.ns, file: options.file, line: options.line, column: options.column },
+        true,
+        message => collectEvalMessage(message, result, options)
+      );
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate the contents of a file as if it was loaded from `filePath`
+   */
+  public async loadFile(content: string, filePath?: string, options: EvalOptions = {}): Promise<EvalResult> {
+    await this.connect();
+    const result: EvalResult = { values: [], out: '', err: '', interrupted: false };
+    const fileName = filePath ? filePath.split(/[\\/]/).pop() : undefined;
+
+    await this.request(
+      { op: 'load-file', file: content, 'file-path': filePath, 'file-name': fileName },
+      true,
+      message => collectEvalMessage(message, result, options)
+    );
+    return result;
+  }
+
+  /**
+   * Interrupt the evaluation with the given request id
+   */
+  public async interrupt(interruptId: string): Promise<void> {
+    await this.request({ op: 'interrupt', 'interrupt-id': interruptId });
+  }
+
+  /**
+   * The server's ops and versions
+   */
+  public async describe(): Promise<NReplMessage> {
+    await this.connect();
+    const messages = await this.request({ op: 'describe' });
+    return Object.assign({}, ...messages);
+  }
+
+  /**
+   * Completion candidates for a prefix
+   */
+  public async completions(prefix: string, ns?: string): Promise<NReplCompletion[]> {
+    await this.connect();
+    const messages = await this.request({ op: 'completions', prefix, ns });
+    checkStatus(messages, 'completions');
+
+    const candidates: NReplCompletion[] = [];
+    for (const message of messages) {
+      if (!Array.isArray(message.completions)) continue;
+      for (const item of message.completions) {
+        if (item && typeof item === 'object' && !Array.isArray(item) && typeof item.candidate === 'string') {
+          candidates.push({
+            candidate: item.candidate,
+            type: typeof item.type === 'string' ? item.type : undefined,
+            ns: typeof item.ns === 'string' ? item.ns : undefined
+          });
+        }
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * What the server knows about a symbol (arglists, doc, file, ...), if anything
+   */
+  public async lookup(sym: string, ns?: string): Promise<{ [key: string]: BencodeValue | undefined } | undefined> {
+    await this.connect();
+    const messages = await this.request({ op: 'lookup', sym, ns });
+    checkStatus(messages, 'lookup');
+
+    const info = messages.find(message => message.info)?.info;
+    if (!info || typeof info !== 'object' || Array.isArray(info) || Object.keys(info).length === 0) {
+      return undefined;
+    }
+    return info;
+  }
+
+  /**
+   * Close the session and the connection
+   */
+  public async close(): Promise<void> {
+    if (this.session) {
+      // Don't wait long on a server that is going away
+      await Promise.race([
+        this.request({ op: 'close' }).catch(() => []),
+        new Promise(resolve => setTimeout(resolve, 500))
+      ]);
+    }
+    this.transport.close();
+    this.handleClose();
+  }
+
+  private handleMessage(message: NReplMessage): void {
+    const pending = message.id ? this.pending.get(message.id) : undefined;
+    if (!pending) return;
+
+    pending.messages.push(message);
+    pending.onMessage?.(message);
+
+    if (message.status?.includes('done')) {
+      clearTimeout(pending.timer);
+      this.pending.delete(message.id!);
+      pending.resolve(pending.messages);
+    } else {
+      // Streamed output shows the request is still being worked on
+      pending.timer?.refresh();
+    }
+  }
+
+  /**
+   * Fail the request if the server doesn't answer it in time. A server that
+   * stopped answering may be stuck on it, so the session is closed too.
+   */
+  private startTimer(id: string, op: string, pending: PendingRequest): void {
+    if (this.requestTimeout <= 0) return;
+
+    pending.timer = setTimeout(() => {
+      if (this.pending.get(id) !== pending) return;
+      this.pending.delete(id);
+      pending.reject(new NReplError(`The nREPL server did not answer '${op}' within ${this.requestTimeout} ms`, ['timeout']));
+      this.close().catch(() => { /* the connection is being dropped anyway */ });
+    }, this.requestTimeout);
+  }
+
+  private handleClose(error?: Error): void {
+    const wasOpen = this.session !== null || this.connecting !== null;
+    this.session = null;
+    this.connecting = null;
+
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error || new NReplError('Connection to the nREPL server was closed'));
+    }
+    this.pending.clear();
+
+    if (wasOpen) {
+      this.closeHandlers.forEach(handler => handler());
+    }
+  }
+}
+
+/**
+ * Fold one streamed eval message into the result
+ */
+function collectEvalMessage(message: NReplMessage, result: EvalResult, options: EvalOptions): void {
+  if (typeof message.value === 'string') {
+    result.values.push(message.value);
+  }
+  if (typeof message.out === 'string') {
+    result.out += message.out;
+    options.onOutput?.('out', message.out);
+  }
+  if (typeof message.err === 'string') {
+    result.err += message.err;
+    options.onOutput?.('err', message.err);
+  }
+  if (typeof message.ex === 'string') {
+    result.ex = message.ex;
+  }
+  if (typeof message.ns === 'string') {
+    result.ns = message.ns;
+  }
+  if (message.status?.includes('interrupted')) {
+    result.interrupted = true;
+  }
+}
+
+/**
+ * Fail when the server doesn't support an op or couldn't handle the request
+ */
+function checkStatus(messages: NReplMessage[], op: string): void {
+  const status = messages.flatMap(message => message.status || []);
+  if (status.includes('unknown-op')) {
+    throw new NReplError(`The nREPL server does not support '${op}'`, status);
+  }
+  if (status.includes('error')) {
+    throw new NReplError(`The nREPL server failed to handle '${op}'`, status);
+  }
+}
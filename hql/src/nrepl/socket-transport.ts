@@ -0,0 +1,80 @@
+import * as net from 'net';
+import { BencodeDecoder, encode } from './bencode';
+import { NReplMessage, NReplRequest, ReplTransport } from './transport';
+
+/**
+ * The nREPL wire protocol: bencoded dictionaries over a TCP connection
+ */
+export class SocketTransport implements ReplTransport {
+  private socket: net.Socket | null = null;
+  private decoder = new BencodeDecoder();
+  private messageHandler: (message: NReplMessage) => void = () => {};
+  private closeHandler: (error?: Error) => void = () => {};
+
+  constructor(private host: string, private port: number, private connectTimeout: number = 5000) {}
+
+  public connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      let connected = false;
+
+      socket.setTimeout(this.connectTimeout, () => {
+        socket.destroy(new Error(`Connection to ${this.host}:${this.port} timed out`));
+      });
+
+      socket.once('connect', () => {
+        connected = true;
+        // Requests time out on their own in the client; an idle session is fine
+        socket.setTimeout(0);
+        this.socket = socket;
+        resolve();
+      });
+
+      socket.on('data', (chunk: Buffer) => {
+        try {
+          for (const value of this.decoder.push(chunk)) {
+            if (value && typeof value === 'object' && !Array.isArray(value)) {
+              this.messageHandler(value as NReplMessage);
+            }
+          }
+        } catch (error) {
+          // The stream can't be resynchronised after garbage
+          socket.destroy(error as Error);
+        }
+      });
+
+      let closeError: Error | undefined;
+      socket.on('error', (error: Error) => {
+        closeError = error;
+        if (!connected) reject(error);
+      });
+
+      socket.on('close', () => {
+        this.socket = null;
+        this.decoder.reset();
+        if (connected) this.closeHandler(closeError);
+      });
+    });
+  }
+
+  public send(request: NReplRequest): void {
+    if (!this.socket) {
+      throw new Error('Not connected to the nREPL server');
+    }
+    this.socket.write(encode(request));
+  }
+
+  public onMessage(handler: (message: NReplMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  public onClose(handler: (error?: Error) => void): void {
+    this.closeHandler = handler;
+  }
+
+  public close(): void {
+    this.socket?.end();
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,59 @@
+import { BencodeValue } from './bencode';
+
+/**
+ * A request to the nREPL server. `id` and `session` are filled in by the client.
+ */
+export interface NReplRequest {
+  op: string;
+  id?: string;
+  session?: string;
+  [key: string]: BencodeValue | undefined;
+}
+
+/**
+ * One of the messages the server streams back for a request. A request is
+ * finished when a message with the 'done' status arrives.
+ */
+export interface NReplMessage {
+  id?: string;
+  session?: string;
+  status?: string[];
+  value?: string;
+  out?: string;
+  err?: string;
+  ex?: string;
+  ns?: string;
+  [key: string]: BencodeValue | undefined;
+}
+
+/**
+ * Carries nREPL messages to a server and back. Responses are matched to
+ * requests by their id, so a transport only has to deliver every message
+ * it receives to the handler.
+ */
+export interface ReplTransport {
+  /**
+   * Open the connection; resolves once requests can be sent
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Send a request; its responses arrive through the message handler
+   */
+  send(request: NReplRequest): void;
+
+  /**
+   * Register the handler for messages from the server
+   */
+  onMessage(handler: (message: NReplMessage) => void): void;
+
+  /**
+   * Register the handler for a closed or failed connection
+   */
+  onClose(handler: (error?: Error) => void): void;
+
+  /**
+   * Close the connection
+   */
+  close(): void;
+}
@@ -12,7 +12,8 @@ import {
   SString,
   SNumber,
   SBoolean,
-  SNil
+  SNil,
+  ListDelimiter
 } from "./s-exp/types";
 
 /**
@@ -24,6 +25,26 @@ export interface SourcePosition {
   offset: number;
 }
 
+/**
+ * A span of source code; the end position is exclusive
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A comment attached to a node
+ * - leading: on the lines before the node
+ * - trailing: after the node (usually at the end of its line)
+ * - inner: inside an otherwise empty list
+ */
+export interface SComment {
+  text: string;
+  range: SourceRange;
+  placement: "leading" | "trailing" | "inner";
+}
+
 /**
  * Parse error with source position information
  */
@@ -100,21 +121,22 @@ const TOKEN_PATTERNS = {
  * Parse HQL source code into S-expressions
  * @param input The HQL source code to parse
  * @param tolerant Whether to tolerate incomplete expressions (for use in editor)
+ * @param origin Position of the first character of input, when parsing a slice of a document
  * @returns Array of S-expressions
  */
-export function parse(input: string, tolerant: boolean = false): SExp[] {
+export function parse(input: string, tolerant: boolean = false, origin?: SourcePosition): SExp[] {
   try {
     // Tokenize the input
-    const tokens = tokenize(input);
+    const tokens = tokenize(input, origin);
     
-    // Filter out comments and whitespace
-    const filteredTokens = tokens.filter(token => 
-      token.type !== TokenType.Comment && 
-      token.type !== TokenType.Whitespace
-    );
+    // Set comments aside so the parser only sees code tokens
+    const comments = tokens.filter(token => token.type === TokenType.Comment);
+    const filteredTokens = tokens.filter(token => token.type !== TokenType.Comment);
     
     // Parse the tokens into s-expressions
-    return parseTokens(filteredTokens, input, tolerant);
+    const nodes = parseTokens(filteredTokens, input, tolerant);
+    attachComments(nodes, comments);
+    return nodes;
   } catch (e) {
     if (tolerant && e instanceof ParseError) {
       // In tolerant mode, return partial results for incomplete code
@@ -128,32 +150,38 @@ export function parse(input: string, tolerant: boolean = false): SExp[] {
 /**
  * Tokenize HQL source code
  * @param input The HQL source code to tokenize
+ * @param origin Position of the first character of input
  * @returns Array of tokens
  */
-function tokenize(input: string): Token[] {
+function tokenize(input: string, origin: SourcePosition = { line: 1, column: 1, offset: 0 }): Token[] {
   const tokens: Token[] = [];
-  let remaining = input, line = 1, column = 1, offset = 0;
+  let remaining = input, { line, column, offset } = origin;
   while (remaining.length > 0) {
     const token = matchNextToken(remaining, line, column, offset);
-    if (token.type === TokenType.Comment || token.type === TokenType.Whitespace) {
-      // Update position but don't add comment or whitespace tokens
-      const lines = token.value.split('\n');
-      if (lines.length > 1) {
-        line += lines.length - 1;
-        column = lines[lines.length - 1].length + 1;
-      } else {
-        column += token.value.length;
-      }
-    } else {
+    // Comments are kept so they can be attached to nodes after parsing
+    if (token.type !== TokenType.Whitespace) {
       tokens.push(token);
-      column += token.value.length;
     }
-    offset += token.value.length;
+    ({ line, column, offset } = tokenEnd(token));
     remaining = remaining.substring(token.value.length);
   }
   return tokens;
 }
 
+/**
+ * Get the position just past the end of a token
+ */
+function tokenEnd(token: Token): SourcePosition {
+  const lines = token.value.split('\n');
+  return {
+    line: token.position.line + lines.length - 1,
+    column: lines.length > 1
+      ? lines[lines.length - 1].length + 1
+      : token.position.column + token.value.length,
+    offset: token.position.offset + token.value.length
+  };
+}
+
 /**
  * Match the next token from the input
  */
@@ -264,7 +292,14 @@ function parseExpression(state: ParserState): SExp {
     throw new ParseError("Unexpected end of input", lastPos, state.input);
   }
   const token = state.tokens[state.currentPos++];
-  return parseExpressionByTokenType(token, state);
+  const expr = parseExpressionByTokenType(token, state);
+  if (!expr.range) {
+    // The expression spans from its first token to the last one consumed
+    // (error recovery can step past the final token)
+    const last = state.tokens[Math.min(state.currentPos, state.tokens.length) - 1];
+    expr.range = { start: token.position, end: tokenEnd(last) };
+  }
+  return expr;
 }
 
 /**
@@ -293,12 +328,16 @@ function parseExpressionByTokenType(token: Token, state: ParserState): SExp {
 }
 
 /**
- * Parse a dot access expression (.method or object.method)
+ * Parse a dot access expression (.method or object.method). A dot on its
+ * own, as in `(. obj method)`, stays a symbol so that `obj` is read.
  */
 function parseDotAccess(state: ParserState, dotToken: Token): SExp {
   if (state.currentPos < state.tokens.length) {
+    if (state.tokens[state.currentPos].position.offset !== dotToken.position.offset + 1) {
+      return createSymbol(".", dotToken.position);
+    }
     const nextToken = state.tokens[state.currentPos++];
-    return createSymbol("." + nextToken.value);
+    return createSymbol("." + nextToken.value, dotToken.position);
   }
   throw new ParseError("Expected property name after '.'", dotToken.position, state.input);
 }
@@ -386,7 +425,13 @@ function parseList(state: ParserState): SList {
           const typeName = state.tokens[state.currentPos].value;
           
           // Replace the enum name with combined enum name and type
-          elements[1] = createSymbol(`${enumNameSym.name}:${typeName}`);
+          elements[1] = createSymbol(`${enumNameSym.name}:${typeName}`, enumNameSym.position);
+          if (enumNameSym.range) {
+            elements[1].range = {
+              start: enumNameSym.range.start,
+              end: tokenEnd(state.tokens[state.currentPos])
+            };
+          }
           
           // Skip the type token since we've incorporated it
           state.currentPos++;
@@ -459,7 +504,12 @@ function parseList(state: ParserState): SList {
               state.currentPos++;
               
               // Add the array type as a list with one element (the inner type)
-              elements.push(createList(innerType));
+              const arrayType = createDelimitedList("bracket", [innerType]);
+              arrayType.range = {
+                start: arrayTypeStartToken.position,
+                end: tokenEnd(state.tokens[state.currentPos - 1])
+              };
+              elements.push(arrayType);
             }
           }
         } else {
@@ -486,7 +536,7 @@ function parseList(state: ParserState): SList {
   if (state.currentPos >= state.tokens.length) {
     if (state.tolerant) {
       // In tolerant mode, return a partial list for unclosed expressions
-      return createList(...elements);
+      return createDelimitedList("paren", elements);
     } else {
       throw new ParseError("Unclosed list", listStartPos, state.input);
     }
@@ -494,7 +544,7 @@ function parseList(state: ParserState): SList {
   
   state.currentPos++;
   
-  return createList(...elements);
+  return createDelimitedList("paren", elements);
 }
 
 /**
@@ -526,16 +576,16 @@ function parseVector(state: ParserState): SList {
     if (state.tolerant) {
       // In tolerant mode, return a partial vector for unclosed expressions
       return elements.length === 0
-        ? createList(createSymbol("empty-array"))
-        : createList(createSymbol("vector"), ...elements);
+        ? createDelimitedList("bracket", [createSymbol("empty-array")])
+        : createDelimitedList("bracket", [createSymbol("vector"), ...elements]);
     } else {
       throw new ParseError("Unclosed vector", startPos, state.input);
     }
   }
   state.currentPos++;
   return elements.length === 0
-    ? createList(createSymbol("empty-array"))
-    : createList(createSymbol("vector"), ...elements);
+    ? createDelimitedList("bracket", [createSymbol("empty-array")])
+    : createDelimitedList("bracket", [createSymbol("vector"), ...elements]);
 }
 
 /**
@@ -598,16 +648,16 @@ function parseMap(state: ParserState): SList {
     if (state.tolerant) {
       // In tolerant mode, return a partial map for unclosed expressions
       return entries.length === 0
-        ? createList(createSymbol("empty-map"))
-        : createList(createSymbol("hash-map"), ...entries);
+        ? createDelimitedList("brace", [createSymbol("empty-map")])
+        : createDelimitedList("brace", [createSymbol("hash-map"), ...entries]);
     } else {
       throw new ParseError("Unclosed map", startPos, state.input);
     }
   }
   state.currentPos++;
   return entries.length === 0
-    ? createList(createSymbol("empty-map"))
-    : createList(createSymbol("hash-map"), ...entries);
+    ? createDelimitedList("brace", [createSymbol("empty-map")])
+    : createDelimitedList("brace", [createSymbol("hash-map"), ...entries]);
 }
 
 /**
@@ -639,21 +689,83 @@ function parseSet(state: ParserState): SList {
     if (state.tolerant) {
       // In tolerant mode, return a partial set for unclosed expressions
       return elements.length === 0
-        ? createList(createSymbol("empty-set"))
-        : createList(createSymbol("hash-set"), ...elements);
+        ? createDelimitedList("hash-bracket", [createSymbol("empty-set")])
+        : createDelimitedList("hash-bracket", [createSymbol("hash-set"), ...elements]);
     } else {
       throw new ParseError("Unclosed set", startPos, state.input);
     }
   }
   state.currentPos++;
   return elements.length === 0
-    ? createList(createSymbol("empty-set"))
-    : createList(createSymbol("hash-set"), ...elements);
+    ? createDelimitedList("hash-bracket", [createSymbol("empty-set")])
+    : createDelimitedList("hash-bracket", [createSymbol("hash-set"), ...elements]);
+}
+
+/**
+ * Create a list that remembers the delimiter it was written with
+ */
+function createDelimitedList(delimiter: ListDelimiter, elements: SExp[]): SList {
+  const list = createList(...elements);
+  list.delimiter = delimiter;
+  return list;
+}
+
+/**
+ * Attach comment tokens to the nodes around them. Within the innermost
+ * enclosing list, a comment belongs to the previous node when it shares
+ * that node's last line, otherwise to the next node; comments in an
+ * empty list belong to the list itself.
+ */
+function attachComments(nodes: SExp[], comments: Token[]): void {
+  for (const token of comments) {
+    const range: SourceRange = { start: token.position, end: tokenEnd(token) };
+
+    // Descend into the innermost list that encloses the comment
+    let siblings = nodes;
+    let container: SList | undefined;
+    let enclosing: SExp | undefined;
+    do {
+      enclosing = siblings.find(node =>
+        node.type === "list" && node.range !== undefined &&
+        node.range.start.offset < range.start.offset &&
+        range.end.offset <= node.range.end.offset
+      );
+      if (enclosing && enclosing.type === "list") {
+        container = enclosing;
+        siblings = enclosing.elements;
+      }
+    } while (enclosing);
+
+    // Synthesized nodes have no range and cannot own comments
+    const positioned = siblings.filter(node => node.range !== undefined);
+    const previous = positioned.filter(node => node.range!.end.offset <= range.start.offset).pop();
+    const next = positioned.find(node => node.range!.start.offset >= range.end.offset);
+
+    if (previous && (!next || previous.range!.end.line === range.start.line)) {
+      addComment(previous, { text: token.value, range, placement: "trailing" });
+    } else if (next) {
+      addComment(next, { text: token.value, range, placement: "leading" });
+    } else if (container) {
+      addComment(container, { text: token.value, range, placement: "inner" });
+    }
+  }
+}
+
+/**
+ * Add a comment to a node
+ */
+function addComment(node: SExp, comment: SComment): void {
+  if (!node.comments) {
+    node.comments = [];
+  }
+  node.comments.push(comment);
 }
 
 // Export all the S-expression types for other modules to use
 export {
   SExp,
+  SNode,
+  ListDelimiter,
   SList,
   SSymbol,
   SString,
@@ -1,44 +1,65 @@
 // src/s-exp/types.ts - S-expression type definitions
 
-import { SourcePosition } from '../parser';
+import { SComment, SourcePosition, SourceRange } from '../parser';
 
 /**
  * Core S-expression types representing the fundamental HQL building blocks
  */
 export type SExp = SSymbol | SList | SLiteral | SString | SNumber | SBoolean | SNil;
 
-export interface SSymbol {
+/**
+ * Source information shared by every node produced by the parser.
+ * Nodes synthesized by the parser (like the `vector` head of `[...]`)
+ * have no range.
+ */
+export interface SNode {
+  range?: SourceRange;
+  comments?: SComment[];
+}
+
+/**
+ * The delimiter a list was written with in the source
+ * - paren: (...)
+ * - bracket: [...] vectors
+ * - brace: {...} maps
+ * - hash-bracket: #[...] sets
+ * Lists produced by reader shorthands like 'x have no delimiter.
+ */
+export type ListDelimiter = "paren" | "bracket" | "brace" | "hash-bracket";
+
+export interface SSymbol extends SNode {
   type: "symbol";
   name: string;
   position?: SourcePosition;
 }
 
-export interface SList {
+export interface SList extends SNode {
   type: "list";
   elements: SExp[];
+  delimiter?: ListDelimiter;
 }
 
-export interface SLiteral {
+export interface SLiteral extends SNode {
   type: "literal";
   value: string | number | boolean | null;
 }
 
-export interface SString {
+export interface SString extends SNode {
   type: "string";
   value: string;
 }
 
-export interface SNumber {
+export interface SNumber extends SNode {
   type: "number";
   value: number;
 }
 
-export interface SBoolean {
+export interface SBoolean extends SNode {
   type: "boolean";
   value: boolean;
 }
 
-export interface SNil {
+export interface SNil extends SNode {
   type: "nil";
   value: null;
 }
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as os from 'os';
 import * as path from 'path';
-import { isServerAlive } from './client';
+import { closeReplClients, DEFAULT_SERVER_URL, getHttpServerUrl, isServerAlive } from './client';
 import { Logger } from './logger';
 
 // Create a logger
@@ -20,7 +20,7 @@ let serverProcess: ServerProcess | null = null;
  * Get the URL of the HQL REPL server from settings
  */
 export function getServerUrl(): string {
-  return vscode.workspace.getConfiguration('hql').get<string>('server.url', 'http://localhost:5100');
+  return vscode.workspace.getConfiguration('hql').get<string>('server.url', DEFAULT_SERVER_URL);
 }
 
 /**
@@ -253,30 +253,41 @@ export async function stopServer(): Promise<boolean> {
   try {
     serverProcess.outputChannel.appendLine('Stopping HQL REPL server...');
     
-    // Try graceful shutdown first via HTTP request
-    try {
-      const response = await fetch(`${getServerUrl()}/shutdown`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'shutdown' })
-      });
-      
-      if (response.ok) {
-        serverProcess.outputChannel.appendLine('Server shutdown request successful');
-        
-        // Wait a bit for graceful shutdown
-        await new Promise(resolve => setTimeout(resolve, 2000));
+    // Whether the server is reached over HTTP, also after falling back to it
+    const httpUrl = await getHttpServerUrl(getServerUrl());
+    
+    // Close the nREPL sessions before the server goes away
+    await closeReplClients();
+    
+    if (httpUrl) {
+      // Try graceful shutdown first via HTTP request
+      try {
+        const response = await fetch(`${httpUrl}/shutdown`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'shutdown' })
+        });
         
-        // If the server is still running, force kill it
-        if (!serverProcess.process.killed) {
+        if (response.ok) {
+          serverProcess.outputChannel.appendLine('Server shutdown request successful');
+          
+          // Wait a bit for graceful shutdown
+          await new Promise(resolve => setTimeout(resolve, 2000));
+          
+          // If the server is still running, force kill it
+          if (!serverProcess.process.killed) {
+            serverProcess.process.kill('SIGTERM');
+          }
+        } else {
+          // If HTTP shutdown fails, try to kill the process
           serverProcess.process.kill('SIGTERM');
         }
-      } else {
+      } catch (err) {
         // If HTTP shutdown fails, try to kill the process
         serverProcess.process.kill('SIGTERM');
       }
-    } catch (err) {
-      // If HTTP shutdown fails, try to kill the process
+    } else {
+      // nREPL has no shutdown op
       serverProcess.process.kill('SIGTERM');
     }
     
@@ -53,6 +53,9 @@ import {
           case 9: // Constructor
             return CompletionItemKind.Constructor;
             
+          case 14: // Constant
+            return CompletionItemKind.Constant;
+            
           default:
             return CompletionItemKind.Text;
         }
@@ -1024,9 +1027,9 @@ import {
         if (varSymbol && varSymbol.data?.type) {
           // Handle collection types
           if (varSymbol.data.type === 'Array' || varSymbol.data.type === 'Vector') {
-            return getJavaScriptObjectCompletions('Array');
+            return getJavaScriptObjectCompletions('Array', true);
           } else if (varSymbol.data.type === 'String') {
-            return getJavaScriptObjectCompletions('String');
+            return getJavaScriptObjectCompletions('String', true);
           }
           
           // Check if the variable is an instance of a class
@@ -12,8 +12,14 @@ import {
     Range
 } from 'vscode-languageserver';
 import { SymbolManager } from '../symbolManager';
+import { ModuleManager } from '../moduleManager';
 import { getCompletionKindForSymbol } from './core';
 import { generateFunctionCallCompletions }from "./fn"
+import { analyzeScopes, BindingKind, Scope } from '../utils/scope-analysis';
+import { getFormKeyword } from '../utils/scope-utils';
+import { isSymbol } from '../../s-exp/types';
+import { ANY_TYPE, inferTypes } from '../utils/type-inference';
+import { findSymbolAtOffset } from '../utils/module-utils';
 /**
    * Get completions from document symbols (functions, variables, etc),
    * filtered to avoid duplicating template items
@@ -151,4 +157,164 @@ import { generateFunctionCallCompletions }from "./fn"
     }
     
     return completions;
-  }
\ No newline at end of file
+  }
+
+/**
+   * Get completions for the parameters and local bindings in scope at a
+   * position, nearest first; shadowed bindings are left out
+   */
+  export function getLocalBindingCompletions(
+    document: TextDocument,
+    position: Position,
+    word: string,
+    symbolManager: SymbolManager
+  ): CompletionItem[] {
+    const { expressions } = symbolManager.getParsedDocument(document);
+    const analysis = analyzeScopes(expressions);
+    const types = inferTypes(expressions, analysis, symbolManager);
+    const completions: CompletionItem[] = [];
+    
+    analysis.getVisibleBindings(document.offsetAt(position)).forEach((binding, index) => {
+      // Module-level definitions come from the document symbols
+      if (!binding.scope.parent) return;
+      if (word && !binding.name.toLowerCase().startsWith(word.toLowerCase())) return;
+      
+      const type = binding.kind === 'function' ? ANY_TYPE : types.getBindingType(binding);
+      completions.push({
+        label: binding.name,
+        kind: LOCAL_COMPLETION_KINDS[binding.kind],
+        detail: type !== ANY_TYPE ? `${binding.kind} ${binding.name}: ${type}` : `${binding.kind} ${binding.name}`,
+        // Locals sort before everything else, inner scopes first
+        sortText: `10-${String(index).padStart(4, '0')}-${binding.name}`
+      });
+    });
+    
+    return completions;
+  }
+
+/**
+   * Get completions for the fields and methods of a value whose class is
+   * known from type inference, after `obj.` or `this.`
+   */
+  export function getMemberCompletions(
+    document: TextDocument,
+    position: Position,
+    objectName: string,
+    word: string,
+    symbolManager: SymbolManager
+  ): CompletionItem[] {
+    const { expressions } = symbolManager.getParsedDocument(document);
+    const analysis = analyzeScopes(expressions);
+    const types = inferTypes(expressions, analysis, symbolManager);
+    const offset = document.offsetAt(position);
+    let className: string | undefined;
+    
+    if (objectName === 'this') {
+      // The class whose body encloses the position
+      for (let scope: Scope | undefined = analysis.scopeAt(offset); scope && !className; scope = scope.parent) {
+        const name = scope.form?.elements[1];
+        if (scope.form && ['class', 'struct'].includes(getFormKeyword(scope.form) || '') && name && isSymbol(name)) {
+          className = name.name;
+        }
+      }
+    } else {
+      const binding = analysis.lookupAt(objectName, offset);
+      if (!binding || binding.kind === 'enum') return [];
+      
+      // The type at the read being typed, or where the binding is defined
+      const symbol = findSymbolAtOffset(expressions, Math.max(0, offset - 1));
+      className = (symbol && types.getReferenceType(symbol)) || types.getBindingType(binding);
+    }
+    
+    const completions: CompletionItem[] = [];
+    const seen = new Set<string>();
+    
+    for (let classType = className ? types.getClassType(className) : undefined; classType;
+         classType = classType.parent ? types.getClassType(classType.parent) : undefined) {
+      for (const [name, type] of classType.fields) {
+        if (seen.has(name) || !name.toLowerCase().startsWith(word.toLowerCase())) continue;
+        seen.add(name);
+        completions.push({
+          label: name,
+          kind: CompletionItemKind.Field,
+          detail: `${classType.name}.${name}: ${type}`,
+          sortText: `10-${name}`
+        });
+      }
+      
+      for (const [name, method] of classType.methods) {
+        if (seen.has(name) || !name.toLowerCase().startsWith(word.toLowerCase())) continue;
+        seen.add(name);
+        const params = method.params.map(param => param.type !== ANY_TYPE ? `${param.name}: ${param.type}` : param.name);
+        completions.push({
+          label: name,
+          kind: CompletionItemKind.Method,
+          detail: `${classType.name}.${name} (${params.join(' ')}) (-> ${method.returnType})`,
+          sortText: `10-${name}`
+        });
+      }
+    }
+    
+    return completions;
+  }
+
+  /**
+   * Provide the exports of a module imported as a namespace: `(import m from ...)`
+   * then `m.`, for HQL modules as well as JavaScript modules and their typings
+   */
+  export function getNamespaceMemberCompletions(
+    document: TextDocument,
+    objectName: string,
+    word: string,
+    moduleManager: ModuleManager
+  ): CompletionItem[] {
+    const info = moduleManager.getModuleInfo(document.uri);
+    const binding = info?.imports.get(objectName);
+    if (!info || !binding || !binding.isNamespace) return [];
+    
+    const moduleUri = moduleManager.resolveModule(info.uri, binding.modulePath);
+    if (!moduleUri) return [];
+    
+    // HQL modules only expose what they export; script symbols are all exports
+    const moduleInfo = moduleManager.getModuleInfo(moduleUri);
+    const seen = new Set<string>();
+    
+    return moduleManager.getModuleSymbols(moduleUri)
+      .filter(symbol => {
+        if (symbol.name.includes('.') || seen.has(symbol.name) ||
+            (moduleInfo && !moduleInfo.exports.has(symbol.name)) ||
+            !symbol.name.toLowerCase().startsWith(word.toLowerCase())) {
+          return false;
+        }
+        seen.add(symbol.name);
+        return true;
+      })
+      .map(symbol => {
+        const params = symbol.data?.params?.map(p =>
+          `${p.rest ? '& ' : ''}${p.name}${p.optional ? '?' : ''}${p.type ? ': ' + p.type : ''}`);
+        const detail = params
+          ? `${objectName}.${symbol.name} (${params.join(' ')})${symbol.data?.returnType ? ` (-> ${symbol.data.returnType})` : ''}`
+          : `${objectName}.${symbol.name}${symbol.data?.type ? ': ' + symbol.data.type : ''}`;
+        
+        return {
+          label: symbol.name,
+          kind: getCompletionKindForSymbol(symbol.kind),
+          detail,
+          documentation: symbol.data?.documentation,
+          sortText: `10-${symbol.name}`
+        };
+      });
+  }
+
+const LOCAL_COMPLETION_KINDS: Record<BindingKind, CompletionItemKind> = {
+  function: CompletionItemKind.Function,
+  macro: CompletionItemKind.Function,
+  class: CompletionItemKind.Class,
+  enum: CompletionItemKind.Enum,
+  variable: CompletionItemKind.Variable,
+  import: CompletionItemKind.Module,
+  parameter: CompletionItemKind.Variable,
+  iterator: CompletionItemKind.Variable,
+  member: CompletionItemKind.Field,
+  exception: CompletionItemKind.Variable
+};
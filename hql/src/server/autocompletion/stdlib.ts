@@ -5,6 +5,12 @@ import {
     InsertTextFormat,
   } from 'vscode-languageserver';
 
+import { formatJsSignature, getJsGlobal, getJsGlobalNames } from '../utils/js-globals';
+
+  /**
+   * JavaScript objects whose members are offered with their full names
+   */
+  const QUALIFIED_JS_OBJECTS = ['console', 'Math'];
 
 /**
    * Provide standard library function completions
@@ -17,21 +23,8 @@ import {
       { name: 'str', kind: CompletionItemKind.Function, detail: 'Convert to string' },
       { name: 'concat', kind: CompletionItemKind.Function, detail: 'Concatenate strings or collections' },
       
-      // Console functions
-      { name: 'console.log', kind: CompletionItemKind.Function, detail: 'Log to console' },
-      { name: 'console.error', kind: CompletionItemKind.Function, detail: 'Log error to console' },
-      { name: 'console.warn', kind: CompletionItemKind.Function, detail: 'Log warning to console' },
-      { name: 'console.info', kind: CompletionItemKind.Function, detail: 'Log info to console' },
-      { name: 'console.debug', kind: CompletionItemKind.Function, detail: 'Log debug to console' },
-      
-      // Math functions
-      { name: 'Math.abs', kind: CompletionItemKind.Function, detail: 'Absolute value of a number' },
-      { name: 'Math.min', kind: CompletionItemKind.Function, detail: 'Minimum of values' },
-      { name: 'Math.max', kind: CompletionItemKind.Function, detail: 'Maximum of values' },
-      { name: 'Math.floor', kind: CompletionItemKind.Function, detail: 'Round down to nearest integer' },
-      { name: 'Math.ceil', kind: CompletionItemKind.Function, detail: 'Round up to nearest integer' },
-      { name: 'Math.round', kind: CompletionItemKind.Function, detail: 'Round to nearest integer' },
-      { name: 'Math.random', kind: CompletionItemKind.Function, detail: 'Random value between 0 and 1' },
+      // JavaScript globals, and the console and Math functions
+      ...getJavaScriptGlobalItems(),
       
       // Collection functions
       { name: 'map', kind: CompletionItemKind.Function, detail: 'Transform each element in a collection' },
@@ -249,4 +242,35 @@ import {
     }
 
     return completions;
-  }
\ No newline at end of file
+  }
+
+  /**
+   * List the JavaScript globals and the members of the qualified objects,
+   * described by their signatures
+   */
+  function getJavaScriptGlobalItems(): Array<{ name: string, kind: CompletionItemKind, detail: string }> {
+    const kinds = {
+      function: CompletionItemKind.Function,
+      class: CompletionItemKind.Class,
+      object: CompletionItemKind.Module,
+      value: CompletionItemKind.Constant
+    };
+    const items = getJsGlobalNames().map(name => {
+      const global = getJsGlobal(name)!;
+      const detail = global.kind === 'function' ? formatJsSignature(name, global.callSignatures[0])
+        : global.kind === 'value' ? `${name}: ${global.type}`
+        : `JavaScript ${global.kind} ${name}`;
+      return { name, kind: kinds[global.kind], detail };
+    });
+
+    for (const objectName of QUALIFIED_JS_OBJECTS) {
+      for (const member of getJsGlobal(objectName)?.members || []) {
+        const name = `${objectName}.${member.name}`;
+        items.push(member.kind === 'method'
+          ? { name, kind: CompletionItemKind.Function, detail: formatJsSignature(name, member.signatures[0]) }
+          : { name, kind: CompletionItemKind.Constant, detail: `${name}: ${member.type}` });
+      }
+    }
+
+    return items;
+  }
@@ -0,0 +1,621 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Diagnostic,
+  Range,
+  TextEdit
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as path from 'path';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isNumber, isString, isSymbol } from '../s-exp/types';
+import { SymbolManager } from './symbolManager';
+import { ModuleManager } from './moduleManager';
+import { ReservedKeywordsValidator } from './validator/reservedKeywordsValidator';
+import { EnumExhaustivenessValidator } from './validator/enumExhaustivenessValidator';
+import {
+  findSymbolAtOffset,
+  findTopLevelForm,
+  getStringValue,
+  getVectorElements,
+  parseBindingVector,
+  uriToPath
+} from './utils/module-utils';
+import { analyzeScopes, Binding } from './utils/scope-analysis';
+import { inferTypes } from './utils/type-inference';
+import { getFormKeyword } from './utils/scope-utils';
+
+/**
+ * Messages of the validator diagnostics that have quick fixes
+ */
+const UNDEFINED_SYMBOL_REGEX = /^Symbol '(.+)' is used but not defined$/;
+const RESERVED_KEYWORD_REGEX = /^'(.+)' is a reserved keyword and cannot be used as a (?:symbol|parameter) name$/;
+const UNMATCHED_OPENING_REGEX = /^Unmatched opening delimiter '(.)'$/;
+const UNMATCHED_CLOSING_REGEX = /^Unmatched closing delimiter '(.)'$/;
+const TYPE_MISMATCH_REGEX = /^Type mismatch for parameter '(.+)'\. Expected (.+), got (.+)$/;
+const UNUSED_IMPORT_REGEX = /^Import '(.+)' is never used$/;
+const UNUSED_BINDING_REGEX = /^'(.+)' is declared but never used$/;
+const UNUSED_FUNCTION_REGEX = /^Function '(.+)' is never called$/;
+const UNUSED_PARAMETER_REGEX = /^Parameter '(.+)' is never used$/;
+const MISSING_ENUM_CASES_REGEX = /^Missing cases of enum '(.+)' in (?:cond|match): /;
+
+/**
+ * Closing delimiter for each opening delimiter
+ */
+const CLOSING_DELIMITERS: { [open: string]: string } = {
+  '(': ')',
+  '[': ']',
+  '{': '}'
+};
+
+/**
+ * CodeActionProvider offers quick fixes for the diagnostics reported by
+ * the ValidatorManager
+ */
+export class CodeActionProvider {
+  private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
+  private reservedKeywordsValidator: ReservedKeywordsValidator;
+  private enumExhaustivenessValidator: EnumExhaustivenessValidator;
+
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
+    this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
+    this.reservedKeywordsValidator = new ReservedKeywordsValidator();
+    this.enumExhaustivenessValidator = new EnumExhaustivenessValidator(symbolManager);
+  }
+
+  /**
+   * Provide the quick fixes for the diagnostics in a range
+   */
+  public provideCodeActions(params: CodeActionParams): CodeAction[] {
+    const document = this.symbolManager.getDocument(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of params.context.diagnostics) {
+      try {
+        actions.push(...this.getFixes(document, diagnostic));
+      } catch (error) {
+        console.error(`Error providing code actions: ${error}`);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Get the quick fixes for one diagnostic
+   */
+  private getFixes(document: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+    const message = diagnostic.message;
+    let match: RegExpMatchArray | null;
+
+    if ((match = message.match(UNDEFINED_SYMBOL_REGEX))) {
+      return [
+        ...this.createImportFixes(document, diagnostic, match[1]),
+        ...this.createStubFunctionFix(document, diagnostic, match[1])
+      ];
+    }
+
+    if ((match = message.match(RESERVED_KEYWORD_REGEX))) {
+      return this.createKeywordRenameFix(document, diagnostic, match[1]);
+    }
+
+    if ((match = message.match(UNMATCHED_OPENING_REGEX))) {
+      return this.createClosingDelimiterFix(document, diagnostic, match[1]);
+    }
+
+    if ((match = message.match(UNMATCHED_CLOSING_REGEX))) {
+      return [this.createFix(`Remove unmatched '${match[1]}'`, document, diagnostic, [
+        TextEdit.del(diagnostic.range)
+      ])];
+    }
+
+    if ((match = message.match(TYPE_MISMATCH_REGEX))) {
+      return this.createConversionFix(document, diagnostic, match[2], match[3]);
+    }
+
+    if ((match = message.match(UNUSED_IMPORT_REGEX) || message.match(UNUSED_BINDING_REGEX) ||
+                 message.match(UNUSED_FUNCTION_REGEX))) {
+      return this.createRemoveUnusedFix(document, diagnostic, match[1]);
+    }
+
+    if ((match = message.match(MISSING_ENUM_CASES_REGEX))) {
+      return this.createMissingCasesFix(document, diagnostic, match[1]);
+    }
+
+    if ((match = message.match(UNUSED_PARAMETER_REGEX))) {
+      return [this.createFix(`Prefix '${match[1]}' with an underscore`, document, diagnostic, [
+        TextEdit.insert(diagnostic.range.start, '_')
+      ])];
+    }
+
+    return [];
+  }
+
+  /**
+   * Import an undefined symbol from each workspace module that exports it
+   */
+  private createImportFixes(document: TextDocument, diagnostic: Diagnostic, name: string): CodeAction[] {
+    const info = this.moduleManager.getModuleInfo(document.uri);
+    if (!info) {
+      return [];
+    }
+
+    const fixes: CodeAction[] = [];
+
+    for (const uri of this.moduleManager.getWorkspaceFiles()) {
+      if (uri === document.uri) continue;
+
+      const moduleInfo = this.moduleManager.getModuleInfo(uri);
+      if (!moduleInfo || !moduleInfo.exports.has(name)) continue;
+
+      const modulePath = this.getImportPath(document.uri, uri);
+      const edit = this.addToExistingImport(document, info.expressions, uri, name)
+        || this.insertImport(document, info.expressions, name, modulePath);
+
+      const fix = this.createFix(`Import '${name}' from "${modulePath}"`, document, diagnostic, [edit]);
+      fix.isPreferred = fixes.length === 0;
+      fixes.push(fix);
+    }
+
+    return fixes;
+  }
+
+  /**
+   * Get the relative path to import one module from another
+   */
+  private getImportPath(fromUri: string, toUri: string): string {
+    const relative = path.relative(path.dirname(uriToPath(fromUri)), uriToPath(toUri)).split(path.sep).join('/');
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+
+  /**
+   * Add a name to an `(import [...] from "module")` form that already
+   * imports from the module
+   */
+  private addToExistingImport(
+    document: TextDocument,
+    expressions: SExp[],
+    moduleUri: string,
+    name: string
+  ): TextEdit | undefined {
+    for (const expr of expressions) {
+      if (!isList(expr) || !isSymbol(expr.elements[0]) || expr.elements[0].name !== 'import') continue;
+
+      const vector = expr.elements[1];
+      const modulePath = getStringValue(expr.elements[3]);
+      if (!vector || !isList(vector) || vector.delimiter !== 'bracket' || !vector.range || !modulePath) continue;
+      if (this.moduleManager.resolveModule(document.uri, modulePath) !== moduleUri) continue;
+
+      // Insert before the closing bracket, keeping the vector's comma style
+      const vectorText = document.getText().substring(vector.range.start.offset, vector.range.end.offset);
+      const separator = getVectorElements(vector).length === 0 ? '' : (vectorText.includes(',') ? ', ' : ' ');
+      return TextEdit.insert(document.positionAt(vector.range.end.offset - 1), `${separator}${name}`);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Insert a new import form after the last import, or at the top of the file
+   */
+  private insertImport(document: TextDocument, expressions: SExp[], name: string, modulePath: string): TextEdit {
+    const statement = `(import [${name}] from "${modulePath}")`;
+
+    const imports = expressions.filter(expr =>
+      isList(expr) && isSymbol(expr.elements[0]) && expr.elements[0].name === 'import' && expr.range
+    );
+    const lastImport = imports[imports.length - 1];
+
+    if (lastImport) {
+      return TextEdit.insert(document.positionAt(lastImport.range!.end.offset), `\n${statement}`);
+    }
+
+    return TextEdit.insert({ line: 0, character: 0 }, `${statement}\n\n`);
+  }
+
+  /**
+   * Create a stub `fn` for a symbol that is called but never defined
+   */
+  private createStubFunctionFix(document: TextDocument, diagnostic: Diagnostic, name: string): CodeAction[] {
+    const expressions = this.symbolManager.getParsedDocument(document).expressions;
+    const symbol = findSymbolAtOffset(expressions, document.offsetAt(diagnostic.range.start));
+    if (!symbol || symbol.name !== name) {
+      return [];
+    }
+
+    const call = findCallOf(expressions, symbol);
+    const form = findTopLevelForm(expressions, symbol);
+    if (!call || !form || !form.range) {
+      return [];
+    }
+
+    const stub = `(fn ${name} (${this.getStubParameters(call).join(' ')})\n  nil)\n\n`;
+    const position = { line: leadingStart(form).line - 1, character: 0 };
+
+    return [this.createFix(`Create function '${name}'`, document, diagnostic, [
+      TextEdit.insert(position, stub)
+    ])];
+  }
+
+  /**
+   * Name the parameters of a stub after the arguments of its call
+   */
+  private getStubParameters(call: SList): string[] {
+    const names: string[] = [];
+    const args = call.elements.slice(1);
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      let name = `arg${names.length + 1}`;
+
+      if (isSymbol(arg) && arg.name.length > 1 && arg.name.endsWith(':')) {
+        // Named arguments name their parameter
+        name = arg.name.slice(0, -1);
+        i++;
+      } else if (isSymbol(arg) && /^[a-zA-Z_][\w-]*$/.test(arg.name) &&
+                 !this.reservedKeywordsValidator.isReservedKeyword(arg.name)) {
+        name = arg.name;
+      }
+
+      while (names.includes(name)) {
+        name = `${name}${names.length + 1}`;
+      }
+      names.push(name);
+    }
+
+    return names;
+  }
+
+  /**
+   * Rename an identifier that uses a reserved keyword: its binding and the
+   * references that resolve to it, as rename does. Other uses of the
+   * keyword keep their meaning.
+   */
+  private createKeywordRenameFix(document: TextDocument, diagnostic: Diagnostic, name: string): CodeAction[] {
+    const occurrence = this.moduleManager.resolveAtPosition(document.uri, diagnostic.range.start);
+    if (!occurrence || occurrence.text !== name) {
+      return [];
+    }
+
+    const newName = `${name}-value`;
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const seen = new Set<string>();
+
+    for (const reference of this.moduleManager.findReferences(occurrence.target)) {
+      const key = `${reference.uri}:${reference.range.start.line}:${reference.range.start.character}`;
+      if (reference.text !== name || seen.has(key)) continue;
+      seen.add(key);
+
+      (changes[reference.uri] = changes[reference.uri] || []).push(TextEdit.replace(reference.range, newName));
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return [];
+    }
+
+    return [{
+      title: `Rename '${name}' to '${newName}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: { changes }
+    }];
+  }
+
+  /**
+   * Remove an unused import entry, binding or function
+   */
+  private createRemoveUnusedFix(document: TextDocument, diagnostic: Diagnostic, name: string): CodeAction[] {
+    const expressions = this.symbolManager.getParsedDocument(document).expressions;
+    const symbol = findSymbolAtOffset(expressions, document.offsetAt(diagnostic.range.start));
+    const binding = symbol && analyzeScopes(expressions).getDefinition(symbol);
+    if (!binding || binding.name !== name) {
+      return [];
+    }
+
+    const edit = this.getRemoveBindingEdit(document, binding);
+    if (!edit) {
+      return [];
+    }
+
+    const what = binding.kind === 'import' ? 'import' : binding.kind === 'function' ? 'function' : 'binding';
+    const fix = this.createFix(`Remove unused ${what} '${name}'`, document, diagnostic, [edit]);
+    fix.isPreferred = true;
+    return [fix];
+  }
+
+  /**
+   * Get the edit that deletes a binding: its entry in an import vector or
+   * binding list, or the whole form when the form binds nothing else
+   */
+  private getRemoveBindingEdit(document: TextDocument, binding: Binding): TextEdit | undefined {
+    const form = binding.form;
+    const target = form.elements[1];
+
+    if (binding.kind === 'import' && target && isList(target)) {
+      const entries = parseBindingVector(target);
+      const entry = entries.find(e => (e.alias || e.name) === binding.node);
+      if (entry && entries.length > 1 && entry.name.position) {
+        return removeSpan(document, entry.name.position.offset, symbolEnd(binding.node));
+      }
+    } else if (target && isList(target) && getFormKeyword(form) !== 'import') {
+      // One pair of `(let (a 1 b 2) body)`; the body still needs its list
+      const elements = target.elements.filter(e => !(isSymbol(e) && e.name === ','));
+      const index = elements.indexOf(binding.node);
+      const value = elements[index + 1];
+      if (index < 0 || !binding.node.position || !value) {
+        return undefined;
+      }
+      const end = isSymbol(value) ? symbolEnd(value) : value.range?.end.offset;
+      return end === undefined ? undefined : removeSpan(document, binding.node.position.offset, end);
+    }
+
+    return form.range ? removeForm(document, form) : undefined;
+  }
+
+  /**
+   * Add a clause for every case a cond or match over an enum misses,
+   * written like the form's first clause
+   */
+  private createMissingCasesFix(document: TextDocument, diagnostic: Diagnostic, enumName: string): CodeAction[] {
+    const expressions = this.symbolManager.getParsedDocument(document).expressions;
+    const head = findSymbolAtOffset(expressions, document.offsetAt(diagnostic.range.start));
+    const form = head && findCallOf(expressions, head);
+    const branching = form && this.enumExhaustivenessValidator.getEnumBranching(form, inferTypes(expressions, analyzeScopes(expressions), this.symbolManager));
+    if (!branching || branching.enumName !== enumName || branching.missing.length === 0) {
+      return [];
+    }
+
+    const { template } = branching;
+    const firstClause = form!.elements[branching.keyword === 'match' ? 2 : 1] as SList;
+    const lastClause = form!.elements[form!.elements.length - 1];
+    const test = firstClause.elements[0];
+    if (!lastClause.range || !template.position || !(isSymbol(test) || test.range)) {
+      return [];
+    }
+
+    // Each stub repeats the first clause's test with another case
+    const text = document.getText();
+    const testStart = isSymbol(test) ? template.position.offset : test.range!.start.offset;
+    const testEnd = isSymbol(test) ? testStart + template.name.length : test.range!.end.offset;
+    const before = text.substring(testStart, template.position.offset);
+    const after = text.substring(template.position.offset + template.name.length, testEnd);
+    const prefix = template.name.startsWith('.') ? '.' : `${enumName}.`;
+
+    const clauseStart = document.positionAt(lastClause.range.start.offset);
+    const ownLine = !document.getText(Range.create(clauseStart.line, 0, clauseStart.line, clauseStart.character)).trim();
+    const separator = ownLine ? `\n${' '.repeat(clauseStart.character)}` : ' ';
+
+    const stubs = branching.missing
+      .map(name => `${separator}(${before}${prefix}${name}${after} nil)`)
+      .join('');
+
+    return [this.createFix(`Add missing cases of '${enumName}'`, document, diagnostic, [
+      TextEdit.insert(document.positionAt(lastClause.range.end.offset), stubs)
+    ])];
+  }
+
+  /**
+   * Close an unmatched opening delimiter at the end of its form: before the
+   * next line that starts a top-level form, or at the end of the document
+   */
+  private createClosingDelimiterFix(document: TextDocument, diagnostic: Diagnostic, open: string): CodeAction[] {
+    const close = CLOSING_DELIMITERS[open];
+    if (!close) {
+      return [];
+    }
+
+    const lines = document.getText().split('\n');
+    let endLine = lines.length - 1;
+
+    for (let line = diagnostic.range.start.line + 1; line < lines.length; line++) {
+      if (/^[(\[{]/.test(lines[line])) {
+        endLine = line - 1;
+        break;
+      }
+    }
+
+    // Skip blank lines and keep the delimiter out of trailing comments
+    while (endLine > diagnostic.range.start.line && codeEnd(lines[endLine]) === 0) {
+      endLine--;
+    }
+
+    const position = { line: endLine, character: codeEnd(lines[endLine]) };
+    const fix = this.createFix(`Insert missing '${close}'`, document, diagnostic, [
+      TextEdit.insert(position, close)
+    ]);
+    fix.isPreferred = true;
+    return [fix];
+  }
+
+  /**
+   * Convert an argument to the type a parameter expects
+   */
+  private createConversionFix(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    expected: string,
+    actual: string
+  ): CodeAction[] {
+    const expressions = this.symbolManager.getParsedDocument(document).expressions;
+    const expr = findExpressionAt(expressions, document.offsetAt(diagnostic.range.start));
+    if (!expr || !expr.range) {
+      return [];
+    }
+
+    const text = document.getText().substring(expr.range.start.offset, expr.range.end.offset);
+    const converted = convertExpression(expr, text, expected, actual);
+    if (converted === undefined) {
+      return [];
+    }
+
+    const range = Range.create(document.positionAt(expr.range.start.offset), document.positionAt(expr.range.end.offset));
+    return [this.createFix(`Convert ${actual} argument to ${expected}`, document, diagnostic, [
+      TextEdit.replace(range, converted)
+    ])];
+  }
+
+  /**
+   * Create a quick fix that edits one document
+   */
+  private createFix(title: string, document: TextDocument, diagnostic: Diagnostic, edits: TextEdit[]): CodeAction {
+    return {
+      title,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: { changes: { [document.uri]: edits } }
+    };
+  }
+}
+
+/**
+ * Write an expression as the type a parameter expects, if there is a
+ * conversion for it
+ */
+function convertExpression(expr: SExp, text: string, expected: string, actual: string): string | undefined {
+  switch (expected) {
+    case 'String':
+      return isNumber(expr) || (isSymbol(expr) && (expr.name === 'true' || expr.name === 'false'))
+        ? `"${text}"`
+        : `(str ${text})`;
+    case 'Int':
+    case 'Float':
+    case 'Double':
+    case 'Number': {
+      // Numeric string literals become number literals
+      const pattern = expected === 'Int' ? /^-?\d+$/ : /^-?\d+(\.\d+)?$/;
+      if (isString(expr) && pattern.test(expr.value.trim())) {
+        return expr.value.trim();
+      }
+      if (actual === 'String' && expected !== 'Number') {
+        return `(${expected === 'Int' ? 'parseInt' : 'parseFloat'} ${text})`;
+      }
+      return `(Number ${text})`;
+    }
+    case 'Bool':
+    case 'Boolean':
+      return `(Boolean ${text})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find the list whose head is a symbol node
+ */
+function findCallOf(expressions: SExp[], head: SSymbol): SList | undefined {
+  for (const expr of expressions) {
+    if (!isList(expr)) continue;
+    if (expr.elements[0] === head) {
+      return expr;
+    }
+    const found = findCallOf(expr.elements, head);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the outermost expression that starts at an offset
+ */
+function findExpressionAt(expressions: SExp[], offset: number): SExp | undefined {
+  for (const expr of expressions) {
+    if (!expr.range || offset < expr.range.start.offset || offset >= expr.range.end.offset) continue;
+    if (expr.range.start.offset === offset) {
+      return expr;
+    }
+    if (isList(expr)) {
+      return findExpressionAt(expr.elements, offset);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the offset just past a symbol
+ */
+function symbolEnd(symbol: SSymbol): number {
+  return symbol.position!.offset + symbol.name.length;
+}
+
+/**
+ * Delete an entry of a vector or list with the separator that follows it,
+ * or the one before it when it is the last entry
+ */
+function removeSpan(document: TextDocument, start: number, end: number): TextEdit {
+  const text = document.getText();
+  let after = end;
+  while (after < text.length && /[ \t,]/.test(text[after])) after++;
+
+  if (after < text.length && /[\]\)}\n]/.test(text[after])) {
+    after = end;
+    while (start > 0 && /[ \t,]/.test(text[start - 1])) start--;
+  }
+
+  return TextEdit.del(Range.create(document.positionAt(start), document.positionAt(after)));
+}
+
+/**
+ * Delete a form, with its leading comments and the rest of its lines when
+ * nothing else shares them
+ */
+function removeForm(document: TextDocument, form: SList): TextEdit {
+  const text = document.getText();
+  let start = leadingStart(form).offset;
+  let end = form.range!.end.offset;
+
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  let lineEnd = text.indexOf('\n', end);
+  if (lineEnd === -1) lineEnd = text.length;
+
+  if (!text.substring(lineStart, start).trim() && !text.substring(end, lineEnd).trim()) {
+    start = lineStart;
+    end = Math.min(lineEnd + 1, text.length);
+  }
+
+  return TextEdit.del(Range.create(document.positionAt(start), document.positionAt(end)));
+}
+
+/**
+ * Where a top-level form starts, including the comments that lead it
+ */
+function leadingStart(form: SExp): { line: number; offset: number } {
+  let start = form.range!.start;
+  for (const comment of form.comments || []) {
+    if (comment.placement === 'leading' && comment.range.start.offset < start.offset) {
+      start = comment.range.start;
+    }
+  }
+  return start;
+}
+
+/**
+ * Get the column where the code on a line ends, before any trailing
+ * comment and whitespace
+ */
+function codeEnd(line: string): number {
+  let inString = false;
+  let end = line.length;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && line[i - 1] !== '\\') {
+      inString = !inString;
+    } else if (!inString && char === ';') {
+      end = i;
+      break;
+    }
+  }
+
+  return line.substring(0, end).trimEnd().length;
+}
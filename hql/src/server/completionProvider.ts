@@ -12,7 +12,12 @@ import {
   MarkupKind
 } from 'vscode-languageserver';
 import { getStdLibCompletions } from "./autocompletion/stdlib"
-import { getDocumentSymbolCompletions } from "./autocompletion/document"
+import {
+  getDocumentSymbolCompletions,
+  getLocalBindingCompletions,
+  getMemberCompletions,
+  getNamespaceMemberCompletions
+} from "./autocompletion/document"
 import { 
   getClassStructFieldCompletions, 
   getClassInstantiationCompletions,
@@ -73,6 +78,7 @@ import * as fs from 'fs';
 import { parse, SExp } from '../parser';
 import { isList, isSymbol, isString } from '../s-exp/types';
 import { SymbolManager, ExtendedSymbolInformation } from './symbolManager';
+import { ModuleManager } from './moduleManager';
 // Import centralized regex patterns
 import * as RegexPatterns from './utils/regex-patterns';
 
@@ -83,11 +89,13 @@ import * as RegexPatterns from './utils/regex-patterns';
  */
 export class CompletionProvider {
   private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
   private workspaceFolders: { uri: string }[] | null = null;
   private dynamicValueCache: Map<string, CompletionItem[]> = new Map();
   
-  constructor(symbolManager: SymbolManager) {
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
     this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
   }
 
   /**
@@ -464,6 +472,22 @@ export class CompletionProvider {
         }
       }
       
+      // Fields and methods of a value whose class is inferred: p.x, this.x,
+      // or the exports of a namespace import: m.x
+      const memberAccessMatch = linePrefix.match(RegexPatterns.MEMBER_ACCESS_REGEX);
+      if (memberAccessMatch) {
+        const [_, objectName, memberPrefix] = memberAccessMatch;
+        const namespaceItems = getNamespaceMemberCompletions(document, objectName, memberPrefix, this.moduleManager);
+        if (namespaceItems.length > 0) {
+          return namespaceItems;
+        }
+        
+        const memberItems = getMemberCompletions(document, position, objectName, memberPrefix, this.symbolManager);
+        if (memberItems.length > 0) {
+          return memberItems;
+        }
+      }
+      
       // Check for special syntax completions for class, struct, loop, etc.
       const specialSyntaxCompletions = handleSpecialSyntaxCompletions(document, linePrefix, position);
       if (specialSyntaxCompletions.length > 0) {
@@ -575,6 +599,7 @@ export class CompletionProvider {
       
       // Always provide document symbols (functions, variables) as completion options
       const documentItems = getDocumentSymbolCompletions(document, position, currentWord, this.symbolManager);
+      const localItems = getLocalBindingCompletions(document, position, currentWord, this.symbolManager);
       
       // Check if we're after a left parenthesis, which suggests the start of an expression
       if (linePrefix.trim().endsWith('(')) {
@@ -592,8 +617,8 @@ export class CompletionProvider {
             } as CompletionItem;
           });
           
-        // Combine with standard library items and template completions
-        let completions = [...symbolItems];
+        // Combine with local bindings, standard library items and template completions
+        let completions = [...localItems, ...symbolItems];
         
         // Add standard library and template completions
         const stdlibItems = getStdLibCompletions(currentWord);
@@ -698,7 +723,7 @@ export class CompletionProvider {
         }
         
         // Combine all completions
-        let completions = [...documentItems, ...templateItems, ...typeItems, ...stdlibItems, 
+        let completions = [...localItems, ...documentItems, ...templateItems, ...typeItems, ...stdlibItems, 
                           ...controlItems, ...macroItems, ...classItems];
                           
         return this.mergeAndDeduplicate(completions, currentWord);
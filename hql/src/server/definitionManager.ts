@@ -7,17 +7,18 @@ import {
   } from 'vscode-languageserver';
   
   import { SymbolManager } from './symbolManager';
-  import * as path from 'path';
-  import * as fs from 'fs';
+  import { ModuleManager } from './moduleManager';
   
   /**
    * DefinitionProvider handles go-to-definition requests
    */
   export class DefinitionProvider {
     private symbolManager: SymbolManager;
+    private moduleManager: ModuleManager;
     
-    constructor(symbolManager: SymbolManager) {
+    constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
       this.symbolManager = symbolManager;
+      this.moduleManager = moduleManager;
     }
     
     /**
@@ -25,6 +26,15 @@ import {
      */
     public async provideDefinition(params: TextDocumentPositionParams): Promise<Location | null> {
       try {
+        // Follow imports, aliases and re-exports into other modules
+        const occurrence = this.moduleManager.resolveAtPosition(params.textDocument.uri, params.position);
+        if (occurrence) {
+          const location = this.moduleManager.findDefinition(occurrence.target);
+          if (location) {
+            return location;
+          }
+        }
+        
         const document = await this.symbolManager.getDocument(params.textDocument.uri);
         if (!document) {
           return null;
@@ -60,20 +70,6 @@ import {
           }
         }
         
-        // Check for imported symbols
-        for (const symbol of symbols) {
-          if (symbol.data?.sourceModule && symbol.name === word) {
-            // We need to find the original symbol in the source module
-            const sourceModule = symbol.data.sourceModule;
-            
-            // TODO: Implement resolving the module path and looking up the symbol in that module
-            // This would require tracking imported symbols and their source modules
-            
-            // For now, return the import statement location as a fallback
-            return symbol.location;
-          }
-        }
-        
         return null;
       } catch (error) {
         console.error(`Error providing definition: ${error}`);
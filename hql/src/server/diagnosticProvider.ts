@@ -5,6 +5,13 @@ import {
 
 import { SymbolManager } from './symbolManager';
 import { ValidatorManager } from './validator/validatorManager';
+import { ProjectConfigManager } from './projectConfig';
+
+/**
+ * How long to wait after the last edit before validating, so diagnostics
+ * are not computed for half-typed words
+ */
+const VALIDATION_DELAY_MS = 300;
 
 /**
  * DiagnosticsProvider handles validation and errors in HQL files
@@ -12,10 +19,11 @@ import { ValidatorManager } from './validator/validatorManager';
 export class DiagnosticsProvider {
   private symbolManager: SymbolManager;
   private validatorManager: ValidatorManager;
+  private pendingValidations: Map<string, ReturnType<typeof setTimeout>> = new Map();
   
-  constructor(symbolManager: SymbolManager) {
+  constructor(symbolManager: SymbolManager, projectConfig?: ProjectConfigManager) {
     this.symbolManager = symbolManager;
-    this.validatorManager = new ValidatorManager(symbolManager);
+    this.validatorManager = new ValidatorManager(symbolManager, projectConfig);
   }
   
   /**
@@ -26,10 +34,52 @@ export class DiagnosticsProvider {
     connection: Connection,
     thorough: boolean = false
   ): Promise<void> {
+    this.cancelValidation(textDocument.uri);
+    
     try {
       await this.validatorManager.validateTextDocument(textDocument, connection, thorough);
     } catch (error) {
       console.error(`Error validating document: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
-}
\ No newline at end of file
+  
+  /**
+   * Validate a document once edits have paused
+   */
+  public scheduleValidation(
+    textDocument: TextDocument,
+    connection: Connection,
+    getLatest: () => TextDocument | undefined
+  ): void {
+    this.cancelValidation(textDocument.uri);
+    
+    this.pendingValidations.set(textDocument.uri, setTimeout(() => {
+      this.pendingValidations.delete(textDocument.uri);
+      
+      // The document may have been closed while we were waiting
+      const latest = getLatest();
+      if (latest) {
+        this.validateTextDocument(latest, connection);
+      }
+    }, VALIDATION_DELAY_MS));
+  }
+  
+  /**
+   * Cancel a pending validation and forget cached results for a closed document
+   */
+  public clearDocument(uri: string): void {
+    this.cancelValidation(uri);
+    this.validatorManager.clearDocument(uri);
+  }
+  
+  /**
+   * Cancel a pending validation of a document
+   */
+  private cancelValidation(uri: string): void {
+    const pending = this.pendingValidations.get(uri);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingValidations.delete(uri);
+    }
+  }
+}
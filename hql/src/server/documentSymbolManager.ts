@@ -0,0 +1,291 @@
+import {
+  DocumentSymbol,
+  Range,
+  SymbolKind
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isSymbol } from '../s-exp/types';
+import { SymbolManager } from './symbolManager';
+import { symbolRange } from './utils/module-utils';
+
+/**
+ * Options for the outline
+ * - localFunctions: show functions defined inside function and binding bodies
+ */
+export interface DocumentSymbolOptions {
+  localFunctions: boolean;
+}
+
+/**
+ * DocumentSymbolProvider builds the outline of a document as a tree:
+ * classes contain their fields, methods and constructor, enums their cases
+ */
+export class DocumentSymbolProvider {
+  private symbolManager: SymbolManager;
+
+  constructor(symbolManager: SymbolManager) {
+    this.symbolManager = symbolManager;
+  }
+
+  /**
+   * Provide the outline of a document
+   */
+  public provideDocumentSymbols(
+    document: TextDocument,
+    options: DocumentSymbolOptions = { localFunctions: false }
+  ): DocumentSymbol[] {
+    const { expressions } = this.symbolManager.getParsedDocument(document);
+    const symbols: DocumentSymbol[] = [];
+
+    for (const expr of expressions) {
+      symbols.push(...this.getFormSymbols(document, expr, options));
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Get the symbols a top-level form defines
+   */
+  private getFormSymbols(document: TextDocument, expr: SExp, options: DocumentSymbolOptions): DocumentSymbol[] {
+    if (!isList(expr) || !isSymbol(expr.elements[0]) || !expr.range) {
+      return [];
+    }
+
+    const [head, name] = expr.elements;
+    switch ((head as SSymbol).name) {
+      case 'fn':
+      case 'fx':
+      case 'macro':
+      case 'defmacro':
+        return this.getFunctionSymbols(document, expr, SymbolKind.Function, options);
+
+      case 'let':
+      case 'var':
+        if (isList(name)) {
+          return this.getBindingSymbols(document, expr, options);
+        }
+        return this.getFunctionSymbols(document, expr, SymbolKind.Variable, options);
+
+      case 'class':
+      case 'struct':
+        return this.getClassSymbols(document, expr, options);
+
+      case 'enum':
+        return this.getEnumSymbols(document, expr);
+
+      case 'export':
+        // (export (fn name ...)) defines what it exports
+        return isList(name) ? this.getFormSymbols(document, name, options) : [];
+    }
+
+    return [];
+  }
+
+  /**
+   * Get the symbol of a function, macro or named binding, with the local
+   * functions of its body when asked for
+   */
+  private getFunctionSymbols(
+    document: TextDocument,
+    expr: SList,
+    kind: SymbolKind,
+    options: DocumentSymbolOptions
+  ): DocumentSymbol[] {
+    const [head, name, params] = expr.elements;
+    if (!isSymbol(head) || !isSymbol(name)) {
+      return [];
+    }
+
+    const isFunction = kind !== SymbolKind.Variable;
+    const symbol = this.createSymbol(document, expr, name, kind);
+    symbol.detail = isFunction
+      ? this.getSignature(document, head.name, params, expr.elements[3])
+      : head.name;
+
+    if (options.localFunctions) {
+      symbol.children = this.getLocalFunctions(document, expr.elements.slice(isFunction ? 3 : 2), options);
+    }
+
+    return [symbol];
+  }
+
+  /**
+   * Get the names bound by `(let (a 1 b 2) body)`
+   */
+  private getBindingSymbols(document: TextDocument, expr: SList, options: DocumentSymbolOptions): DocumentSymbol[] {
+    const [head, bindings] = expr.elements;
+    const symbols: DocumentSymbol[] = [];
+
+    for (let i = 0; i < (bindings as SList).elements.length; i += 2) {
+      const name = (bindings as SList).elements[i];
+      if (!isSymbol(name)) continue;
+
+      const symbol = this.createSymbol(document, expr, name, SymbolKind.Variable);
+      symbol.detail = (head as SSymbol).name;
+      symbols.push(symbol);
+    }
+
+    if (options.localFunctions) {
+      symbols.push(...this.getLocalFunctions(document, expr.elements.slice(1), options));
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Get the symbol of a class or struct with its members
+   */
+  private getClassSymbols(document: TextDocument, expr: SList, options: DocumentSymbolOptions): DocumentSymbol[] {
+    const [head, name] = expr.elements;
+    if (!isSymbol(name)) {
+      return [];
+    }
+
+    const isStruct = (head as SSymbol).name === 'struct';
+    const symbol = this.createSymbol(document, expr, name, isStruct ? SymbolKind.Struct : SymbolKind.Class);
+    symbol.children = [];
+
+    let bodyStart = 2;
+    const extendsClause = expr.elements[2];
+    if (isSymbol(extendsClause) && extendsClause.name === 'extends' && isSymbol(expr.elements[3])) {
+      symbol.detail = `extends ${expr.elements[3].name}`;
+      bodyStart = 4;
+    }
+
+    for (const member of expr.elements.slice(bodyStart)) {
+      if (!isList(member) || !isSymbol(member.elements[0]) || !member.range) continue;
+
+      const [keyword, memberName] = member.elements as [SSymbol, SExp];
+      switch (keyword.name) {
+        case 'var':
+        case 'let':
+        case 'field':
+          if (isSymbol(memberName)) {
+            const field = this.createSymbol(document, member, memberName, SymbolKind.Field);
+            field.detail = keyword.name;
+            symbol.children.push(field);
+          }
+          break;
+
+        case 'fn':
+        case 'fx':
+          symbol.children.push(...this.getFunctionSymbols(document, member, SymbolKind.Method, options));
+          break;
+
+        case 'constructor': {
+          const constructor = this.createSymbol(document, member, keyword, SymbolKind.Constructor);
+          constructor.detail = this.getSignature(document, keyword.name, memberName);
+          symbol.children.push(constructor);
+          break;
+        }
+      }
+    }
+
+    return [symbol];
+  }
+
+  /**
+   * Get the symbol of an enum with its cases
+   */
+  private getEnumSymbols(document: TextDocument, expr: SList): DocumentSymbol[] {
+    const name = expr.elements[1];
+    if (!isSymbol(name)) {
+      return [];
+    }
+
+    const symbol = this.createSymbol(document, expr, name, SymbolKind.Enum);
+    symbol.children = [];
+
+    for (const caseExpr of expr.elements.slice(2)) {
+      if (!isList(caseExpr) || !caseExpr.range) continue;
+
+      const [keyword, caseName, ...values] = caseExpr.elements;
+      if (!isSymbol(keyword) || keyword.name !== 'case' || !isSymbol(caseName)) continue;
+
+      const caseSymbol = this.createSymbol(document, caseExpr, caseName, SymbolKind.EnumMember);
+      if (values.length > 0) {
+        caseSymbol.detail = this.sourceText(document, values[0], values[values.length - 1]);
+      }
+      symbol.children.push(caseSymbol);
+    }
+
+    return [symbol];
+  }
+
+  /**
+   * Find the named functions defined anywhere inside some expressions;
+   * functions nested in those become their children
+   */
+  private getLocalFunctions(document: TextDocument, body: SExp[], options: DocumentSymbolOptions): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+
+    for (const expr of body) {
+      if (!isList(expr)) continue;
+
+      const [head, name] = expr.elements;
+      if (isSymbol(head) && (head.name === 'fn' || head.name === 'fx') && isSymbol(name) && expr.range) {
+        symbols.push(...this.getFunctionSymbols(document, expr, SymbolKind.Function, options));
+      } else {
+        symbols.push(...this.getLocalFunctions(document, expr.elements, options));
+      }
+    }
+
+    return symbols;
+  }
+
+  /**
+   * Create a symbol spanning a form, selected at its name. A type in the
+   * name, as in `(enum Status:Int ...)`, is shown as its detail.
+   */
+  private createSymbol(document: TextDocument, form: SList, name: SSymbol, kind: SymbolKind): DocumentSymbol {
+    const range = Range.create(document.positionAt(form.range!.start.offset), document.positionAt(form.range!.end.offset));
+    const separator = name.name.indexOf(':');
+    const hasType = separator > 0 && separator < name.name.length - 1;
+
+    return {
+      name: separator > 0 ? name.name.substring(0, separator) : name.name,
+      detail: hasType ? name.name.substring(separator + 1) : undefined,
+      kind,
+      range,
+      selectionRange: name.position ? symbolRange(document, name) : range
+    };
+  }
+
+  /**
+   * Describe the parameters of a function, and its return type for `fx`
+   */
+  private getSignature(document: TextDocument, keyword: string, params: SExp | undefined, returnType?: SExp): string {
+    let signature = params && isList(params) ? this.sourceText(document, params, params) : keyword;
+
+    if (returnType && isList(returnType) && isSymbol(returnType.elements[0]) &&
+        returnType.elements[0].name === '->' && returnType.elements[1]) {
+      signature += ` -> ${this.sourceText(document, returnType.elements[1], returnType.elements[1])}`;
+    }
+
+    return signature;
+  }
+
+  /**
+   * Get the source of a run of expressions on one line
+   */
+  private sourceText(document: TextDocument, first: SExp, last: SExp): string {
+    const start = nodeStart(first);
+    const end = nodeEnd(last);
+    if (start === undefined || end === undefined) {
+      return '';
+    }
+    return document.getText().substring(start, end).replace(/\s+/g, ' ');
+  }
+}
+
+function nodeStart(expr: SExp): number | undefined {
+  return isSymbol(expr) && expr.position ? expr.position.offset : expr.range?.start.offset;
+}
+
+function nodeEnd(expr: SExp): number | undefined {
+  return isSymbol(expr) && expr.position ? expr.position.offset + expr.name.length : expr.range?.end.offset;
+}
@@ -0,0 +1,86 @@
+/**
+ * Settings that control how HQL code is laid out
+ * - indentSize: spaces per indentation level
+ * - alignParameters: align call arguments with the first argument instead
+ *   of indenting them one level
+ * - lineWidth: forms that fit within this width stay on one line
+ * - indentRules: forms whose first N arguments stay on the head line and
+ *   whose remaining elements are indented as a body, e.g. `{ "when": 1 }`
+ */
+export interface FormatOptions {
+  indentSize: number;
+  alignParameters: boolean;
+  lineWidth: number;
+  indentRules: { [form: string]: number };
+}
+
+/**
+ * Body-indented forms and the number of arguments kept on their head line.
+ * fn, fx and lambda keep their name, parameters and return type on the
+ * head line however many of them are written.
+ */
+export const DEFAULT_INDENT_RULES: { [form: string]: number } = {
+  'fn': 2,
+  'fx': 2,
+  'lambda': 1,
+  'macro': 2,
+  'defmacro': 2,
+  'method': 2,
+  'constructor': 1,
+  'class': 1,
+  'struct': 1,
+  'enum': 1,
+  'case': 1,
+  'let': 1,
+  'var': 1,
+  'loop': 1,
+  'for': 1,
+  'while': 1,
+  'repeat': 1,
+  'if': 1,
+  'when': 1,
+  'unless': 1,
+  'match': 1,
+  'cond': 0,
+  'do': 0,
+  'try': 0,
+  'catch': 1,
+  'finally': 0
+};
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  indentSize: 2,
+  alignParameters: true,
+  lineWidth: 80,
+  indentRules: {}
+};
+
+/**
+ * Build format options from the `hql.format` settings, falling back to the
+ * defaults for anything missing or malformed
+ */
+export function resolveFormatOptions(settings: any, defaults: FormatOptions = DEFAULT_FORMAT_OPTIONS): FormatOptions {
+  const options: FormatOptions = { ...defaults, indentRules: { ...defaults.indentRules } };
+  if (!settings || typeof settings !== 'object') {
+    return options;
+  }
+
+  if (typeof settings.indentSize === 'number' && settings.indentSize >= 0) {
+    options.indentSize = Math.floor(settings.indentSize);
+  }
+  if (typeof settings.alignParameters === 'boolean') {
+    options.alignParameters = settings.alignParameters;
+  }
+  if (typeof settings.lineWidth === 'number' && settings.lineWidth > 0) {
+    options.lineWidth = Math.floor(settings.lineWidth);
+  }
+  if (settings.indentRules && typeof settings.indentRules === 'object') {
+    for (const [form, count] of Object.entries(settings.indentRules)) {
+      if (typeof count === 'number' && count >= 0) {
+        options.indentRules[form] = Math.floor(count);
+      }
+    }
+  }
+
+  return options;
+}
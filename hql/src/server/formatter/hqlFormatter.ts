@@ -4,9 +4,13 @@ import {
   Range,
   Position
 } from 'vscode-languageserver';
+import { DEFAULT_FORMAT_OPTIONS, FormatOptions } from './formatOptions';
+import { PrettyPrinter } from './prettyPrinter';
+import { computeLineEdits } from './lineEdits';
+import { getLineIndent, scanOpenLists } from './lineIndenter';
 
 /**
- * Formatter for HQL code that balances parentheses and reindents
+ * Formatter for HQL code that balances parentheses and lays out code
  */
 export class HqlFormatter {
   /**
@@ -108,76 +112,116 @@ export class HqlFormatter {
   }
   
   /**
-   * Reindent an HQL document
+   * Lay out an HQL document from its syntax tree
    */
-  public reindentDocument(document: TextDocument): TextEdit[] {
+  public reindentDocument(document: TextDocument, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TextEdit[] {
     const text = document.getText();
-    const edits: TextEdit[] = [];
+    const formatted = new PrettyPrinter(text, options).print();
+
+    // Code that does not parse is left alone
+    if (formatted === undefined) {
+      return [];
+    }
+
+    return computeLineEdits(document, 0, text.length, formatted);
+  }
+  
+  /**
+   * Lay out the top-level forms a range touches
+   */
+  public formatRange(document: TextDocument, range: Range, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TextEdit[] {
+    const text = document.getText();
+    const printed = new PrettyPrinter(text, options)
+      .printRange(document.offsetAt(range.start), document.offsetAt(range.end));
+
+    if (!printed) {
+      return [];
+    }
+
+    // A form indented on its line moves to the first column
+    let start = printed.start;
+    const lineStart = start > 0 ? text.lastIndexOf('\n', start - 1) + 1 : 0;
+    if (text.substring(lineStart, start).trim() === '') {
+      start = lineStart;
+    }
+
+    return computeLineEdits(document, start, printed.end, printed.text);
+  }
+  
+  /**
+   * Reindent while typing: the new line after Enter, or the lines of the
+   * form a closing delimiter just closed. Line breaks are kept as typed.
+   */
+  public formatOnType(
+    document: TextDocument,
+    position: Position,
+    ch: string,
+    options: FormatOptions = DEFAULT_FORMAT_OPTIONS
+  ): TextEdit[] {
+    const text = document.getText();
+
+    if (ch === '\n') {
+      return this.reindentLines(text, position.line, position.line, options, true);
+    }
+
+    // The list the delimiter closed is the innermost one open before it
+    const closeOffset = document.offsetAt(position) - 1;
+    if (closeOffset < 0 || !')]}'.includes(text[closeOffset])) {
+      return [];
+    }
+    const lists = scanOpenLists(text, closeOffset);
+    if (!lists || lists.length === 0) {
+      return [];
+    }
+
+    return this.reindentLines(text, lists[lists.length - 1].line + 1, position.line, options, false);
+  }
+  
+  /**
+   * Give each line in a range the indentation its enclosing list asks for,
+   * changing only leading whitespace
+   */
+  private reindentLines(
+    text: string,
+    firstLine: number,
+    lastLine: number,
+    options: FormatOptions,
+    indentBlank: boolean
+  ): TextEdit[] {
     const lines = text.split('\n');
-    
-    let indentLevel = 0;
-    let formattedLines: string[] = [];
-    
-    // Process each line
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.length === 0) {
-        formattedLines.push('');
-        continue;
-      }
-      
-      // Count opening and closing delimiters
-      let openCount = 0;
-      let closeCount = 0;
-      let inString = false;
-      let inComment = false;
-      
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-        
-        // Skip string contents
-        if (char === '"' && !inComment) {
-          inString = !inString;
-          continue;
-        }
-        
-        // Skip comments
-        if (char === ';' && !inString) {
-          inComment = true;
-          continue;
+    const edits: TextEdit[] = [];
+
+    // Earlier lines shift the columns later lines align with, so each line
+    // is measured against the text as reindented so far
+    let working = text;
+    let lineStart = lines.slice(0, firstLine).reduce((sum, line) => sum + line.length + 1, 0);
+
+    for (let line = firstLine; line <= lastLine && line < lines.length; line++) {
+      const current = lines[line];
+      const leading = current.length - current.replace(/^[ \t]+/, '').length;
+      const isBlank = current.trim() === '';
+
+      if (!isBlank || indentBlank) {
+        const indent = getLineIndent(working, lineStart, options);
+        const whitespace = indent === undefined ? undefined : ' '.repeat(indent);
+
+        if (whitespace !== undefined && current.substring(0, leading) !== whitespace) {
+          edits.push(TextEdit.replace(Range.create(line, 0, line, leading), whitespace));
+          lines[line] = whitespace + current.substring(leading);
+          working = working.substring(0, lineStart) + lines[line] + working.substring(lineStart + current.length);
         }
-        
-        // Skip if inside string or comment
-        if (inString || inComment) continue;
-        
-        if ('([{'.includes(char)) openCount++;
-        if (')]}'.includes(char)) closeCount++;
       }
-      
-      // Determine indent for this line
-      const indent = '  '.repeat(Math.max(0, indentLevel));
-      formattedLines.push(indent + line);
-      
-      // Update indent level for next line
-      indentLevel += openCount - closeCount;
+
+      lineStart += lines[line].length + 1;
     }
-    
-    // Create one edit to replace the entire document
-    edits.push(TextEdit.replace(
-      Range.create(
-        Position.create(0, 0),
-        document.positionAt(document.getText().length)
-      ),
-      formattedLines.join('\n')
-    ));
-    
+
     return edits;
   }
   
   /**
    * Format the document (balance and reindent)
    */
-  public formatDocument(document: TextDocument): TextEdit[] {
+  public formatDocument(document: TextDocument, options: FormatOptions = DEFAULT_FORMAT_OPTIONS): TextEdit[] {
     // First balance parentheses
     const balanceEdits = this.balanceParentheses(document);
     
@@ -187,6 +231,6 @@ export class HqlFormatter {
     }
     
     // Then reindent
-    return this.reindentDocument(document);
+    return this.reindentDocument(document, options);
   }
-} 
\ No newline at end of file
+}
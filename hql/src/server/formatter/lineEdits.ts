@@ -0,0 +1,143 @@
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver';
+
+/**
+ * Above this many line pairs the changed middle of a span is replaced as a
+ * whole instead of being diffed line by line
+ */
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Build the edits that turn a span of a document into new text, touching
+ * only the lines that actually change
+ */
+export function computeLineEdits(document: TextDocument, start: number, end: number, replacement: string): TextEdit[] {
+  const text = document.getText();
+
+  // Work on whole lines so unchanged lines compare equal
+  const lineStart = start > 0 ? text.lastIndexOf('\n', start - 1) + 1 : 0;
+  const newline = text.indexOf('\n', end);
+  const lineEnd = newline === -1 ? text.length : newline;
+  const original = text.substring(lineStart, lineEnd);
+  const updated = text.substring(lineStart, start) + replacement + text.substring(end, lineEnd);
+
+  if (original === updated) {
+    return [];
+  }
+
+  const oldLines = splitLines(original);
+  const newLines = splitLines(updated);
+  const edits: TextEdit[] = [];
+
+  const offsets = [lineStart];
+  for (const line of oldLines) {
+    offsets.push(offsets[offsets.length - 1] + line.length);
+  }
+
+  for (const hunk of diffLines(oldLines, newLines)) {
+    edits.push(TextEdit.replace(
+      Range.create(document.positionAt(offsets[hunk.oldStart]), document.positionAt(offsets[hunk.oldEnd])),
+      newLines.slice(hunk.newStart, hunk.newEnd).join('')
+    ));
+  }
+
+  return edits;
+}
+
+/**
+ * A run of lines that differ between two texts
+ */
+interface Hunk {
+  oldStart: number;
+  oldEnd: number;
+  newStart: number;
+  newEnd: number;
+}
+
+/**
+ * Split text into lines that keep their line breaks
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Find the runs of changed lines between two line lists using their
+ * longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): Hunk[] {
+  // Common leading and trailing lines never need a table
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+         oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const oldCount = oldLines.length - prefix - suffix;
+  const newCount = newLines.length - prefix - suffix;
+
+  if (oldCount === 0 && newCount === 0) {
+    return [];
+  }
+
+  if (oldCount === 0 || newCount === 0 || oldCount * newCount > MAX_DIFF_CELLS) {
+    return [{
+      oldStart: prefix,
+      oldEnd: prefix + oldCount,
+      newStart: prefix,
+      newEnd: prefix + newCount
+    }];
+  }
+
+  // lengths[i][j] is the LCS length of the middles from i and j onwards
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= oldCount; i++) {
+    lengths.push(new Uint32Array(newCount + 1));
+  }
+  for (let i = oldCount - 1; i >= 0; i--) {
+    for (let j = newCount - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[prefix + i] === newLines[prefix + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+
+  const pushHunk = (oldStart: number, newStart: number): void => {
+    if (oldStart === i && newStart === j) return;
+    hunks.push({
+      oldStart: prefix + oldStart,
+      oldEnd: prefix + i,
+      newStart: prefix + newStart,
+      newEnd: prefix + j
+    });
+  };
+
+  while (i < oldCount || j < newCount) {
+    const oldStart = i;
+    const newStart = j;
+    while ((i < oldCount || j < newCount) &&
+           !(i < oldCount && j < newCount && oldLines[prefix + i] === newLines[prefix + j] &&
+             lengths[i][j] === lengths[i + 1][j + 1] + 1)) {
+      if (j >= newCount || (i < oldCount && lengths[i + 1][j] >= lengths[i][j + 1])) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    pushHunk(oldStart, newStart);
+    // Step over the matching line
+    if (i < oldCount && j < newCount) {
+      i++;
+      j++;
+    }
+  }
+
+  return hunks;
+}
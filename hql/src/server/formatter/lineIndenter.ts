@@ -0,0 +1,148 @@
+import { DEFAULT_INDENT_RULES, FormatOptions } from './formatOptions';
+
+const OPENING_DELIMITERS = ['#[', '(', '[', '{'];
+const CLOSING_DELIMITERS = [')', ']', '}'];
+const QUOTE_PREFIXES = ['~@', "'", '`', '~'];
+const ATOM_PATTERN = /^[^\s()\[\]{}"'`,;]+/;
+
+/**
+ * An element of an open list: its text when it is an atom, and where it starts
+ */
+interface ScannedElement {
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A list that is open at the scanned position
+ */
+export interface OpenList {
+  opener: string;
+  line: number;
+  column: number;
+  elements: ScannedElement[];
+}
+
+/**
+ * Scan text up to an offset and return the lists still open there, outermost
+ * first, or undefined when the offset is inside a string or block comment.
+ * Unlike the parser this works on incomplete code, as it is while typing.
+ */
+export function scanOpenLists(text: string, offset: number): OpenList[] | undefined {
+  const stack: OpenList[] = [];
+  let line = 0;
+  let column = 0;
+  let i = 0;
+  let quoted = false;
+
+  const advance = (length: number): void => {
+    for (let end = i + length; i < end; i++) {
+      if (text[i] === '\n') {
+        line++;
+        column = 0;
+      } else {
+        column++;
+      }
+    }
+  };
+
+  const addElement = (element: ScannedElement): void => {
+    // The element after a quote prefix was counted with the prefix
+    if (quoted) {
+      quoted = false;
+      return;
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].elements.push(element);
+    }
+  };
+
+  while (i < offset) {
+    const char = text[i];
+    const rest = text.substring(i, i + 2);
+
+    if (/\s/.test(char) || char === ',' || char === ':' && !ATOM_PATTERN.test(text.substring(i + 1, i + 2))) {
+      advance(1);
+    } else if (char === ';' || rest === '//') {
+      const end = text.indexOf('\n', i);
+      advance((end === -1 ? text.length : end) - i);
+    } else if (rest === '/*') {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1 || end + 2 > offset) {
+        return undefined;
+      }
+      advance(end + 2 - i);
+    } else if (char === '"') {
+      const match = text.substring(i).match(/^"(?:\\.|[^\\"])*"/);
+      if (!match || i + match[0].length > offset) {
+        return undefined;
+      }
+      addElement({ text: '', line, column });
+      advance(match[0].length);
+    } else if (OPENING_DELIMITERS.includes(rest) || OPENING_DELIMITERS.includes(char)) {
+      const opener = rest === '#[' ? rest : char;
+      addElement({ text: '', line, column });
+      stack.push({ opener, line, column, elements: [] });
+      advance(opener.length);
+    } else if (CLOSING_DELIMITERS.includes(char)) {
+      stack.pop();
+      quoted = false;
+      advance(1);
+    } else {
+      const prefix = QUOTE_PREFIXES.find(p => text.startsWith(p, i));
+      if (prefix) {
+        addElement({ text: '', line, column });
+        quoted = true;
+        advance(prefix.length);
+        continue;
+      }
+      const match = text.substring(i).match(ATOM_PATTERN);
+      const length = match ? match[0].length : 1;
+      addElement({ text: match ? match[0] : char, line, column });
+      advance(Math.min(length, offset - i));
+    }
+  }
+
+  return stack;
+}
+
+/**
+ * Get the indentation of a line inside a list, following the same rules
+ * as the pretty printer: body forms indent one level, call arguments line
+ * up with the first argument, and collection elements line up inside the
+ * opening delimiter
+ */
+function getListIndent(list: OpenList, options: FormatOptions): number {
+  if (list.opener !== '(') {
+    return list.column + list.opener.length;
+  }
+
+  const [head, first] = list.elements;
+  if (!head || !head.text || /^-?\d/.test(head.text)) {
+    return list.column + 1;
+  }
+
+  const isBodyForm = Object.prototype.hasOwnProperty.call(options.indentRules, head.text) ||
+    Object.prototype.hasOwnProperty.call(DEFAULT_INDENT_RULES, head.text);
+  if (isBodyForm) {
+    return list.column + options.indentSize;
+  }
+
+  if (options.alignParameters && first && first.line === head.line) {
+    return first.column;
+  }
+  return list.column + options.indentSize;
+}
+
+/**
+ * Get the indentation a line should have, or undefined when the line
+ * starts inside a string or block comment and must be left alone
+ */
+export function getLineIndent(text: string, lineStart: number, options: FormatOptions): number | undefined {
+  const lists = scanOpenLists(text, lineStart);
+  if (!lists) {
+    return undefined;
+  }
+  return lists.length > 0 ? getListIndent(lists[lists.length - 1], options) : 0;
+}
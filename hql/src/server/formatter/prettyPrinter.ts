@@ -0,0 +1,537 @@
+import { parse, SExp, SList } from '../../parser';
+import { isList, isSymbol, ListDelimiter } from '../../s-exp/types';
+import { getBodyStart, getFormKeyword } from '../utils/scope-utils';
+import { DEFAULT_INDENT_RULES, FormatOptions } from './formatOptions';
+
+const OPENERS: { [delimiter in ListDelimiter]: string } = {
+  'paren': '(',
+  'bracket': '[',
+  'brace': '{',
+  'hash-bracket': '#['
+};
+
+const CLOSERS: { [delimiter in ListDelimiter]: string } = {
+  'paren': ')',
+  'bracket': ']',
+  'brace': '}',
+  'hash-bracket': ']'
+};
+
+const QUOTE_PREFIXES = ["'", '`', '~', '~@'];
+
+const SYMBOL_CHAR = /[^\s()\[\]{}"'`,;]/;
+
+const COMMENT_PATTERN = /^(;.*|\/\/.*|\/\*[\s\S]*?\*\/)/;
+
+/**
+ * A comment found between two elements
+ * - ownLine: a line break comes before it, so it leads the next element
+ * - blankBefore: an empty line comes before it
+ */
+interface GapComment {
+  text: string;
+  ownLine: boolean;
+  blankBefore: boolean;
+}
+
+/**
+ * What the source has between two elements besides whitespace
+ */
+interface Gap {
+  punctuation: string;
+  comments: GapComment[];
+  blankBefore: boolean;
+}
+
+/**
+ * An element of a list together with the text that travels with it
+ * - suffix is the `,` or `:` written right after it
+ * - leading are comments on their own lines before it
+ * - trailing is a comment after it on its last line
+ */
+interface Unit {
+  node: SExp;
+  suffix: string;
+  leading: GapComment[];
+  trailing?: string;
+  blankBefore: boolean;
+}
+
+/**
+ * The elements of a list and the comments after its last element
+ */
+interface Layout {
+  units: Unit[];
+  dangling: GapComment[];
+}
+
+/**
+ * PrettyPrinter lays out HQL code from its syntax tree. Only whitespace
+ * between tokens changes: atoms, strings and comments are printed exactly
+ * as written.
+ */
+export class PrettyPrinter {
+  private text: string;
+  private options: FormatOptions;
+
+  constructor(text: string, options: FormatOptions) {
+    this.text = text;
+    this.options = options;
+  }
+
+  /**
+   * Print the whole text, or return undefined when it does not parse
+   */
+  public print(): string | undefined {
+    const layout = this.parseTopLevel();
+    if (!layout) {
+      return undefined;
+    }
+
+    const output = (this.renderTopLevel(layout.units) + this.renderDangling(layout.dangling, 0)).replace(/^\n+/, '');
+    return output.length > 0 ? output + '\n' : '';
+  }
+
+  /**
+   * Print the top-level forms that overlap an offset span. Returns the
+   * span those forms cover and its new text, or undefined when the text
+   * does not parse or the span holds no form.
+   */
+  public printRange(start: number, end: number): { start: number; end: number; text: string } | undefined {
+    const layout = this.parseTopLevel();
+    if (!layout) {
+      return undefined;
+    }
+
+    const selected = layout.units.filter(unit =>
+      unit.node.range!.end.offset >= start && unit.node.range!.start.offset <= end
+    );
+    if (selected.length === 0) {
+      return undefined;
+    }
+
+    // Comments before the first form and after the last lie outside the span
+    const first = selected[0];
+    const last = selected[selected.length - 1];
+    const units = selected.map(unit => ({
+      ...unit,
+      leading: unit === first ? [] : unit.leading,
+      blankBefore: unit === first ? false : unit.blankBefore,
+      trailing: unit === last ? undefined : unit.trailing
+    }));
+
+    return {
+      start: first.node.range!.start.offset,
+      end: last.node.range!.end.offset,
+      text: this.renderTopLevel(units)
+    };
+  }
+
+  /**
+   * Parse the text into top-level elements
+   */
+  private parseTopLevel(): Layout | undefined {
+    let expressions: SExp[];
+    try {
+      expressions = parse(this.text, false);
+    } catch {
+      return undefined;
+    }
+
+    return this.collectUnits(expressions, 0, this.text.length, true);
+  }
+
+  /**
+   * Render top-level forms at the first column, one after another
+   */
+  private renderTopLevel(units: Unit[]): string {
+    const output = units.map(unit => {
+      let text = this.renderBreak(unit, 0) + this.renderNode(unit.node, 0) + unit.suffix;
+      if (unit.trailing) {
+        text += ' ' + unit.trailing;
+      }
+      return text;
+    }).join('');
+
+    // The first form starts the output rather than following a line break
+    return output.replace(/^\n+/, '');
+  }
+
+  /**
+   * Render an expression starting at a column
+   */
+  private renderNode(node: SExp, column: number): string {
+    if (!isList(node) || !node.delimiter) {
+      const quoted = this.splitQuote(node);
+      return quoted
+        ? quoted.prefix + this.renderNode(quoted.inner, column + quoted.prefix.length)
+        : this.source(node);
+    }
+
+    const layout = this.collectListUnits(node);
+    if (!layout) {
+      return this.source(node);
+    }
+
+    if (!this.forcesBreak(node, layout)) {
+      const flat = this.renderFlat(node);
+      if (flat !== undefined && column + flat.length <= this.options.lineWidth) {
+        return flat;
+      }
+    }
+
+    return this.renderBroken(node, layout, column);
+  }
+
+  /**
+   * Render an expression on one line, or return undefined when it has to
+   * span several lines
+   */
+  private renderFlat(node: SExp): string | undefined {
+    if (!isList(node) || !node.delimiter) {
+      const quoted = this.splitQuote(node);
+      if (quoted) {
+        const inner = this.renderFlat(quoted.inner);
+        return inner === undefined ? undefined : quoted.prefix + inner;
+      }
+      const text = this.source(node);
+      return text.includes('\n') ? undefined : text;
+    }
+
+    const layout = this.collectListUnits(node);
+    if (!layout || this.forcesBreak(node, layout)) {
+      return undefined;
+    }
+
+    const parts: string[] = [];
+    for (const unit of layout.units) {
+      const flat = this.renderFlat(unit.node);
+      if (flat === undefined) {
+        return undefined;
+      }
+      parts.push(flat + unit.suffix);
+    }
+
+    return OPENERS[node.delimiter] + parts.join(' ') + CLOSERS[node.delimiter];
+  }
+
+  /**
+   * Render a list over several lines: the head line keeps the form keyword
+   * and its distinguished arguments, the rest is indented as a body, aligned
+   * with the first argument of a call, or aligned inside a collection
+   */
+  private renderBroken(list: SList, layout: Layout, column: number): string {
+    const delimiter = list.delimiter!;
+    const { units, dangling } = layout;
+    const innerColumn = column + OPENERS[delimiter].length;
+    const headArguments = this.getHeadArguments(list);
+    const isMap = delimiter === 'brace';
+
+    let headCount: number;
+    let indent: number | undefined;
+
+    if (headArguments !== undefined) {
+      headCount = 1 + headArguments;
+      indent = column + this.options.indentSize;
+    } else if (delimiter === 'paren' && units.length > 0 && isSymbol(units[0].node)) {
+      headCount = 2;
+      // Aligned arguments line up with the first one once it is placed
+      indent = this.options.alignParameters ? undefined : column + this.options.indentSize;
+    } else {
+      // Maps keep each key with its value
+      headCount = isMap ? 2 : 1;
+      indent = innerColumn;
+    }
+
+    let output = OPENERS[delimiter];
+
+    units.forEach((unit, i) => {
+      const previous = units[i - 1];
+      const sameLine = i === 0 || (!previous.trailing && unit.leading.length === 0 &&
+        (i < headCount || (isMap && i % 2 === 1)));
+
+      if (sameLine) {
+        if (i > 0) {
+          output += ' ';
+        }
+        const start = endColumn(column, output);
+        if (i === 1 && indent === undefined) {
+          indent = start;
+        }
+        output += this.renderNode(unit.node, start);
+      } else {
+        if (indent === undefined) {
+          indent = column + this.options.indentSize;
+        }
+        output += this.renderBreak(unit, indent) + this.renderNode(unit.node, indent);
+      }
+
+      output += unit.suffix;
+      if (unit.trailing) {
+        output += ' ' + unit.trailing;
+      }
+    });
+
+    const last = units[units.length - 1];
+    const closeIndent = indent ?? column + this.options.indentSize;
+
+    if (dangling.length > 0) {
+      output += this.renderDangling(dangling, closeIndent) + '\n' + ' '.repeat(closeIndent);
+    } else if (last && last.trailing) {
+      output += '\n' + ' '.repeat(closeIndent);
+    }
+
+    return output + CLOSERS[delimiter];
+  }
+
+  /**
+   * Render the line break before an element that starts a new line, with
+   * its leading comments and at most one blank line kept from the source
+   */
+  private renderBreak(unit: Unit, indent: number): string {
+    const padding = ' '.repeat(indent);
+    const blankFirst = unit.leading.length > 0 ? unit.leading[0].blankBefore : unit.blankBefore;
+    let output = blankFirst ? '\n\n' : '\n';
+
+    unit.leading.forEach((comment, i) => {
+      output += (i > 0 && comment.blankBefore ? '\n' : '') + padding + comment.text + '\n';
+    });
+    if (unit.leading.length > 0 && unit.blankBefore) {
+      output += '\n';
+    }
+
+    return output + padding;
+  }
+
+  /**
+   * Render the comments after the last element, each on its own line
+   */
+  private renderDangling(comments: GapComment[], indent: number): string {
+    return comments.map(comment =>
+      (comment.blankBefore ? '\n\n' : '\n') + ' '.repeat(indent) + comment.text
+    ).join('');
+  }
+
+  /**
+   * Decide whether a list cannot be printed on one line: comments inside it
+   * need line breaks, and body forms with several body expressions that
+   * were written over several lines stay so
+   */
+  private forcesBreak(list: SList, layout: Layout): boolean {
+    if (layout.dangling.length > 0 || layout.units.some(unit => unit.leading.length > 0 || unit.trailing)) {
+      return true;
+    }
+    const headArguments = this.getHeadArguments(list);
+    return headArguments !== undefined &&
+      layout.units.length > headArguments + 2 &&
+      list.range!.start.line !== list.range!.end.line;
+  }
+
+  /**
+   * Get how many arguments of a body form stay on its head line, or
+   * undefined for lists that are not body forms
+   */
+  private getHeadArguments(list: SList): number | undefined {
+    const keyword = getFormKeyword(list);
+    if (!keyword || list.delimiter !== 'paren' || !list.elements[0].range) {
+      return undefined;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(this.options.indentRules, keyword)) {
+      return this.options.indentRules[keyword] + this.getRawTypeArguments(list);
+    }
+
+    // Functions keep however many of name, parameters and return type they have
+    const bodyStart = getBodyStart(list);
+    if (bodyStart !== undefined) {
+      return bodyStart - 1;
+    }
+
+    return Object.prototype.hasOwnProperty.call(DEFAULT_INDENT_RULES, keyword)
+      ? DEFAULT_INDENT_RULES[keyword] + this.getRawTypeArguments(list)
+      : undefined;
+  }
+
+  /**
+   * Count the elements of an enum's raw type, which belong with its name:
+   * `(enum Status: Int` or `(enum Status : Int`
+   */
+  private getRawTypeArguments(list: SList): number {
+    if (getFormKeyword(list) !== 'enum') {
+      return 0;
+    }
+
+    const [, name, next, after] = list.elements;
+    if (name && isSymbol(name) && name.name.length > 1 && name.name.endsWith(':') && next && isSymbol(next)) {
+      return 1;
+    }
+    if (next && isSymbol(next) && next.name === ':' && after && isSymbol(after)) {
+      return 2;
+    }
+    return 0;
+  }
+
+  /**
+   * Split a quote form such as `'x` into its prefix and quoted expression
+   */
+  private splitQuote(node: SExp): { prefix: string; inner: SExp } | undefined {
+    if (!isList(node) || node.delimiter || node.elements.length !== 2 || !node.range) {
+      return undefined;
+    }
+
+    const inner = node.elements[1];
+    if (!inner.range) {
+      return undefined;
+    }
+
+    const prefix = this.text.substring(node.range.start.offset, inner.range.start.offset);
+    return QUOTE_PREFIXES.includes(prefix) ? { prefix, inner } : undefined;
+  }
+
+  /**
+   * Collect the elements of a delimited list, or return undefined when it
+   * must be printed as written
+   */
+  private collectListUnits(list: SList): Layout | undefined {
+    if (!list.range || !list.delimiter) {
+      return undefined;
+    }
+
+    const open = OPENERS[list.delimiter];
+    const close = CLOSERS[list.delimiter];
+    const start = list.range.start.offset;
+    const end = list.range.end.offset;
+
+    if (this.text.substring(start, start + open.length) !== open || this.text[end - 1] !== close) {
+      return undefined;
+    }
+
+    // Synthesized heads such as `vector` and `hash-map` are not written
+    const elements = list.elements.filter((element, i) => i > 0 || element.range);
+    return this.collectUnits(elements, start + open.length, end - close.length, false);
+  }
+
+  /**
+   * Attach the punctuation and comments between elements to the elements
+   */
+  private collectUnits(elements: SExp[], start: number, end: number, topLevel: boolean): Layout | undefined {
+    const units: Unit[] = [];
+    let pending: GapComment[] = [];
+    let cursor = start;
+
+    const absorbGap = (to: number): Gap | undefined => {
+      const gap = parseGap(this.text.substring(cursor, to));
+      if (!gap) {
+        return undefined;
+      }
+
+      const previous = units[units.length - 1];
+      if (!previous && (gap.punctuation || (!topLevel && gap.comments.length > 0))) {
+        return undefined;
+      }
+      if (previous) {
+        previous.suffix += this.attachPunctuation(previous, gap.punctuation);
+      }
+
+      for (const comment of gap.comments) {
+        if (!comment.ownLine && previous && pending.length === 0) {
+          previous.trailing = previous.trailing ? `${previous.trailing} ${comment.text}` : comment.text;
+        } else {
+          pending.push(comment);
+        }
+      }
+      return gap;
+    };
+
+    for (const element of elements) {
+      if (!element.range || element.range.start.offset < cursor) {
+        return undefined;
+      }
+
+      const gap = absorbGap(element.range.start.offset);
+      if (!gap) {
+        return undefined;
+      }
+
+      // A comma the parser kept as a symbol is punctuation too
+      const previous = units[units.length - 1];
+      if (isSymbol(element) && element.name === ',' && previous && pending.length === 0) {
+        previous.suffix += ',';
+      } else {
+        units.push({ node: element, suffix: '', leading: pending, blankBefore: gap.blankBefore });
+        pending = [];
+      }
+      cursor = element.range.end.offset;
+    }
+
+    if (!absorbGap(end)) {
+      return undefined;
+    }
+
+    return { units, dangling: pending };
+  }
+
+  /**
+   * Write separators after an element; a map colon stays apart from a
+   * symbol key, since `key:` would read back as a single symbol
+   */
+  private attachPunctuation(unit: Unit, punctuation: string): string {
+    const written = this.source(unit.node) + unit.suffix;
+    if (punctuation.startsWith(':') && SYMBOL_CHAR.test(written[written.length - 1] || '')) {
+      return ' ' + punctuation;
+    }
+    return punctuation;
+  }
+
+  /**
+   * Get the source text of an expression
+   */
+  private source(node: SExp): string {
+    return node.range ? this.text.substring(node.range.start.offset, node.range.end.offset) : '';
+  }
+}
+
+/**
+ * Read the text between two elements, or return undefined when it holds
+ * anything besides whitespace, separators and comments
+ */
+function parseGap(text: string): Gap | undefined {
+  const gap: Gap = { punctuation: '', comments: [], blankBefore: false };
+  let newlines = 0;
+  let sawNewline = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      newlines++;
+      sawNewline = true;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (char === ',' || char === ':') {
+      gap.punctuation += char;
+      i++;
+    } else {
+      const match = text.substring(i).match(COMMENT_PATTERN);
+      if (!match) {
+        return undefined;
+      }
+      gap.comments.push({ text: match[0].trimEnd(), ownLine: sawNewline, blankBefore: newlines >= 2 });
+      newlines = 0;
+      i += match[0].length;
+    }
+  }
+
+  gap.blankBefore = newlines >= 2;
+  return gap;
+}
+
+/**
+ * Get the column right after some output that started at a column
+ */
+function endColumn(column: number, output: string): number {
+  const lineStart = output.lastIndexOf('\n');
+  return lineStart === -1 ? column + output.length : output.length - lineStart - 1;
+}
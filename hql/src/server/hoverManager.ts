@@ -8,16 +8,22 @@ import {
   } from 'vscode-languageserver';
   
   import { SymbolManager, ExtendedSymbolInformation } from './symbolManager';
+  import { ModuleManager } from './moduleManager';
   import { getCurrentExpression, getExpressionRangeAtPosition } from '../helper/getExpressionRange';
   import { createTextDocumentAdapter } from '../document-adapter';
   import { parse, SExp, SList, SSymbol } from '../parser';
   import { isList, isSymbol } from '../s-exp/types';
+  import { findSymbolAtOffset, symbolRange } from './utils/module-utils';
+  import { analyzeScopes, Binding } from './utils/scope-analysis';
+  import { ANY_TYPE, inferTypes, TypeInference } from './utils/type-inference';
+import { formatJsSignature, getJsGlobal, getJsMember, JsSignature } from './utils/js-globals';
   
   /**
    * HoverProvider handles providing hover information for HQL elements
    */
   export class HoverProvider {
     private symbolManager: SymbolManager;
+    private moduleManager: ModuleManager;
     
     // Documentation for common keywords
     private keywordDocumentation: Record<string, string> = {
@@ -37,8 +43,9 @@ import {
       'for': '```\n(for (i from: 0 to: 10 by: 1)\n  body)\n```\nSequential iteration with control parameters.'
     };
     
-    constructor(symbolManager: SymbolManager) {
+    constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
       this.symbolManager = symbolManager;
+      this.moduleManager = moduleManager;
     }
     
     /**
@@ -51,6 +58,25 @@ import {
           return null;
         }
   
+        const { expressions } = this.symbolManager.getParsedDocument(document);
+        const types = inferTypes(expressions, analyzeScopes(expressions), this.symbolManager);
+  
+        // Local bindings shadow the document's definitions of the same name
+        const localHover = this.checkLocalBindingHover(document, params.position, expressions, types);
+        if (localHover) {
+          return localHover;
+        }
+
+        const jsHover = this.checkJsGlobalHover(document, params.position, expressions, types);
+        if (jsHover) {
+          return jsHover;
+        }
+
+        const importedHover = this.checkImportedSymbolHover(params.textDocument.uri, params.position);
+        if (importedHover) {
+          return importedHover;
+        }
+  
         const adaptedDoc = createTextDocumentAdapter(document);
         const expression = getCurrentExpression(adaptedDoc, params.position);
         
@@ -68,7 +94,7 @@ import {
           // Check if position is within symbol range
           if (this.isPositionInRange(params.position, range)) {
             // Found a symbol at the cursor position
-            return this.createHoverForSymbol(symbol);
+            return this.createHoverForSymbol(symbol, types);
           }
         }
         
@@ -111,6 +137,149 @@ import {
       }
     }
     
+    /**
+     * Provide hover information for a parameter or local binding
+     */
+    private checkLocalBindingHover(
+      document: TextDocument,
+      position: Position,
+      expressions: SExp[],
+      types: TypeInference
+    ): Hover | null {
+      const symbol = findSymbolAtOffset(expressions, document.offsetAt(position));
+      if (!symbol || !symbol.position) {
+        return null;
+      }
+  
+      const binding = types.scopes.resolve(symbol);
+      if (!binding || !binding.scope.parent) {
+        return null;
+      }
+  
+      // A read shows the type the binding has at that point
+      const type = types.getReferenceType(symbol) || types.getBindingType(binding);
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: this.formatLocalBindingHover(binding, type)
+        },
+        range: symbolRange(document, symbol, 0, symbol.name.split('.')[0].length)
+      };
+    }
+  
+    /**
+     * Provide hover information for a JavaScript global such as `Math`, or
+     * the member of one under the cursor in `Math.floor`
+     */
+    private checkJsGlobalHover(
+      document: TextDocument,
+      position: Position,
+      expressions: SExp[],
+      types: TypeInference
+    ): Hover | null {
+      const symbol = findSymbolAtOffset(expressions, document.offsetAt(position));
+      if (!symbol || !symbol.position || types.scopes.resolve(symbol)) {
+        return null;
+      }
+
+      const [objectName, memberName] = symbol.name.split('.');
+      const global = getJsGlobal(objectName);
+      if (!global) {
+        return null;
+      }
+
+      const onObject = document.offsetAt(position) <= symbol.position.offset + objectName.length;
+      const found = !onObject && memberName ? getJsMember(`${objectName}.${memberName}`) : undefined;
+      if (found) {
+        const name = `${objectName}.${found.member.name}`;
+        const content = found.member.kind === 'method'
+          ? this.formatJsSignatures(`**JavaScript method** \`${name}\``, name, found.member.signatures)
+          : `**JavaScript property** \`${name}\`: \`${found.member.type}\``;
+        return {
+          contents: {
+            kind: MarkupKind.Markdown,
+            value: content + (found.member.documentation ? `\n\n${found.member.documentation}` : '')
+          },
+          range: symbolRange(document, symbol, objectName.length + 1, memberName.length)
+        };
+      }
+      if (!onObject) {
+        return null;
+      }
+
+      const title = `**JavaScript ${global.kind}** \`${objectName}\``;
+      const content = global.kind === 'class' ? this.formatJsSignatures(title, `new ${objectName}`, global.constructSignatures)
+        : global.kind === 'function' ? this.formatJsSignatures(title, objectName, global.callSignatures)
+        : global.kind === 'value' ? `${title}: \`${global.type}\``
+        : title;
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: content + (global.documentation ? `\n\n${global.documentation}` : '')
+        },
+        range: symbolRange(document, symbol, 0, objectName.length)
+      };
+    }
+
+    /**
+     * Provide hover information for a name imported from another module,
+     * including the exports of JavaScript modules and their typings
+     */
+    private checkImportedSymbolHover(uri: string, position: Position): Hover | null {
+      const occurrence = this.moduleManager.resolveAtPosition(uri, position);
+      if (!occurrence || occurrence.target.scope || occurrence.target.uri === uri) {
+        return null;
+      }
+
+      const symbol = this.moduleManager.getModuleSymbols(occurrence.target.uri)
+        .find(s => s.name === occurrence.target.name);
+      if (!symbol) {
+        return null;
+      }
+
+      return { ...this.createHoverForSymbol(symbol), range: occurrence.range };
+    }
+
+    /**
+     * Format the overloads of a JavaScript function under a title
+     */
+    private formatJsSignatures(title: string, label: string, signatures: JsSignature[]): string {
+      if (signatures.length === 0) {
+        return title;
+      }
+      const lines = signatures.map(signature => formatJsSignature(label, signature));
+      return `${title}\n\n\`\`\`hql\n${lines.join('\n')}\n\`\`\``;
+    }
+
+    /**
+     * Format hover for a local binding
+     */
+    private formatLocalBindingHover(binding: Binding, type: string): string {
+      const labels: Record<string, string> = {
+        parameter: 'Parameter',
+        iterator: 'Loop variable',
+        member: 'Member',
+        exception: 'Caught exception',
+        function: 'Local function',
+        macro: 'Local macro',
+        class: 'Local class'
+      };
+      const label = labels[binding.kind] || (binding.mutable ? 'Local variable' : 'Local constant');
+      let content = `**${label}** \`${binding.name}\``;
+  
+      if (type !== ANY_TYPE && binding.kind !== 'function') {
+        content += `: \`${type}\``;
+      }
+  
+      // Parameters of named functions say whose they are
+      const owner = binding.form.elements[1];
+      if (binding.kind === 'parameter' && owner && isSymbol(owner) && owner !== binding.node) {
+        content += `\n\nIn \`${owner.name}\``;
+      }
+  
+      return content;
+    }
+  
     /**
      * Check if position is within a range
      */
@@ -124,16 +293,17 @@ import {
     /**
      * Create hover information for a symbol
      */
-    private createHoverForSymbol(symbol: ExtendedSymbolInformation): Hover {
+    private createHoverForSymbol(symbol: ExtendedSymbolInformation, types?: TypeInference): Hover {
       let content = '';
+      const binding = types?.scopes.module.bindings.find(b => b.name === symbol.name);
       
       switch (symbol.kind) {
         case 12: // Function
-          content = this.formatFunctionHover(symbol);
+          content = this.formatFunctionHover(symbol, binding && types?.getFunctionType(binding)?.returnType);
           break;
           
         case 13: // Variable
-          content = this.formatVariableHover(symbol);
+          content = this.formatVariableHover(symbol, binding && types?.getBindingType(binding));
           break;
           
         case 5:  // Class
@@ -185,15 +355,13 @@ import {
     /**
      * Format hover for a function
      */
-    private formatFunctionHover(symbol: ExtendedSymbolInformation): string {
+    private formatFunctionHover(symbol: ExtendedSymbolInformation, inferredReturnType?: string): string {
       let content = `**Function** \`${symbol.name}\`\n\n`;
       
       if (symbol.data?.params) {
-        const params = symbol.data.params.map(p => 
-          `${p.name}${p.type ? ': ' + p.type : ''}${p.defaultValue ? ' = ' + p.defaultValue : ''}`
-        ).join(' ');
+        const params = this.formatParams(symbol.data.params);
         
-        const returnType = symbol.data.returnType || 'Any';
+        const returnType = symbol.data.returnType || inferredReturnType || 'Any';
         content += `\`\`\`hql\n(${symbol.name} ${params}) (-> ${returnType})\n\`\`\``;
       } else {
         content += `\`\`\`hql\n(${symbol.name} ...)\n\`\`\``;
@@ -202,14 +370,27 @@ import {
       return content;
     }
     
+    /**
+     * Write parameters the way they are declared; JavaScript parameters may
+     * be optional or collect the rest of the arguments
+     */
+    private formatParams(params: NonNullable<NonNullable<ExtendedSymbolInformation['data']>['params']>): string {
+      return params.map(p =>
+        `${p.rest ? '& ' : ''}${p.name}${p.optional ? '?' : ''}${p.type ? ': ' + p.type : ''}${p.defaultValue ? ' = ' + p.defaultValue : ''}`
+      ).join(' ');
+    }
+    
     /**
      * Format hover for a variable
      */
-    private formatVariableHover(symbol: ExtendedSymbolInformation): string {
+    private formatVariableHover(symbol: ExtendedSymbolInformation, inferredType?: string): string {
       let content = `**Variable** \`${symbol.name}\``;
       
-      if (symbol.data?.type) {
-        content += `: \`${symbol.data.type}\``;
+      // The symbol's own type is a guess from the form's shape; once
+      // inference has run it decides, and an inconclusive result shows no type
+      const type = inferredType !== undefined ? inferredType : symbol.data?.type;
+      if (type && type !== ANY_TYPE) {
+        content += `: \`${type}\``;
       }
       
       return content;
@@ -295,9 +476,7 @@ import {
       let content = `**Method** \`${symbol.name}\`\n\n`;
       
       if (symbol.data?.params) {
-        const params = symbol.data.params.map(p => 
-          `${p.name}${p.type ? ': ' + p.type : ''}${p.defaultValue ? ' = ' + p.defaultValue : ''}`
-        ).join(' ');
+        const params = this.formatParams(symbol.data.params);
         
         const returnType = symbol.data.returnType || 'Any';
         content += `\`\`\`hql\n(${symbol.name} ${params}) (-> ${returnType})\n\`\`\``;
@@ -315,9 +494,7 @@ import {
       let content = `**Constructor** \`${symbol.name}\`\n\n`;
       
       if (symbol.data?.params) {
-        const params = symbol.data.params.map(p => 
-          `${p.name}${p.type ? ': ' + p.type : ''}${p.defaultValue ? ' = ' + p.defaultValue : ''}`
-        ).join(' ');
+        const params = this.formatParams(symbol.data.params);
         
         content += `\`\`\`hql\n(constructor ${params})\n\`\`\``;
       } else {
@@ -8,6 +8,8 @@ import {
     CompletionParams,
     CompletionItem,
     DocumentSymbolParams,
+    DocumentSymbol,
+    WorkspaceSymbolParams,
     SymbolInformation,
     CompletionItemTag,
     MarkupKind,
@@ -18,7 +20,22 @@ import {
     DidChangeConfigurationNotification,
     TextDocumentChangeEvent,
     TextDocumentPositionParams,
-    TextEdit
+    TextEdit,
+    ReferenceParams,
+    PrepareRenameParams,
+    RenameParams,
+    WorkspaceEdit,
+    SemanticTokensParams,
+    SemanticTokensDeltaParams,
+    SignatureHelp,
+    SignatureHelpParams,
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    FormattingOptions,
+    DidChangeWatchedFilesParams,
+    FileChangeType,
+    DiagnosticSeverity
   } from 'vscode-languageserver/node';
   
 import {
@@ -32,6 +49,20 @@ import {
   import { HoverProvider } from './hoverManager';
   import { DefinitionProvider } from './definitionManager';
   import { HqlFormatter } from './formatter/hqlFormatter';
+  import { DEFAULT_FORMAT_OPTIONS, FormatOptions, resolveFormatOptions } from './formatter/formatOptions';
+  import { ModuleManager } from './moduleManager';
+  import { ReferencesProvider } from './referencesManager';
+  import { RenameProvider } from './renameManager';
+  import { SemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokensManager';
+  import { SignatureHelpProvider } from './signatureHelpManager';
+  import { CodeActionProvider } from './codeActionManager';
+  import { RefactorProvider } from './refactorManager';
+  import { PROJECT_CONFIG_FILES, ProjectConfigManager } from './projectConfig';
+  import { WorkspaceIndexer } from './workspaceIndexer';
+  import { WorkspaceSymbolProvider } from './workspaceSymbolManager';
+  import { DocumentSymbolProvider } from './documentSymbolManager';
+  import { pathToUri, uriToPath } from './utils/module-utils';
+  import * as path from 'path';
   
   // Create a connection for the server
   const connection = createConnection(ProposedFeatures.all);
@@ -39,13 +70,39 @@ import {
   // Create a simple text document manager
   const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
   
+  // Problems in hql.json/.hqlfmt files are shown on the files themselves
+  const projectConfig = new ProjectConfigManager((filePath, problems) => {
+    connection.sendDiagnostics({
+      uri: pathToUri(filePath),
+      diagnostics: problems.map(message => ({
+        severity: DiagnosticSeverity.Warning,
+        range: Range.create(0, 0, 0, 0),
+        message,
+        source: 'hql'
+      }))
+    });
+  });
+  
   // Initialize our providers
   const symbolManager = new SymbolManager();
-  const completionProvider = new CompletionProvider(symbolManager);
-  const diagnosticsProvider = new DiagnosticsProvider(symbolManager);
-  const hoverProvider = new HoverProvider(symbolManager);
-  const definitionProvider = new DefinitionProvider(symbolManager);
+  const moduleManager = new ModuleManager(symbolManager, projectConfig);
+  const completionProvider = new CompletionProvider(symbolManager, moduleManager);
+  const diagnosticsProvider = new DiagnosticsProvider(symbolManager, projectConfig);
+  const hoverProvider = new HoverProvider(symbolManager, moduleManager);
+  const definitionProvider = new DefinitionProvider(symbolManager, moduleManager);
   const formatter = new HqlFormatter();
+  const referencesProvider = new ReferencesProvider(moduleManager);
+  const renameProvider = new RenameProvider(moduleManager, projectConfig);
+  const semanticTokensProvider = new SemanticTokensProvider(symbolManager, moduleManager);
+  const signatureHelpProvider = new SignatureHelpProvider(symbolManager, moduleManager);
+  const codeActionProvider = new CodeActionProvider(symbolManager, moduleManager);
+  const refactorProvider = new RefactorProvider(symbolManager, moduleManager);
+  const workspaceSymbolProvider = new WorkspaceSymbolProvider(symbolManager);
+  const documentSymbolProvider = new DocumentSymbolProvider(symbolManager);
+  
+  // Clients that cannot show a tree of document symbols get the flat list
+  let hierarchicalDocumentSymbols = false;
+  const workspaceIndexer = new WorkspaceIndexer(symbolManager, moduleManager, uri => documents.get(uri) !== undefined);
   
   // Server capabilities initialization
   connection.onInitialize((params: InitializeParams) => {
@@ -59,19 +116,56 @@ import {
         },
         // Enable hover support
         hoverProvider: true,
+        // Show parameters while typing a call
+        signatureHelpProvider: {
+          triggerCharacters: ['(', ' '],
+          retriggerCharacters: [':']
+        },
+        // Offer quick fixes for validator diagnostics and refactorings
+        codeActionProvider: {
+          codeActionKinds: [
+            CodeActionKind.QuickFix,
+            CodeActionKind.RefactorExtract,
+            CodeActionKind.RefactorInline,
+            CodeActionKind.RefactorRewrite
+          ]
+        },
         // Enable definition support
         definitionProvider: true,
+        // Enable workspace-wide find references
+        referencesProvider: true,
+        // Enable cross-file rename with import/export rewriting
+        renameProvider: {
+          prepareProvider: true
+        },
         // Enable document symbol provider
         documentSymbolProvider: true,
+        // Find definitions by name across the workspace
+        workspaceSymbolProvider: true,
         // Add document formatting
         documentFormattingProvider: true,
-        // No semantic tokens for now
-        semanticTokensProvider: undefined
+        // Format a selection, and reindent after Enter or a closing delimiter
+        documentRangeFormattingProvider: true,
+        documentOnTypeFormattingProvider: {
+          firstTriggerCharacter: '\n',
+          moreTriggerCharacter: [')', ']', '}']
+        },
+        // Classify symbols beyond what the TextMate grammar can tell
+        semanticTokensProvider: {
+          legend: SEMANTIC_TOKENS_LEGEND,
+          full: {
+            delta: true
+          }
+        }
       }
     };
   
     // Set workspace folders for path resolution
     completionProvider.setWorkspaceFolders(params.workspaceFolders);
+    moduleManager.setWorkspaceFolders(params.workspaceFolders);
+    projectConfig.setWorkspaceFolders(params.workspaceFolders);
+    workspaceIndexer.setWorkspaceFolders(params.workspaceFolders);
+    hierarchicalDocumentSymbols = !!params.capabilities.textDocument?.documentSymbol?.hierarchicalDocumentSymbolSupport;
   
     return result;
   });
@@ -81,8 +175,34 @@ import {
     
     // Register for configuration changes
     connection.client.register(DidChangeConfigurationNotification.type, undefined);
+    
+    void indexWorkspace();
   });
   
+  /**
+   * Index the workspace in the background, then revalidate open documents
+   * since names from files not yet indexed were reported as undefined
+   */
+  async function indexWorkspace(): Promise<void> {
+    try {
+      const progress = await connection.window.createWorkDoneProgress();
+      await workspaceIndexer.indexWorkspace(progress);
+      await revalidateOpenDocuments();
+    } catch (error) {
+      console.error(`Error indexing workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Validate every open document again, discarding cached results
+   */
+  async function revalidateOpenDocuments(): Promise<void> {
+    for (const document of documents.all()) {
+      diagnosticsProvider.clearDocument(document.uri);
+      await diagnosticsProvider.validateTextDocument(document, connection);
+    }
+  }
+  
   /**
    * Handle document open event
    */
@@ -108,11 +228,11 @@ import {
     // Update document in symbol manager
     symbolManager.addDocument(document);
     
-    // Update document symbols
+    // Update document symbols (only edited forms are re-parsed)
     await symbolManager.updateDocumentSymbols(document);
     
-    // Validate the document and send diagnostics
-    await diagnosticsProvider.validateTextDocument(document, connection);
+    // Validate once typing pauses
+    diagnosticsProvider.scheduleValidation(document, connection, () => documents.get(document.uri));
   });
   
   /**
@@ -125,9 +245,54 @@ import {
     await diagnosticsProvider.validateTextDocument(document, connection, true);
   });
   
+  /**
+   * Keep the index in step with files changed outside the editor, and
+   * revalidate open documents when modules or project configuration change
+   */
+  connection.onDidChangeWatchedFiles(async (params: DidChangeWatchedFilesParams) => {
+    const configChanges = params.changes.filter(change =>
+      PROJECT_CONFIG_FILES.includes(path.basename(uriToPath(change.uri)))
+    );
+    
+    // A deleted file takes its problems with it
+    for (const change of configChanges) {
+      if (change.type === FileChangeType.Deleted) {
+        connection.sendDiagnostics({ uri: change.uri, diagnostics: [] });
+      }
+    }
+    
+    if (configChanges.length > 0) {
+      projectConfig.invalidate();
+    }
+    
+    moduleManager.applyFileChanges(params.changes);
+    const changedModules = await workspaceIndexer.applyFileChanges(params.changes);
+    if (configChanges.length > 0 || changedModules.length > 0) {
+      await revalidateOpenDocuments();
+    }
+  });
+  
   // Register document symbol provider
-  connection.onDocumentSymbol(async (params: DocumentSymbolParams): Promise<SymbolInformation[]> => {
-    return symbolManager.getDocumentSymbols(params.textDocument.uri);
+  connection.onDocumentSymbol(async (params: DocumentSymbolParams): Promise<DocumentSymbol[] | SymbolInformation[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document || !hierarchicalDocumentSymbols) {
+      return symbolManager.getDocumentSymbols(params.textDocument.uri);
+    }
+    
+    let localFunctions = false;
+    try {
+      const settings = await connection.workspace.getConfiguration({ scopeUri: document.uri, section: 'hql.outline' });
+      localFunctions = settings?.showLocalFunctions === true;
+    } catch (error) {
+      console.error(`Error reading outline settings: ${error}`);
+    }
+    
+    return documentSymbolProvider.provideDocumentSymbols(document, { localFunctions });
+  });
+  
+  // Register workspace symbol provider
+  connection.onWorkspaceSymbol(async (params: WorkspaceSymbolParams): Promise<SymbolInformation[]> => {
+    return workspaceSymbolProvider.provideWorkspaceSymbols(params);
   });
   
   // Register completion provider
@@ -169,19 +334,88 @@ import {
     return hoverProvider.provideHover(params);
   });
   
+  // Register signature help provider
+  connection.onSignatureHelp(async (params: SignatureHelpParams): Promise<SignatureHelp | null> => {
+    return signatureHelpProvider.provideSignatureHelp(params);
+  });
+  
+  // Register code action provider
+  connection.onCodeAction(async (params: CodeActionParams): Promise<CodeAction[]> => {
+    return [
+      ...codeActionProvider.provideCodeActions(params),
+      ...refactorProvider.provideRefactorings(params)
+    ];
+  });
+  
   // Register definition provider
   connection.onDefinition(async (params: TextDocumentPositionParams): Promise<Location | null> => {
     return definitionProvider.provideDefinition(params);
   });
   
+  // Register references provider
+  connection.onReferences(async (params: ReferenceParams): Promise<Location[]> => {
+    return referencesProvider.provideReferences(params);
+  });
+  
+  // Register rename providers
+  connection.onPrepareRename(async (params: PrepareRenameParams) => {
+    return renameProvider.prepareRename(params);
+  });
+  
+  connection.onRenameRequest(async (params: RenameParams): Promise<WorkspaceEdit | null> => {
+    return renameProvider.provideRename(params);
+  });
+  
+  // Register semantic tokens providers
+  connection.languages.semanticTokens.on((params: SemanticTokensParams) => {
+    return semanticTokensProvider.provideSemanticTokens(params);
+  });
+  
+  connection.languages.semanticTokens.onDelta((params: SemanticTokensDeltaParams) => {
+    return semanticTokensProvider.provideSemanticTokensDelta(params);
+  });
+  
   // Register document formatting handler
-  connection.onDocumentFormatting((params) => {
+  connection.onDocumentFormatting(async (params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    return formatter.formatDocument(document, await getFormatOptions(document.uri, params.options));
+  });
+  
+  connection.onDocumentRangeFormatting(async (params) => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+    
+    return formatter.formatRange(document, params.range, await getFormatOptions(document.uri, params.options));
+  });
+  
+  connection.onDocumentOnTypeFormatting(async (params) => {
     const document = documents.get(params.textDocument.uri);
     if (!document) return [];
     
-    return formatter.formatDocument(document);
+    const options = await getFormatOptions(document.uri, params.options);
+    return formatter.formatOnType(document, params.position, params.ch, options);
   });
   
+  /**
+   * Read the format settings for a document from the project's hql.json
+   * files and the hql.format settings; the editor's tab size is used when
+   * no indent size is configured
+   */
+  async function getFormatOptions(uri: string, editorOptions: FormattingOptions): Promise<FormatOptions> {
+    let options = { ...DEFAULT_FORMAT_OPTIONS, indentSize: editorOptions.tabSize || DEFAULT_FORMAT_OPTIONS.indentSize };
+    try {
+      const settings = await connection.workspace.getConfiguration({ scopeUri: uri, section: 'hql.format' });
+      options = resolveFormatOptions(settings, options);
+    } catch (error) {
+      console.error(`Error reading format settings: ${error}`);
+    }
+    
+    // The project's files win over editor settings so everyone formats alike
+    return resolveFormatOptions(projectConfig.getConfig(uri).format, options);
+  }
+  
   // Register the balanceParentheses command
   connection.onRequest('hql/balanceParentheses', (params: { uri: string }) => {
     const document = documents.get(params.uri);
@@ -199,8 +433,10 @@ import {
   
   // Handle document closing
   documents.onDidClose(e => {
-    // Clean up resources
-    symbolManager.removeDocument(e.document.uri);
+    // Clean up resources; workspace files fall back to their copy on disk
+    void workspaceIndexer.documentClosed(e.document.uri);
+    diagnosticsProvider.clearDocument(e.document.uri);
+    semanticTokensProvider.clearDocument(e.document.uri);
     
     // Clear diagnostics when document is closed
     connection.sendDiagnostics({ uri: e.document.uri, diagnostics: [] });
@@ -0,0 +1,785 @@
+import {
+  FileChangeType,
+  FileEvent,
+  Location,
+  Position,
+  Range,
+  SymbolKind
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isSymbol } from '../s-exp/types';
+import { ExtendedSymbolInformation, SymbolManager } from './symbolManager';
+import { ProjectConfigManager } from './projectConfig';
+import {
+  ModuleInfo,
+  ImportBinding,
+  analyzeModule,
+  findFilesInDirectory,
+  findJsExportDefinition,
+  findSymbolAtOffset,
+  findTopLevelForm,
+  pathToUri,
+  resolvePackageModule,
+  resolveRelativeModule,
+  resolveSearchPathModule,
+  splitSymbolParts,
+  symbolRange,
+  uriToPath,
+  walkSymbols
+} from './utils/module-utils';
+import { analyzeScopes, Binding, ScopeAnalysis } from './utils/scope-analysis';
+import { findNodePath } from './utils/scope-utils';
+import { inferTypes, TypeInference } from './utils/type-inference';
+import { isScriptModule, readScriptExports, ScriptExport } from './utils/script-modules';
+import { JsSignature } from './utils/js-globals';
+
+/**
+ * Symbol kinds of the exports of script modules
+ */
+/**
+ * Comparisons whose operands are expected to have the same type
+ */
+const EQUALITY_OPERATORS = ['=', '==', '===', '!=', '!==', 'not='];
+
+const SCRIPT_SYMBOL_KINDS: Record<ScriptExport['kind'], SymbolKind> = {
+  function: SymbolKind.Function,
+  class: SymbolKind.Class,
+  constant: SymbolKind.Constant,
+  variable: SymbolKind.Variable
+};
+
+/**
+ * Identifies the definition a symbol refers to
+ * - uri/name for module-level bindings (enum cases use `Enum.case`)
+ * - scope is set for local bindings (parameters, inner let/var), with the
+ *   binding itself when scope analysis found it
+ */
+export interface SymbolTarget {
+  uri: string;
+  name: string;
+  scope?: SExp;
+  binding?: Binding;
+}
+
+/**
+ * A resolved occurrence of a symbol in a document
+ */
+export interface SymbolReference {
+  uri: string;
+  range: Range;
+  text: string;
+  symbol: SSymbol;
+  target: SymbolTarget;
+  isDefinition: boolean;
+}
+
+/**
+ * ModuleManager resolves symbols across the modules of the workspace,
+ * following import aliases, namespace imports and re-exports
+ */
+export class ModuleManager {
+  private symbolManager: SymbolManager;
+  private projectConfig?: ProjectConfigManager;
+  private workspaceFolders: { uri: string }[] | null = null;
+  private moduleCache: Map<string, { text: string; info: ModuleInfo }> = new Map();
+  private symbolCache: Map<string, { text: string; symbols: ExtendedSymbolInformation[] }> = new Map();
+  private scopeCache: WeakMap<ModuleInfo, ScopeAnalysis> = new WeakMap();
+  private typeCache: WeakMap<ModuleInfo, TypeInference> = new WeakMap();
+  // Disk state, kept until the file watcher reports a change
+  private workspaceFiles: string[] | null = null;
+  private diskDocuments: Map<string, TextDocument | null> = new Map();
+  private resolvedModules: Map<string, string> = new Map();
+
+  constructor(symbolManager: SymbolManager, projectConfig?: ProjectConfigManager) {
+    this.symbolManager = symbolManager;
+    this.projectConfig = projectConfig;
+  }
+
+  /**
+   * Set workspace folders for file discovery
+   */
+  public setWorkspaceFolders(folders: { uri: string }[] | null | undefined): void {
+    this.workspaceFolders = folders || null;
+    this.workspaceFiles = null;
+  }
+
+  /**
+   * Forget what was read from disk about changed files. Created and deleted
+   * files also change the file list and how imports resolve.
+   */
+  public applyFileChanges(changes: FileEvent[]): void {
+    for (const change of changes) {
+      this.diskDocuments.delete(change.uri);
+      if (change.type !== FileChangeType.Changed) {
+        this.workspaceFiles = null;
+        this.resolvedModules.clear();
+      }
+    }
+  }
+
+  /**
+   * Get the workspace folders known to the manager
+   */
+  public getWorkspaceFolders(): { uri: string }[] {
+    return this.workspaceFolders || [];
+  }
+
+  /**
+   * Get the URIs of every HQL file in the workspace plus open documents
+   */
+  public getWorkspaceFiles(): string[] {
+    if (!this.workspaceFiles) {
+      this.workspaceFiles = this.getWorkspaceFolders().flatMap(folder =>
+        findFilesInDirectory(uriToPath(folder.uri), ['.hql']).map(pathToUri));
+    }
+
+    const uris = new Set<string>(this.workspaceFiles);
+
+    for (const uri of this.symbolManager.getOpenDocumentUris()) {
+      uris.add(uri);
+    }
+
+    return Array.from(uris);
+  }
+
+  /**
+   * Get a document, preferring the open editor copy over the indexed copy,
+   * and that over the file on disk
+   */
+  public getDocument(uri: string): TextDocument | undefined {
+    const known = this.symbolManager.getDocument(uri) || this.symbolManager.getIndexedDocument(uri);
+    if (known) {
+      return known as TextDocument;
+    }
+
+    let document = this.diskDocuments.get(uri);
+    if (document === undefined) {
+      try {
+        document = TextDocument.create(uri, 'hql', 0, fs.readFileSync(uriToPath(uri), 'utf8'));
+      } catch (_e) {
+        document = null;
+      }
+      this.diskDocuments.set(uri, document);
+    }
+    return document || undefined;
+  }
+
+  /**
+   * Get the analyzed module for an HQL document
+   */
+  public getModuleInfo(uri: string): ModuleInfo | undefined {
+    if (!uriToPath(uri).endsWith('.hql')) {
+      return undefined;
+    }
+
+    const document = this.getDocument(uri);
+    if (!document) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const cached = this.moduleCache.get(uri);
+    if (cached && cached.text === text) {
+      return cached.info;
+    }
+
+    const info = analyzeModule(uri, text);
+    this.moduleCache.set(uri, { text, info });
+    return info;
+  }
+
+  /**
+   * Get the lexical scopes of an analyzed module
+   */
+  public getScopeAnalysis(info: ModuleInfo): ScopeAnalysis {
+    let analysis = this.scopeCache.get(info);
+    if (!analysis) {
+      analysis = analyzeScopes(info.expressions);
+      this.scopeCache.set(info, analysis);
+    }
+    return analysis;
+  }
+
+  /**
+   * Get the inferred types of an analyzed module
+   */
+  public getTypeInference(info: ModuleInfo): TypeInference {
+    let types = this.typeCache.get(info);
+    if (!types) {
+      types = inferTypes(info.expressions, this.getScopeAnalysis(info), this.symbolManager);
+      this.typeCache.set(info, types);
+    }
+    return types;
+  }
+
+  /**
+   * Get the symbols of an HQL module, extracting them from disk for
+   * modules that are not open in the editor. JavaScript and declaration
+   * modules give the symbols of their exports.
+   */
+  public getModuleSymbols(uri: string): ExtendedSymbolInformation[] {
+    if (this.symbolManager.getDocument(uri) || this.symbolManager.getIndexedDocument(uri)) {
+      return this.symbolManager.getDocumentSymbols(uri);
+    }
+
+    const filePath = uriToPath(uri);
+    const document = filePath.endsWith('.hql') || isScriptModule(filePath) ? this.getDocument(uri) : undefined;
+    if (!document) {
+      return [];
+    }
+
+    const text = document.getText();
+    const cached = this.symbolCache.get(uri);
+    if (cached && cached.text === text) {
+      return cached.symbols;
+    }
+
+    if (isScriptModule(filePath)) {
+      const symbols = readScriptExports(filePath).flatMap(toScriptSymbols);
+      this.symbolCache.set(uri, { text, symbols });
+      return symbols;
+    }
+
+    // A scratch manager keeps closed modules out of the open-document state;
+    // symbol extraction does not await, so the symbols are ready on return
+    const scratch = new SymbolManager();
+    void scratch.updateDocumentSymbols(document);
+    const symbols = scratch.getDocumentSymbols(uri);
+
+    this.symbolCache.set(uri, { text, symbols });
+    return symbols;
+  }
+
+  /**
+   * Resolve an import path to a module URI: relative files, then the
+   * project's module paths, then packages
+   */
+  public resolveModule(fromUri: string, modulePath: string): string | undefined {
+    const modulePaths = this.projectConfig ? this.projectConfig.getConfig(fromUri).modulePaths : [];
+    const key = [path.dirname(uriToPath(fromUri)), modulePath, ...modulePaths].join('\0');
+    const cached = this.resolvedModules.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // Misses are not cached: a module may appear without the watcher seeing it
+    const resolved = resolveRelativeModule(fromUri, modulePath) ||
+      resolveSearchPathModule(modulePaths, modulePath) ||
+      resolvePackageModule(fromUri, modulePath);
+    if (resolved) {
+      this.resolvedModules.set(key, resolved);
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve the module-level target of a name that is visible in a module
+   */
+  public resolveName(info: ModuleInfo, name: string, seen: Set<string> = new Set()): SymbolTarget | undefined {
+    const binding = info.imports.get(name);
+    if (binding) {
+      return this.resolveImportBinding(info, binding, seen);
+    }
+
+    if (info.definitions.has(name)) {
+      return { uri: info.uri, name };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve the target of an import binding
+   */
+  public resolveImportBinding(
+    info: ModuleInfo,
+    binding: ImportBinding,
+    seen: Set<string> = new Set()
+  ): SymbolTarget {
+    // A namespace is a local binding of the importing module
+    if (binding.isNamespace || !binding.importedName) {
+      return { uri: info.uri, name: binding.localName };
+    }
+
+    const moduleUri = this.resolveModule(info.uri, binding.modulePath);
+    if (!moduleUri) {
+      // Packages outside the workspace are identified by their specifier
+      return { uri: `module:${binding.modulePath}`, name: binding.importedName };
+    }
+
+    return this.resolveExport(moduleUri, binding.importedName, seen);
+  }
+
+  /**
+   * Resolve an exported name of a module to its definition, following
+   * `as` aliases and re-exported imports
+   */
+  public resolveExport(moduleUri: string, exportedName: string, seen: Set<string> = new Set()): SymbolTarget {
+    const key = `${moduleUri}#${exportedName}`;
+    const info = this.getModuleInfo(moduleUri);
+    if (!info || seen.has(key)) {
+      return { uri: moduleUri, name: exportedName };
+    }
+    seen.add(key);
+
+    const exported = info.exports.get(exportedName);
+    const localName = exported ? exported.localName : exportedName;
+
+    return this.resolveName(info, localName, seen) || { uri: moduleUri, name: localName };
+  }
+
+  /**
+   * Resolve every part of a symbol node (`ns.member` has two parts)
+   */
+  public resolveSymbolParts(
+    info: ModuleInfo,
+    symbol: SSymbol
+  ): { target: SymbolTarget; start: number; length: number; text: string }[] {
+    const results: { target: SymbolTarget; start: number; length: number; text: string }[] = [];
+
+    if (!symbol.name) {
+      return results;
+    }
+
+    // `.method` calls have no static receiver; `.case` shorthands name a case
+    // of the enum their context expects
+    if (symbol.name.startsWith('.')) {
+      const caseTarget = this.resolveCaseShorthand(info, symbol);
+      if (caseTarget) {
+        const caseName = symbol.name.substring(1);
+        results.push({ target: caseTarget, start: 1, length: caseName.length, text: caseName });
+      }
+      return results;
+    }
+
+    // Names inside import/export vectors resolve through their binding
+    const bindingTarget = this.resolveBindingNode(info, symbol);
+    if (bindingTarget) {
+      results.push({ target: bindingTarget, start: 0, length: symbol.name.length, text: symbol.name });
+      return results;
+    }
+
+    const parts = splitSymbolParts(symbol.name);
+    const head = parts[0];
+
+    // Local bindings shadow module-level names
+    const analysis = this.getScopeAnalysis(info);
+    const binding = analysis.resolve(symbol);
+    if (binding && binding.scope !== analysis.module) {
+      const target = { uri: info.uri, name: binding.name, scope: binding.scope.form, binding };
+      results.push({ target, start: 0, length: binding.name.length, text: binding.name });
+      return results;
+    }
+
+    let headTarget = this.resolveName(info, head.text);
+
+    if (!headTarget && parts.length === 1) {
+      headTarget = { uri: info.uri, name: head.text, scope: findTopLevelForm(info.expressions, symbol) };
+    }
+
+    if (!headTarget) {
+      return results;
+    }
+
+    results.push({ target: headTarget, start: head.start, length: head.text.length, text: head.text });
+
+    if (parts.length > 1 && !headTarget.scope) {
+      const member = parts[1];
+      const binding = info.imports.get(head.text);
+      let memberTarget: SymbolTarget;
+
+      if (binding && binding.isNamespace) {
+        const moduleUri = this.resolveModule(info.uri, binding.modulePath);
+        memberTarget = moduleUri
+          ? this.resolveExport(moduleUri, member.text)
+          : { uri: `module:${binding.modulePath}`, name: member.text };
+      } else {
+        // Enum cases and static members are keyed by their owner
+        memberTarget = { uri: headTarget.uri, name: `${headTarget.name}.${member.text}` };
+      }
+
+      results.push({ target: memberTarget, start: member.start, length: member.text.length, text: member.text });
+    }
+
+    return results;
+  }
+
+  /**
+   * Resolve a `.case` shorthand to the case of the enum its context
+   * expects, or else of the only enum visible in the module with that case
+   */
+  private resolveCaseShorthand(info: ModuleInfo, symbol: SSymbol): SymbolTarget | undefined {
+    const caseName = symbol.name.substring(1);
+    if (!caseName || caseName.includes('.')) {
+      return undefined;
+    }
+
+    // The enums that have the case, by the name the module knows them by
+    const candidates = new Map<string, SymbolTarget>();
+    for (const name of info.definitions.keys()) {
+      const [owner, member, ...rest] = name.split('.');
+      if (member === caseName && rest.length === 0) {
+        candidates.set(owner, { uri: info.uri, name });
+      }
+    }
+    for (const [localName, binding] of info.imports) {
+      if (binding.isNamespace) continue;
+      const target = this.resolveImportBinding(info, binding);
+      const caseKey = `${target.name}.${caseName}`;
+      if (this.getModuleInfo(target.uri)?.definitions.has(caseKey)) {
+        candidates.set(localName, { uri: target.uri, name: caseKey });
+      }
+    }
+    if (candidates.size === 0) {
+      return undefined;
+    }
+
+    const path = findNodePath(info.expressions, symbol);
+    const parent = path && path[path.length - 2];
+    // (.method object) is a call, not a case
+    if (!parent || !isList(parent) || parent.elements[0] === symbol) {
+      return undefined;
+    }
+
+    const expected = this.getExpectedType(info, parent, symbol);
+    if (expected && candidates.has(expected)) {
+      return candidates.get(expected);
+    }
+    return candidates.size === 1 ? [...candidates.values()][0] : undefined;
+  }
+
+  /**
+   * Get the type a form expects for one of its arguments: the type of the
+   * other operand of a comparison, or the parameter type of a local function
+   */
+  private getExpectedType(info: ModuleInfo, form: SList, argument: SExp): string | undefined {
+    const [head] = form.elements;
+    if (!isSymbol(head)) {
+      return undefined;
+    }
+
+    const types = this.getTypeInference(info);
+    if (EQUALITY_OPERATORS.includes(head.name)) {
+      const other = form.elements.slice(1).find(element => element !== argument);
+      return other && types.typeOf(other);
+    }
+
+    const binding = types.scopes.resolve(head);
+    const signature = binding && types.getFunctionType(binding);
+    if (!signature) {
+      return undefined;
+    }
+
+    // Named arguments are matched by their label, others by position
+    const index = form.elements.indexOf(argument);
+    const label = form.elements[index - 1];
+    const param = label && isSymbol(label) && label.name.endsWith(':')
+      ? signature.params.find(p => p.name === label.name.slice(0, -1))
+      : signature.params[index - 1];
+    return param?.type;
+  }
+
+  /**
+   * Resolve a symbol that names a definition or appears in an import/export vector
+   */
+  private resolveBindingNode(info: ModuleInfo, symbol: SSymbol): SymbolTarget | undefined {
+    // Enum case names are only reachable through their definition node
+    for (const [name, node] of info.definitions) {
+      if (node === symbol) {
+        return { uri: info.uri, name };
+      }
+    }
+
+    for (const binding of info.imports.values()) {
+      if (symbol === binding.localNode || symbol === binding.importedNode) {
+        return this.resolveImportBinding(info, binding);
+      }
+    }
+
+    for (const exported of info.exports.values()) {
+      if (symbol === exported.exportedNode || symbol === exported.localNode) {
+        return this.resolveName(info, exported.localName) || { uri: info.uri, name: exported.localName };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the symbol occurrence under a position and resolve its target
+   */
+  public resolveAtPosition(uri: string, position: Position): SymbolReference | undefined {
+    const document = this.getDocument(uri);
+    const info = this.getModuleInfo(uri);
+    if (!document || !info) {
+      return undefined;
+    }
+
+    const offset = document.offsetAt(position);
+    const symbol = findSymbolAtOffset(info.expressions, offset);
+    if (!symbol || !symbol.position) {
+      return undefined;
+    }
+
+    const inName = offset - symbol.position.offset;
+    const parts = this.resolveSymbolParts(info, symbol);
+    const part = parts.find(p => inName >= p.start && inName <= p.start + p.length) || parts[0];
+    if (!part) {
+      return undefined;
+    }
+
+    return {
+      uri,
+      range: symbolRange(document, symbol, part.start, part.length),
+      text: part.text,
+      symbol,
+      target: part.target,
+      isDefinition: this.isDefinitionNode(part.target, symbol)
+    };
+  }
+
+  /**
+   * Find every occurrence of a target across the workspace
+   */
+  public findReferences(target: SymbolTarget): SymbolReference[] {
+    const references: SymbolReference[] = [];
+    const uris = target.scope ? [target.uri] : this.getWorkspaceFiles();
+
+    for (const uri of uris) {
+      const document = this.getDocument(uri);
+      const info = this.getModuleInfo(uri);
+      if (!document || !info) continue;
+
+      const roots = target.scope ? [target.scope] : info.expressions;
+      walkSymbols(roots, symbol => {
+        if (!symbol.position) return;
+
+        for (const part of this.resolveSymbolParts(info, symbol)) {
+          if (!this.isSameTarget(part.target, target)) continue;
+
+          references.push({
+            uri,
+            range: symbolRange(document, symbol, part.start, part.length),
+            text: part.text,
+            symbol,
+            target: part.target,
+            isDefinition: this.isDefinitionNode(target, symbol)
+          });
+        }
+      });
+    }
+
+    return references;
+  }
+
+  /**
+   * Find the location where a target is defined
+   */
+  public findDefinition(target: SymbolTarget): Location | undefined {
+    if (target.uri.startsWith('module:')) {
+      return undefined;
+    }
+
+    const info = this.getModuleInfo(target.uri);
+    if (!info) {
+      // Script exports know their declarations, including class members
+      const symbol = this.getModuleSymbols(target.uri).find(s => s.name === target.name);
+      return symbol ? symbol.location : this.findScriptDefinition(target);
+    }
+
+    const document = this.getDocument(target.uri);
+    const node = this.findDefinitionNode(info, target);
+    if (!document || !node) {
+      return undefined;
+    }
+
+    return Location.create(target.uri, symbolRange(document, node));
+  }
+
+  /**
+   * Find the symbol node that introduces a target inside an HQL module
+   */
+  private findDefinitionNode(info: ModuleInfo, target: SymbolTarget): SSymbol | undefined {
+    if (target.binding) {
+      return target.binding.node;
+    }
+
+    if (target.scope) {
+      // Parameters and bindings appear before their uses
+      let found: SSymbol | undefined;
+      walkSymbols([target.scope], symbol => {
+        if (!found && (symbol.name === target.name || symbol.name === `${target.name}:`)) {
+          found = symbol;
+        }
+      });
+      return found;
+    }
+
+    const definition = info.definitions.get(target.name);
+    if (definition) {
+      return definition;
+    }
+
+    const binding = info.imports.get(target.name);
+    if (binding) {
+      return binding.localNode;
+    }
+
+    // Class members are looked up inside the class body
+    const separator = target.name.lastIndexOf('.');
+    if (separator > 0) {
+      const form = info.definitionForms.get(target.name.substring(0, separator));
+      return form && this.findClassMember(form, target.name.substring(separator + 1));
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find a field, method or the constructor of a class form
+   */
+  private findClassMember(form: SList, member: string): SSymbol | undefined {
+    for (const element of form.elements.slice(2)) {
+      if (!isList(element) || !isSymbol(element.elements[0])) continue;
+
+      const [head, name] = element.elements;
+      if (!isSymbol(head)) continue;
+
+      if (head.name === 'constructor' && member === 'constructor') {
+        return head;
+      }
+
+      if (['fn', 'fx', 'var', 'let', 'field'].includes(head.name) && name && isSymbol(name) && name.name === member) {
+        return name;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the definition of an export in a JavaScript or declaration file,
+   * falling back to the start of the file
+   */
+  private findScriptDefinition(target: SymbolTarget): Location | undefined {
+    const filePath = uriToPath(target.uri);
+    const found = findJsExportDefinition(filePath, target.name);
+
+    if (!found) {
+      return fs.existsSync(filePath)
+        ? Location.create(target.uri, Range.create(0, 0, 0, 0))
+        : undefined;
+    }
+
+    const text = fs.readFileSync(found.filePath, 'utf8');
+    const document = TextDocument.create(pathToUri(found.filePath), 'javascript', 0, text);
+    return Location.create(document.uri, Range.create(
+      document.positionAt(found.offset),
+      document.positionAt(found.offset + found.length)
+    ));
+  }
+
+  /**
+   * Check whether two targets denote the same binding
+   */
+  public isSameTarget(a: SymbolTarget, b: SymbolTarget): boolean {
+    if (a.binding || b.binding) {
+      return a.binding === b.binding;
+    }
+    return a.uri === b.uri && a.name === b.name && a.scope === b.scope;
+  }
+
+  /**
+   * Check whether a symbol node is the defining occurrence of a target
+   */
+  private isDefinitionNode(target: SymbolTarget, symbol: SSymbol): boolean {
+    if (target.binding) {
+      return target.binding.node === symbol;
+    }
+
+    if (target.scope) {
+      return false;
+    }
+
+    const info = this.getModuleInfo(target.uri);
+    if (!info) {
+      return false;
+    }
+
+    if (info.definitions.get(target.name) === symbol) {
+      return true;
+    }
+
+    // A namespace import is defined by its import statement
+    const binding = info.imports.get(target.name);
+    return !!binding && binding.isNamespace && binding.localNode === symbol;
+  }
+}
+
+/**
+ * Describe an export of a script module, and the constructor and members
+ * of an exported class, as symbols
+ */
+function toScriptSymbols(exported: ScriptExport): ExtendedSymbolInformation[] {
+  const uri = pathToUri(exported.filePath);
+  const symbols: ExtendedSymbolInformation[] = [{
+    name: exported.name,
+    kind: SCRIPT_SYMBOL_KINDS[exported.kind],
+    location: Location.create(uri, exported.range),
+    data: {
+      ...describeSignature(exported.kind === 'function' ? exported.signatures[0] : undefined),
+      type: exported.type,
+      documentation: exported.documentation,
+      exported: true
+    }
+  }];
+
+  if (exported.kind === 'class') {
+    symbols.push({
+      name: `${exported.name}.constructor`,
+      kind: SymbolKind.Constructor,
+      location: Location.create(uri, exported.range),
+      data: describeSignature(exported.signatures[0] || { params: [], returnType: exported.name })
+    });
+  }
+
+  for (const member of exported.members) {
+    symbols.push({
+      name: `${exported.name}.${member.name}`,
+      kind: member.kind === 'method' ? SymbolKind.Method : SymbolKind.Field,
+      location: Location.create(uri, member.range),
+      data: {
+        ...describeSignature(member.signatures[0]),
+        type: member.type,
+        documentation: member.documentation
+      }
+    });
+  }
+
+  return symbols;
+}
+
+/**
+ * Record the parameters and return type of a signature the way HQL
+ * symbols do
+ */
+function describeSignature(signature: JsSignature | undefined): ExtendedSymbolInformation['data'] {
+  if (!signature) {
+    return {};
+  }
+  return {
+    params: signature.params.map(param => ({
+      name: param.name,
+      type: param.type,
+      optional: param.optional,
+      rest: param.rest
+    })),
+    returnType: signature.returnType,
+    documentation: signature.documentation
+  };
+}
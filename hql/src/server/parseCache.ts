@@ -0,0 +1,333 @@
+import {
+  Range,
+  TextDocument
+} from 'vscode-languageserver';
+
+import { parse, SExp, SourcePosition } from '../parser';
+import { isList } from '../s-exp/types';
+
+/**
+ * A top-level form carried over from the previous parse
+ * - previous is the node from the previous parse
+ * - lineDelta is how many lines the form moved
+ */
+export interface ReusedForm {
+  previous: SExp;
+  lineDelta: number;
+}
+
+/**
+ * The parse of one version of a document
+ */
+export interface ParsedDocument {
+  uri: string;
+  version: number;
+  text: string;
+  expressions: SExp[];
+  reused: Map<SExp, ReusedForm>;
+}
+
+/**
+ * ParseCache keeps the parse tree of each open document and, when a
+ * document changes, re-parses only the top-level forms the edit touched
+ */
+export class ParseCache {
+  private documents: Map<string, ParsedDocument> = new Map();
+
+  /**
+   * Get the parse of a document, updating the cache if it changed
+   */
+  public getParsedDocument(document: TextDocument): ParsedDocument {
+    const cached = this.documents.get(document.uri);
+    if (cached && cached.version === document.version && cached.text === document.getText()) {
+      return cached;
+    }
+
+    const parsed = cached
+      ? this.reparse(cached, document)
+      : this.parseFully(document);
+
+    this.documents.set(document.uri, parsed);
+    return parsed;
+  }
+
+  /**
+   * Forget the parse of a document
+   */
+  public removeDocument(uri: string): void {
+    this.documents.delete(uri);
+  }
+
+  /**
+   * Parse a whole document
+   */
+  private parseFully(document: TextDocument): ParsedDocument {
+    return {
+      uri: document.uri,
+      version: document.version,
+      text: document.getText(),
+      expressions: parse(document.getText(), true),
+      reused: new Map()
+    };
+  }
+
+  /**
+   * Re-parse the region of a document between the untouched forms before
+   * and after the edit. Untouched forms must sit on lines of their own so
+   * that only their line numbers (never their columns) change.
+   */
+  private reparse(previous: ParsedDocument, document: TextDocument): ParsedDocument {
+    const oldText = previous.text;
+    const newText = document.getText();
+    const forms = previous.expressions;
+
+    // Forms without ranges are parser placeholders; fall back to a full parse
+    if (forms.some(form => !form.range)) {
+      return this.parseFully(document);
+    }
+
+    // Find the edited region by trimming the common prefix and suffix
+    let prefix = 0;
+    const maxPrefix = Math.min(oldText.length, newText.length);
+    while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (suffix < maxSuffix &&
+           oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) {
+      suffix++;
+    }
+
+    const editStartLine = lineAt(oldText, prefix);
+    const editEndLine = lineAt(oldText, oldText.length - suffix);
+
+    // Untouched forms before the edit
+    let before = 0;
+    while (before < forms.length &&
+           extentEnd(forms[before]).line < editStartLine &&
+           (before + 1 === forms.length || extentStart(forms[before + 1]).line > extentEnd(forms[before]).line)) {
+      before++;
+    }
+
+    // Untouched forms after the edit
+    let after = forms.length;
+    while (after > before &&
+           extentStart(forms[after - 1]).line > editEndLine &&
+           (after - 1 === 0 || extentEnd(forms[after - 2]).line < extentStart(forms[after - 1]).line)) {
+      after--;
+    }
+
+    // An unclosed list swallows whatever is typed after it
+    if (before > 0 && endsUnclosed([forms[before - 1]], oldText)) {
+      before--;
+    }
+
+    const offsetDelta = newText.length - oldText.length;
+    let regionStart: number;
+    let regionEnd: number;
+    let newRegion: string;
+    let regionForms: SExp[];
+
+    while (true) {
+      // The region spans whole lines between the untouched forms
+      regionStart = before > 0
+        ? oldText.indexOf('\n', extentEnd(forms[before - 1]).offset) + 1
+        : 0;
+      regionEnd = after < forms.length
+        ? oldText.lastIndexOf('\n', extentStart(forms[after]).offset - 1) + 1
+        : oldText.length;
+
+      const origin: SourcePosition = before > 0
+        ? { line: extentEnd(forms[before - 1]).line + 1, column: 1, offset: regionStart }
+        : { line: 1, column: 1, offset: 0 };
+      newRegion = newText.substring(regionStart, regionEnd + offsetDelta);
+      regionForms = parse(newRegion, true, origin);
+
+      // Stray closing delimiters leave placeholders that depend on what
+      // follows them, so only a full parse gives stable results
+      if (regionForms.some(form => !form.range)) {
+        return this.parseFully(document);
+      }
+
+      if (after < forms.length && endsUnclosed(regionForms, newText)) {
+        // An unclosed list swallows every form after it, as in a full parse
+        after = forms.length;
+      } else if (after < forms.length && endsWithComment(regionForms, newRegion)) {
+        // A comment at the end of the region leads the next untouched form
+        after++;
+      } else if (after === forms.length && before > 0 && regionForms.length === 0 &&
+                 endsWithComment(regionForms, newRegion)) {
+        // A comment after the last form trails the form before it
+        before--;
+      } else {
+        break;
+      }
+    }
+
+    const lineDelta = countLines(newRegion) - countLines(oldText.substring(regionStart, regionEnd));
+    const reused = new Map<SExp, ReusedForm>();
+    const expressions: SExp[] = [];
+
+    for (const form of forms.slice(0, before)) {
+      expressions.push(form);
+      reused.set(form, { previous: form, lineDelta: 0 });
+    }
+
+    expressions.push(...regionForms);
+
+    for (const form of forms.slice(after)) {
+      const shifted = shiftExpression(form, lineDelta, offsetDelta);
+      expressions.push(shifted);
+      reused.set(shifted, { previous: form, lineDelta });
+    }
+
+    return {
+      uri: document.uri,
+      version: document.version,
+      text: newText,
+      expressions,
+      reused
+    };
+  }
+}
+
+/**
+ * Move a range by a number of lines
+ */
+export function shiftRange(range: Range, lineDelta: number): Range {
+  if (lineDelta === 0) {
+    return range;
+  }
+  return Range.create(
+    range.start.line + lineDelta, range.start.character,
+    range.end.line + lineDelta, range.end.character
+  );
+}
+
+/**
+ * Closing characters of each list delimiter
+ */
+const CLOSING_DELIMITERS: { [delimiter: string]: string } = {
+  'paren': ')',
+  'bracket': ']',
+  'brace': '}',
+  'hash-bracket': ']'
+};
+
+/**
+ * Check whether the last parsed form contains a list that was never closed.
+ * An unclosed list always ends the form, so only the last element of each
+ * list needs to be checked.
+ */
+function endsUnclosed(forms: SExp[], text: string): boolean {
+  let node: SExp | undefined = forms[forms.length - 1];
+
+  while (node && isList(node)) {
+    const lastElement: SExp | undefined = node.elements[node.elements.length - 1];
+
+    if (node.delimiter && node.range) {
+      // A closed list ends with its delimiter, after its last element
+      const closed = lastElement && lastElement.range
+        ? node.range.end.offset > lastElement.range.end.offset
+        : text[node.range.end.offset - 1] === CLOSING_DELIMITERS[node.delimiter];
+      if (!closed) {
+        return true;
+      }
+    }
+
+    node = lastElement;
+  }
+
+  return false;
+}
+
+/**
+ * Check whether parsed forms leave a comment that no later form in the
+ * same text follows
+ */
+function endsWithComment(forms: SExp[], text: string): boolean {
+  const last = forms[forms.length - 1];
+  if (!last) {
+    return /;|\/\/|\/\*/.test(text);
+  }
+  return (last.comments || []).some(comment =>
+    comment.placement === 'trailing' && comment.range.start.line > last.range!.end.line
+  );
+}
+
+/**
+ * Get the 1-based line of an offset in a text
+ */
+function lineAt(text: string, offset: number): number {
+  return countLines(text.substring(0, offset)) + 1;
+}
+
+/**
+ * Count the line breaks in a text
+ */
+function countLines(text: string): number {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Where a form starts, including its leading comments
+ */
+function extentStart(form: SExp): SourcePosition {
+  let start = form.range!.start;
+  for (const comment of form.comments || []) {
+    if (comment.range.start.offset < start.offset) {
+      start = comment.range.start;
+    }
+  }
+  return start;
+}
+
+/**
+ * Where a form ends, including its trailing comments
+ */
+function extentEnd(form: SExp): SourcePosition {
+  let end = form.range!.end;
+  for (const comment of form.comments || []) {
+    if (comment.range.end.offset > end.offset) {
+      end = comment.range.end;
+    }
+  }
+  return end;
+}
+
+/**
+ * Copy an expression with all of its positions moved
+ */
+function shiftExpression(expr: SExp, lineDelta: number, offsetDelta: number): SExp {
+  const shift = (position: SourcePosition): SourcePosition => ({
+    line: position.line + lineDelta,
+    column: position.column,
+    offset: position.offset + offsetDelta
+  });
+
+  const copy: SExp = { ...expr };
+
+  if (expr.range) {
+    copy.range = { start: shift(expr.range.start), end: shift(expr.range.end) };
+  }
+  if (expr.comments) {
+    copy.comments = expr.comments.map(comment => ({
+      ...comment,
+      range: { start: shift(comment.range.start), end: shift(comment.range.end) }
+    }));
+  }
+  if (copy.type === 'symbol' && copy.position) {
+    copy.position = shift(copy.position);
+  }
+  if (isList(copy)) {
+    copy.elements = copy.elements.map(element => shiftExpression(element, lineDelta, offsetDelta));
+  }
+
+  return copy;
+}
@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { FormatOptions } from './formatter/formatOptions';
+import { RULE_SETTINGS, RuleSetting, VALIDATION_RULES } from './validator/validationRules';
+import { isObject, uriToPath } from './utils/module-utils';
+
+/**
+ * Names of project configuration files. When a directory has both,
+ * `hql.json` overrides `.hqlfmt`.
+ */
+export const PROJECT_CONFIG_FILES = ['.hqlfmt', 'hql.json'];
+
+/**
+ * Settings a project shares through its configuration files. Files closer
+ * to a document override the ones above them.
+ * - format: formatter settings, taking precedence over editor settings
+ * - rules: validation rules turned off or given a fixed severity
+ * - reservedKeywords: names reserved in addition to the built-in keywords
+ * - modulePaths: directories searched for bare import paths, nearest first
+ * - files: the configuration files that contributed, farthest first
+ */
+export interface ProjectConfig {
+  format: Partial<FormatOptions>;
+  rules: { [rule: string]: RuleSetting };
+  reservedKeywords: string[];
+  modulePaths: string[];
+  files: string[];
+}
+
+/**
+ * The contents of one configuration file
+ */
+interface ConfigFile {
+  root: boolean;
+  format: Partial<FormatOptions>;
+  rules: { [rule: string]: RuleSetting };
+  reservedKeywords: string[];
+  modulePaths: string[];
+}
+
+/**
+ * A configuration file as read from disk, with what was wrong in it
+ */
+interface LoadedConfigFile {
+  mtime: number;
+  config: ConfigFile;
+  problems: string[];
+}
+
+const TOP_LEVEL_KEYS = ['$schema', 'root', 'format', 'lint', 'modulePaths'];
+const FORMAT_KEYS = ['indentSize', 'alignParameters', 'lineWidth', 'indentRules'];
+const LINT_KEYS = ['rules', 'reservedKeywords'];
+
+/**
+ * ProjectConfigManager finds the hql.json/.hqlfmt files that apply to a
+ * document and merges them, so every editor and CI run agree on settings
+ */
+export class ProjectConfigManager {
+  private workspaceFolders: string[] = [];
+  private files: Map<string, LoadedConfigFile | null> = new Map();
+  private onProblems?: (filePath: string, problems: string[]) => void;
+
+  /**
+   * @param onProblems Called with the problems found each time a
+   *   configuration file is read, including none once it is fixed
+   */
+  constructor(onProblems?: (filePath: string, problems: string[]) => void) {
+    this.onProblems = onProblems;
+  }
+
+  /**
+   * Set workspace folders; the search for configuration files stops at the
+   * folder that contains the document
+   */
+  public setWorkspaceFolders(folders: { uri: string }[] | null | undefined): void {
+    this.workspaceFolders = (folders || []).map(folder => path.resolve(uriToPath(folder.uri)));
+  }
+
+  /**
+   * Forget every configuration file read so far, e.g. after one changed
+   */
+  public invalidate(): void {
+    this.files.clear();
+  }
+
+  /**
+   * Get the merged configuration for a document or directory
+   */
+  public getConfig(uri: string, isDirectory: boolean = false): ProjectConfig {
+    const start = path.resolve(isDirectory ? uriToPath(uri) : path.dirname(uriToPath(uri)));
+    const boundary = this.workspaceFolders
+      .filter(folder => start === folder || start.startsWith(folder + path.sep))
+      .sort((a, b) => b.length - a.length)[0];
+
+    // Collect the files from the document's directory upwards
+    const found: { filePath: string; config: ConfigFile }[] = [];
+    let directory = start;
+    while (true) {
+      const inDirectory = PROJECT_CONFIG_FILES
+        .map(name => path.join(directory, name))
+        .map(filePath => ({ filePath, loaded: this.loadFile(filePath) }))
+        .filter(entry => entry.loaded)
+        .reverse();
+
+      found.push(...inDirectory.map(entry => ({ filePath: entry.filePath, config: entry.loaded!.config })));
+
+      const parent = path.dirname(directory);
+      if (inDirectory.some(entry => entry.loaded!.config.root) || directory === boundary || parent === directory) {
+        break;
+      }
+      directory = parent;
+    }
+
+    // Apply the farthest file first so nearer files override it
+    const merged: ProjectConfig = { format: {}, rules: {}, reservedKeywords: [], modulePaths: [], files: [] };
+    for (const { filePath, config } of found.reverse()) {
+      merged.format = {
+        ...merged.format,
+        ...config.format,
+        indentRules: { ...merged.format.indentRules, ...config.format.indentRules }
+      };
+      merged.rules = { ...merged.rules, ...config.rules };
+      merged.reservedKeywords = [...new Set([...merged.reservedKeywords, ...config.reservedKeywords])];
+      merged.modulePaths = [
+        ...config.modulePaths.map(modulePath => path.resolve(path.dirname(filePath), modulePath)),
+        ...merged.modulePaths
+      ];
+      merged.files.push(filePath);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Read a configuration file, reusing the last read while it is unchanged
+   */
+  private loadFile(filePath: string): LoadedConfigFile | null {
+    let mtime: number;
+    try {
+      const stat = fs.statSync(filePath);
+      if (!stat.isFile()) return null;
+      mtime = stat.mtimeMs;
+    } catch (_e) {
+      return null;
+    }
+
+    const cached = this.files.get(filePath);
+    if (cached && cached.mtime === mtime) {
+      return cached;
+    }
+
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, 'utf8');
+    } catch (_e) {
+      return null;
+    }
+
+    const loaded: LoadedConfigFile = { mtime, ...parseProjectConfig(text) };
+    this.files.set(filePath, loaded);
+    this.onProblems?.(filePath, loaded.problems);
+    return loaded;
+  }
+}
+
+/**
+ * Parse the text of a configuration file. Invalid entries are dropped and
+ * described in problems, so one mistake does not discard the whole file.
+ */
+export function parseProjectConfig(text: string): { config: ConfigFile; problems: string[] } {
+  const config: ConfigFile = { root: false, format: {}, rules: {}, reservedKeywords: [], modulePaths: [] };
+  const problems: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = text.trim() ? JSON.parse(text) : {};
+  } catch (error) {
+    problems.push(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    return { config, problems };
+  }
+
+  if (!isObject(raw)) {
+    problems.push('The configuration must be a JSON object');
+    return { config, problems };
+  }
+
+  reportUnknownKeys(raw, TOP_LEVEL_KEYS, '', problems);
+
+  if (raw.root !== undefined) {
+    if (typeof raw.root === 'boolean') {
+      config.root = raw.root;
+    } else {
+      problems.push('"root" must be a boolean');
+    }
+  }
+
+  if (raw.format !== undefined) {
+    if (isObject(raw.format)) {
+      config.format = parseFormat(raw.format, problems);
+    } else {
+      problems.push('"format" must be an object');
+    }
+  }
+
+  if (raw.lint !== undefined) {
+    if (isObject(raw.lint)) {
+      reportUnknownKeys(raw.lint, LINT_KEYS, 'lint.', problems);
+      config.rules = parseRules(raw.lint.rules, problems);
+      config.reservedKeywords = parseStringArray(raw.lint.reservedKeywords, 'lint.reservedKeywords', problems);
+    } else {
+      problems.push('"lint" must be an object');
+    }
+  }
+
+  config.modulePaths = parseStringArray(raw.modulePaths, 'modulePaths', problems);
+
+  return { config, problems };
+}
+
+/**
+ * Read the format section
+ */
+function parseFormat(raw: Record<string, unknown>, problems: string[]): Partial<FormatOptions> {
+  const format: Partial<FormatOptions> = {};
+  reportUnknownKeys(raw, FORMAT_KEYS, 'format.', problems);
+
+  for (const key of ['indentSize', 'lineWidth'] as const) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value === 'number' && Number.isInteger(value) && value >= (key === 'lineWidth' ? 1 : 0)) {
+      format[key] = value;
+    } else {
+      problems.push(`"format.${key}" must be a ${key === 'lineWidth' ? 'positive' : 'non-negative'} integer`);
+    }
+  }
+
+  if (raw.alignParameters !== undefined) {
+    if (typeof raw.alignParameters === 'boolean') {
+      format.alignParameters = raw.alignParameters;
+    } else {
+      problems.push('"format.alignParameters" must be a boolean');
+    }
+  }
+
+  if (raw.indentRules !== undefined) {
+    if (isObject(raw.indentRules)) {
+      format.indentRules = {};
+      for (const [form, count] of Object.entries(raw.indentRules)) {
+        if (typeof count === 'number' && Number.isInteger(count) && count >= 0) {
+          format.indentRules[form] = count;
+        } else {
+          problems.push(`"format.indentRules.${form}" must be a non-negative integer`);
+        }
+      }
+    } else {
+      problems.push('"format.indentRules" must be an object');
+    }
+  }
+
+  return format;
+}
+
+/**
+ * Read the lint rule settings
+ */
+function parseRules(raw: unknown, problems: string[]): { [rule: string]: RuleSetting } {
+  const rules: { [rule: string]: RuleSetting } = {};
+  if (raw === undefined) {
+    return rules;
+  }
+  if (!isObject(raw)) {
+    problems.push('"lint.rules" must be an object');
+    return rules;
+  }
+
+  for (const [rule, setting] of Object.entries(raw)) {
+    if (!(VALIDATION_RULES as readonly string[]).includes(rule)) {
+      problems.push(`Unknown rule "${rule}"; expected one of ${VALIDATION_RULES.join(', ')}`);
+    } else if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+      problems.push(`"lint.rules.${rule}" must be one of ${RULE_SETTINGS.join(', ')}`);
+    } else {
+      rules[rule] = setting as RuleSetting;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Read an optional array of strings
+ */
+function parseStringArray(raw: unknown, key: string, problems: string[]): string[] {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw) || raw.some(item => typeof item !== 'string')) {
+    problems.push(`"${key}" must be an array of strings`);
+    return [];
+  }
+  return raw as string[];
+}
+
+/**
+ * Report keys of an object that the configuration does not know
+ */
+function reportUnknownKeys(raw: Record<string, unknown>, known: string[], prefix: string, problems: string[]): void {
+  for (const key of Object.keys(raw)) {
+    if (!known.includes(key)) {
+      problems.push(`Unknown setting "${prefix}${key}"`);
+    }
+  }
+}
+
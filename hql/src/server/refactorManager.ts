@@ -0,0 +1,737 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Range,
+  TextEdit
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isSymbol } from '../s-exp/types';
+import { SymbolManager } from './symbolManager';
+import { ModuleManager } from './moduleManager';
+import { findSymbolAtOffset, walkSymbols } from './utils/module-utils';
+import {
+  collectBoundNames,
+  collectFreeSymbols,
+  findExpressionBySpan,
+  findNodePath,
+  getBindingPairs,
+  getBodyStart,
+  getFormBindings,
+  getFormKeyword,
+  getParameterList,
+  isFormOf,
+  isStatementBinding
+} from './utils/scope-utils';
+
+/**
+ * Code action kinds of the extract refactorings, so that commands can
+ * request one of them directly
+ */
+export const EXTRACT_VARIABLE_KIND = `${CodeActionKind.RefactorExtract}.variable`;
+export const EXTRACT_FUNCTION_KIND = `${CodeActionKind.RefactorExtract}.function`;
+
+/**
+ * Names that tie an expression to the function it is written in
+ */
+const CONTEXT_BOUND_NAMES = ['this', 'super', 'recur', 'return'];
+
+/**
+ * Forms that evaluate the arguments after their first only under a condition
+ */
+const CONDITIONAL_FORMS = ['if', 'when', 'unless', 'if-let', 'when-let', 'and', 'or', '??'];
+
+/**
+ * A text replacement by document offsets
+ */
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A `let` binding that can be inlined
+ * - form is the `(let ...)` form
+ * - value is the bound expression
+ * - scope holds the expressions that can see the binding
+ * - pair is set for `(let (name value ...) body)` bindings
+ */
+interface LetBinding {
+  name: string;
+  form: SList;
+  value: SExp;
+  scope: SExp[];
+  isTopLevel: boolean;
+  pair?: { name: SSymbol; value: SExp };
+}
+
+/**
+ * RefactorProvider offers extract, inline and rewrite refactorings that
+ * work on the parse tree and only replace the text they change
+ */
+export class RefactorProvider {
+  private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
+
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
+    this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
+  }
+
+  /**
+   * Provide the refactorings available for a selection or cursor position
+   */
+  public provideRefactorings(params: CodeActionParams): CodeAction[] {
+    const document = this.symbolManager.getDocument(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+
+    const actions: CodeAction[] = [];
+
+    try {
+      const expressions = this.symbolManager.getParsedDocument(document).expressions;
+      const text = document.getText();
+      let start = document.offsetAt(params.range.start);
+      let end = document.offsetAt(params.range.end);
+
+      if (start !== end) {
+        // Ignore whitespace around the selection
+        while (start < end && /\s/.test(text[start])) start++;
+        while (end > start && /\s/.test(text[end - 1])) end--;
+
+        const expr = findExpressionBySpan(expressions, start, end);
+        const path = expr && findNodePath(expressions, expr);
+        if (path && path.length > 1 && !this.isBindingPosition(path)) {
+          this.push(actions, this.extractVariable(document, expressions, path));
+          this.push(actions, this.extractFunction(document, expressions, path));
+        }
+      }
+
+      const symbol = findSymbolAtOffset(expressions, start);
+      const path = symbol && findNodePath(expressions, symbol);
+      if (symbol && path) {
+        this.push(actions, this.inlineVariable(document, expressions, path, symbol));
+        this.push(actions, this.inlineFunction(document, expressions, path, symbol));
+        this.push(actions, this.convertLetToVar(document, path, symbol));
+      }
+    } catch (error) {
+      console.error(`Error providing refactorings: ${error}`);
+    }
+
+    const only = params.context.only;
+    return only
+      ? actions.filter(action => only.some(kind => action.kind === kind || action.kind!.startsWith(`${kind}.`)))
+      : actions;
+  }
+
+  /**
+   * Add an action if one was created
+   */
+  private push(actions: CodeAction[], action: CodeAction | undefined): void {
+    if (action) {
+      actions.push(action);
+    }
+  }
+
+  /**
+   * Check whether the end of a path names a binding rather than an expression
+   */
+  private isBindingPosition(path: SExp[]): boolean {
+    const expr = path[path.length - 1];
+    const parent = path[path.length - 2] as SList;
+    const grandparent = path[path.length - 3];
+
+    if (isSymbol(expr) && expr.name.endsWith(':')) {
+      return true;
+    }
+    if (['fn', 'fx', 'let', 'var', 'class', 'enum', 'macro', 'defmacro'].includes(getFormKeyword(parent) || '') &&
+        parent.elements.indexOf(expr) <= 1) {
+      return true;
+    }
+    if (grandparent && isList(grandparent)) {
+      if (getParameterList(grandparent) === parent) {
+        return true;
+      }
+      if (grandparent.elements[1] === parent && getBindingPairs(grandparent).some(p => p.name === expr)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Bind the selected expression to a `let` placed before the statement
+   * that contains it. Inside a conditional branch the branch itself is
+   * wrapped instead, so the expression is still only evaluated when the
+   * branch is taken.
+   */
+  private extractVariable(document: TextDocument, expressions: SExp[], path: SExp[]): CodeAction | undefined {
+    const expr = path[path.length - 1];
+    const statement = this.findEnclosingStatement(path);
+    const branch = this.findConditionalBranch(path, statement);
+    if (branch === null) {
+      return undefined;
+    }
+
+    // Names bound between the statement and the selection would go out of scope
+    const free = collectFreeSymbols(expr);
+    const bound = collectBoundNames([branch || statement], expr);
+    if ([...free.keys()].some(name => bound.has(name) || CONTEXT_BOUND_NAMES.includes(name))) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const name = this.getUniqueName(expressions, 'extracted');
+    const exprText = text.substring(expr.range!.start.offset, expr.range!.end.offset);
+
+    if (branch) {
+      const start = branch.range!.start.offset;
+      const end = branch.range!.end.offset;
+      const branchText = text.substring(start, expr.range!.start.offset) + name + text.substring(expr.range!.end.offset, end);
+      return this.createAction('Extract to let', EXTRACT_VARIABLE_KIND, document, [
+        { start, end, text: `(let (${name} ${exprText}) ${branchText})` }
+      ]);
+    }
+
+    const lineStart = text.lastIndexOf('\n', statement.range!.start.offset - 1) + 1;
+    const before = text.substring(lineStart, statement.range!.start.offset);
+    const separator = /^\s*$/.test(before) ? `\n${before}` : ' ';
+
+    return this.createAction('Extract to let', EXTRACT_VARIABLE_KIND, document, [
+      { start: statement.range!.start.offset, end: statement.range!.start.offset, text: `(let ${name} ${exprText})${separator}` },
+      { start: expr.range!.start.offset, end: expr.range!.end.offset, text: name }
+    ]);
+  }
+
+  /**
+   * Move the selected expression into a new top-level fn whose parameters
+   * are the local names it reads
+   */
+  private extractFunction(document: TextDocument, expressions: SExp[], path: SExp[]): CodeAction | undefined {
+    const expr = path[path.length - 1];
+    const topLevel = path[0];
+
+    const free = collectFreeSymbols(expr);
+    if ([...free.keys()].some(name => CONTEXT_BOUND_NAMES.includes(name))) {
+      return undefined;
+    }
+
+    // Local names become parameters; module names stay visible
+    const locals = collectBoundNames([topLevel], expr);
+    const params = [...free.keys()].filter(name => locals.has(name));
+
+    // Assignments to a parameter would no longer reach the caller
+    const assigned = collectAssignedNames([expr]);
+    if (params.some(param => assigned.has(param))) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const name = this.getUniqueName(expressions, 'extracted-fn');
+    const body = reindent(text, expr, 2);
+    const insertAt = leadingOffset(topLevel);
+
+    return this.createAction(`Extract to function '${name}'`, EXTRACT_FUNCTION_KIND, document, [
+      { start: insertAt, end: insertAt, text: `(fn ${name} (${params.join(' ')})\n  ${body})\n\n` },
+      { start: expr.range!.start.offset, end: expr.range!.end.offset, text: `(${[name, ...params].join(' ')})` }
+    ]);
+  }
+
+  /**
+   * Replace every use of a `let` binding with its value and remove it
+   */
+  private inlineVariable(
+    document: TextDocument,
+    expressions: SExp[],
+    path: SExp[],
+    symbol: SSymbol
+  ): CodeAction | undefined {
+    const binding = this.findLetBinding(expressions, path, symbol);
+    if (!binding) {
+      return undefined;
+    }
+
+    // Exported bindings are used by other modules
+    if (binding.isTopLevel) {
+      const info = this.moduleManager.getModuleInfo(document.uri);
+      if (info && [...info.exports.values()].some(exported => exported.localName === binding.name)) {
+        return undefined;
+      }
+    }
+
+    // Rebinding or assigning the name, or capturing a name the value
+    // reads, would change what the inlined value means
+    const bound = collectBoundNames(binding.scope);
+    const valueNames = [...collectFreeSymbols(binding.value).keys()];
+    if (bound.has(binding.name) || valueNames.some(name => bound.has(name))) {
+      return undefined;
+    }
+
+    if (collectAssignedNames(binding.scope).has(binding.name)) {
+      return undefined;
+    }
+
+    const uses: SSymbol[] = [];
+    for (const expr of binding.scope) {
+      uses.push(...(collectFreeSymbols(expr).get(binding.name) || []));
+    }
+
+    // A computed value copied to several uses, or to none, would be
+    // evaluated (with its side effects) a different number of times
+    if (uses.length !== 1 && isList(binding.value)) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const valueText = text.substring(binding.value.range!.start.offset, binding.value.range!.end.offset);
+    const replacements: Replacement[] = [];
+
+    for (const use of uses) {
+      // `x.field` can only be inlined when the value is itself a name
+      if (use.name !== binding.name && !isSymbol(binding.value)) {
+        return undefined;
+      }
+      const start = use.position!.offset;
+      replacements.push({ start, end: start + binding.name.length, text: valueText });
+    }
+
+    return this.createAction(
+      `Inline variable '${binding.name}'`,
+      CodeActionKind.RefactorInline,
+      document,
+      this.removeBinding(text, binding, replacements)
+    );
+  }
+
+  /**
+   * Find the `let` binding a symbol names or refers to
+   */
+  private findLetBinding(expressions: SExp[], path: SExp[], symbol: SSymbol): LetBinding | undefined {
+    const name = symbol.name.split('.')[0];
+
+    for (let i = path.length - 2; i >= -1; i--) {
+      const container = i >= 0 ? path[i] as SList : undefined;
+      const child = path[i + 1];
+
+      if (container) {
+        // A parameter or loop name hides any outer let
+        if (getFormBindings(container).some(s => s.name === name || s.name === `${name}:`) &&
+            getFormKeyword(container) !== 'let') {
+          return undefined;
+        }
+
+        if (getFormKeyword(container) === 'let') {
+          const pairs = getBindingPairs(container);
+          const index = pairs.findIndex(p => p.name.name === name);
+          const inBody = container.elements.indexOf(child) >= 2;
+          const isName = index >= 0 && pairs[index].name === symbol;
+
+          // Uses inside the binding list see only earlier bindings
+          if (index >= 0 && !inBody && !isName) {
+            return undefined;
+          }
+
+          if (index >= 0 && pairs[index].value && (inBody || isName)) {
+            const pair = { name: pairs[index].name, value: pairs[index].value! };
+            return {
+              name,
+              form: container,
+              value: pair.value,
+              scope: [...pairs.slice(index + 1).map(p => p.value!).filter(Boolean), ...container.elements.slice(2)],
+              isTopLevel: false,
+              pair
+            };
+          }
+        }
+      }
+
+      // Statement bindings before the child in the same body
+      const statements = container ? this.getBodyStatements(container) : expressions;
+      if (!statements) continue;
+
+      const childIndex = statements.indexOf(child);
+      if (childIndex < 0) continue;
+
+      for (let j = childIndex; j >= 0; j--) {
+        if (!isStatementBinding(statements[j])) continue;
+        const statement = statements[j] as SList;
+        if ((statement.elements[1] as SSymbol).name !== name) continue;
+
+        const isName = statement.elements[1] === symbol;
+        if (j === childIndex && !isName) continue;
+        if (getFormKeyword(statement) !== 'let' || statement.elements.length !== 3) {
+          return undefined;
+        }
+
+        return {
+          name,
+          form: statement,
+          value: statement.elements[2],
+          scope: statements.slice(j + 1),
+          isTopLevel: !container
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the body statements of a form, if it has a body
+   */
+  private getBodyStatements(form: SList): SExp[] | undefined {
+    const start = getBodyStart(form);
+    return start === undefined ? undefined : form.elements.slice(start);
+  }
+
+  /**
+   * Add the replacements that remove an inlined binding to those that
+   * replace its uses
+   */
+  private removeBinding(text: string, binding: LetBinding, uses: Replacement[]): Replacement[] {
+    const form = binding.form;
+
+    if (!binding.pair) {
+      return [...uses, removeLines(text, form.range!.start.offset, form.range!.end.offset)];
+    }
+
+    const pairs = getBindingPairs(form);
+    if (pairs.length > 1) {
+      // Remove `name value` and the whitespace after it
+      const start = binding.pair.name.range!.start.offset;
+      let end = binding.pair.value.range!.end.offset;
+      while (end < text.length && /[\s,]/.test(text[end]) && text[end] !== '\n') end++;
+      if (text[end] === ')' || text[end] === ']') {
+        end = binding.pair.value.range!.end.offset;
+      }
+      return [...uses, { start, end, text: '' }];
+    }
+
+    // The only binding: the let becomes its body
+    const body = form.elements.slice(2);
+    if (body.length === 1 && body[0].range) {
+      const bodyText = applyReplacements(text, body[0].range.start.offset, body[0].range.end.offset, uses);
+      return [{ start: form.range!.start.offset, end: form.range!.end.offset, text: bodyText }];
+    }
+
+    const head = form.elements[0];
+    const bindings = form.elements[1];
+    const next = body[0];
+    return [
+      ...uses,
+      { start: head.range!.start.offset, end: head.range!.end.offset, text: 'do' },
+      { start: bindings.range!.start.offset, end: next && next.range ? next.range.start.offset : bindings.range!.end.offset, text: '' }
+    ];
+  }
+
+  /**
+   * Replace a call to a top-level fn/fx with the function's body
+   */
+  private inlineFunction(
+    document: TextDocument,
+    expressions: SExp[],
+    path: SExp[],
+    symbol: SSymbol
+  ): CodeAction | undefined {
+    const call = path[path.length - 2];
+    if (!call || !isList(call) || call.elements[0] !== symbol || !call.range) {
+      return undefined;
+    }
+
+    const definition = expressions.find(expr =>
+      isFormOf(expr, ['fn', 'fx']) && isSymbol(expr.elements[1]) && expr.elements[1].name === symbol.name
+    ) as SList | undefined;
+    const params = definition && getParameterList(definition);
+    const bodyStart = definition && getBodyStart(definition);
+    if (!definition || !params || bodyStart === undefined || definition.elements.length !== bodyStart + 1) {
+      return undefined;
+    }
+
+    // A local binding with the same name hides the definition
+    if (path.slice(0, -2).some(ancestor => isList(ancestor) &&
+        getFormBindings(ancestor).some(s => s.name === symbol.name))) {
+      return undefined;
+    }
+
+    const text = document.getText();
+    const args = this.matchArguments(text, params, call.elements.slice(1));
+    const body = definition.elements[bodyStart];
+    if (!args || !body.range) {
+      return undefined;
+    }
+
+    const free = collectFreeSymbols(body);
+    if ([...free.keys()].some(name => name === 'return' || name === 'recur')) {
+      return undefined;
+    }
+
+    // Names the arguments read must not be captured by bindings in the body
+    const bodyBindings = collectBoundNames([body]);
+    for (const arg of args.values()) {
+      if (arg.expr && [...collectFreeSymbols(arg.expr).keys()].some(name => bodyBindings.has(name))) {
+        return undefined;
+      }
+    }
+
+    const replacements: Replacement[] = [];
+    for (const [name, symbols] of free) {
+      const arg = args.get(name);
+      if (!arg) continue;
+
+      for (const use of symbols) {
+        if (use.name !== name && !(arg.expr && isSymbol(arg.expr))) {
+          return undefined;
+        }
+        const start = use.position!.offset;
+        replacements.push({ start, end: start + name.length, text: arg.text });
+      }
+    }
+
+    const column = call.range.start.column - 1;
+    const inlined = applyReplacements(text, body.range.start.offset, body.range.end.offset, replacements);
+    const indented = shiftIndent(inlined, column - (body.range.start.column - 1));
+
+    return this.createAction(`Inline function '${symbol.name}'`, CodeActionKind.RefactorInline, document, [
+      { start: call.range.start.offset, end: call.range.end.offset, text: indented }
+    ]);
+  }
+
+  /**
+   * Match call arguments, positional or `name:` value, to parameters,
+   * falling back to default values
+   */
+  private matchArguments(
+    text: string,
+    params: SList,
+    args: SExp[]
+  ): Map<string, { text: string; expr?: SExp }> | undefined {
+    const declared: { name: string; defaultValue?: SExp }[] = [];
+    const elements = params.elements.filter(e => !(isSymbol(e) && e.name === ','));
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      if (!isSymbol(element)) continue;
+      if (element.name === 'vector' && i === 0) continue;
+      if (element.name === '&') return undefined;
+      if (element.name === '=') {
+        declared[declared.length - 1].defaultValue = elements[++i];
+        continue;
+      }
+
+      const typed = element.name.length > 1 && element.name.endsWith(':');
+      declared.push({ name: typed ? element.name.slice(0, -1) : element.name });
+      if (typed) i++;
+    }
+
+    const sourceOf = (expr: SExp) => ({ text: text.substring(expr.range!.start.offset, expr.range!.end.offset), expr });
+    const matched = new Map<string, { text: string; expr?: SExp }>();
+    let positional = 0;
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg.range) return undefined;
+
+      if (isSymbol(arg) && arg.name.length > 1 && arg.name.endsWith(':')) {
+        const value = args[++i];
+        const name = arg.name.slice(0, -1);
+        if (!value || !value.range || !declared.some(p => p.name === name)) return undefined;
+        matched.set(name, sourceOf(value));
+      } else {
+        const param = declared[positional++];
+        if (!param) return undefined;
+        matched.set(param.name, sourceOf(arg));
+      }
+    }
+
+    for (const param of declared) {
+      if (matched.has(param.name)) continue;
+      if (!param.defaultValue || !param.defaultValue.range) return undefined;
+      matched.set(param.name, sourceOf(param.defaultValue));
+    }
+
+    return matched;
+  }
+
+  /**
+   * Turn an immutable `let` into a mutable `var`
+   */
+  private convertLetToVar(document: TextDocument, path: SExp[], symbol: SSymbol): CodeAction | undefined {
+    const parent = path[path.length - 2];
+    if (!parent || !isFormOf(parent, ['let'])) {
+      return undefined;
+    }
+
+    const head = parent.elements[0];
+    const onHead = symbol === head;
+    const onName = isStatementBinding(parent) ? parent.elements[1] === symbol : false;
+    if (!(onHead || onName) || !head.range) {
+      return undefined;
+    }
+
+    return this.createAction('Convert let to var', CodeActionKind.RefactorRewrite, document, [
+      { start: head.range.start.offset, end: head.range.end.offset, text: 'var' }
+    ]);
+  }
+
+  /**
+   * Find the statement of the innermost body that contains the end of a path
+   */
+  private findEnclosingStatement(path: SExp[]): SExp {
+    for (let i = path.length - 2; i >= 0; i--) {
+      const container = path[i] as SList;
+      const start = getBodyStart(container);
+      if (start !== undefined && container.elements.indexOf(path[i + 1]) >= start) {
+        return path[i + 1];
+      }
+    }
+    return path[0];
+  }
+
+  /**
+   * Find the innermost conditionally evaluated branch between a statement
+   * and the end of a path: undefined when there is none, null when the
+   * selection is the test of a later `cond` clause, which can't be wrapped
+   */
+  private findConditionalBranch(path: SExp[], statement: SExp): SExp | null | undefined {
+    const top = path.indexOf(statement);
+
+    for (let i = path.length - 2; i >= top; i--) {
+      const container = path[i] as SList;
+      const index = container.elements.indexOf(path[i + 1]);
+      const parent = path[i - 1];
+
+      if (CONDITIONAL_FORMS.includes(getFormKeyword(container) || '') && index >= 2) {
+        return path[i + 1];
+      }
+      if (isFormOf(container, ['cond']) && i === path.length - 2) {
+        return null; // a whole clause
+      }
+      // (cond (test value) ...): values are branches, and only the first test always runs
+      if (i > top && isFormOf(parent, ['cond'])) {
+        if (index >= 1) return path[i + 1];
+        if (parent.elements.indexOf(container) > 1) return null;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Pick a name that no symbol in the document uses yet
+   */
+  private getUniqueName(expressions: SExp[], base: string): string {
+    const used = new Set<string>();
+    walkSymbols(expressions, symbol => used.add(symbol.name.split('.')[0]));
+
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    return name;
+  }
+
+  /**
+   * Create a refactoring that edits one document
+   */
+  private createAction(title: string, kind: string, document: TextDocument, replacements: Replacement[]): CodeAction {
+    const edits = replacements.map(replacement => TextEdit.replace(
+      Range.create(document.positionAt(replacement.start), document.positionAt(replacement.end)),
+      replacement.text
+    ));
+
+    return {
+      title,
+      kind,
+      edit: { changes: { [document.uri]: edits } }
+    };
+  }
+}
+
+/**
+ * Collect the names assigned with `(set! name value)`
+ */
+function collectAssignedNames(expressions: SExp[]): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (expr: SExp): void => {
+    if (!isList(expr)) return;
+    const target = expr.elements[1];
+    if (isFormOf(expr, ['set!']) && target && isSymbol(target)) {
+      names.add(target.name.split('.')[0]);
+    }
+    expr.elements.forEach(visit);
+  };
+
+  expressions.forEach(visit);
+  return names;
+}
+
+/**
+ * Apply replacements that fall inside a span of text and return the span
+ */
+function applyReplacements(text: string, start: number, end: number, replacements: Replacement[]): string {
+  let result = '';
+  let position = start;
+
+  for (const replacement of [...replacements].sort((a, b) => a.start - b.start)) {
+    if (replacement.start < start || replacement.end > end) continue;
+    result += text.substring(position, replacement.start) + replacement.text;
+    position = replacement.end;
+  }
+
+  return result + text.substring(position, end);
+}
+
+/**
+ * Move the continuation lines of a text by a number of columns
+ */
+function shiftIndent(text: string, delta: number): string {
+  if (delta === 0) {
+    return text;
+  }
+  return text.split('\n').map((line, i) => {
+    if (i === 0 || line.trim() === '') return line;
+    if (delta > 0) return ' '.repeat(delta) + line;
+    const removable = Math.min(-delta, line.length - line.trimStart().length);
+    return line.substring(removable);
+  }).join('\n');
+}
+
+/**
+ * Get the text of an expression re-indented to start at a column
+ */
+function reindent(text: string, expr: SExp, column: number): string {
+  const exprText = text.substring(expr.range!.start.offset, expr.range!.end.offset);
+  return shiftIndent(exprText, column - (expr.range!.start.column - 1));
+}
+
+/**
+ * Where a top-level form starts, including the comments that lead it
+ */
+function leadingOffset(form: SExp): number {
+  let start = form.range!.start.offset;
+  for (const comment of form.comments || []) {
+    if (comment.placement === 'leading') {
+      start = Math.min(start, comment.range.start.offset);
+    }
+  }
+  return start;
+}
+
+/**
+ * Remove a span and, when it sits on lines of its own, those whole lines
+ */
+function removeLines(text: string, start: number, end: number): Replacement {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  let lineEnd = text.indexOf('\n', end);
+  if (lineEnd < 0) lineEnd = text.length;
+
+  if (/^\s*$/.test(text.substring(lineStart, start)) && /^\s*$/.test(text.substring(end, lineEnd))) {
+    return { start: lineStart, end: Math.min(lineEnd + 1, text.length), text: '' };
+  }
+  return { start, end, text: '' };
+}
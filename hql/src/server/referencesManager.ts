@@ -0,0 +1,53 @@
+import {
+  Location,
+  ReferenceParams
+} from 'vscode-languageserver';
+
+import { ModuleManager } from './moduleManager';
+
+/**
+ * ReferencesProvider handles find-all-references requests across the workspace
+ */
+export class ReferencesProvider {
+  private moduleManager: ModuleManager;
+
+  constructor(moduleManager: ModuleManager) {
+    this.moduleManager = moduleManager;
+  }
+
+  /**
+   * Provide every location that refers to the symbol at a position
+   */
+  public async provideReferences(params: ReferenceParams): Promise<Location[]> {
+    try {
+      const occurrence = this.moduleManager.resolveAtPosition(params.textDocument.uri, params.position);
+      if (!occurrence) {
+        return [];
+      }
+
+      const includeDeclaration = params.context?.includeDeclaration !== false;
+      const seen = new Set<string>();
+      const locations: Location[] = [];
+
+      for (const reference of this.moduleManager.findReferences(occurrence.target)) {
+        if (!includeDeclaration && reference.isDefinition) {
+          continue;
+        }
+
+        // A symbol can be reached twice, e.g. `x` in `[x as x]`
+        const key = `${reference.uri}:${reference.range.start.line}:${reference.range.start.character}`;
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        locations.push(Location.create(reference.uri, reference.range));
+      }
+
+      return locations;
+    } catch (error) {
+      console.error(`Error providing references: ${error}`);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  ErrorCodes,
+  PrepareRenameParams,
+  Range,
+  RenameParams,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit
+} from 'vscode-languageserver';
+
+import { ModuleManager, SymbolReference, SymbolTarget } from './moduleManager';
+import { ProjectConfigManager } from './projectConfig';
+import { ReservedKeywordsValidator } from './validator/reservedKeywordsValidator';
+import { walkSymbols } from './utils/module-utils';
+import { Binding, Scope, ScopeAnalysis } from './utils/scope-analysis';
+import { getBindingName } from './utils/scope-utils';
+
+/**
+ * Characters that cannot appear in an HQL identifier
+ */
+const VALID_IDENTIFIER_REGEX = /^[^\s()\[\]{}"'`,;.:#~@\\]+$/;
+
+/**
+ * RenameProvider handles safe cross-file symbol renaming
+ */
+export class RenameProvider {
+  private moduleManager: ModuleManager;
+  private reservedKeywordsValidator: ReservedKeywordsValidator;
+  private projectConfig?: ProjectConfigManager;
+
+  constructor(moduleManager: ModuleManager, projectConfig?: ProjectConfigManager) {
+    this.moduleManager = moduleManager;
+    this.reservedKeywordsValidator = new ReservedKeywordsValidator();
+    this.projectConfig = projectConfig;
+  }
+
+  /**
+   * Check that the symbol at a position can be renamed and return its range
+   */
+  public async prepareRename(params: PrepareRenameParams): Promise<{ range: Range; placeholder: string } | null> {
+    const occurrence = this.moduleManager.resolveAtPosition(params.textDocument.uri, params.position);
+    if (!occurrence) {
+      return null;
+    }
+
+    this.assertRenameable(occurrence);
+
+    return { range: occurrence.range, placeholder: occurrence.text };
+  }
+
+  /**
+   * Build the workspace edit that renames the symbol at a position
+   */
+  public async provideRename(params: RenameParams): Promise<WorkspaceEdit | null> {
+    const occurrence = this.moduleManager.resolveAtPosition(params.textDocument.uri, params.position);
+    if (!occurrence) {
+      return null;
+    }
+
+    this.assertRenameable(occurrence);
+
+    const target = occurrence.target;
+    const oldName = this.getSimpleName(target);
+    const newName = params.newName.trim();
+
+    if (newName === oldName) {
+      return { changes: {} };
+    }
+
+    // Aliased uses keep their alias; only occurrences spelled like the
+    // original name are rewritten
+    const references = this.moduleManager.findReferences(target)
+      .filter(reference => reference.text === oldName);
+
+    this.validateNewName(newName, [params.textDocument.uri, ...references.map(reference => reference.uri)]);
+
+    this.checkForConflicts(target, references, newName);
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const seen = new Set<string>();
+
+    for (const reference of references) {
+      const key = `${reference.uri}:${reference.range.start.line}:${reference.range.start.character}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (!changes[reference.uri]) {
+        changes[reference.uri] = [];
+      }
+      changes[reference.uri].push(TextEdit.replace(reference.range, newName));
+    }
+
+    return { changes };
+  }
+
+  /**
+   * Get the unqualified name of a target (`case` for `Enum.case`)
+   */
+  private getSimpleName(target: SymbolTarget): string {
+    const parts = target.name.split('.');
+    return parts[parts.length - 1];
+  }
+
+  /**
+   * Reject symbols that have no definition we can rewrite
+   */
+  private assertRenameable(occurrence: SymbolReference): void {
+    const target = occurrence.target;
+
+    if (target.uri.startsWith('module:') || !target.uri.endsWith('.hql')) {
+      throw new ResponseError(
+        ErrorCodes.InvalidRequest,
+        `'${occurrence.text}' is defined outside the workspace and cannot be renamed`
+      );
+    }
+
+    if (target.scope && !target.binding) {
+      throw new ResponseError(
+        ErrorCodes.InvalidRequest,
+        `'${occurrence.text}' is a built-in or undefined symbol and cannot be renamed`
+      );
+    }
+  }
+
+  /**
+   * Validate a proposed identifier against the built-in keywords and those
+   * the projects of the edited files reserve
+   */
+  private validateNewName(newName: string, uris: string[]): void {
+    if (!newName || !VALID_IDENTIFIER_REGEX.test(newName) || !isNaN(Number(newName))) {
+      throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid HQL identifier`);
+    }
+
+    const projectKeywords = this.projectConfig
+      ? [...new Set(uris)].flatMap(uri => this.projectConfig!.getConfig(uri).reservedKeywords)
+      : [];
+    if (this.reservedKeywordsValidator.isReservedKeyword(newName) ||
+        projectKeywords.some(keyword => keyword.toLowerCase() === newName.toLowerCase())) {
+      throw new ResponseError(
+        ErrorCodes.InvalidParams,
+        `'${newName}' is a reserved keyword and cannot be used as a symbol name`
+      );
+    }
+  }
+
+  /**
+   * Refuse renames that would collide with or shadow an existing binding
+   */
+  private checkForConflicts(target: SymbolTarget, references: SymbolReference[], newName: string): void {
+    const fail = (where: string): never => {
+      throw new ResponseError(
+        ErrorCodes.InvalidParams,
+        `Renaming to '${newName}' would shadow an existing binding ${where}`
+      );
+    };
+
+    const info = this.moduleManager.getModuleInfo(target.uri);
+
+    if (target.binding) {
+      if (info) {
+        this.checkLocalConflicts(target.binding, this.moduleManager.getScopeAnalysis(info), newName, fail);
+      }
+      return;
+    }
+
+    // Enum cases only need to be unique within their enum
+    if (target.name.includes('.')) {
+      const owner = target.name.substring(0, target.name.lastIndexOf('.'));
+      if (info && info.definitions.has(`${owner}.${newName}`)) {
+        fail(`in ${owner}`);
+      }
+      return;
+    }
+
+    const affected = new Set<string>([target.uri, ...references.map(r => r.uri)]);
+    for (const uri of affected) {
+      const moduleInfo = this.moduleManager.getModuleInfo(uri);
+      if (!moduleInfo) continue;
+
+      if (moduleInfo.definitions.has(newName) || moduleInfo.imports.has(newName) || moduleInfo.exports.has(newName)) {
+        fail(`in ${this.fileName(uri)}`);
+      }
+    }
+
+    // A local binding with the new name would capture renamed uses
+    for (const reference of references) {
+      if (reference.isDefinition || !reference.symbol.position) continue;
+
+      const moduleInfo = this.moduleManager.getModuleInfo(reference.uri);
+      const local = moduleInfo && this.moduleManager.getScopeAnalysis(moduleInfo)
+        .lookupAt(newName, reference.symbol.position.offset);
+      if (local && local.scope.parent) {
+        fail(`in ${this.fileName(reference.uri)}`);
+      }
+    }
+  }
+
+  /**
+   * Refuse renaming a local binding when a binding of the new name in the
+   * same scope exists, when a nested binding of the new name would capture
+   * its uses, or when the renamed binding would capture uses of an outer
+   * name (including built-ins)
+   */
+  private checkLocalConflicts(
+    binding: Binding,
+    analysis: ScopeAnalysis,
+    newName: string,
+    fail: (where: string) => never
+  ): void {
+    const uses = analysis.getReferences(binding).map(symbol => symbol.position!.offset);
+
+    walkSymbols([binding.scope.form!], symbol => {
+      if (!symbol.position || getBindingName(symbol).split('.')[0] !== newName) return;
+      // Named argument labels are not names
+      if (symbol.name.endsWith(':') && !analysis.getDefinition(symbol)) return;
+
+      const other = analysis.resolve(symbol);
+      if (other && isWithin(other.scope, binding.scope)) {
+        if (other.scope === binding.scope) {
+          fail('in the same scope');
+        }
+        if (uses.some(offset => other.scope.start <= offset && offset <= other.scope.end)) {
+          fail('in a nested scope');
+        }
+      } else if (symbol.position.offset >= binding.visibleFrom) {
+        fail('used in the same scope');
+      }
+    });
+  }
+
+  /**
+   * Get the file name of a URI for messages
+   */
+  private fileName(uri: string): string {
+    return uri.split('/').pop() || uri;
+  }
+}
+
+/**
+ * Check whether a scope is, or is nested in, another
+ */
+function isWithin(scope: Scope, ancestor: Scope): boolean {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
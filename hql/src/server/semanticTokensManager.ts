@@ -0,0 +1,652 @@
+import {
+  SemanticTokens,
+  SemanticTokensBuilder,
+  SemanticTokensDelta,
+  SemanticTokensDeltaParams,
+  SemanticTokensLegend,
+  SemanticTokensParams,
+  SymbolKind
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isSymbol } from '../s-exp/types';
+import { ExtendedSymbolInformation, SymbolManager } from './symbolManager';
+import { ModuleManager, SymbolTarget } from './moduleManager';
+import { ModuleInfo, getVectorElements, splitSymbolParts } from './utils/module-utils';
+
+/**
+ * Token types reported to the client, in legend order
+ */
+export const TOKEN_TYPES = [
+  'namespace', 'class', 'enum', 'enumMember', 'function',
+  'method', 'macro', 'parameter', 'variable', 'property'
+];
+
+/**
+ * Token modifiers reported to the client, in legend order
+ * - pure: fx functions and methods
+ * - mutable: var bindings
+ */
+export const TOKEN_MODIFIERS = [
+  'declaration', 'readonly', 'deprecated', 'pure', 'mutable'
+];
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+  tokenTypes: TOKEN_TYPES,
+  tokenModifiers: TOKEN_MODIFIERS
+};
+
+/**
+ * How a name is highlighted
+ */
+interface TokenClass {
+  type: string;
+  modifiers: string[];
+}
+
+/**
+ * A classified token before encoding
+ */
+interface Token {
+  line: number;
+  character: number;
+  length: number;
+  type: string;
+  modifiers: string[];
+}
+
+/**
+ * Local bindings visible at a point of the tree
+ */
+type Scope = Map<string, TokenClass>;
+
+/**
+ * SemanticTokensProvider classifies the symbols of a document using the
+ * definitions known to the SymbolManager and the imports of the module
+ */
+export class SemanticTokensProvider {
+  private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
+  private builders: Map<string, SemanticTokensBuilder> = new Map();
+
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
+    this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
+  }
+
+  /**
+   * Provide all semantic tokens of a document
+   */
+  public provideSemanticTokens(params: SemanticTokensParams): SemanticTokens {
+    const builder = this.getBuilder(params.textDocument.uri);
+    this.pushTokens(builder, params.textDocument.uri);
+    return builder.build();
+  }
+
+  /**
+   * Provide the changes to the semantic tokens since a previous result
+   */
+  public provideSemanticTokensDelta(params: SemanticTokensDeltaParams): SemanticTokens | SemanticTokensDelta {
+    const builder = this.getBuilder(params.textDocument.uri);
+    builder.previousResult(params.previousResultId);
+    this.pushTokens(builder, params.textDocument.uri);
+    return builder.buildEdits();
+  }
+
+  /**
+   * Forget the previous result of a closed document
+   */
+  public clearDocument(uri: string): void {
+    this.builders.delete(uri);
+  }
+
+  /**
+   * Get the token builder of a document, which remembers the last result
+   */
+  private getBuilder(uri: string): SemanticTokensBuilder {
+    let builder = this.builders.get(uri);
+    if (!builder) {
+      builder = new SemanticTokensBuilder();
+      this.builders.set(uri, builder);
+    }
+    return builder;
+  }
+
+  /**
+   * Classify the document and push its tokens in document order
+   */
+  private pushTokens(builder: SemanticTokensBuilder, uri: string): void {
+    const document = this.symbolManager.getDocument(uri) as TextDocument | undefined;
+    const info = this.moduleManager.getModuleInfo(uri);
+    if (!document || !info) {
+      return;
+    }
+
+    const tokens = new Tokenizer(this, info, this.symbolManager.getDocumentSymbols(uri))
+      .classify(this.symbolManager.getParsedDocument(document).expressions);
+
+    tokens.sort((a, b) => a.line - b.line || a.character - b.character);
+
+    let previous: Token | undefined;
+    for (const token of tokens) {
+      // Overlapping tokens are not allowed
+      if (previous && previous.line === token.line && previous.character + previous.length > token.character) {
+        continue;
+      }
+
+      builder.push(
+        token.line,
+        token.character,
+        token.length,
+        TOKEN_TYPES.indexOf(token.type),
+        token.modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0)
+      );
+      previous = token;
+    }
+  }
+
+  /**
+   * Classify a name exported by another module
+   */
+  public classifyTarget(target: SymbolTarget): TokenClass | undefined {
+    const info = this.moduleManager.getModuleInfo(target.uri);
+    if (!info) {
+      // JavaScript modules and packages only tell us the name is a binding
+      return undefined;
+    }
+
+    const symbol = this.symbolManager.getDocumentSymbols(target.uri).find(s => s.name === target.name);
+    if (symbol) {
+      return classifySymbol(symbol);
+    }
+
+    const form = info.definitionForms.get(target.name);
+    return form ? classifyForm(form) : undefined;
+  }
+
+  /**
+   * Resolve a name imported into a module
+   */
+  public resolveImport(info: ModuleInfo, name: string): SymbolTarget | undefined {
+    return this.moduleManager.resolveName(info, name);
+  }
+
+  /**
+   * Resolve a member of a namespace import
+   */
+  public resolveNamespaceMember(info: ModuleInfo, namespace: string, member: string): SymbolTarget | undefined {
+    const binding = info.imports.get(namespace);
+    const moduleUri = binding && this.moduleManager.resolveModule(info.uri, binding.modulePath);
+    return moduleUri ? this.moduleManager.resolveExport(moduleUri, member) : undefined;
+  }
+}
+
+/**
+ * Walks one document and classifies its symbols
+ */
+class Tokenizer {
+  private tokens: Token[] = [];
+  private globals: Map<string, TokenClass> = new Map();
+  private root: Scope = new Map();
+
+  constructor(
+    private provider: SemanticTokensProvider,
+    private info: ModuleInfo,
+    symbols: ExtendedSymbolInformation[]
+  ) {
+    for (const symbol of symbols) {
+      const tokenClass = classifySymbol(symbol);
+      if (tokenClass && !this.globals.has(symbol.name)) {
+        this.globals.set(symbol.name, tokenClass);
+      }
+    }
+  }
+
+  /**
+   * Classify every symbol of the given top-level forms
+   */
+  public classify(expressions: SExp[]): Token[] {
+    for (const expr of expressions) {
+      this.visit(expr, this.root);
+    }
+    return this.tokens;
+  }
+
+  /**
+   * Visit an expression with the local bindings in scope
+   */
+  private visit(expr: SExp, scope: Scope): void {
+    if (isSymbol(expr)) {
+      this.reference(expr, scope);
+      return;
+    }
+    if (!isList(expr) || expr.elements.length === 0) {
+      return;
+    }
+
+    const head = expr.elements[0];
+    const keyword = isSymbol(head) ? head.name : '';
+
+    switch (keyword) {
+      case 'fn':
+      case 'fx':
+      case 'lambda':
+        this.visitFunction(expr, scope, { type: 'function', modifiers: keyword === 'fx' ? ['pure'] : [] });
+        return;
+      case 'macro':
+      case 'defmacro':
+        this.visitFunction(expr, scope, { type: 'macro', modifiers: [] });
+        return;
+      case 'let':
+      case 'var':
+        this.visitBinding(expr, scope, keyword === 'var' ? ['mutable'] : ['readonly']);
+        return;
+      case 'loop':
+      case 'for':
+        this.visitLoop(expr, scope);
+        return;
+      case 'class':
+      case 'struct':
+        this.visitClass(expr, scope);
+        return;
+      case 'enum':
+        this.visitEnum(expr);
+        return;
+      case 'import':
+      case 'export':
+        this.visitModuleStatement(expr, scope);
+        return;
+    }
+
+    for (const element of expr.elements) {
+      this.visit(element, scope);
+    }
+  }
+
+  /**
+   * Visit fn/fx/lambda/macro forms: name, parameters and body.
+   * Class members pass the class of their name explicitly.
+   */
+  private visitFunction(expr: SList, scope: Scope, nameClass: TokenClass, isMember: boolean = false): void {
+    let index = 1;
+    const name = expr.elements[1];
+
+    if (name && isSymbol(name)) {
+      const tokenClass = isMember ? nameClass : this.bind(name.name, nameClass, scope);
+      this.declare(name, tokenClass);
+      index = 2;
+    }
+
+    const inner: Scope = new Map(scope);
+    const params = expr.elements[index];
+    if (params && isList(params)) {
+      this.declareParameters(params, inner);
+      index++;
+    }
+
+    for (const element of expr.elements.slice(index)) {
+      this.visit(element, inner);
+    }
+  }
+
+  /**
+   * Declare the symbols of a parameter vector; type annotations and
+   * default values are visited as ordinary expressions
+   */
+  private declareParameters(params: SList, scope: Scope): void {
+    const elements = getVectorElements(params);
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      if (!isSymbol(element)) {
+        this.visit(element, scope);
+        continue;
+      }
+      if (element.name === '&' || element.name === '=' || element.name === '->') {
+        continue;
+      }
+
+      const previous = elements[i - 1];
+      const isAnnotation = previous && isSymbol(previous) && previous.name.endsWith(':') && previous.name !== ':';
+      const isDefault = previous && isSymbol(previous) && previous.name === '=';
+      if (isAnnotation || isDefault) {
+        this.reference(element, scope);
+        continue;
+      }
+
+      const paramName = element.name.replace(/:$/, '');
+      const tokenClass: TokenClass = { type: 'parameter', modifiers: [] };
+      scope.set(paramName, tokenClass);
+      this.declare(element, tokenClass, paramName.length);
+    }
+  }
+
+  /**
+   * Visit let/var forms, either `(let name value)` which binds the name
+   * for the rest of the enclosing body, or `(let (a 1 b 2) body)`
+   */
+  private visitBinding(expr: SList, scope: Scope, modifiers: string[]): void {
+    const target = expr.elements[1];
+
+    if (target && isSymbol(target)) {
+      for (const element of expr.elements.slice(2)) {
+        this.visit(element, scope);
+      }
+      this.declare(target, this.bind(target.name, { type: 'variable', modifiers }, scope));
+      return;
+    }
+
+    const inner: Scope = new Map(scope);
+    if (target && isList(target)) {
+      this.declarePairs(getVectorElements(target), inner, { type: 'variable', modifiers });
+    }
+    for (const element of expr.elements.slice(2)) {
+      this.visit(element, inner);
+    }
+  }
+
+  /**
+   * Visit loop/for forms, whose first list binds names for the body
+   */
+  private visitLoop(expr: SList, scope: Scope): void {
+    const inner: Scope = new Map(scope);
+    const bindings = expr.elements[1];
+
+    if (bindings && isList(bindings)) {
+      const elements = getVectorElements(bindings);
+      if ((expr.elements[0] as SSymbol).name === 'for') {
+        // (for (i from: 0 to: 10) ...) binds only the first name
+        const [name, ...rest] = elements;
+        if (name && isSymbol(name)) {
+          const tokenClass: TokenClass = { type: 'variable', modifiers: [] };
+          inner.set(name.name, tokenClass);
+          this.declare(name, tokenClass);
+        }
+        rest.filter(element => !(isSymbol(element) && element.name.endsWith(':')))
+          .forEach(element => this.visit(element, scope));
+      } else {
+        this.declarePairs(elements, inner, { type: 'variable', modifiers: [] });
+      }
+    }
+
+    for (const element of expr.elements.slice(2)) {
+      this.visit(element, inner);
+    }
+  }
+
+  /**
+   * Declare alternating name/value binding pairs
+   */
+  private declarePairs(elements: SExp[], scope: Scope, tokenClass: TokenClass): void {
+    for (let i = 0; i < elements.length; i += 2) {
+      const name = elements[i];
+      const value = elements[i + 1];
+      if (value) {
+        this.visit(value, scope);
+      }
+      if (isSymbol(name)) {
+        scope.set(name.name, tokenClass);
+        this.declare(name, tokenClass);
+      }
+    }
+  }
+
+  /**
+   * Visit a class: its name, fields, methods and constructor
+   */
+  private visitClass(expr: SList, scope: Scope): void {
+    const name = expr.elements[1];
+    if (!name || !isSymbol(name)) {
+      return;
+    }
+    this.declare(name, { type: 'class', modifiers: this.globals.get(name.name)?.modifiers || [] });
+
+    for (const member of expr.elements.slice(2)) {
+      if (isSymbol(member)) {
+        // extends Parent
+        this.reference(member, scope);
+        continue;
+      }
+      if (!isList(member) || !isSymbol(member.elements[0])) {
+        this.visit(member, scope);
+        continue;
+      }
+
+      const keyword = member.elements[0].name;
+      const memberName = member.elements[1];
+      const qualified = memberName && isSymbol(memberName) ? `${name.name}.${memberName.name}` : '';
+
+      switch (keyword) {
+        case 'fn':
+        case 'fx':
+          this.visitFunction(member, scope, this.globals.get(qualified) ||
+            { type: 'method', modifiers: keyword === 'fx' ? ['pure'] : [] }, true);
+          break;
+        case 'var':
+        case 'let':
+          if (memberName && isSymbol(memberName)) {
+            this.declare(memberName, this.globals.get(qualified) ||
+              { type: 'property', modifiers: keyword === 'var' ? ['mutable'] : ['readonly'] });
+          }
+          member.elements.slice(2).forEach(element => this.visit(element, scope));
+          break;
+        case 'constructor':
+          this.visitFunction(member, scope, { type: 'method', modifiers: [] }, true);
+          break;
+        default:
+          this.visit(member, scope);
+      }
+    }
+  }
+
+  /**
+   * Visit an enum: its name and cases
+   */
+  private visitEnum(expr: SList): void {
+    const name = expr.elements[1];
+    if (!name || !isSymbol(name)) {
+      return;
+    }
+
+    // Enums with a raw type are parsed as `Name:Type`
+    const enumName = name.name.split(':')[0];
+    this.declare(name, { type: 'enum', modifiers: this.globals.get(enumName)?.modifiers || [] }, enumName.length);
+
+    for (const caseExpr of expr.elements.slice(2)) {
+      if (!isList(caseExpr)) continue;
+      const [keyword, caseName] = caseExpr.elements;
+      if (keyword && isSymbol(keyword) && keyword.name === 'case' && caseName && isSymbol(caseName)) {
+        this.declare(caseName, { type: 'enumMember', modifiers: [] });
+      }
+    }
+  }
+
+  /**
+   * Visit import/export statements, classifying the names they bind
+   */
+  private visitModuleStatement(expr: SList, scope: Scope): void {
+    for (const element of expr.elements.slice(1)) {
+      if (isSymbol(element)) {
+        if (element.name !== 'from' && element.name !== 'as') {
+          this.reference(element, scope);
+        }
+      } else if (isList(element)) {
+        for (const entry of getVectorElements(element)) {
+          if (isSymbol(entry) && entry.name !== 'as' && entry.name !== ',') {
+            this.reference(entry, scope);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Record a token for a symbol that is used, splitting dotted names
+   */
+  private reference(symbol: SSymbol, scope: Scope): void {
+    if (!symbol.position) {
+      return;
+    }
+
+    // `.method` calls have no static receiver
+    if (symbol.name.startsWith('.') && symbol.name.length > 1) {
+      this.push(symbol, 1, symbol.name.length - 1, { type: 'method', modifiers: [] });
+      return;
+    }
+
+    const parts = splitSymbolParts(symbol.name);
+    const head = parts[0];
+    const headClass = this.lookup(head.text, scope);
+    if (!headClass) {
+      return;
+    }
+    this.push(symbol, head.start, head.text.length, headClass);
+
+    const member = parts[1];
+    if (!member) {
+      return;
+    }
+
+    let memberClass: TokenClass | undefined;
+    if (headClass.type === 'namespace') {
+      const target = this.provider.resolveNamespaceMember(this.info, head.text, member.text);
+      memberClass = (target && this.provider.classifyTarget(target)) || { type: 'variable', modifiers: [] };
+    } else if (headClass.type === 'enum') {
+      memberClass = { type: 'enumMember', modifiers: [] };
+    } else {
+      memberClass = this.lookupMember(head.text, member.text) || { type: 'property', modifiers: [] };
+    }
+    this.push(symbol, member.start, member.text.length, memberClass);
+  }
+
+  /**
+   * Find the class of a name from the local scope, the module or its imports
+   */
+  private lookup(name: string, scope: Scope): TokenClass | undefined {
+    const local = scope.get(name);
+    if (local) {
+      return local;
+    }
+
+    const binding = this.info.imports.get(name);
+    if (binding) {
+      if (binding.isNamespace) {
+        return { type: 'namespace', modifiers: [] };
+      }
+      const target = this.provider.resolveImport(this.info, name);
+      return (target && this.provider.classifyTarget(target)) || { type: 'variable', modifiers: [] };
+    }
+
+    return this.globals.get(name);
+  }
+
+  /**
+   * Find the class of a member of a class or enum, including imported ones
+   */
+  private lookupMember(owner: string, member: string): TokenClass | undefined {
+    const local = this.globals.get(`${owner}.${member}`);
+    if (local) {
+      return local;
+    }
+
+    const target = this.provider.resolveImport(this.info, owner);
+    return target ? this.provider.classifyTarget({ uri: target.uri, name: `${target.name}.${member}` }) : undefined;
+  }
+
+  /**
+   * Bind a defined name. Module-level definitions keep the class the
+   * SymbolManager recorded (which knows about deprecation); local ones
+   * shadow outer bindings for the rest of their scope.
+   */
+  private bind(name: string, tokenClass: TokenClass, scope: Scope): TokenClass {
+    if (scope === this.root) {
+      return this.globals.get(name) || tokenClass;
+    }
+    scope.set(name, tokenClass);
+    return tokenClass;
+  }
+
+  /**
+   * Record the defining occurrence of a name
+   */
+  private declare(symbol: SSymbol, tokenClass: TokenClass, length: number = symbol.name.length): void {
+    this.push(symbol, 0, length, {
+      type: tokenClass.type,
+      modifiers: [...tokenClass.modifiers, 'declaration']
+    });
+  }
+
+  /**
+   * Record a token covering part of a symbol
+   */
+  private push(symbol: SSymbol, start: number, length: number, tokenClass: TokenClass): void {
+    if (!symbol.position || length <= 0) {
+      return;
+    }
+    this.tokens.push({
+      line: symbol.position.line - 1,
+      character: symbol.position.column - 1 + start,
+      length,
+      type: tokenClass.type,
+      modifiers: tokenClass.modifiers
+    });
+  }
+}
+
+/**
+ * Classify a symbol known to the SymbolManager
+ */
+function classifySymbol(symbol: ExtendedSymbolInformation): TokenClass | undefined {
+  const modifiers: string[] = [];
+  if (symbol.data?.isFx) modifiers.push('pure');
+  if (symbol.data?.isMutable) modifiers.push('mutable');
+  if (symbol.data?.isMutable === false) modifiers.push('readonly');
+  if (symbol.data?.documentation && /@deprecated\b/i.test(symbol.data.documentation)) {
+    modifiers.push('deprecated');
+  }
+
+  if (symbol.data?.isMacro) {
+    return { type: 'macro', modifiers };
+  }
+  if (symbol.data?.imported) {
+    // Imports are resolved through the module they come from
+    return undefined;
+  }
+
+  switch (symbol.kind) {
+    case SymbolKind.Function: return { type: 'function', modifiers };
+    case SymbolKind.Method:
+    case SymbolKind.Constructor: return { type: 'method', modifiers };
+    case SymbolKind.Field: return { type: 'property', modifiers };
+    case SymbolKind.Class: return { type: 'class', modifiers };
+    case SymbolKind.Enum: return { type: 'enum', modifiers };
+    case SymbolKind.EnumMember: return { type: 'enumMember', modifiers };
+    case SymbolKind.Namespace: return { type: 'namespace', modifiers };
+    case SymbolKind.Variable: return { type: 'variable', modifiers };
+    default: return undefined;
+  }
+}
+
+/**
+ * Classify a definition form of a module that is not open
+ */
+function classifyForm(form: SList): TokenClass | undefined {
+  const keyword = isSymbol(form.elements[0]) ? form.elements[0].name : '';
+
+  switch (keyword) {
+    case 'fn': return { type: 'function', modifiers: [] };
+    case 'fx': return { type: 'function', modifiers: ['pure'] };
+    case 'macro':
+    case 'defmacro': return { type: 'macro', modifiers: [] };
+    case 'class':
+    case 'struct': return { type: 'class', modifiers: [] };
+    case 'enum': return { type: 'enum', modifiers: [] };
+    case 'case': return { type: 'enumMember', modifiers: [] };
+    case 'var': return { type: 'variable', modifiers: ['mutable'] };
+    case 'let':
+    case 'const': return { type: 'variable', modifiers: ['readonly'] };
+    default: return undefined;
+  }
+}
@@ -0,0 +1,406 @@
+import {
+  MarkupKind,
+  ParameterInformation,
+  SignatureHelp,
+  SignatureHelpParams,
+  SignatureInformation,
+  SymbolKind
+} from 'vscode-languageserver';
+
+import { SExp, SList, SSymbol } from '../parser';
+import { isList, isSymbol } from '../s-exp/types';
+import { ExtendedSymbolInformation, SymbolManager } from './symbolManager';
+import { ModuleManager } from './moduleManager';
+import { getJsGlobal, getJsMember, JsSignature } from './utils/js-globals';
+
+/**
+ * A parameter as recorded on function, method, constructor and enum case
+ * symbols; JavaScript parameters may be optional and carry documentation
+ */
+interface ParamData {
+  name: string;
+  type: string;
+  defaultValue?: string;
+  optional?: boolean;
+  rest?: boolean;
+  documentation?: string;
+}
+
+/**
+ * One signature of a callee
+ * - label is the callee as it is shown in the signature; overloads found
+ *   by member name are labelled with their qualified names
+ */
+interface CalleeSignature {
+  label: string;
+  params: ParamData[];
+  returnType?: string;
+  documentation?: string;
+}
+
+/**
+ * A call whose callee resolved to one or more signatures
+ * - args are the arguments after the callee (and after the receiver or class)
+ */
+interface ResolvedCall {
+  signatures: CalleeSignature[];
+  args: SExp[];
+}
+
+/**
+ * SignatureHelpProvider shows the parameters of the fn/fx function, method,
+ * constructor or enum case being called and highlights the active one
+ */
+export class SignatureHelpProvider {
+  private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
+
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager) {
+    this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
+  }
+
+  /**
+   * Provide signature help for the call around a position
+   */
+  public provideSignatureHelp(params: SignatureHelpParams): SignatureHelp | null {
+    try {
+      const document = this.symbolManager.getDocument(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+
+      const text = document.getText();
+      const offset = document.offsetAt(params.position);
+      const expressions = this.symbolManager.getParsedDocument(document).expressions;
+
+      // The innermost call the cursor is in wins; calls to unknown
+      // functions fall through to the call around them
+      for (const call of findEnclosingCalls(expressions, offset, text)) {
+        const resolved = this.resolveCall(params.textDocument.uri, call);
+        if (!resolved) continue;
+
+        const signatures = resolved.signatures.map(signature =>
+          this.createSignature(signature, resolved.args, offset)
+        );
+
+        return {
+          signatures,
+          activeSignature: 0,
+          activeParameter: signatures[0].activeParameter ?? null
+        };
+      }
+
+      return null;
+    } catch (error) {
+      console.error(`Error providing signature help: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the callee of a call to the signatures that describe it
+   */
+  private resolveCall(uri: string, call: SList): ResolvedCall | undefined {
+    const [head, ...rest] = call.elements;
+    if (!head || !isSymbol(head)) {
+      return undefined;
+    }
+
+    // (new Class args...) calls the class constructor
+    if (head.name === 'new') {
+      const classExpr = rest[0];
+      if (!classExpr || !isSymbol(classExpr)) {
+        return undefined;
+      }
+      const classSymbol = this.resolveSymbol(uri, classExpr);
+      const constructor = classSymbol && this.findMember(classSymbol, 'constructor');
+      if (constructor) {
+        return { signatures: [fromSymbol(constructor, `new ${classExpr.name}`)], args: rest.slice(1) };
+      }
+      const jsClass = !classSymbol && !this.isBound(uri, classExpr) ? getJsGlobal(classExpr.name) : undefined;
+      return jsClass && jsClass.constructSignatures.length > 0
+        ? { signatures: jsClass.constructSignatures.map(s => fromJsSignature(`new ${classExpr.name}`, s)), args: rest.slice(1) }
+        : undefined;
+    }
+
+    // (.method receiver args...) and (.case args...) have no static owner
+    if (head.name.startsWith('.')) {
+      const member = head.name.substring(1);
+      const symbols = this.findMembersNamed(member);
+      const isCase = symbols.length > 0 && symbols.every(s => s.kind === SymbolKind.EnumMember);
+      return symbols.length > 0
+        ? { signatures: fromSymbols(symbols, head.name), args: isCase ? rest : rest.slice(1) }
+        : undefined;
+    }
+
+    const symbol = this.resolveSymbol(uri, head);
+    if (symbol) {
+      // Calling a class by name constructs it
+      const callable = symbol.kind === SymbolKind.Class ? this.findMember(symbol, 'constructor') : symbol;
+      return callable && callable.data?.params
+        ? { signatures: [fromSymbol(callable, head.name)], args: rest }
+        : undefined;
+    }
+
+    // JavaScript globals: (parseInt s), (Math.max a b), (String x)
+    if (!this.isBound(uri, head)) {
+      const member = getJsMember(head.name);
+      const global = member ? undefined : getJsGlobal(head.name);
+      const jsSignatures = member ? member.member.signatures : global ? global.callSignatures : [];
+      if (jsSignatures.length > 0) {
+        return { signatures: jsSignatures.map(s => fromJsSignature(head.name, s)), args: rest };
+      }
+    }
+
+    // instance.method on a local binding matches methods of every class
+    const separator = head.name.lastIndexOf('.');
+    if (separator > 0) {
+      const symbols = this.findMembersNamed(head.name.substring(separator + 1))
+        .filter(s => s.kind === SymbolKind.Method);
+      return symbols.length > 0
+        ? { signatures: fromSymbols(symbols, head.name), args: rest }
+        : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether the object of a symbol is bound in the document, so that
+   * it hides a JavaScript global of the same name
+   */
+  private isBound(uri: string, symbol: SSymbol): boolean {
+    const info = this.moduleManager.getModuleInfo(uri);
+    return !!info && !!this.moduleManager.getScopeAnalysis(info).resolve(symbol);
+  }
+
+  /**
+   * Resolve a callee symbol to its definition symbol, following imports
+   */
+  private resolveSymbol(uri: string, symbol: SSymbol): ExtendedSymbolInformation | undefined {
+    const info = this.moduleManager.getModuleInfo(uri);
+    if (!info) {
+      return undefined;
+    }
+
+    const parts = this.moduleManager.resolveSymbolParts(info, symbol);
+    const last = parts[parts.length - 1];
+    if (!last || last.target.scope || parts.length !== symbol.name.split('.').length) {
+      return undefined;
+    }
+
+    return this.moduleManager.getModuleSymbols(last.target.uri)
+      .find(s => s.name === last.target.name);
+  }
+
+  /**
+   * Find a member symbol (`Class.member`) defined next to its owner
+   */
+  private findMember(owner: ExtendedSymbolInformation, member: string): ExtendedSymbolInformation | undefined {
+    return this.moduleManager.getModuleSymbols(owner.location.uri)
+      .find(s => s.name === `${owner.name}.${member}`);
+  }
+
+  /**
+   * Find every method or enum case with a name across the open documents
+   */
+  private findMembersNamed(member: string): ExtendedSymbolInformation[] {
+    const matches: ExtendedSymbolInformation[] = [];
+
+    for (const symbols of this.symbolManager.getAllSymbols().values()) {
+      for (const symbol of symbols) {
+        if (symbol.name.endsWith(`.${member}`) && symbol.data?.params &&
+            (symbol.kind === SymbolKind.Method || symbol.kind === SymbolKind.EnumMember)) {
+          matches.push(symbol);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Build the signature of a callee, e.g. `(add a: Int b: Int = 0) -> Int`
+   */
+  private createSignature(callee: CalleeSignature, args: SExp[], offset: number): SignatureInformation {
+    const params = callee.params;
+    const parameters: ParameterInformation[] = [];
+
+    let signatureLabel = `(${callee.label}`;
+    for (const param of params) {
+      const paramLabel = formatParameter(param);
+      signatureLabel += ' ';
+      const parameter: ParameterInformation = { label: [signatureLabel.length, signatureLabel.length + paramLabel.length] };
+      if (param.documentation) {
+        parameter.documentation = { kind: MarkupKind.Markdown, value: param.documentation };
+      }
+      parameters.push(parameter);
+      signatureLabel += paramLabel;
+    }
+    signatureLabel += ')';
+
+    if (callee.returnType) {
+      signatureLabel += ` -> ${callee.returnType}`;
+    }
+
+    const signature: SignatureInformation = {
+      label: signatureLabel,
+      parameters,
+      activeParameter: findActiveParameter(params, args, offset)
+    };
+
+    if (callee.documentation) {
+      signature.documentation = { kind: MarkupKind.Markdown, value: callee.documentation };
+    }
+
+    return signature;
+  }
+}
+
+/**
+ * Describe a callee symbol by its recorded parameters
+ */
+function fromSymbol(symbol: ExtendedSymbolInformation, label: string): CalleeSignature {
+  return {
+    label,
+    params: symbol.data?.params || [],
+    returnType: symbol.data?.returnType,
+    documentation: symbol.data?.documentation
+  };
+}
+
+/**
+ * Describe symbols found by member name; overloads are labelled with their
+ * qualified names
+ */
+function fromSymbols(symbols: ExtendedSymbolInformation[], label: string): CalleeSignature[] {
+  return symbols.map(symbol => fromSymbol(symbol, symbols.length > 1 ? symbol.name : label));
+}
+
+/**
+ * Describe one overload of a JavaScript function
+ */
+function fromJsSignature(label: string, signature: JsSignature): CalleeSignature {
+  return {
+    label,
+    params: signature.params,
+    returnType: signature.returnType,
+    documentation: signature.documentation
+  };
+}
+
+/**
+ * Write one parameter the way it is declared
+ */
+function formatParameter(param: ParamData): string {
+  if (param.type === 'Rest') {
+    return `& ${param.name}`;
+  }
+
+  const name = `${param.rest ? '& ' : ''}${param.name}${param.optional ? '?' : ''}`;
+  let label = param.type && param.type !== 'Any' ? `${name}: ${param.type}` : name;
+  if (param.defaultValue !== undefined) {
+    label += ` = ${param.defaultValue}`;
+  }
+  return label;
+}
+
+/**
+ * Find the parameter the cursor is on. A `name:` label selects the named
+ * parameter; otherwise arguments fill the parameters not yet given by name.
+ */
+function findActiveParameter(params: ParamData[], args: SExp[], offset: number): number {
+  const supplied = new Set<number>();
+  let positional = 0;
+
+  const nextPositional = (): number => {
+    while (supplied.has(positional)) {
+      positional++;
+    }
+    return positional;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.range || arg.range.start.offset >= offset) break;
+
+    let index: number;
+    let end = arg.range.end.offset;
+
+    if (isSymbol(arg) && arg.name.length > 1 && arg.name.endsWith(':')) {
+      // A named argument spans its label and its value
+      index = params.findIndex(p => p.name === arg.name.slice(0, -1));
+      const value = args[i + 1];
+      if (value && value.range) {
+        end = value.range.end.offset;
+        i++;
+      }
+    } else {
+      index = nextPositional();
+    }
+
+    if (offset <= end) {
+      return clampToRest(params, index);
+    }
+
+    if (index >= 0) {
+      supplied.add(index);
+    }
+  }
+
+  return clampToRest(params, nextPositional());
+}
+
+/**
+ * Extra arguments all belong to a trailing rest parameter
+ */
+function clampToRest(params: ParamData[], index: number): number {
+  const last = params.length - 1;
+  if (last >= 0 && (params[last].type === 'Rest' || params[last].rest) && index > last) {
+    return last;
+  }
+  return index < 0 ? params.length : index;
+}
+
+/**
+ * Find the parenthesized lists around an offset whose head comes before it,
+ * innermost first
+ */
+function findEnclosingCalls(expressions: SExp[], offset: number, text: string): SList[] {
+  const calls: SList[] = [];
+
+  const visit = (expr: SExp): void => {
+    if (!isList(expr) || !expr.range || !contains(expr, offset, text)) {
+      return;
+    }
+
+    const head = expr.elements[0];
+    if (expr.delimiter === 'paren' && head && head.range && head.range.end.offset < offset) {
+      calls.unshift(expr);
+    }
+
+    expr.elements.forEach(visit);
+  };
+
+  expressions.forEach(visit);
+  return calls;
+}
+
+/**
+ * Check whether an offset lies inside a list; an unclosed list runs to
+ * the end of the text
+ */
+function contains(list: SList, offset: number, text: string): boolean {
+  const range = list.range!;
+  if (offset <= range.start.offset) {
+    return false;
+  }
+
+  const last = list.elements[list.elements.length - 1];
+  const closed = last && last.range
+    ? range.end.offset > last.range.end.offset
+    : text[range.end.offset - 1] === ')' || text[range.end.offset - 1] === ']' || text[range.end.offset - 1] === '}';
+
+  return !closed || offset < range.end.offset;
+}
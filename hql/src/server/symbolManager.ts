@@ -8,9 +8,10 @@ import {
 } from 'vscode-languageserver';
 
 import { parse, SExp, SList, SSymbol } from '../parser';
-import { isList, isSymbol, isString, isNumber, isBoolean } from '../s-exp/types';
+import { createList, isList, isSymbol, isString, isNumber, isBoolean } from '../s-exp/types';
 import { createTextDocumentAdapter } from '../document-adapter';
 import { findExpressionRange } from '../helper/getExpressionRange';
+import { ParseCache, ParsedDocument, shiftRange } from './parseCache';
 
 /**
  * @see {SExp} from parser
@@ -29,6 +30,8 @@ export interface ExtendedSymbolInformation extends SymbolInformation {
       name: string; 
       type: string; 
       defaultValue?: string;
+      optional?: boolean; // JavaScript parameters that may be left out
+      rest?: boolean; // JavaScript rest parameters
     }[];
     type?: string;
     returnType?: string;
@@ -39,18 +42,33 @@ export interface ExtendedSymbolInformation extends SymbolInformation {
     imported?: boolean;
     isNamespaceImport?: boolean;
     isFx?: boolean; // Indicates if the function is an fx function
+    isMacro?: boolean; // Indicates if the symbol is a macro definition
+    isMutable?: boolean; // Indicates a var binding that can be reassigned
     parentClass?: string; // Parent class name for class inheritance
     // Add more data fields as needed
   };
 }
 
+/**
+ * Symbols extracted from one top-level form
+ */
+interface FormSymbols {
+  documentation: string;
+  symbols: ExtendedSymbolInformation[];
+}
+
 /**
  * SymbolManager handles tracking and updating document symbols
  */
 export class SymbolManager {
   private documentSymbols: Map<string, ExtendedSymbolInformation[]> = new Map();
   private documents: Map<string, TextDocument> = new Map();
+  // Workspace files read from disk; open documents take precedence over them
+  private indexedDocuments: Map<string, TextDocument> = new Map();
   private enumTypes: Map<string, string[]> = new Map();
+  private parseCache: ParseCache = new ParseCache();
+  // Symbols of each top-level form, reused while the form is untouched
+  private formSymbols: Map<string, Map<SExp, FormSymbols>> = new Map();
   
   constructor() {}
   
@@ -73,7 +91,51 @@ export class SymbolManager {
    */
   public removeDocument(uri: string): void {
     this.documents.delete(uri);
+    this.forgetSymbols(uri);
+  }
+  
+  /**
+   * Get a workspace file indexed from disk
+   */
+  public getIndexedDocument(uri: string): TextDocument | undefined {
+    return this.indexedDocuments.get(uri);
+  }
+  
+  /**
+   * Add or update a workspace file read from disk
+   */
+  public addIndexedDocument(document: TextDocument): void {
+    this.indexedDocuments.set(document.uri, document);
+  }
+  
+  /**
+   * Remove a workspace file indexed from disk, keeping the symbols of an open copy
+   */
+  public removeIndexedDocument(uri: string): void {
+    this.indexedDocuments.delete(uri);
+    if (!this.documents.has(uri)) {
+      this.forgetSymbols(uri);
+    }
+  }
+  
+  private forgetSymbols(uri: string): void {
     this.documentSymbols.delete(uri);
+    this.formSymbols.delete(uri);
+    this.parseCache.removeDocument(uri);
+  }
+  
+  /**
+   * Get the parse tree of a document, re-parsing only edited forms
+   */
+  public getParsedDocument(document: TextDocument): ParsedDocument {
+    return this.parseCache.getParsedDocument(document);
+  }
+  
+  /**
+   * Get the URIs of the documents open in the editor
+   */
+  public getOpenDocumentUris(): string[] {
+    return Array.from(this.documents.keys());
   }
   
   /**
@@ -120,11 +182,14 @@ export class SymbolManager {
       const text = document.getText();
       const uri = document.uri;
       
-      // Parse the document with tolerant mode enabled
-      const expressions = parse(text, true);
+      // Parse the document with tolerant mode enabled, reusing untouched forms
+      const parsed = this.getParsedDocument(document);
+      const expressions = parsed.expressions;
       
       // Extract symbols from the parse tree
       const symbols: ExtendedSymbolInformation[] = [];
+      const previousFormSymbols = this.formSymbols.get(uri) || new Map<SExp, FormSymbols>();
+      const formSymbols = new Map<SExp, FormSymbols>();
       
       // Clear enum types for this document
       this.clearEnumTypesForDocument(uri);
@@ -138,20 +203,54 @@ export class SymbolManager {
             // Extract documentation comment from above the expression
             const documentation = this.extractDocumentation(document, expr, i > 0 ? expressions[i-1] : undefined);
             
-            // Handle different symbol types
-            this.processExpression(document, expr, symbols, documentation);
+            // Reuse the symbols of untouched forms, moved to their new lines
+            const reused = parsed.reused.get(expr);
+            const cached = reused && previousFormSymbols.get(reused.previous);
+            let exprSymbols: ExtendedSymbolInformation[];
+            
+            if (reused && cached && cached.documentation === documentation) {
+              exprSymbols = cached.symbols.map(symbol => ({
+                ...symbol,
+                location: { uri, range: shiftRange(symbol.location.range, reused.lineDelta) }
+              }));
+              this.registerEnumsFromSymbols(exprSymbols);
+            } else {
+              exprSymbols = [];
+              this.processExpression(document, expr, exprSymbols, documentation);
+            }
+            
+            formSymbols.set(expr, { documentation, symbols: exprSymbols });
+            symbols.push(...exprSymbols);
           }
         }
       }
       
       // Store symbols for this document
       this.documentSymbols.set(uri, symbols);
+      this.formSymbols.set(uri, formSymbols);
     } catch (error) {
       console.error(`Error updating document symbols: ${error instanceof Error ? error.message : String(error)}`);
       this.documentSymbols.set(document.uri, []);
     }
   }
 
+  /**
+   * Register the enum types found in reused symbols
+   */
+  private registerEnumsFromSymbols(symbols: ExtendedSymbolInformation[]): void {
+    for (const symbol of symbols) {
+      if (symbol.kind !== 10) continue; // Enum
+      
+      const cases = symbols
+        .filter(s => s.kind === 11 && s.data?.enumName === symbol.name)
+        .map(s => s.name.substring(s.name.lastIndexOf('.') + 1));
+      
+      if (cases.length > 0) {
+        this.enumTypes.set(symbol.name, cases);
+      }
+    }
+  }
+  
   private clearEnumTypesForDocument(documentUri: string): void {
     // Remove enum types that were defined in this document
     for (const [enumName, _] of this.enumTypes.entries()) {
@@ -307,76 +406,7 @@ export class SymbolManager {
     
     // Get parameter list
     const paramListExpr = expr.elements[2];
-    const params: { name: string; type: string; defaultValue?: string }[] = [];
-    
-    if (isList(paramListExpr)) {
-      for (let i = 0; i < paramListExpr.elements.length; i++) {
-        const paramExpr = paramListExpr.elements[i];
-        
-        // Handle rest parameters (& rest)
-        if (isSymbol(paramExpr) && paramExpr.name === '&' && i < paramListExpr.elements.length - 1) {
-          const restParamExpr = paramListExpr.elements[i + 1];
-          if (isSymbol(restParamExpr)) {
-            params.push({
-              name: restParamExpr.name,
-              type: 'Rest',
-              defaultValue: undefined
-            });
-          }
-          i++; // Skip the rest parameter symbol
-          continue;
-        }
-        
-        if (isSymbol(paramExpr)) {
-          // Simple parameter without type annotation
-          params.push({
-            name: paramExpr.name,
-            type: 'Any'
-          });
-          
-          // Check for default value (might be followed by = and a value)
-          if (i + 2 < paramListExpr.elements.length) {
-            const nextExpr = paramListExpr.elements[i + 1];
-            if (isSymbol(nextExpr) && nextExpr.name === '=') {
-              // Found default value
-              const defaultValueExpr = paramListExpr.elements[i + 2];
-              let defaultValue = this.serializeExpression(defaultValueExpr);
-              
-              // Update the parameter with default value
-              params[params.length - 1].defaultValue = defaultValue;
-              
-              // Skip the = and default value
-              i += 2;
-            }
-          }
-        } else if (isList(paramExpr) && paramExpr.elements.length >= 3) {
-          // This might be a parameter with type annotation: name: Type
-          const nameExpr = paramExpr.elements[0];
-          const colonExpr = paramExpr.elements[1];
-          const typeExpr = paramExpr.elements[2];
-          
-          if (isSymbol(nameExpr) && isSymbol(colonExpr) && colonExpr.name === ':' && isSymbol(typeExpr)) {
-            const param = {
-              name: nameExpr.name,
-              type: typeExpr.name
-            };
-            
-            // Check for default value (= defaultValue)
-            if (paramExpr.elements.length >= 5 && 
-                isSymbol(paramExpr.elements[3]) && 
-                paramExpr.elements[3].name === '=') {
-              const defaultValueExpr = paramExpr.elements[4];
-              const defaultValue = this.serializeExpression(defaultValueExpr);
-              
-              // @ts-ignore
-              param.defaultValue = defaultValue;
-            }
-            
-            params.push(param);
-          }
-        }
-      }
-    }
+    const params = paramListExpr && isList(paramListExpr) ? this.parseParameters(paramListExpr) : [];
     
     // Check for return type
     let returnType: string | undefined;
@@ -387,8 +417,8 @@ export class SymbolManager {
         const arrowExpr = returnTypeExpr.elements[0];
         if (isSymbol(arrowExpr) && arrowExpr.name === '->') {
           const typeExpr = returnTypeExpr.elements[1];
-          if (isSymbol(typeExpr)) {
-            returnType = typeExpr.name;
+          if (isSymbol(typeExpr) || isList(typeExpr)) {
+            returnType = this.serializeType(typeExpr);
           }
         }
       }
@@ -441,7 +471,8 @@ export class SymbolManager {
         location,
         data: {
           documentation,
-          type: varValueType
+          type: varValueType,
+          isMutable: varType === 'var'
         }
       });
     }
@@ -467,7 +498,8 @@ export class SymbolManager {
             location,
             data: {
               documentation,
-              type: varValueType
+              type: varValueType,
+              isMutable: varType === 'var'
             }
           });
         }
@@ -571,7 +603,8 @@ export class SymbolManager {
       const enumNameExpr = expr.elements[1];
       if (!isSymbol(enumNameExpr)) return;
       
-      const enumName = enumNameExpr.name;
+      // Enums with raw values are written `Name:Type`; the type is not part of the name
+      const enumName = enumNameExpr.name.split(':')[0];
       
       // Add the enum type symbol
       const enumSymbol: ExtendedSymbolInformation = {
@@ -635,6 +668,13 @@ export class SymbolManager {
           }
         }
         
+        // Associated values are declared like parameters: (case cash amount: Int)
+        let params: { name: string; type: string; defaultValue?: string }[] | undefined;
+        if (caseElements.length > 2 && isSymbol(caseElements[2]) && caseElements[2].name.endsWith(':')) {
+          params = this.parseParameters(createList(...caseElements.slice(2)));
+          type = undefined;
+        }
+        
         // Add the enum case symbol
         const caseSymbol: ExtendedSymbolInformation = {
           name: fullCaseName,
@@ -647,6 +687,7 @@ export class SymbolManager {
           data: {
             enumName,
             type,
+            params,
             documentation: '' // Extract case-specific documentation if needed
           }
         };
@@ -687,13 +728,89 @@ export class SymbolManager {
         },
         containerName: '',
         data: {
-          documentation
+          documentation,
+          isMacro: true
         }
       };
       
       symbols.push(macroSymbol);
     }
     
+    /**
+     * Parse a parameter list such as `(a: Int b: Int = 0 & rest)` into
+     * parameter names, types and default values
+     */
+    private parseParameters(paramListExpr: SList): { name: string; type: string; defaultValue?: string }[] {
+      const params: { name: string; type: string; defaultValue?: string }[] = [];
+      const elements = paramListExpr.elements.filter(e => !(isSymbol(e) && e.name === ','));
+      const start = elements.length > 0 && isSymbol(elements[0]) && elements[0].name === 'vector' ? 1 : 0;
+      
+      for (let i = start; i < elements.length; i++) {
+        const paramExpr = elements[i];
+        
+        // Handle rest parameters (& rest)
+        if (isSymbol(paramExpr) && paramExpr.name === '&') {
+          const restParamExpr = elements[i + 1];
+          if (restParamExpr && isSymbol(restParamExpr)) {
+            params.push({ name: restParamExpr.name, type: 'Rest' });
+          }
+          i++;
+          continue;
+        }
+        
+        let param: { name: string; type: string; defaultValue?: string } | undefined;
+        
+        if (isSymbol(paramExpr) && paramExpr.name.endsWith(':') && paramExpr.name.length > 1) {
+          // Typed parameter: name: Type
+          const typeExpr = elements[i + 1];
+          param = {
+            name: paramExpr.name.slice(0, -1),
+            type: typeExpr ? this.serializeType(typeExpr) : 'Any'
+          };
+          i++;
+        } else if (isSymbol(paramExpr)) {
+          // Simple parameter without type annotation
+          param = { name: paramExpr.name, type: 'Any' };
+        } else if (isList(paramExpr) && paramExpr.elements.length >= 3) {
+          // Older trees wrap annotations in a list: (name : Type)
+          const [nameExpr, colonExpr, typeExpr] = paramExpr.elements;
+          if (isSymbol(nameExpr) && isSymbol(colonExpr) && colonExpr.name === ':') {
+            param = { name: nameExpr.name, type: this.serializeType(typeExpr) };
+            if (paramExpr.elements.length >= 5 &&
+                isSymbol(paramExpr.elements[3]) &&
+                paramExpr.elements[3].name === '=') {
+              param.defaultValue = this.serializeExpression(paramExpr.elements[4]);
+            }
+          }
+        }
+        
+        if (!param) continue;
+        
+        // Check for default value (= value)
+        const nextExpr = elements[i + 1];
+        if (nextExpr && isSymbol(nextExpr) && nextExpr.name === '=' && i + 2 < elements.length) {
+          param.defaultValue = this.serializeExpression(elements[i + 2]);
+          i += 2;
+        }
+        
+        params.push(param);
+      }
+      
+      return params;
+    }
+    
+    /**
+     * Serialize a type annotation, writing array types as `[Type]`
+     */
+    private serializeType(expr: SExp): string {
+      if (isList(expr) && (expr.delimiter === 'bracket' ||
+          (expr.elements.length > 0 && isSymbol(expr.elements[0]) && expr.elements[0].name === 'vector'))) {
+        const inner = expr.elements.filter(e => !(isSymbol(e) && e.name === 'vector'));
+        return `[${inner.map(e => this.serializeType(e)).join(' ')}]`;
+      }
+      return this.serializeExpression(expr);
+    }
+    
     /**
      * Serialize an expression to a string representation
      */
@@ -786,7 +903,7 @@ export class SymbolManager {
     ): void {
       try {
         // Get or read the module document
-        const moduleDoc = this.documents.get(moduleUri);
+        const moduleDoc = this.documents.get(moduleUri) || this.indexedDocuments.get(moduleUri);
         if (!moduleDoc) {
           console.warn(`Module not found: ${moduleUri}`);
           return;
@@ -1216,76 +1333,7 @@ export class SymbolManager {
       
       // Get parameter list
       const paramListExpr = expr.elements.length > 2 ? expr.elements[2] : null;
-      const params: { name: string; type: string; defaultValue?: string }[] = [];
-      
-      if (paramListExpr && isList(paramListExpr)) {
-        for (let i = 0; i < paramListExpr.elements.length; i++) {
-          const paramExpr = paramListExpr.elements[i];
-          
-          // Handle rest parameters (& rest)
-          if (isSymbol(paramExpr) && paramExpr.name === '&' && i < paramListExpr.elements.length - 1) {
-            const restParamExpr = paramListExpr.elements[i + 1];
-            if (isSymbol(restParamExpr)) {
-              params.push({
-                name: restParamExpr.name,
-                type: 'Rest',
-                defaultValue: undefined
-              });
-            }
-            i++; // Skip the rest parameter symbol
-            continue;
-          }
-          
-          if (isSymbol(paramExpr)) {
-            // Simple parameter without type annotation
-            params.push({
-              name: paramExpr.name,
-              type: 'Any'
-            });
-            
-            // Check for default value (might be followed by = and a value)
-            if (i + 2 < paramListExpr.elements.length) {
-              const nextExpr = paramListExpr.elements[i + 1];
-              if (isSymbol(nextExpr) && nextExpr.name === '=') {
-                // Found default value
-                const defaultValueExpr = paramListExpr.elements[i + 2];
-                let defaultValue = this.serializeExpression(defaultValueExpr);
-                
-                // Update the parameter with default value
-                params[params.length - 1].defaultValue = defaultValue;
-                
-                // Skip the = and default value
-                i += 2;
-              }
-            }
-          } else if (isList(paramExpr) && paramExpr.elements.length >= 3) {
-            // This might be a parameter with type annotation: name: Type
-            const nameExpr = paramExpr.elements[0];
-            const colonExpr = paramExpr.elements[1];
-            const typeExpr = paramExpr.elements[2];
-            
-            if (isSymbol(nameExpr) && isSymbol(colonExpr) && colonExpr.name === ':' && isSymbol(typeExpr)) {
-              const param = {
-                name: nameExpr.name,
-                type: typeExpr.name
-              };
-              
-              // Check for default value (= defaultValue)
-              if (paramExpr.elements.length >= 5 && 
-                  isSymbol(paramExpr.elements[3]) && 
-                  paramExpr.elements[3].name === '=') {
-                const defaultValueExpr = paramExpr.elements[4];
-                const defaultValue = this.serializeExpression(defaultValueExpr);
-                
-                // @ts-ignore
-                param.defaultValue = defaultValue;
-              }
-              
-              params.push(param);
-            }
-          }
-        }
-      }
+      const params = paramListExpr && isList(paramListExpr) ? this.parseParameters(paramListExpr) : [];
       
       // Check for return type
       let returnType: string | undefined;
@@ -1296,8 +1344,8 @@ export class SymbolManager {
           const arrowExpr = returnTypeExpr.elements[0];
           if (isSymbol(arrowExpr) && arrowExpr.name === '->') {
             const typeExpr = returnTypeExpr.elements[1];
-            if (isSymbol(typeExpr)) {
-              returnType = typeExpr.name;
+            if (isSymbol(typeExpr) || isList(typeExpr)) {
+              returnType = this.serializeType(typeExpr);
             }
           }
         }
@@ -1359,7 +1407,8 @@ export class SymbolManager {
         location: location,
         data: {
           documentation,
-          type: fieldType
+          type: fieldType,
+          isMutable: (expr.elements[0] as SSymbol).name === 'var'
         }
       });
     }
@@ -1381,63 +1430,8 @@ export class SymbolManager {
       let documentation = "";
       
       // Extract constructor parameters
-      const params: { name: string; type: string; defaultValue?: string }[] = [];
       const paramListExpr = expr.elements[1];
-      
-      if (isList(paramListExpr)) {
-        for (let i = 0; i < paramListExpr.elements.length; i++) {
-          const paramExpr = paramListExpr.elements[i];
-          
-          if (isSymbol(paramExpr)) {
-            // Simple parameter without type annotation
-            params.push({
-              name: paramExpr.name,
-              type: 'Any'
-            });
-            
-            // Check for default value (might be followed by = and a value)
-            if (i + 2 < paramListExpr.elements.length) {
-              const nextExpr = paramListExpr.elements[i + 1];
-              if (isSymbol(nextExpr) && nextExpr.name === '=') {
-                // Found default value
-                const defaultValueExpr = paramListExpr.elements[i + 2];
-                let defaultValue = this.serializeExpression(defaultValueExpr);
-                
-                // Update the parameter with default value
-                params[params.length - 1].defaultValue = defaultValue;
-                
-                // Skip the = and default value
-                i += 2;
-              }
-            }
-          } else if (isList(paramExpr) && paramExpr.elements.length >= 3) {
-            // This might be a parameter with type annotation: name: Type
-            const nameExpr = paramExpr.elements[0];
-            const colonExpr = paramExpr.elements[1];
-            const typeExpr = paramExpr.elements[2];
-            
-            if (isSymbol(nameExpr) && isSymbol(colonExpr) && colonExpr.name === ':' && isSymbol(typeExpr)) {
-              const param = {
-                name: nameExpr.name,
-                type: typeExpr.name
-              };
-              
-              // Check for default value (= defaultValue)
-              if (paramExpr.elements.length >= 5 && 
-                  isSymbol(paramExpr.elements[3]) && 
-                  paramExpr.elements[3].name === '=') {
-                const defaultValueExpr = paramExpr.elements[4];
-                const defaultValue = this.serializeExpression(defaultValueExpr);
-                
-                // @ts-ignore
-                param.defaultValue = defaultValue;
-              }
-              
-              params.push(param);
-            }
-          }
-        }
-      }
+      const params = isList(paramListExpr) ? this.parseParameters(paramListExpr) : [];
       
       symbols.push({
         name: qualifiedName,
@@ -0,0 +1,524 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * The newest ECMAScript library; the libraries it references back to es5
+ * are read with it
+ */
+const ECMASCRIPT_LIB = 'es2023';
+
+/**
+ * Host globals that HQL programs use from the DOM library. The rest of it
+ * declares browser globals such as `name` and `status` that would hide
+ * undefined symbols.
+ */
+const HOST_LIB = 'dom';
+const HOST_GLOBALS = [
+  'console', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval', 'queueMicrotask',
+  'structuredClone', 'fetch', 'atob', 'btoa', 'alert', 'prompt', 'confirm', 'crypto', 'performance',
+  'URL', 'URLSearchParams', 'TextEncoder', 'TextDecoder', 'AbortController', 'AbortSignal',
+  'Request', 'Response', 'Headers', 'FormData', 'Blob', 'File', 'Event', 'EventTarget',
+  'WebSocket', 'document', 'window', 'navigator', 'localStorage', 'sessionStorage'
+];
+
+/**
+ * Values of the language that no library declares
+ */
+const LANGUAGE_GLOBALS = ['undefined', 'globalThis'];
+
+/**
+ * A parameter of a JavaScript function or method
+ */
+export interface JsParameter {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+  documentation?: string;
+}
+
+/**
+ * One overload of a JavaScript function, method or constructor
+ */
+export interface JsSignature {
+  params: JsParameter[];
+  returnType: string;
+  documentation?: string;
+}
+
+/**
+ * A method or property of a JavaScript global or instance type
+ */
+export interface JsMember {
+  name: string;
+  kind: 'method' | 'property';
+  type: string;
+  readonly: boolean;
+  signatures: JsSignature[];
+  documentation?: string;
+}
+
+/**
+ * A global declared by the JavaScript standard library
+ * - function: `parseInt`; class: `Map`, which has constructors; object:
+ *   `Math` or the `Reflect` namespace; value: `NaN`
+ * - instanceType names the interface of the values a class constructs
+ */
+export interface JsGlobal {
+  name: string;
+  kind: 'function' | 'class' | 'object' | 'value';
+  type: string;
+  callSignatures: JsSignature[];
+  constructSignatures: JsSignature[];
+  members: JsMember[];
+  instanceType?: string;
+  documentation?: string;
+}
+
+/**
+ * The members of an interface or type literal, merged across declarations
+ */
+interface TypeMembers {
+  members: Map<string, JsMember>;
+  callSignatures: JsSignature[];
+  constructSignatures: JsSignature[];
+  heritage: string[];
+  documentation?: string;
+}
+
+/**
+ * Everything read from the library files
+ */
+interface JsLibrary {
+  globals: Map<string, JsGlobal>;
+  interfaces: Map<string, TypeMembers>;
+}
+
+let library: JsLibrary | undefined;
+
+/**
+ * Get a JavaScript global by name
+ */
+export function getJsGlobal(name: string): JsGlobal | undefined {
+  return loadLibrary().globals.get(name);
+}
+
+/**
+ * Get the names of all JavaScript globals
+ */
+export function getJsGlobalNames(): string[] {
+  return [...loadLibrary().globals.keys()];
+}
+
+/**
+ * Check whether a name is a JavaScript global
+ */
+export function isJsGlobal(name: string): boolean {
+  return LANGUAGE_GLOBALS.includes(name) || loadLibrary().globals.has(name);
+}
+
+/**
+ * Get the members of the values of a type, e.g. `push` of `Array`,
+ * including the members of the interfaces it extends
+ */
+export function getJsInstanceMembers(typeName: string): JsMember[] {
+  const lib = loadLibrary();
+  return lib.interfaces.has(typeName) ? [...collectMembers(lib, typeName, new Set()).values()] : [];
+}
+
+/**
+ * Find the member a dotted name refers to, e.g. `Math.floor`
+ */
+export function getJsMember(name: string): { owner: JsGlobal; member: JsMember } | undefined {
+  const [ownerName, memberName, ...rest] = name.split('.');
+  const owner = getJsGlobal(ownerName);
+  const member = owner && rest.length === 0 ? owner.members.find(m => m.name === memberName) : undefined;
+  return owner && member ? { owner, member } : undefined;
+}
+
+/**
+ * Write a signature as an HQL call, e.g. `(Math.max & values: number[]) -> number`
+ */
+export function formatJsSignature(label: string, signature: JsSignature): string {
+  const params = signature.params.map(formatJsParameter);
+  return `(${[label, ...params].join(' ')}) -> ${signature.returnType}`;
+}
+
+/**
+ * Write a parameter the way HQL declares it
+ */
+export function formatJsParameter(param: JsParameter): string {
+  return `${param.rest ? '& ' : ''}${param.name}${param.optional ? '?' : ''}: ${param.type}`;
+}
+
+/**
+ * Read the library files once; the TypeScript package ships them with the
+ * extension
+ */
+function loadLibrary(): JsLibrary {
+  if (library) {
+    return library;
+  }
+
+  library = { globals: new Map(), interfaces: new Map() };
+  try {
+    const libDirectory = path.dirname(require.resolve('typescript'));
+    const ecmaScript = readLibraryFiles(libDirectory, ECMASCRIPT_LIB, new Set());
+    const host = readLibraryFiles(libDirectory, HOST_LIB, new Set(ecmaScript.map(source => source.fileName)));
+
+    // Interfaces first: later libraries add members to earlier interfaces
+    for (const source of [...ecmaScript, ...host]) {
+      readInterfaces(library, source);
+    }
+    for (const source of ecmaScript) {
+      readGlobals(library, source, () => true);
+    }
+    for (const source of host) {
+      readGlobals(library, source, name => HOST_GLOBALS.includes(name));
+    }
+  } catch (error) {
+    console.error(`Error loading JavaScript library declarations: ${error}`);
+  }
+  return library;
+}
+
+/**
+ * Parse a library file and the libraries it references, referenced ones first
+ */
+function readLibraryFiles(directory: string, name: string, seen: Set<string>): ts.SourceFile[] {
+  const fileName = path.join(directory, `lib.${name}.d.ts`);
+  if (seen.has(fileName)) {
+    return [];
+  }
+  seen.add(fileName);
+
+  const text = ts.sys.readFile(fileName);
+  if (text === undefined) {
+    return [];
+  }
+
+  const source = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+  const sources: ts.SourceFile[] = [];
+  for (const reference of source.libReferenceDirectives) {
+    sources.push(...readLibraryFiles(directory, reference.fileName.toLowerCase(), seen));
+  }
+  sources.push(source);
+  return sources;
+}
+
+/**
+ * Merge the interfaces of a library file
+ */
+function readInterfaces(lib: JsLibrary, source: ts.SourceFile): void {
+  for (const statement of source.statements) {
+    if (ts.isInterfaceDeclaration(statement)) {
+      const type = getTypeMembers(lib.interfaces, statement.name.text);
+      mergeMembers(type, statement.members, statement);
+      for (const clause of statement.heritageClauses || []) {
+        type.heritage.push(...clause.types.map(heritage => heritage.expression.getText(source)));
+      }
+    }
+  }
+}
+
+/**
+ * Read the variables, functions and namespaces a library file declares,
+ * keeping the accepted names
+ */
+function readGlobals(lib: JsLibrary, source: ts.SourceFile, accept: (name: string) => boolean): void {
+  for (const statement of source.statements) {
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const globalName = declaration.name.getText(source);
+        if (accept(globalName)) {
+          lib.globals.set(globalName, readVariable(lib, globalName, declaration, source));
+        }
+      }
+    } else if (ts.isFunctionDeclaration(statement) && statement.name && accept(statement.name.text)) {
+      const existing = lib.globals.get(statement.name.text);
+      const signature = readSignature(statement, source);
+      if (existing && existing.kind === 'function') {
+        addSignature(existing.callSignatures, signature);
+      } else {
+        lib.globals.set(statement.name.text, {
+          name: statement.name.text,
+          kind: 'function',
+          type: 'Function',
+          callSignatures: [signature],
+          constructSignatures: [],
+          members: [],
+          documentation: signature.documentation
+        });
+      }
+    } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name) && accept(statement.name.text)) {
+      mergeNamespace(lib, statement.name.text, statement, source);
+    }
+  }
+}
+
+/**
+ * Get the merged members of an interface, creating them on first use
+ */
+function getTypeMembers(interfaces: Map<string, TypeMembers>, name: string): TypeMembers {
+  let members = interfaces.get(name);
+  if (!members) {
+    members = { members: new Map(), callSignatures: [], constructSignatures: [], heritage: [] };
+    interfaces.set(name, members);
+  }
+  return members;
+}
+
+/**
+ * Add the members of an interface declaration or type literal; overloads
+ * of a method collect into its signatures
+ */
+function mergeMembers(target: TypeMembers, elements: ts.NodeArray<ts.TypeElement>, declaration?: ts.Node): void {
+  const source = elements.length > 0 ? elements[0].getSourceFile() : undefined;
+  if (declaration) {
+    target.documentation = target.documentation || getDocumentation(declaration).text;
+  }
+  if (!source) return;
+
+  for (const element of elements) {
+    if (ts.isCallSignatureDeclaration(element)) {
+      addSignature(target.callSignatures, readSignature(element, source));
+      continue;
+    }
+    if (ts.isConstructSignatureDeclaration(element)) {
+      addSignature(target.constructSignatures, readSignature(element, source));
+      continue;
+    }
+
+    // Symbol-keyed members such as [Symbol.iterator] have no name to call
+    if (!element.name || !(ts.isIdentifier(element.name) || ts.isStringLiteral(element.name))) continue;
+    const name = element.name.text;
+
+    if (ts.isMethodSignature(element)) {
+      const signature = readSignature(element, source);
+      const existing = target.members.get(name);
+      if (existing && existing.kind === 'method') {
+        addSignature(existing.signatures, signature);
+      } else {
+        target.members.set(name, {
+          name,
+          kind: 'method',
+          type: 'Function',
+          readonly: false,
+          signatures: [signature],
+          documentation: signature.documentation
+        });
+      }
+    } else if (ts.isPropertySignature(element)) {
+      const readonly = !!element.modifiers?.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword);
+      target.members.set(name, {
+        name,
+        kind: 'property',
+        type: typeText(element.type, source),
+        readonly,
+        signatures: [],
+        documentation: getDocumentation(element).text
+      });
+    } else if (ts.isGetAccessorDeclaration(element)) {
+      target.members.set(name, {
+        name,
+        kind: 'property',
+        type: typeText(element.type, source),
+        readonly: !elements.some(e => ts.isSetAccessorDeclaration(e) && e.name.getText(source) === name),
+        signatures: [],
+        documentation: getDocumentation(element).text
+      });
+    }
+  }
+}
+
+/**
+ * Read `declare var Name: Type` into a global: a constructor type makes a
+ * class, a type with members an object
+ */
+function readVariable(
+  lib: JsLibrary,
+  name: string,
+  declaration: ts.VariableDeclaration,
+  source: ts.SourceFile
+): JsGlobal {
+  const typeNode = declaration.type;
+  let members: TypeMembers | undefined;
+
+  if (typeNode && ts.isTypeLiteralNode(typeNode)) {
+    members = { members: new Map(), callSignatures: [], constructSignatures: [], heritage: [] };
+    mergeMembers(members, typeNode.members);
+  } else if (typeNode && ts.isTypeReferenceNode(typeNode) && ts.isIdentifier(typeNode.typeName)) {
+    members = lib.interfaces.get(typeNode.typeName.text);
+  }
+
+  const documentation = getDocumentation(declaration).text || members?.documentation ||
+    lib.interfaces.get(name)?.documentation;
+
+  if (!members || (members.members.size === 0 && members.callSignatures.length === 0 &&
+      members.constructSignatures.length === 0 && members.heritage.length === 0)) {
+    return {
+      name,
+      kind: 'value',
+      type: typeText(typeNode, source),
+      callSignatures: [],
+      constructSignatures: [],
+      members: [],
+      documentation
+    };
+  }
+
+  const typeName = typeNode && ts.isTypeReferenceNode(typeNode) ? typeNode.typeName.getText(source) : undefined;
+  const allMembers = typeName ? collectMembers(lib, typeName, new Set()) : members.members;
+  const isClass = members.constructSignatures.length > 0;
+
+  return {
+    name,
+    kind: isClass ? 'class' : members.callSignatures.length > 0 && allMembers.size <= 1 ? 'function' : 'object',
+    // Type literals are written out in full; they are named after the global
+    type: typeName || name,
+    callSignatures: members.callSignatures,
+    constructSignatures: members.constructSignatures,
+    // The prototype is reached through instances
+    members: [...allMembers.values()].filter(member => !(isClass && member.name === 'prototype')),
+    instanceType: isClass && lib.interfaces.has(name) ? name : undefined,
+    documentation
+  };
+}
+
+/**
+ * Add the functions and variables of a namespace such as `Reflect` to an
+ * object global
+ */
+function mergeNamespace(lib: JsLibrary, name: string, declaration: ts.ModuleDeclaration, source: ts.SourceFile): void {
+  let global = lib.globals.get(name);
+  if (!global) {
+    global = {
+      name,
+      kind: 'object',
+      type: name,
+      callSignatures: [],
+      constructSignatures: [],
+      members: [],
+      documentation: getDocumentation(declaration).text
+    };
+    lib.globals.set(name, global);
+  }
+
+  const body = declaration.body;
+  if (!body || !ts.isModuleBlock(body)) return;
+
+  for (const statement of body.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const signature = readSignature(statement, source);
+      const existing = global.members.find(m => m.name === statement.name!.text);
+      if (existing) {
+        addSignature(existing.signatures, signature);
+      } else {
+        global.members.push({
+          name: statement.name.text,
+          kind: 'method',
+          type: 'Function',
+          readonly: true,
+          signatures: [signature],
+          documentation: signature.documentation
+        });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const variable of statement.declarationList.declarations) {
+        global.members.push({
+          name: variable.name.getText(source),
+          kind: 'property',
+          type: typeText(variable.type, source),
+          readonly: true,
+          signatures: [],
+          documentation: getDocumentation(variable).text
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Collect the members of an interface and the interfaces it extends; the
+ * interface's own members win
+ */
+function collectMembers(lib: JsLibrary, name: string, seen: Set<string>): Map<string, JsMember> {
+  const members = new Map<string, JsMember>();
+  const type = lib.interfaces.get(name);
+  if (!type || seen.has(name)) {
+    return members;
+  }
+  seen.add(name);
+
+  for (const parent of type.heritage) {
+    for (const [memberName, member] of collectMembers(lib, parent, seen)) {
+      members.set(memberName, member);
+    }
+  }
+  for (const [memberName, member] of type.members) {
+    members.set(memberName, member);
+  }
+  return members;
+}
+
+/**
+ * Add an overload unless a library that repeats a declaration already added it
+ */
+export function addSignature(signatures: JsSignature[], signature: JsSignature): void {
+  const label = formatJsSignature('', signature);
+  if (!signatures.some(existing => formatJsSignature('', existing) === label)) {
+    signatures.push(signature);
+  }
+}
+
+/**
+ * Read the parameters, return type and documentation of a signature; in
+ * JavaScript sources the JSDoc `@param {type}` and `@returns {type}` tags
+ * stand in for annotations
+ */
+export function readSignature(declaration: ts.SignatureDeclarationBase, source: ts.SourceFile): JsSignature {
+  const documentation = getDocumentation(declaration);
+
+  return {
+    params: declaration.parameters.map(param => {
+      const name = param.name.getText(source);
+      return {
+        name,
+        type: typeText(param.type || ts.getJSDocType(param), source),
+        optional: !!param.questionToken || !!param.initializer,
+        rest: !!param.dotDotDotToken,
+        documentation: documentation.params.get(name)
+      };
+    }),
+    returnType: typeText(declaration.type || ts.getJSDocReturnType(declaration), source),
+    documentation: documentation.text
+  };
+}
+
+/**
+ * Write a type annotation on one line, `any` when there is none
+ */
+export function typeText(type: ts.TypeNode | undefined, source: ts.SourceFile): string {
+  return type ? type.getText(source).replace(/\s+/g, ' ') : 'any';
+}
+
+/**
+ * Read the JSDoc text of a declaration and its `@param` descriptions
+ */
+export function getDocumentation(node: ts.Node): { text?: string; params: Map<string, string> } {
+  const params = new Map<string, string>();
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const doc = docs[docs.length - 1];
+  if (!doc) {
+    return { params };
+  }
+
+  for (const tag of doc.tags || []) {
+    const comment = ts.getTextOfJSDocComment(tag.comment);
+    if (ts.isJSDocParameterTag(tag) && comment) {
+      params.set(tag.name.getText(), comment.replace(/^-\s*/, ''));
+    }
+  }
+
+  return { text: ts.getTextOfJSDocComment(doc.comment) || undefined, params };
+}
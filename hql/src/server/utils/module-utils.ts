@@ -0,0 +1,595 @@
+/**
+ * Module analysis helpers shared by the cross-file LSP features
+ *
+ * These helpers work directly on the parsed S-expression tree and never
+ * touch the VS Code API, so they can run inside the language server.
+ */
+
+import { Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as path from 'path';
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import { parse, SExp, SList, SSymbol } from '../../parser';
+import { isList, isSymbol, isString, isLiteral } from '../../s-exp/types';
+
+/**
+ * A binding introduced by an import statement
+ */
+export interface ImportBinding {
+  localName: string;
+  importedName?: string; // undefined for namespace imports
+  modulePath: string;
+  isNamespace: boolean;
+  localNode: SSymbol;
+  importedNode?: SSymbol; // the original name in `[original as alias]`
+}
+
+/**
+ * A binding published by an export statement
+ */
+export interface ExportBinding {
+  exportedName: string;
+  localName: string;
+  exportedNode?: SSymbol;
+  localNode?: SSymbol;
+}
+
+/**
+ * Everything the cross-file features need to know about one module
+ */
+export interface ModuleInfo {
+  uri: string;
+  expressions: SExp[];
+  definitions: Map<string, SSymbol>;
+  definitionForms: Map<string, SList>;
+  imports: Map<string, ImportBinding>;
+  exports: Map<string, ExportBinding>;
+}
+
+/**
+ * Forms whose second element names a top-level definition
+ */
+export const DEFINITION_FORMS = [
+  'fn', 'fx', 'let', 'var', 'const', 'class', 'struct', 'enum', 'macro', 'defmacro'
+];
+
+/**
+ * Check that a parsed JSON value is an object, not an array or null
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert a file URI into a file system path
+ */
+export function uriToPath(uri: string): string {
+  if (uri.startsWith('file://')) {
+    try {
+      return fileURLToPath(uri);
+    } catch (_e) {
+      return uri.replace('file://', '');
+    }
+  }
+  return uri;
+}
+
+/**
+ * Convert a file system path into a file URI
+ */
+export function pathToUri(filePath: string): string {
+  return pathToFileURL(filePath).toString();
+}
+
+/**
+ * Return the elements of a vector literal, dropping the `vector` head
+ * the parser inserts for `[...]`
+ */
+export function getVectorElements(list: SList): SExp[] {
+  if (list.elements.length > 0 && isSymbol(list.elements[0])) {
+    const head = list.elements[0].name;
+    if (head === 'vector') {
+      return list.elements.slice(1);
+    }
+    if (head === 'empty-array') {
+      return [];
+    }
+  }
+  return list.elements;
+}
+
+/**
+ * Get the string value of a string expression (string or string literal)
+ */
+export function getStringValue(expr: SExp | undefined): string | undefined {
+  if (!expr) return undefined;
+  if (isString(expr)) return expr.value;
+  if (isLiteral(expr) && typeof expr.value === 'string') return expr.value;
+  return undefined;
+}
+
+/**
+ * Parse `[a, b as c]` style entries into (name, alias) pairs
+ */
+export function parseBindingVector(
+  list: SList
+): { name: SSymbol; alias?: SSymbol }[] {
+  const entries: { name: SSymbol; alias?: SSymbol }[] = [];
+  const elements = getVectorElements(list).filter(e => !(isSymbol(e) && e.name === ','));
+
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i];
+
+    if (isSymbol(element)) {
+      // `name as alias` arrives as three flat symbols
+      const next = elements[i + 1];
+      const alias = elements[i + 2];
+      if (next && isSymbol(next) && next.name === 'as' && alias && isSymbol(alias)) {
+        entries.push({ name: element, alias });
+        i += 2;
+      } else {
+        entries.push({ name: element });
+      }
+    } else if (isList(element)) {
+      // Older trees may wrap `name as alias` in its own list
+      const [name, asKeyword, alias] = element.elements;
+      if (name && isSymbol(name) && asKeyword && isSymbol(asKeyword) &&
+          asKeyword.name === 'as' && alias && isSymbol(alias)) {
+        entries.push({ name, alias });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Build the module summary (definitions, imports and exports) for a document
+ */
+export function analyzeModule(uri: string, text: string): ModuleInfo {
+  const info: ModuleInfo = {
+    uri,
+    expressions: [],
+    definitions: new Map(),
+    definitionForms: new Map(),
+    imports: new Map(),
+    exports: new Map()
+  };
+
+  try {
+    info.expressions = parse(text, true);
+  } catch (_e) {
+    return info;
+  }
+
+  for (const expr of info.expressions) {
+    if (!isList(expr) || expr.elements.length < 2 || !isSymbol(expr.elements[0])) continue;
+
+    const keyword = expr.elements[0].name;
+
+    if (DEFINITION_FORMS.includes(keyword)) {
+      collectDefinition(info, expr);
+    } else if (keyword === 'import') {
+      collectImport(info, expr);
+    } else if (keyword === 'export') {
+      collectExport(info, expr);
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Record a top-level definition, including enum cases as `Enum.case`
+ */
+function collectDefinition(info: ModuleInfo, expr: SList): void {
+  const keyword = (expr.elements[0] as SSymbol).name;
+  const nameExpr = expr.elements[1];
+  if (!isSymbol(nameExpr)) return;
+
+  // Enums with a raw type are parsed as `Name:Type`
+  const name = keyword === 'enum' ? nameExpr.name.split(':')[0] : nameExpr.name;
+  if (!info.definitions.has(name)) {
+    info.definitions.set(name, nameExpr);
+    info.definitionForms.set(name, expr);
+  }
+
+  if (keyword === 'enum') {
+    for (const caseExpr of expr.elements.slice(2)) {
+      if (!isList(caseExpr) || caseExpr.elements.length < 2) continue;
+      const [caseKeyword, caseName] = caseExpr.elements;
+      if (isSymbol(caseKeyword) && caseKeyword.name === 'case' && isSymbol(caseName)) {
+        info.definitions.set(`${name}.${caseName.name}`, caseName);
+        info.definitionForms.set(`${name}.${caseName.name}`, caseExpr);
+      }
+    }
+  }
+}
+
+/**
+ * Record the bindings introduced by an import statement
+ */
+function collectImport(info: ModuleInfo, expr: SList): void {
+  const fromIndex = expr.elements.findIndex(e => isSymbol(e) && e.name === 'from');
+  if (fromIndex < 2) return;
+
+  const modulePath = getStringValue(expr.elements[fromIndex + 1]);
+  if (modulePath === undefined) return;
+
+  const target = expr.elements[1];
+
+  if (isSymbol(target)) {
+    info.imports.set(target.name, {
+      localName: target.name,
+      modulePath,
+      isNamespace: true,
+      localNode: target
+    });
+  } else if (isList(target)) {
+    for (const entry of parseBindingVector(target)) {
+      const localNode = entry.alias || entry.name;
+      info.imports.set(localNode.name, {
+        localName: localNode.name,
+        importedName: entry.name.name,
+        modulePath,
+        isNamespace: false,
+        localNode,
+        importedNode: entry.name
+      });
+    }
+  }
+}
+
+/**
+ * Record the bindings published by an export statement
+ */
+function collectExport(info: ModuleInfo, expr: SList): void {
+  const target = expr.elements[1];
+
+  if (isList(target)) {
+    for (const entry of parseBindingVector(target)) {
+      const exportedNode = entry.alias || entry.name;
+      info.exports.set(exportedNode.name, {
+        exportedName: exportedNode.name,
+        localName: entry.name.name,
+        exportedNode,
+        localNode: entry.name
+      });
+    }
+    return;
+  }
+
+  // Legacy form: (export "name" symbol)
+  const exportedName = getStringValue(target);
+  const localExpr = expr.elements[2];
+  if (exportedName !== undefined && localExpr && isSymbol(localExpr)) {
+    info.exports.set(exportedName, {
+      exportedName,
+      localName: localExpr.name,
+      localNode: localExpr
+    });
+  }
+}
+
+/**
+ * Visit every symbol node in a tree
+ */
+export function walkSymbols(expressions: SExp[], visit: (symbol: SSymbol) => void): void {
+  for (const expr of expressions) {
+    if (isSymbol(expr)) {
+      visit(expr);
+    } else if (isList(expr)) {
+      walkSymbols(expr.elements, visit);
+    }
+  }
+}
+
+/**
+ * Find the symbol node that covers a document offset
+ */
+export function findSymbolAtOffset(expressions: SExp[], offset: number): SSymbol | undefined {
+  let found: SSymbol | undefined;
+  walkSymbols(expressions, symbol => {
+    if (found || !symbol.position) return;
+    const start = symbol.position.offset;
+    if (offset >= start && offset <= start + symbol.name.length) {
+      found = symbol;
+    }
+  });
+  return found;
+}
+
+/**
+ * Find the top-level form that contains a symbol node
+ */
+export function findTopLevelForm(expressions: SExp[], target: SSymbol): SExp | undefined {
+  const contains = (expr: SExp): boolean => {
+    if (expr === target) return true;
+    return isList(expr) && expr.elements.some(contains);
+  };
+  return expressions.find(contains);
+}
+
+/**
+ * Get the document range of part of a symbol (e.g. `member` in `ns.member`)
+ */
+export function symbolRange(
+  document: TextDocument,
+  symbol: SSymbol,
+  startInName: number = 0,
+  length: number = symbol.name.length
+): Range {
+  const offset = (symbol.position?.offset ?? 0) + startInName;
+  return Range.create(document.positionAt(offset), document.positionAt(offset + length));
+}
+
+/**
+ * Split a dotted symbol name into its parts with their offsets in the name
+ */
+export function splitSymbolParts(name: string): { text: string; start: number }[] {
+  const parts: { text: string; start: number }[] = [];
+  let start = 0;
+  for (const text of name.split('.')) {
+    parts.push({ text, start });
+    start += text.length + 1;
+  }
+  return parts;
+}
+
+/**
+ * Resolve an import path to a file URI, relative to the importing document
+ */
+export function resolveRelativeModule(fromUri: string, modulePath: string): string | undefined {
+  if (!modulePath.startsWith('.') && !path.isAbsolute(modulePath)) {
+    return undefined;
+  }
+
+  const baseDir = path.dirname(uriToPath(fromUri));
+  return findModuleFile(path.resolve(baseDir, modulePath));
+}
+
+/**
+ * Resolve a bare import path (`utils/math`) against a project's module
+ * search directories, in order
+ */
+export function resolveSearchPathModule(directories: string[], modulePath: string): string | undefined {
+  if (modulePath.startsWith('.') || path.isAbsolute(modulePath) || /^[a-z]+:/i.test(modulePath)) {
+    return undefined;
+  }
+
+  for (const directory of directories) {
+    const found = findModuleFile(path.resolve(directory, modulePath));
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the file an import path without or with an extension refers to
+ */
+function findModuleFile(resolved: string): string | undefined {
+  const candidates = path.extname(resolved)
+    ? [resolved]
+    : [resolved, `${resolved}.hql`, `${resolved}.js`, path.join(resolved, 'index.hql')];
+
+  for (const candidate of candidates) {
+    try {
+      if (fs.statSync(candidate).isFile()) {
+        return pathToUri(candidate);
+      }
+    } catch (_e) {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Recursively collect files with the given extensions under a directory
+ */
+export function findFilesInDirectory(
+  directory: string,
+  extensions: string[],
+  results: string[] = []
+): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch (_e) {
+    return results;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules' || entry.name === 'out') {
+      continue;
+    }
+
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      findFilesInDirectory(fullPath, extensions, results);
+    } else if (extensions.includes(path.extname(entry.name))) {
+      results.push(fullPath);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Split a package specifier (`npm:@scope/name@1.0.0/sub`) into the
+ * package name and the subpath inside it
+ */
+export function parsePackageSpecifier(specifier: string): { name: string; subpath: string } | undefined {
+  const bare = specifier.replace(/^npm:/, '');
+  if (/^[a-z]+:/i.test(bare) || bare.startsWith('.') || path.isAbsolute(bare)) {
+    return undefined;
+  }
+
+  const segments = bare.split('/');
+  const nameSegments = bare.startsWith('@') ? segments.slice(0, 2) : segments.slice(0, 1);
+  if (nameSegments.length === 0 || !nameSegments[nameSegments.length - 1]) {
+    return undefined;
+  }
+
+  // Drop a version suffix from the last name segment
+  const last = nameSegments.length - 1;
+  nameSegments[last] = nameSegments[last].replace(/@.*$/, '');
+
+  return {
+    name: nameSegments.join('/'),
+    subpath: segments.slice(nameSegments.length).join('/')
+  };
+}
+
+/**
+ * Resolve a package import to its entry file by searching node_modules
+ * (and workspace packages with a matching name) above the importing file
+ */
+export function resolvePackageModule(fromUri: string, specifier: string): string | undefined {
+  const parsed = parsePackageSpecifier(specifier);
+  if (!parsed) {
+    return undefined;
+  }
+
+  let directory = path.dirname(uriToPath(fromUri));
+  while (true) {
+    const candidates = [
+      path.join(directory, 'node_modules', parsed.name),
+      directory
+    ];
+
+    for (const packageDir of candidates) {
+      const entry = readPackageEntry(packageDir, parsed.name, parsed.subpath);
+      if (entry) {
+        return pathToUri(entry);
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Read the entry file of a package directory, preferring JavaScript sources
+ * over type declarations so definitions land on real code
+ */
+function readPackageEntry(packageDir: string, name: string, subpath: string): string | undefined {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+  } catch (_e) {
+    return undefined;
+  }
+
+  if (!isObject(manifest) || manifest.name !== name) {
+    return undefined;
+  }
+
+  const rootExport = isObject(manifest.exports) ? manifest.exports['.'] : undefined;
+  const exportsEntry = typeof manifest.exports === 'string'
+    ? manifest.exports
+    : isObject(rootExport) ? rootExport.import || rootExport.default : undefined;
+
+  const entries = subpath
+    ? [subpath, `${subpath}.js`, `${subpath}/index.js`]
+    : [manifest.module, exportsEntry, manifest.main, manifest.types, manifest.typings, 'index.js'];
+
+  for (const entry of entries) {
+    if (typeof entry !== 'string') continue;
+    const fullPath = path.resolve(packageDir, entry);
+    try {
+      if (fs.statSync(fullPath).isFile()) {
+        return fullPath;
+      }
+    } catch (_e) {
+      // Try the next entry
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find where a JavaScript or declaration file defines an exported name,
+ * following `export { a as b }` aliases and `export ... from` re-exports
+ */
+export function findJsExportDefinition(
+  filePath: string,
+  name: string,
+  seen: Set<string> = new Set()
+): { filePath: string; offset: number; length: number } | undefined {
+  const key = `${filePath}#${name}`;
+  if (seen.has(key)) {
+    return undefined;
+  }
+  seen.add(key);
+
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (_e) {
+    return undefined;
+  }
+
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const declarationPatterns = [
+    new RegExp(`(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\*?\\s+(${escaped})\\b`),
+    new RegExp(`(?:export\\s+)?(?:declare\\s+)?(?:const|let|var|class|interface|type|enum|namespace)\\s+(${escaped})\\b`),
+    new RegExp(`\\b(?:module\\.)?exports\\.(${escaped})\\s*=`)
+  ];
+
+  for (const pattern of declarationPatterns) {
+    const match = pattern.exec(text);
+    if (match) {
+      return { filePath, offset: match.index + match[0].lastIndexOf(match[1]), length: name.length };
+    }
+  }
+
+  // export { local as name } [from "./other"]
+  const aliasPattern = new RegExp(
+    `export\\s*\\{[^}]*?\\b([\\w$]+)\\s+as\\s+${escaped}\\b[^}]*\\}(?:\\s*from\\s*["']([^"']+)["'])?`
+  );
+  const alias = aliasPattern.exec(text);
+  if (alias) {
+    const source = alias[2] ? resolveJsRelative(filePath, alias[2]) : filePath;
+    return source ? findJsExportDefinition(source, alias[1], seen) : undefined;
+  }
+
+  // export { name } from "./other"
+  const namedReexport = new RegExp(`export\\s*\\{[^}]*\\b${escaped}\\b[^}]*\\}\\s*from\\s*["']([^"']+)["']`).exec(text);
+  if (namedReexport) {
+    const source = resolveJsRelative(filePath, namedReexport[1]);
+    return source ? findJsExportDefinition(source, name, seen) : undefined;
+  }
+
+  // export * from "./other"
+  const starPattern = /export\s*\*\s*from\s*["']([^"']+)["']/g;
+  let star: RegExpExecArray | null;
+  while ((star = starPattern.exec(text)) !== null) {
+    const source = resolveJsRelative(filePath, star[1]);
+    const found = source ? findJsExportDefinition(source, name, seen) : undefined;
+    if (found) {
+      return found;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a relative JavaScript import from a file path
+ */
+function resolveJsRelative(fromPath: string, specifier: string): string | undefined {
+  const uri = resolveRelativeModule(pathToUri(fromPath), specifier);
+  return uri ? uriToPath(uri) : undefined;
+}
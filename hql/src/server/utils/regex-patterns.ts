@@ -21,6 +21,7 @@ export const DIRECT_FUNCTION_DOT_REGEX = /\(([a-zA-Z_][a-zA-Z0-9_]*)\s+\.$/;
 // Dot notation patterns
 export const ENUM_DOT_REGEX = /\S+\s+\.$/;
 export const DOT_CHAIN_REGEX = /\)[.\s]*$/;
+export const MEMBER_ACCESS_REGEX = /(?:^|[\s(\[{])([a-zA-Z_][a-zA-Z0-9_-]*)\.([a-zA-Z0-9_-]*)$/;
 
 // Class and instantiation patterns
 export const CLASS_NAME_REGEX = /(?:^|\()[\s]*([a-zA-Z_][a-zA-Z0-9_]*)$/;
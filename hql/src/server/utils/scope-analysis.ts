@@ -0,0 +1,643 @@
+/**
+ * Lexical scope analysis shared by the language features
+ *
+ * One pass over a module's parse tree records every binding (module
+ * definitions, imports, parameters, let/var/loop bindings, for iterators,
+ * class members, catch variables) with the scope it lives in, and resolves
+ * every symbol that is read to the binding it refers to. Features ask the
+ * analysis instead of matching names, so shadowing and parameters of other
+ * functions are handled the same way everywhere.
+ */
+
+import { SExp, SList, SSymbol } from '../../parser';
+import { isList, isSymbol } from '../../s-exp/types';
+import { DEFINITION_FORMS, getVectorElements, parseBindingVector } from './module-utils';
+import { getBindingName, getFormKeyword, isFormOf, isStatementBinding } from './scope-utils';
+
+/**
+ * What introduced a binding
+ */
+export type BindingKind =
+  'function' | 'macro' | 'class' | 'enum' | 'variable' | 'import' |
+  'parameter' | 'iterator' | 'member' | 'exception';
+
+/**
+ * A name introduced by a form
+ * - node is the defining occurrence, form the form that introduces it
+ * - visibleFrom is the offset from which the name can be referred to;
+ *   statement bindings such as `(let x 1)` are only visible after the
+ *   statement, module definitions everywhere
+ * - type is the declared type of annotated parameters and fields
+ */
+export interface Binding {
+  name: string;
+  kind: BindingKind;
+  node: SSymbol;
+  form: SList;
+  scope: Scope;
+  mutable: boolean;
+  visibleFrom: number;
+  type?: string;
+}
+
+/**
+ * A lexical environment: the module, or the body of a form that binds names
+ */
+export interface Scope {
+  form?: SList;
+  parent?: Scope;
+  children: Scope[];
+  bindings: Binding[];
+  start: number;
+  end: number;
+}
+
+const FUNCTION_FORMS = ['fn', 'fx', 'lambda', 'macro', 'defmacro', 'constructor'];
+const TEMPLATE_ESCAPES = ['unquote', 'unquote-splicing'];
+
+/**
+ * The result of analyzing one module
+ */
+export class ScopeAnalysis {
+  public readonly module: Scope;
+  private definitions: Map<SSymbol, Binding>;
+  private references: Map<SSymbol, Binding | null>;
+  // Built on first use: the symbols that read each binding
+  private usages?: Map<Binding, SSymbol[]>;
+
+  constructor(module: Scope, definitions: Map<SSymbol, Binding>, references: Map<SSymbol, Binding | null>) {
+    this.module = module;
+    this.definitions = definitions;
+    this.references = references;
+  }
+
+  /**
+   * Get the binding a symbol defines or refers to. Dotted names resolve
+   * through their first part (`p` for `p.x`).
+   */
+  public resolve(symbol: SSymbol): Binding | undefined {
+    return this.definitions.get(symbol) || this.references.get(symbol) || undefined;
+  }
+
+  /**
+   * Get the binding a symbol defines, if it is a defining occurrence
+   */
+  public getDefinition(symbol: SSymbol): Binding | undefined {
+    return this.definitions.get(symbol);
+  }
+
+  /**
+   * Get the symbols whose names no binding of the module accounts for,
+   * such as built-ins, globals and undefined names
+   */
+  public getFreeReferences(): SSymbol[] {
+    const free: SSymbol[] = [];
+    for (const [symbol, binding] of this.references) {
+      if (!binding) free.push(symbol);
+    }
+    return free;
+  }
+
+  /**
+   * Get the symbols that read a binding
+   */
+  public getReferences(binding: Binding): SSymbol[] {
+    if (!this.usages) {
+      this.usages = new Map();
+      for (const [symbol, target] of this.references) {
+        if (!target) continue;
+        const symbols = this.usages.get(target);
+        if (symbols) {
+          symbols.push(symbol);
+        } else {
+          this.usages.set(target, [symbol]);
+        }
+      }
+    }
+    return this.usages.get(binding) || [];
+  }
+
+  /**
+   * Get every binding of the module, outer scopes first
+   */
+  public getBindings(): Binding[] {
+    const bindings: Binding[] = [];
+    const visit = (scope: Scope) => {
+      bindings.push(...scope.bindings);
+      scope.children.forEach(visit);
+    };
+    visit(this.module);
+    return bindings;
+  }
+
+  /**
+   * Get the innermost scope containing an offset
+   */
+  public scopeAt(offset: number): Scope {
+    let scope = this.module;
+    for (;;) {
+      const child = scope.children.find(c => c.start <= offset && offset <= c.end);
+      if (!child) return scope;
+      scope = child;
+    }
+  }
+
+  /**
+   * Get the bindings visible at an offset, innermost first, without the
+   * ones shadowed by a nearer binding of the same name
+   */
+  public getVisibleBindings(offset: number): Binding[] {
+    const visible: Binding[] = [];
+    const names = new Set<string>();
+
+    for (let scope: Scope | undefined = this.scopeAt(offset); scope; scope = scope.parent) {
+      // Later bindings of a scope shadow earlier ones
+      for (let i = scope.bindings.length - 1; i >= 0; i--) {
+        const binding = scope.bindings[i];
+        if (binding.visibleFrom <= offset && !names.has(binding.name)) {
+          names.add(binding.name);
+          visible.push(binding);
+        }
+      }
+    }
+
+    return visible;
+  }
+
+  /**
+   * Find the binding a name would refer to at an offset
+   */
+  public lookupAt(name: string, offset: number): Binding | undefined {
+    return this.getVisibleBindings(offset).find(binding => binding.name === name);
+  }
+}
+
+/**
+ * Analyze the scopes of a module's top-level forms
+ */
+export function analyzeScopes(expressions: SExp[]): ScopeAnalysis {
+  return new ScopeWalker().analyze(expressions);
+}
+
+/**
+ * Builds a ScopeAnalysis in one pass, resolving names as it goes so that
+ * each reference sees exactly the bindings made before it
+ */
+class ScopeWalker {
+  private definitions: Map<SSymbol, Binding> = new Map();
+  private references: Map<SSymbol, Binding | null> = new Map();
+  // The current binding of each name per scope while walking
+  private names: Map<Scope, Map<string, Binding>> = new Map();
+  private module: Scope = this.createScope(undefined, undefined);
+
+  public analyze(expressions: SExp[]): ScopeAnalysis {
+    // Module definitions and imports are visible throughout the module
+    for (const expr of expressions) {
+      this.declareModuleForm(expr);
+    }
+
+    this.visitBody(expressions, this.module);
+    return new ScopeAnalysis(this.module, this.definitions, this.references);
+  }
+
+  /**
+   * Bind the names a top-level form defines or imports
+   */
+  private declareModuleForm(expr: SExp): void {
+    if (!isList(expr)) return;
+
+    const keyword = getFormKeyword(expr);
+    const [, target] = expr.elements;
+
+    if (keyword === 'export' && target && isList(target) && getFormKeyword(target) !== 'vector') {
+      this.declareModuleForm(target);
+    } else if (keyword === 'import' && target) {
+      if (isSymbol(target)) {
+        this.bind(target, 'import', expr, this.module, 0);
+      } else if (isList(target)) {
+        for (const entry of parseBindingVector(target)) {
+          this.bind(entry.alias || entry.name, 'import', expr, this.module, 0);
+          if (entry.alias) {
+            // The original name belongs to the other module
+            this.definitions.delete(entry.name);
+          }
+        }
+      }
+    } else if (keyword && DEFINITION_FORMS.includes(keyword) && target && isSymbol(target)) {
+      this.bind(target, getDefinitionKind(keyword), expr, this.module, 0, keyword === 'var');
+    }
+  }
+
+  /**
+   * Visit statements in order; statement bindings are visible to the
+   * statements after them
+   */
+  private visitBody(statements: SExp[], scope: Scope): void {
+    for (const statement of statements) {
+      this.visitStatement(statement, scope);
+    }
+  }
+
+  private visitStatement(statement: SExp, scope: Scope): void {
+    if (!isList(statement)) {
+      this.visit(statement, scope);
+      return;
+    }
+
+    const keyword = getFormKeyword(statement);
+    const name = statement.elements[1];
+    const isModule = scope === this.module;
+
+    if (isStatementBinding(statement)) {
+      statement.elements.slice(2).forEach(value => this.visit(value, scope));
+      if (!isModule) {
+        const end = statement.range ? statement.range.end.offset : nodeOffset(name);
+        this.bind(name as SSymbol, 'variable', statement, scope, end, keyword === 'var');
+      }
+      return;
+    }
+
+    if (keyword === 'export' && name && isList(name) && getFormKeyword(name) !== 'vector') {
+      this.visitStatement(name, scope);
+      return;
+    }
+
+    // Named definitions inside bodies are visible from their own form on
+    if (!isModule && keyword && DEFINITION_FORMS.includes(keyword) && name && isSymbol(name)) {
+      this.bind(name, getDefinitionKind(keyword), statement, scope, nodeStart(statement), keyword === 'var');
+    }
+
+    this.visit(statement, scope, true);
+  }
+
+  /**
+   * Visit an expression. `named` is set when the caller has already bound
+   * the name of a definition form.
+   */
+  private visit(expr: SExp, scope: Scope, named: boolean = false): void {
+    if (isSymbol(expr)) {
+      this.reference(expr, scope);
+      return;
+    }
+    if (!isList(expr) || expr.elements.length === 0) {
+      return;
+    }
+
+    const keyword = getFormKeyword(expr);
+    switch (keyword) {
+      case 'quote':
+        return;
+      case 'quasiquote':
+        this.visitTemplate(expr.elements[1], scope);
+        return;
+      case 'fn':
+      case 'fx':
+      case 'lambda':
+      case 'macro':
+      case 'defmacro':
+        this.visitFunction(expr, scope, named);
+        return;
+      case 'let':
+      case 'var':
+      case 'loop':
+      case 'if-let':
+      case 'when-let':
+        if (isList(expr.elements[1])) {
+          this.visitBindingList(expr, scope, keyword === 'var');
+          return;
+        }
+        break;
+      case 'for':
+        this.visitFor(expr, scope);
+        return;
+      case 'class':
+      case 'struct':
+        this.visitClass(expr, scope);
+        return;
+      case 'enum':
+      case 'import':
+        // Case names and imported names are not reads
+        return;
+      case 'export':
+        this.visitExport(expr, scope);
+        return;
+      case 'catch':
+        this.visitCatch(expr, scope);
+        return;
+      case 'do':
+        // Statements in a block are local to it, even at the top level
+        this.visitBody(expr.elements.slice(1), this.createScope(expr, scope));
+        return;
+      case '.':
+        // (. obj method args...): the method name is not a read
+        this.visit(expr.elements[1], scope);
+        expr.elements.slice(3).forEach(element => this.visit(element, scope));
+        return;
+    }
+
+    // Other forms run their elements in order, e.g. (do (let x 1) x)
+    this.visitBody(expr.elements, scope);
+  }
+
+  /**
+   * Visit a fn/fx/lambda/macro or constructor: parameters bind names for
+   * the body, default values are evaluated outside it
+   */
+  private visitFunction(expr: SList, scope: Scope, named: boolean): void {
+    const inner = this.createScope(expr, scope);
+    const keyword = getFormKeyword(expr)!;
+    let index = 1;
+
+    const name = expr.elements[1];
+    if (keyword !== 'constructor' && name && isSymbol(name)) {
+      // A function in an expression can still call itself by name
+      if (!named) {
+        this.bind(name, getDefinitionKind(keyword), expr, inner, nodeStart(expr));
+      }
+      index = 2;
+    }
+
+    const params = expr.elements[index];
+    if (params && isList(params)) {
+      this.declareParameters(params, expr, scope, inner);
+      index++;
+    }
+
+    // Skip a return type annotation: (-> Type)
+    if (isFormOf(expr.elements[index], ['->'])) {
+      index++;
+    }
+
+    this.visitBody(expr.elements.slice(index), inner);
+  }
+
+  /**
+   * Bind the names of a parameter list; types are not reads and default
+   * values see the enclosing scope
+   */
+  private declareParameters(params: SList, form: SList, outer: Scope, inner: Scope): void {
+    const elements = getVectorElements(params).filter(e => !(isSymbol(e) && e.name === ','));
+    const visibleFrom = params.range ? params.range.end.offset : nodeStart(form);
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      const previous = elements[i - 1];
+
+      if (previous && isSymbol(previous) && previous.name === '=') {
+        this.visit(element, outer);
+        continue;
+      }
+      if (previous && isSymbol(previous) && isLabel(previous)) {
+        continue;
+      }
+
+      if (isSymbol(element)) {
+        if (['&', '=', '->'].includes(element.name)) continue;
+        const binding = this.bind(element, 'parameter', form, inner, visibleFrom);
+        const type = elements[i + 1];
+        if (isLabel(element) && type && isSymbol(type)) {
+          binding.type = type.name;
+        }
+      } else if (isList(element) && isSymbol(element.elements[0])) {
+        // Older trees wrap annotations in a list: (name : Type)
+        this.bind(element.elements[0], 'parameter', form, inner, visibleFrom);
+      }
+    }
+  }
+
+  /**
+   * Visit `(let (a 1 b 2) body)`, loops and `if-let`; each value sees the
+   * names bound before it
+   */
+  private visitBindingList(expr: SList, scope: Scope, mutable: boolean): void {
+    const inner = this.createScope(expr, scope);
+    const elements = getVectorElements(expr.elements[1] as SList).filter(e => !(isSymbol(e) && e.name === ','));
+
+    for (let i = 0; i < elements.length; i += 2) {
+      const name = elements[i];
+      const value = elements[i + 1];
+      if (value) {
+        this.visit(value, inner);
+      }
+      if (isSymbol(name)) {
+        this.bind(name, 'variable', expr, inner, value ? nodeEnd(value) : nodeOffset(name), mutable);
+      }
+    }
+
+    this.visitBody(expr.elements.slice(2), inner);
+  }
+
+  /**
+   * Visit `(for (i from: 0 to: 10) body)`, which binds its first name
+   */
+  private visitFor(expr: SList, scope: Scope): void {
+    const inner = this.createScope(expr, scope);
+    const bindings = expr.elements[1];
+
+    if (bindings && isList(bindings)) {
+      const [name, ...rest] = getVectorElements(bindings);
+      rest.forEach(element => this.visit(element, scope));
+      if (name && isSymbol(name)) {
+        this.bind(name, 'iterator', expr, inner, nodeEnd(bindings));
+      }
+    }
+
+    this.visitBody(expr.elements.slice(2), inner);
+  }
+
+  /**
+   * Visit a class or struct: members are bound in the class body, so
+   * methods can refer to each other and to fields
+   */
+  private visitClass(expr: SList, scope: Scope): void {
+    const inner = this.createScope(expr, scope);
+    const members = expr.elements.slice(2);
+
+    for (const member of members) {
+      const keyword = getFormKeyword(member);
+      const name = isList(member) ? member.elements[1] : undefined;
+      if (keyword && ['var', 'let', 'field', 'fn', 'fx'].includes(keyword) && name && isSymbol(name)) {
+        const binding = this.bind(name, 'member', member as SList, inner, nodeStart(expr), keyword === 'var');
+        const type = (member as SList).elements[2];
+        if (isLabel(name) && type && isSymbol(type)) {
+          binding.type = type.name;
+        }
+      }
+    }
+
+    for (const member of members) {
+      if (isSymbol(member)) {
+        // extends Parent
+        if (member.name !== 'extends') this.reference(member, scope);
+        continue;
+      }
+
+      const keyword = getFormKeyword(member);
+      if (keyword === 'var' || keyword === 'let' || keyword === 'field') {
+        // (var name: Type value) declares a type, not a read
+        const values = (member as SList).elements.slice(2);
+        const start = isSymbol((member as SList).elements[1]) && isLabel((member as SList).elements[1] as SSymbol) ? 1 : 0;
+        values.slice(start).forEach(value => this.visit(value, inner));
+      } else if (keyword === 'fn' || keyword === 'fx' || keyword === 'constructor') {
+        this.visitFunction(member as SList, inner, true);
+      } else {
+        this.visit(member, inner);
+      }
+    }
+  }
+
+  /**
+   * Visit an export statement: exported names are reads of local bindings
+   */
+  private visitExport(expr: SList, scope: Scope): void {
+    const target = expr.elements[1];
+
+    if (target && isList(target) && getFormKeyword(target) === 'vector') {
+      // The alias in `[name as alias]` is the exported name, not a read
+      parseBindingVector(target).forEach(entry => this.reference(entry.name, scope));
+    } else if (target && isList(target)) {
+      this.visitStatement(target, scope);
+    } else {
+      // Legacy form: (export "name" symbol)
+      expr.elements.slice(2).forEach(element => this.visit(element, scope));
+    }
+  }
+
+  /**
+   * Visit `(catch e body)`, which binds the caught value
+   */
+  private visitCatch(expr: SList, scope: Scope): void {
+    const inner = this.createScope(expr, scope);
+    const name = expr.elements[1];
+    let start = 1;
+
+    if (name && isSymbol(name)) {
+      this.bind(name, 'exception', expr, inner, nodeEnd(name));
+      start = 2;
+    }
+
+    this.visitBody(expr.elements.slice(start), inner);
+  }
+
+  /**
+   * Visit a quasiquoted template. Unquoted parts are evaluated here; the
+   * expansion refers to the module's names where the macro is used, so
+   * other symbols are reads of module bindings and nothing else.
+   */
+  private visitTemplate(expr: SExp | undefined, scope: Scope): void {
+    if (expr && isSymbol(expr)) {
+      this.reference(expr, scope, true);
+      return;
+    }
+    if (!expr || !isList(expr)) return;
+
+    const keyword = getFormKeyword(expr);
+    if (keyword && TEMPLATE_ESCAPES.includes(keyword)) {
+      expr.elements.slice(1).forEach(element => this.visit(element, scope));
+      return;
+    }
+
+    expr.elements.forEach(element => this.visitTemplate(element, scope));
+  }
+
+  /**
+   * Resolve a symbol that is read. With `moduleOnly`, only a binding of
+   * the module counts and anything else is left unresolved.
+   */
+  private reference(symbol: SSymbol, scope: Scope, moduleOnly: boolean = false): void {
+    // Synthesized heads, labels, keywords and `.method` shorthands are not reads
+    if (!symbol.position || isLabel(symbol) || symbol.name.startsWith(':') || symbol.name.startsWith('.')) {
+      return;
+    }
+
+    const head = symbol.name.split('.')[0];
+    if (!head || this.definitions.has(symbol)) return;
+
+    const binding = this.lookup(head, scope);
+    if (moduleOnly && binding?.scope !== this.module) return;
+
+    this.references.set(symbol, binding || null);
+  }
+
+  private lookup(name: string, scope: Scope): Binding | undefined {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const binding = this.names.get(current)!.get(name);
+      if (binding) return binding;
+    }
+    return undefined;
+  }
+
+  private bind(
+    node: SSymbol,
+    kind: BindingKind,
+    form: SList,
+    scope: Scope,
+    visibleFrom: number,
+    mutable: boolean = false
+  ): Binding {
+    // Enums with a raw type are written `Name:Type`, parameters `name: Type`
+    const name = kind === 'enum' ? node.name.split(':')[0] : getBindingName(node);
+    const binding: Binding = { name, kind, node, form, scope, mutable, visibleFrom };
+
+    scope.bindings.push(binding);
+    this.names.get(scope)!.set(name, binding);
+    this.definitions.set(node, binding);
+    return binding;
+  }
+
+  private createScope(form: SList | undefined, parent: Scope | undefined): Scope {
+    const scope: Scope = {
+      form,
+      parent,
+      children: [],
+      bindings: [],
+      start: form?.range ? form.range.start.offset : 0,
+      end: form?.range ? form.range.end.offset : Number.MAX_SAFE_INTEGER
+    };
+
+    parent?.children.push(scope);
+    this.names.set(scope, new Map());
+    return scope;
+  }
+}
+
+function getDefinitionKind(keyword: string): BindingKind {
+  switch (keyword) {
+    case 'fn':
+    case 'fx':
+    case 'lambda':
+      return 'function';
+    case 'macro':
+    case 'defmacro':
+      return 'macro';
+    case 'class':
+    case 'struct':
+      return 'class';
+    case 'enum':
+      return 'enum';
+    default:
+      return 'variable';
+  }
+}
+
+/**
+ * Named argument labels and parameter names with a type end with a colon
+ */
+function isLabel(symbol: SSymbol): boolean {
+  return symbol.name.length > 1 && symbol.name.endsWith(':');
+}
+
+function nodeOffset(expr: SExp | undefined): number {
+  return expr && isSymbol(expr) && expr.position ? expr.position.offset : nodeStart(expr);
+}
+
+function nodeStart(expr: SExp | undefined): number {
+  return expr?.range ? expr.range.start.offset : 0;
+}
+
+function nodeEnd(expr: SExp): number {
+  if (isSymbol(expr) && expr.position) {
+    return expr.position.offset + expr.name.length;
+  }
+  return expr.range ? expr.range.end.offset : 0;
+}
@@ -0,0 +1,283 @@
+import { SExp, SList, SSymbol } from '../../parser';
+import { isList, isSymbol } from '../../s-exp/types';
+
+/**
+ * Forms that bind names for the rest of their body
+ */
+const FUNCTION_FORMS = ['fn', 'fx', 'lambda'];
+const BINDING_LIST_FORMS = ['let', 'var', 'loop'];
+
+/**
+ * Check whether an expression is a list starting with one of some keywords
+ */
+export function isFormOf(expr: SExp | undefined, keywords: string[]): expr is SList {
+  return !!expr && isList(expr) && expr.elements.length > 0 &&
+    isSymbol(expr.elements[0]) && keywords.includes(expr.elements[0].name);
+}
+
+/**
+ * Get the keyword of a form, e.g. `fn` for `(fn add ...)`
+ */
+export function getFormKeyword(expr: SExp | undefined): string | undefined {
+  return expr && isList(expr) && expr.elements.length > 0 && isSymbol(expr.elements[0])
+    ? expr.elements[0].name
+    : undefined;
+}
+
+/**
+ * Get the parameter list of a fn/fx/lambda/constructor form
+ */
+export function getParameterList(form: SList): SList | undefined {
+  const keyword = getFormKeyword(form);
+  const [, second, third] = form.elements;
+
+  if (keyword && FUNCTION_FORMS.includes(keyword)) {
+    const params = second && isSymbol(second) ? third : second;
+    return params && isList(params) ? params : undefined;
+  }
+  if (keyword === 'constructor') {
+    return second && isList(second) ? second : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the symbols a parameter list binds, skipping types, defaults and `&`
+ */
+export function getParameterSymbols(params: SList): SSymbol[] {
+  const symbols: SSymbol[] = [];
+  const elements = params.elements.filter(e => !(isSymbol(e) && e.name === ','));
+  const start = elements.length > 0 && isSymbol(elements[0]) && elements[0].name === 'vector' ? 1 : 0;
+
+  for (let i = start; i < elements.length; i++) {
+    const element = elements[i];
+
+    if (isSymbol(element)) {
+      if (element.name === '&') continue;
+      if (element.name === '=') {
+        i++; // skip the default value
+        continue;
+      }
+      symbols.push(element);
+      if (element.name.length > 1 && element.name.endsWith(':')) {
+        i++; // skip the type
+      }
+    } else if (isList(element) && isSymbol(element.elements[0])) {
+      // Older trees wrap annotations in a list: (name : Type)
+      symbols.push(element.elements[0]);
+    }
+  }
+
+  return symbols;
+}
+
+/**
+ * Get the name a binding symbol introduces (`a` for the parameter `a:`)
+ */
+export function getBindingName(symbol: SSymbol): string {
+  return symbol.name.length > 1 && symbol.name.endsWith(':') ? symbol.name.slice(0, -1) : symbol.name;
+}
+
+/**
+ * Get the binding pairs of a `(let (a 1 b 2) body)` style form
+ */
+export function getBindingPairs(form: SList): { name: SSymbol; value: SExp | undefined }[] {
+  const bindings = form.elements[1];
+  if (!isFormOf(form, [...BINDING_LIST_FORMS, 'for']) || !bindings || !isList(bindings)) {
+    return [];
+  }
+
+  const elements = bindings.elements.filter(e => !(isSymbol(e) && e.name === ','));
+  const pairs: { name: SSymbol; value: SExp | undefined }[] = [];
+
+  for (let i = 0; i < elements.length; i += 2) {
+    const name = elements[i];
+    if (!isSymbol(name)) break;
+    pairs.push({ name, value: elements[i + 1] });
+    // (for (i from: 0 to: 10) ...) binds only its first name
+    if (getFormKeyword(form) === 'for') break;
+  }
+
+  return pairs;
+}
+
+/**
+ * Get the symbols a form binds for its body: parameters of functions and
+ * names of binding lists
+ */
+export function getFormBindings(form: SList): SSymbol[] {
+  const params = getParameterList(form);
+  if (params) {
+    return getParameterSymbols(params);
+  }
+  return getBindingPairs(form).map(pair => pair.name);
+}
+
+/**
+ * Get the index of the first body expression of a form that has a body
+ */
+export function getBodyStart(form: SList): number | undefined {
+  const keyword = getFormKeyword(form);
+  const [, second, third, fourth] = form.elements;
+
+  if (keyword && FUNCTION_FORMS.includes(keyword)) {
+    const named = !!second && isSymbol(second);
+    let start = named ? 3 : 2;
+    // Skip a return type annotation: (-> Type)
+    const returnType = named ? fourth : third;
+    if (isFormOf(returnType, ['->'])) {
+      start++;
+    }
+    return start;
+  }
+
+  if (keyword === 'constructor') {
+    return 2;
+  }
+
+  if (keyword && [...BINDING_LIST_FORMS, 'for'].includes(keyword)) {
+    return second && isList(second) ? 2 : undefined;
+  }
+
+  if (keyword === 'do') {
+    return 1;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a form is a statement binding such as `(let x 1)`, which
+ * binds its name for the statements after it
+ */
+export function isStatementBinding(expr: SExp): boolean {
+  return isFormOf(expr, ['let', 'var']) && expr.elements.length >= 2 && isSymbol(expr.elements[1]);
+}
+
+/**
+ * Find the chain of expressions from a top-level form down to a node
+ */
+export function findNodePath(expressions: SExp[], target: SExp): SExp[] | undefined {
+  for (const expr of expressions) {
+    if (expr === target) {
+      return [expr];
+    }
+    if (isList(expr)) {
+      const path = findNodePath(expr.elements, target);
+      if (path) {
+        return [expr, ...path];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the outermost expression whose range is exactly an offset span
+ */
+export function findExpressionBySpan(expressions: SExp[], start: number, end: number): SExp | undefined {
+  for (const expr of expressions) {
+    if (!expr.range || start < expr.range.start.offset || end > expr.range.end.offset) continue;
+    if (expr.range.start.offset === start && expr.range.end.offset === end) {
+      return expr;
+    }
+    if (isList(expr)) {
+      return findExpressionBySpan(expr.elements, start, end);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect the symbols an expression reads that it does not bind itself,
+ * keyed by the name they refer to (`p` for `p.x`)
+ */
+export function collectFreeSymbols(expr: SExp, bound: Set<string> = new Set()): Map<string, SSymbol[]> {
+  const free = new Map<string, SSymbol[]>();
+
+  const visit = (node: SExp, scope: Set<string>): void => {
+    if (isSymbol(node)) {
+      // Named argument labels are not variable reads
+      if (node.name.length > 1 && node.name.endsWith(':')) return;
+      const name = node.name.split('.')[0];
+      if (!name || scope.has(name)) return;
+      if (!free.has(name)) free.set(name, []);
+      free.get(name)!.push(node);
+      return;
+    }
+
+    if (isStatementBinding(node)) {
+      (node as SList).elements.slice(2).forEach(value => visit(value, scope));
+      return;
+    }
+
+    if (!isList(node)) return;
+
+    const keyword = getFormKeyword(node);
+    if (keyword === 'quote') return;
+
+    const bodyStart = getBodyStart(node);
+    if (bodyStart !== undefined && keyword !== 'do') {
+      const inner = new Set(scope);
+      const params = getParameterList(node);
+
+      if (params) {
+        // Default values see the enclosing scope
+        params.elements.forEach((element, i) => {
+          const previous = params.elements[i - 1];
+          if (previous && isSymbol(previous) && previous.name === '=') visit(element, scope);
+        });
+      } else {
+        // Binding values see the names bound before them (let*)
+        for (const pair of getBindingPairs(node)) {
+          if (pair.value) visit(pair.value, inner);
+          inner.add(pair.name.name);
+        }
+      }
+
+      getFormBindings(node).forEach(symbol => inner.add(getBindingName(symbol)));
+      visitBody(node.elements.slice(bodyStart), inner);
+      return;
+    }
+
+    visitBody(node.elements, scope);
+  };
+
+  // Statement bindings are visible to the statements after them
+  const visitBody = (statements: SExp[], scope: Set<string>): void => {
+    const inner = new Set(scope);
+    for (const statement of statements) {
+      if (isStatementBinding(statement)) {
+        const binding = statement as SList;
+        binding.elements.slice(2).forEach(value => visit(value, inner));
+        inner.add((binding.elements[1] as SSymbol).name);
+        continue;
+      }
+      visit(statement, inner);
+    }
+  };
+
+  visit(expr, bound);
+  return free;
+}
+
+/**
+ * Collect every name bound anywhere inside some expressions, optionally
+ * skipping one subtree
+ */
+export function collectBoundNames(expressions: SExp[], exclude?: SExp): Set<string> {
+  const names = new Set<string>();
+
+  const visit = (node: SExp): void => {
+    if (node === exclude || !isList(node)) return;
+
+    if (isStatementBinding(node)) {
+      names.add((node.elements[1] as SSymbol).name);
+    }
+    getFormBindings(node).forEach(symbol => names.add(getBindingName(symbol)));
+    node.elements.forEach(visit);
+  };
+
+  expressions.forEach(visit);
+  return names;
+}
@@ -0,0 +1,468 @@
+/**
+ * Exports of JavaScript and TypeScript declaration modules imported from HQL
+ *
+ * Sources are read with the TypeScript parser only; types come from
+ * annotations in declaration files, JSDoc tags in JavaScript, and the
+ * typings that sit next to a file or that its package names.
+ */
+
+import { Range } from 'vscode-languageserver';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as ts from 'typescript';
+
+import {
+  addSignature,
+  getDocumentation,
+  JsMember,
+  JsSignature,
+  readSignature,
+  typeText
+} from './js-globals';
+import { pathToUri, resolveRelativeModule, uriToPath } from './module-utils';
+
+/**
+ * A member of an exported class; static and instance members are both
+ * named `Class.member`
+ */
+export interface ScriptMember extends JsMember {
+  isStatic: boolean;
+  range: Range;
+}
+
+/**
+ * A name a script module exports
+ * - signatures are the overloads of a function or the constructors of a class
+ * - filePath and range locate the declaration, which may be in another
+ *   module for re-exports
+ */
+export interface ScriptExport {
+  name: string;
+  kind: 'function' | 'class' | 'constant' | 'variable';
+  type: string;
+  signatures: JsSignature[];
+  members: ScriptMember[];
+  documentation?: string;
+  filePath: string;
+  range: Range;
+}
+
+/**
+ * Check whether a path is a JavaScript or TypeScript module
+ */
+export function isScriptModule(filePath: string): boolean {
+  return /\.(m|c)?(js|ts)$/.test(filePath);
+}
+
+/**
+ * Read the exports of a script module. Exports of a JavaScript file take
+ * their types from its typings and keep their location in the source.
+ */
+export function readScriptExports(filePath: string): ScriptExport[] {
+  const exports = readModuleExports(filePath, new Set());
+
+  const typings = findTypings(filePath);
+  if (typings) {
+    for (const [name, typed] of readModuleExports(typings, new Set())) {
+      const source = exports.get(name);
+      exports.set(name, source ? { ...typed, filePath: source.filePath, range: source.range } : typed);
+    }
+  }
+
+  return [...exports.values()];
+}
+
+/**
+ * Find the typings of a JavaScript file: a declaration file next to it, or
+ * the `types` of the package whose entry it is
+ */
+function findTypings(filePath: string): string | undefined {
+  if (!/\.(m|c)?js$/.test(filePath)) {
+    return undefined;
+  }
+
+  const adjacent = filePath.replace(/\.(m|c)?js$/, (_match, prefix) => `.d.${prefix || ''}ts`);
+  if (isFile(adjacent)) {
+    return adjacent;
+  }
+
+  // The nearest package.json decides whether the file is a package entry
+  for (let directory = path.dirname(filePath); ; directory = path.dirname(directory)) {
+    const manifestPath = path.join(directory, 'package.json');
+    if (isFile(manifestPath)) {
+      try {
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        const types = manifest.types || manifest.typings;
+        const entries = [manifest.module, manifest.main, typeof manifest.exports === 'string' ? manifest.exports : undefined];
+        const isEntry = entries.some(entry => typeof entry === 'string' && path.resolve(directory, entry) === filePath);
+        return isEntry && typeof types === 'string' && isFile(path.resolve(directory, types))
+          ? path.resolve(directory, types)
+          : undefined;
+      } catch (_e) {
+        return undefined;
+      }
+    }
+    if (path.dirname(directory) === directory) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Read the names a module exports, following re-exports
+ */
+function readModuleExports(filePath: string, seen: Set<string>): Map<string, ScriptExport> {
+  const exports = new Map<string, ScriptExport>();
+  if (seen.has(filePath) || !isScriptModule(filePath)) {
+    return exports;
+  }
+  seen.add(filePath);
+
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (_e) {
+    return exports;
+  }
+
+  const scriptKind = /\.(m|c)?ts$/.test(filePath) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  const source = ts.createSourceFile(filePath, text, ts.ScriptTarget.Latest, true, scriptKind);
+  const locals = new Map<string, ScriptExport>();
+  // Exported names whose declaration may come later in the file
+  const aliases: { exported: string; local: string }[] = [];
+
+  const declare = (name: string, declaration: ScriptExport | undefined, exported: string | undefined) => {
+    if (!declaration) return;
+    const existing = locals.get(name);
+    if (existing && existing.kind === 'function' && declaration.kind === 'function') {
+      // Overloads of a declared function
+      declaration.signatures.forEach(signature => addSignature(existing.signatures, signature));
+    } else {
+      locals.set(name, declaration);
+    }
+    if (exported) {
+      exports.set(exported, locals.get(name)!);
+    }
+  };
+
+  for (const statement of source.statements) {
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      const name = statement.name ? statement.name.text : 'default';
+      const declaration = ts.isFunctionDeclaration(statement)
+        ? readFunction(name, statement, statement.name || statement, source)
+        : readClass(name, statement, source);
+      declare(name, declaration, isDefault ? 'default' : exported ? name : undefined);
+    } else if (ts.isVariableStatement(statement)) {
+      const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+      for (const variable of statement.declarationList.declarations) {
+        if (ts.isIdentifier(variable.name)) {
+          const declaration = readValue(variable.name.text, variable.initializer, variable.name, isConst, source, variable.type);
+          declare(variable.name.text, declaration, exported ? variable.name.text : undefined);
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      // export default name; export = name
+      if (ts.isIdentifier(statement.expression)) {
+        aliases.push({ exported: 'default', local: statement.expression.text });
+      } else {
+        declare('default', readValue('default', statement.expression, statement, true, source), 'default');
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      readExportDeclaration(statement, filePath, seen, exports, aliases, source);
+    } else if (ts.isExpressionStatement(statement)) {
+      readCommonJsExport(statement.expression, exports, aliases, source);
+    }
+  }
+
+  for (const alias of aliases) {
+    const local = locals.get(alias.local);
+    if (local && !exports.has(alias.exported)) {
+      exports.set(alias.exported, alias.exported === local.name ? local : { ...local, name: alias.exported });
+    }
+  }
+
+  return exports;
+}
+
+/**
+ * Read `export { a, b as c }`, `export { a } from "./m"`, `export * from "./m"`
+ * and `export * as ns from "./m"`
+ */
+function readExportDeclaration(
+  statement: ts.ExportDeclaration,
+  filePath: string,
+  seen: Set<string>,
+  exports: Map<string, ScriptExport>,
+  aliases: { exported: string; local: string }[],
+  source: ts.SourceFile
+): void {
+  const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+    ? statement.moduleSpecifier.text
+    : undefined;
+  const target = specifier ? resolveScriptImport(filePath, specifier) : undefined;
+  const targetExports = target ? readModuleExports(target, seen) : undefined;
+  const clause = statement.exportClause;
+
+  if (!clause) {
+    // export * skips the default export
+    for (const [name, exported] of targetExports || []) {
+      if (name !== 'default' && !exports.has(name)) {
+        exports.set(name, exported);
+      }
+    }
+    return;
+  }
+
+  if (ts.isNamespaceExport(clause)) {
+    exports.set(clause.name.text, {
+      name: clause.name.text,
+      kind: 'constant',
+      type: 'Module',
+      signatures: [],
+      members: [],
+      filePath: source.fileName,
+      range: nodeRange(clause.name, source)
+    });
+    return;
+  }
+
+  for (const element of clause.elements) {
+    const local = (element.propertyName || element.name).getText(source);
+    const exported = element.name.getText(source);
+    if (!specifier) {
+      aliases.push({ exported, local });
+      continue;
+    }
+    const found = targetExports?.get(local);
+    if (found) {
+      exports.set(exported, { ...found, name: exported });
+    }
+  }
+}
+
+/**
+ * Read `exports.name = value`, `module.exports.name = value` and
+ * `module.exports = { a, b: value }`
+ */
+function readCommonJsExport(
+  expression: ts.Expression,
+  exports: Map<string, ScriptExport>,
+  aliases: { exported: string; local: string }[],
+  source: ts.SourceFile
+): void {
+  if (!ts.isBinaryExpression(expression) || expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
+    return;
+  }
+
+  const target = expression.left.getText(source).replace(/\s+/g, '');
+  const value = expression.right;
+  const member = /^(?:module\.)?exports\.([\w$]+)$/.exec(target);
+
+  if (member && ts.isPropertyAccessExpression(expression.left)) {
+    if (ts.isIdentifier(value)) {
+      aliases.push({ exported: member[1], local: value.text });
+    } else {
+      const declaration = readValue(member[1], value, expression.left.name, true, source);
+      if (declaration) exports.set(member[1], declaration);
+    }
+    return;
+  }
+
+  if (target === 'module.exports' && ts.isObjectLiteralExpression(value)) {
+    for (const property of value.properties) {
+      if (ts.isShorthandPropertyAssignment(property)) {
+        aliases.push({ exported: property.name.text, local: property.name.text });
+      } else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)) {
+        if (ts.isIdentifier(property.initializer)) {
+          aliases.push({ exported: property.name.text, local: property.initializer.text });
+        } else {
+          const declaration = readValue(property.name.text, property.initializer, property.name, true, source);
+          if (declaration) exports.set(property.name.text, declaration);
+        }
+      } else if (ts.isMethodDeclaration(property) && ts.isIdentifier(property.name)) {
+        exports.set(property.name.text, readFunction(property.name.text, property, property.name, source));
+      }
+    }
+  }
+}
+
+/**
+ * Read a function declaration or expression
+ */
+function readFunction(
+  name: string,
+  declaration: ts.SignatureDeclarationBase,
+  nameNode: ts.Node,
+  source: ts.SourceFile
+): ScriptExport {
+  const signature = readSignature(declaration, source);
+  return {
+    name,
+    kind: 'function',
+    type: 'Function',
+    signatures: [signature],
+    members: [],
+    documentation: signature.documentation,
+    filePath: source.fileName,
+    range: nodeRange(nameNode, source)
+  };
+}
+
+/**
+ * Read a variable or exported value: functions and classes assigned to it
+ * keep their signatures
+ */
+function readValue(
+  name: string,
+  value: ts.Expression | undefined,
+  nameNode: ts.Node,
+  isConst: boolean,
+  source: ts.SourceFile,
+  annotation?: ts.TypeNode
+): ScriptExport | undefined {
+  if (value && (ts.isArrowFunction(value) || ts.isFunctionExpression(value))) {
+    return readFunction(name, value, nameNode, source);
+  }
+  if (value && ts.isClassExpression(value)) {
+    return { ...readClass(name, value, source), range: nodeRange(nameNode, source) };
+  }
+
+  const documented = ts.isVariableDeclaration(nameNode.parent) ? nameNode.parent : nameNode;
+  return {
+    name,
+    kind: isConst ? 'constant' : 'variable',
+    type: annotation || ts.getJSDocType(documented) ? typeText(annotation || ts.getJSDocType(documented), source) : literalType(value),
+    signatures: [],
+    members: [],
+    documentation: getDocumentation(documented).text,
+    filePath: source.fileName,
+    range: nodeRange(nameNode, source)
+  };
+}
+
+/**
+ * Read a class: its constructors and its public fields, accessors and methods
+ */
+function readClass(name: string, declaration: ts.ClassLikeDeclaration, source: ts.SourceFile): ScriptExport {
+  const signatures: JsSignature[] = [];
+  const members: ScriptMember[] = [];
+
+  for (const element of declaration.members) {
+    if (ts.isConstructorDeclaration(element)) {
+      // A constructor produces an instance of its class
+      addSignature(signatures, { ...readSignature(element, source), returnType: name });
+      continue;
+    }
+
+    if (!element.name || !ts.isIdentifier(element.name) ||
+        hasModifier(element, ts.SyntaxKind.PrivateKeyword) || hasModifier(element, ts.SyntaxKind.ProtectedKeyword)) {
+      continue;
+    }
+
+    const memberName = element.name.text;
+    const isStatic = hasModifier(element, ts.SyntaxKind.StaticKeyword);
+    const existing = members.find(m => m.name === memberName && m.isStatic === isStatic);
+
+    if (ts.isMethodDeclaration(element)) {
+      const signature = readSignature(element, source);
+      if (existing && existing.kind === 'method') {
+        addSignature(existing.signatures, signature);
+        continue;
+      }
+      members.push({
+        name: memberName,
+        kind: 'method',
+        type: 'Function',
+        readonly: true,
+        signatures: [signature],
+        documentation: signature.documentation,
+        isStatic,
+        range: nodeRange(element.name, source)
+      });
+    } else if ((ts.isPropertyDeclaration(element) || ts.isGetAccessorDeclaration(element)) && !existing) {
+      const type = element.type || ts.getJSDocType(element);
+      members.push({
+        name: memberName,
+        kind: 'property',
+        type: type ? typeText(type, source)
+          : ts.isPropertyDeclaration(element) ? literalType(element.initializer) : 'any',
+        readonly: hasModifier(element, ts.SyntaxKind.ReadonlyKeyword) || ts.isGetAccessorDeclaration(element),
+        signatures: [],
+        documentation: getDocumentation(element).text,
+        isStatic,
+        range: nodeRange(element.name, source)
+      });
+    }
+  }
+
+  return {
+    name,
+    kind: 'class',
+    type: name,
+    signatures,
+    members,
+    documentation: getDocumentation(declaration).text,
+    filePath: source.fileName,
+    range: nodeRange(declaration.name || declaration, source)
+  };
+}
+
+/**
+ * Name the type of a literal initializer, `any` for anything else
+ */
+function literalType(value: ts.Expression | undefined): string {
+  if (!value) return 'any';
+  if (ts.isNumericLiteral(value)) return 'number';
+  if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value) || ts.isTemplateExpression(value)) return 'string';
+  if (value.kind === ts.SyntaxKind.TrueKeyword || value.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+  if (ts.isArrayLiteralExpression(value)) return 'any[]';
+  if (ts.isObjectLiteralExpression(value)) return 'object';
+  return 'any';
+}
+
+/**
+ * Resolve a relative import of a script module; declaration files import
+ * the typings of the JavaScript paths they name
+ */
+function resolveScriptImport(fromPath: string, specifier: string): string | undefined {
+  if (/\.d\.(m|c)?ts$/.test(fromPath) && specifier.startsWith('.')) {
+    const base = path.resolve(path.dirname(fromPath), specifier.replace(/\.(m|c)?js$/, ''));
+    const declaration = [`${base}.d.ts`, `${base}.d.mts`, path.join(base, 'index.d.ts')].find(isFile);
+    if (declaration) {
+      return declaration;
+    }
+  }
+
+  const uri = resolveRelativeModule(pathToUri(fromPath), specifier);
+  return uri ? uriToPath(uri) : undefined;
+}
+
+/**
+ * Check whether a node has a modifier such as `export` or `static`
+ */
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+}
+
+/**
+ * Get the document range of a node
+ */
+function nodeRange(node: ts.Node, source: ts.SourceFile): Range {
+  const start = source.getLineAndCharacterOfPosition(node.getStart(source));
+  const end = source.getLineAndCharacterOfPosition(node.getEnd());
+  return Range.create(start.line, start.character, end.line, end.character);
+}
+
+/**
+ * Check whether a path names an existing file
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch (_e) {
+    return false;
+  }
+}
@@ -0,0 +1,1082 @@
+/**
+ * Flow-sensitive type inference over a module
+ *
+ * Built on the scope analysis, one walk in evaluation order gives every
+ * expression a type. Bindings start with their declared type or the type of
+ * their value; `set!`, type predicates such as `(string? x)` and branches
+ * update the type a binding has at each later read, and loops and closures
+ * widen the types of what they assign. Functions are walked twice so calls
+ * written before a definition see its inferred return type.
+ *
+ * Types are the names the type annotations use: `Int`, `Float`, `Number`,
+ * `String`, `Bool`, `nil`, `[T]` for vectors of T, `Vector`, `List`,
+ * `Map`, `Set`, `Function`, class and enum names, and `Any` for unknown.
+ */
+
+import { SExp, SList, SSymbol } from '../../parser';
+import { isBoolean, isList, isLiteral, isNil, isNumber, isString, isSymbol } from '../../s-exp/types';
+import { getVectorElements } from './module-utils';
+import { Binding, ScopeAnalysis } from './scope-analysis';
+import { getBindingName, getFormKeyword, getParameterList, isFormOf } from './scope-utils';
+
+export const ANY_TYPE = 'Any';
+const NIL_TYPE = 'nil';
+// The type of no value yet: a recursive call while its function is being
+// walked, or a field nothing has been assigned to
+const NEVER_TYPE = 'never';
+const FUNCTION_TYPE = 'Function';
+const NUMERIC_TYPES = ['Int', 'Float', 'Number', 'Double'];
+const COLLECTION_TYPES = ['Vector', 'List', 'Array'];
+
+/**
+ * Return types of built-in functions and JavaScript globals
+ */
+const STDLIB_RETURN_TYPES: { [name: string]: string } = {
+  'str': 'String',
+  'String': 'String',
+  'JSON.stringify': 'String',
+  'count': 'Int',
+  'length': 'Int',
+  'parseInt': 'Int',
+  'Math.floor': 'Int',
+  'Math.ceil': 'Int',
+  'Math.round': 'Int',
+  'parseFloat': 'Float',
+  'Math.random': 'Float',
+  'Math.sqrt': 'Float',
+  'Number': 'Number',
+  'not': 'Bool',
+  '=': 'Bool',
+  '==': 'Bool',
+  '===': 'Bool',
+  '!=': 'Bool',
+  'not=': 'Bool',
+  '<': 'Bool',
+  '>': 'Bool',
+  '<=': 'Bool',
+  '>=': 'Bool',
+  'eq?': 'Bool',
+  'Boolean': 'Bool',
+  'list': 'List',
+  'hash-map': 'Map',
+  'empty-map': 'Map',
+  'hash-set': 'Set',
+  'empty-set': 'Set',
+  'empty-array': 'Vector',
+  'print': NIL_TYPE,
+  'println': NIL_TYPE,
+  'console.log': NIL_TYPE
+};
+
+/**
+ * Operators whose result type follows their numeric operands
+ */
+const ARITHMETIC_OPERATORS = ['+', '-', '*', '/', '%', 'mod', 'rem', 'inc', 'dec', 'min', 'max', 'Math.abs', 'Math.min', 'Math.max'];
+
+/**
+ * Predicates that narrow the type of the value they test
+ */
+const TYPE_PREDICATES: { [name: string]: string } = {
+  'string?': 'String',
+  'number?': 'Number',
+  'boolean?': 'Bool',
+  'nil?': NIL_TYPE,
+  'vector?': 'Vector',
+  'array?': 'Vector',
+  'map?': 'Map',
+  'set?': 'Set',
+  'fn?': FUNCTION_TYPE,
+  'function?': FUNCTION_TYPE
+};
+
+/**
+ * A parameter of a function signature
+ */
+export interface ParameterType {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+/**
+ * The signature of a fn, fx, lambda, method or constructor
+ * - returnType is the `(-> Type)` annotation, or else the type of the
+ *   values the body returns
+ */
+export interface FunctionType {
+  params: ParameterType[];
+  returnType: string;
+  declared: boolean;
+}
+
+/**
+ * The members of a class or struct, by name
+ */
+export interface ClassType {
+  name: string;
+  parent?: string;
+  fields: Map<string, string>;
+  methods: Map<string, FunctionType>;
+}
+
+/**
+ * What the inference needs to know about enums from other modules
+ */
+export interface EnumRegistry {
+  isEnumType(name: string): boolean;
+}
+
+/**
+ * The result of inferring the types of one module
+ */
+export class TypeInference {
+  public readonly scopes: ScopeAnalysis;
+  private types: Map<SExp, string>;
+  private referenceTypes: Map<SSymbol, string>;
+  private bindingTypes: Map<Binding, string>;
+  private functions: Map<SList, FunctionType>;
+  private classes: Map<string, ClassType>;
+
+  constructor(
+    scopes: ScopeAnalysis,
+    types: Map<SExp, string>,
+    referenceTypes: Map<SSymbol, string>,
+    bindingTypes: Map<Binding, string>,
+    functions: Map<SList, FunctionType>,
+    classes: Map<string, ClassType>
+  ) {
+    this.scopes = scopes;
+    this.types = types;
+    this.referenceTypes = referenceTypes;
+    this.bindingTypes = bindingTypes;
+    this.functions = functions;
+    this.classes = classes;
+  }
+
+  /**
+   * Get the type of an expression's value
+   */
+  public typeOf(expr: SExp): string {
+    return visibleType(this.types.get(expr));
+  }
+
+  /**
+   * Get the type the binding a symbol reads has at that read, e.g. the type
+   * of `p` for `p.x`
+   */
+  public getReferenceType(symbol: SSymbol): string | undefined {
+    const type = this.referenceTypes.get(symbol);
+    return type === undefined ? undefined : visibleType(type);
+  }
+
+  /**
+   * Get the type a binding is given where it is defined
+   */
+  public getBindingType(binding: Binding): string {
+    return visibleType(this.bindingTypes.get(binding) || binding.type);
+  }
+
+  /**
+   * Get the signature of a function binding or method member
+   */
+  public getFunctionType(binding: Binding): FunctionType | undefined {
+    return this.functions.get(binding.form);
+  }
+
+  /**
+   * Get the members of a class defined in the module
+   */
+  public getClassType(name: string): ClassType | undefined {
+    return this.classes.get(name);
+  }
+
+  /**
+   * Check whether a class is, or inherits from, another type
+   */
+  public isSubclass(name: string, ancestor: string): boolean {
+    for (let current = this.classes.get(name); current; current = current.parent ? this.classes.get(current.parent) : undefined) {
+      if (current.name === ancestor || current.parent === ancestor) return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Infer the types of a module's top-level forms
+ */
+export function inferTypes(expressions: SExp[], scopes: ScopeAnalysis, enums: EnumRegistry): TypeInference {
+  return new TypeWalker(scopes, enums).infer(expressions);
+}
+
+/**
+ * Join the types of values that can reach the same place
+ */
+export function joinTypes(a: string, b: string): string {
+  if (a === b) return a;
+  if (a === NEVER_TYPE) return b;
+  if (b === NEVER_TYPE) return a;
+  if (a === NIL_TYPE) return b;
+  if (b === NIL_TYPE) return a;
+  if (NUMERIC_TYPES.includes(a) && NUMERIC_TYPES.includes(b)) return 'Number';
+  if (isVectorType(a) && isVectorType(b)) return 'Vector';
+  return ANY_TYPE;
+}
+
+/**
+ * Walks a module in evaluation order, tracking the current type of each
+ * binding in an environment that branches copy and merge
+ */
+class TypeWalker {
+  private scopes: ScopeAnalysis;
+  private enums: EnumRegistry;
+  private types: Map<SExp, string> = new Map();
+  private referenceTypes: Map<SSymbol, string> = new Map();
+  private bindingTypes: Map<Binding, string> = new Map();
+  private functions: Map<SList, FunctionType> = new Map();
+  private classes: Map<string, ClassType> = new Map();
+  // Fields with a type annotation keep it whatever is assigned to them
+  private annotatedFields: Set<string> = new Set();
+  private env: Map<Binding, string> = new Map();
+  private currentClass?: ClassType;
+  // Functions whose bodies are being walked
+  private active: Set<SList> = new Set();
+  // Types returned by `return` in each enclosing function
+  private returns: string[][] = [];
+  // Bindings a `recur` rebinds: the innermost loop's, or none inside a function
+  private recurTargets: (Binding[] | undefined)[] = [];
+
+  constructor(scopes: ScopeAnalysis, enums: EnumRegistry) {
+    this.scopes = scopes;
+    this.enums = enums;
+  }
+
+  public infer(expressions: SExp[]): TypeInference {
+    this.declareTypes();
+
+    // The first pass infers return types, the second uses them at calls
+    // that come before the function
+    for (let pass = 0; pass < 2; pass++) {
+      this.types = new Map();
+      this.referenceTypes = new Map();
+      this.env = new Map();
+      this.inferSequence(expressions);
+    }
+
+    for (const classType of this.classes.values()) {
+      for (const [field, type] of classType.fields) {
+        classType.fields.set(field, visibleType(type));
+      }
+    }
+
+    return new TypeInference(
+      this.scopes, this.types, this.referenceTypes, this.bindingTypes, this.functions, this.classes
+    );
+  }
+
+  /**
+   * Read the signatures of functions and the members of classes before
+   * walking, so uses that come first can see them
+   */
+  private declareTypes(): void {
+    for (const binding of this.scopes.getBindings()) {
+      const keyword = getFormKeyword(binding.form);
+      if (binding.kind === 'function' && (keyword === 'fn' || keyword === 'fx' || keyword === 'lambda')) {
+        this.functions.set(binding.form, readSignature(binding.form));
+      } else if (binding.kind === 'class') {
+        this.declareClass(binding);
+      }
+    }
+  }
+
+  private declareClass(binding: Binding): void {
+    const classType: ClassType = { name: binding.name, fields: new Map(), methods: new Map() };
+    const members = binding.form.elements.slice(2);
+
+    members.forEach((member, index) => {
+      const previous = members[index - 1];
+      if (isSymbol(member) && previous && isSymbol(previous) && previous.name === 'extends') {
+        classType.parent = member.name;
+        return;
+      }
+
+      const keyword = getFormKeyword(member);
+      const name = isList(member) ? member.elements[1] : undefined;
+      if (!isList(member) || !keyword) return;
+
+      if ((keyword === 'var' || keyword === 'let' || keyword === 'field') && name && isSymbol(name)) {
+        const fieldName = getBindingName(name);
+        const annotation = name.name.endsWith(':') ? member.elements[2] : undefined;
+        classType.fields.set(fieldName, annotation ? typeName(annotation) : NEVER_TYPE);
+        if (annotation) {
+          this.annotatedFields.add(`${binding.name}.${fieldName}`);
+        }
+      } else if ((keyword === 'fn' || keyword === 'fx') && name && isSymbol(name)) {
+        const signature = readSignature(member);
+        this.functions.set(member, signature);
+        classType.methods.set(name.name, signature);
+      } else if (keyword === 'constructor') {
+        this.functions.set(member, readSignature(member));
+      }
+    });
+
+    this.classes.set(binding.name, classType);
+  }
+
+  /**
+   * Record the type of an expression, walking it first
+   */
+  private inferExpr(expr: SExp): string {
+    const type = this.inferNode(expr);
+    this.types.set(expr, type);
+    return type;
+  }
+
+  /**
+   * Walk statements in order and return the type of the last
+   */
+  private inferSequence(expressions: SExp[]): string {
+    let type = NIL_TYPE;
+    for (const expr of expressions) {
+      type = this.inferExpr(expr);
+    }
+    return type;
+  }
+
+  private inferNode(expr: SExp): string {
+    if (isSymbol(expr)) return this.inferSymbol(expr);
+    if (isNumber(expr)) return Number.isInteger(expr.value) ? 'Int' : 'Float';
+    if (isString(expr)) return 'String';
+    if (isBoolean(expr)) return 'Bool';
+    if (isNil(expr)) return NIL_TYPE;
+    if (isLiteral(expr)) return literalType(expr.value);
+    if (!isList(expr)) return ANY_TYPE;
+    if (expr.elements.length === 0) return 'List';
+
+    const keyword = getFormKeyword(expr);
+    switch (keyword) {
+      // Templates build code, and macros run at compile time
+      case 'quote':
+      case 'quasiquote':
+      case 'macro':
+      case 'defmacro':
+      case 'enum':
+      case 'import':
+        return ANY_TYPE;
+
+      case 'fn':
+      case 'fx':
+      case 'lambda':
+        this.inferFunction(expr);
+        return FUNCTION_TYPE;
+
+      case 'let':
+      case 'var':
+        if (isList(expr.elements[1])) return this.inferBindingList(expr);
+        return this.inferStatementBinding(expr);
+
+      case 'loop':
+        return this.inferLoop(expr);
+
+      case 'if-let':
+      case 'when-let':
+        return this.inferBindingList(expr);
+
+      case 'if':
+        return this.inferIf(expr);
+
+      case 'when':
+      case 'unless':
+        return this.inferWhen(expr);
+
+      case 'cond':
+        return this.inferClauses(expr.elements.slice(1), true);
+
+      case 'match':
+        if (expr.elements[1]) this.inferExpr(expr.elements[1]);
+        return this.inferClauses(expr.elements.slice(2), false);
+
+      case 'do':
+        return this.inferSequence(expr.elements.slice(1));
+
+      case 'for':
+        return this.inferFor(expr);
+
+      case 'while':
+      case 'repeat':
+      case 'dotimes':
+        this.inferRepeated(() => this.inferSequence(expr.elements.slice(1)));
+        return NIL_TYPE;
+
+      case 'class':
+      case 'struct':
+        this.inferClass(expr);
+        return ANY_TYPE;
+
+      case 'export': {
+        const target = expr.elements[1];
+        if (target && isList(target) && getFormKeyword(target) !== 'vector') this.inferExpr(target);
+        return ANY_TYPE;
+      }
+
+      case 'set!':
+        return this.inferAssignment(expr);
+
+      case 'recur':
+        this.inferRecur(expr);
+        return ANY_TYPE;
+
+      case 'return': {
+        const type = expr.elements[1] ? this.inferExpr(expr.elements[1]) : NIL_TYPE;
+        this.returns[this.returns.length - 1]?.push(type);
+        return type;
+      }
+
+      case 'new': {
+        this.inferSequence(expr.elements.slice(2));
+        const className = expr.elements[1];
+        return className ? typeName(className) : ANY_TYPE;
+      }
+
+      case 'vector':
+        return this.inferVector(expr.elements.slice(1));
+
+      case 'get':
+        return this.inferGet(expr);
+    }
+
+    return this.inferCall(expr);
+  }
+
+  /**
+   * The type of a symbol read: a binding's current type, a field or method
+   * reached through dots, or an enum case
+   */
+  private inferSymbol(symbol: SSymbol): string {
+    const name = symbol.name;
+    if (name.endsWith(':') || name.startsWith('.') || name.startsWith(':')) {
+      return ANY_TYPE;
+    }
+
+    const [head, ...members] = name.split('.');
+
+    if (head === 'this' && this.currentClass) {
+      return this.memberChainType(this.currentClass.name, members);
+    }
+
+    const binding = this.scopes.resolve(symbol);
+    if (!binding) {
+      // Cases of enums imported from or defined in other modules
+      return members.length === 1 && this.enums.isEnumType(head) ? head : ANY_TYPE;
+    }
+
+    if (binding.kind === 'enum') {
+      return members.length === 1 ? binding.name : ANY_TYPE;
+    }
+
+    const type = this.currentType(binding);
+    this.referenceTypes.set(symbol, type);
+    return this.memberChainType(type, members);
+  }
+
+  /**
+   * The type a binding has at this point of the walk
+   */
+  private currentType(binding: Binding): string {
+    const current = this.env.get(binding) || this.bindingTypes.get(binding) || binding.type;
+    if (current) return current;
+    if (binding.kind === 'function') return FUNCTION_TYPE;
+    if (binding.kind === 'member') {
+      const field = this.currentClass?.fields.get(binding.name);
+      return field || (this.currentClass?.methods.has(binding.name) ? FUNCTION_TYPE : ANY_TYPE);
+    }
+    return ANY_TYPE;
+  }
+
+  /**
+   * Follow `a.b.c` from the type of `a` through fields
+   */
+  private memberChainType(type: string, members: string[]): string {
+    return members.reduce((current, member) => this.memberType(current, member, false), type);
+  }
+
+  /**
+   * The type of reading a member of a value, or of calling it when call is set
+   */
+  private memberType(type: string, member: string, call: boolean): string {
+    for (let classType = this.classes.get(type); classType; classType = classType.parent ? this.classes.get(classType.parent) : undefined) {
+      const field = classType.fields.get(member);
+      if (field !== undefined) return call ? ANY_TYPE : visibleType(field);
+      const method = classType.methods.get(member);
+      if (method) return call ? method.returnType : FUNCTION_TYPE;
+    }
+
+    if (member === 'length' && !call && (type === 'String' || isVectorType(type))) {
+      return 'Int';
+    }
+    return ANY_TYPE;
+  }
+
+  /**
+   * Walk a function: parameters get their declared types, or the types of
+   * their default values, and the body runs in its own copy of the
+   * environment since it may be called at any later point
+   */
+  private inferFunction(expr: SList): void {
+    const signature = this.functions.get(expr) || readSignature(expr);
+    this.functions.set(expr, signature);
+
+    const outer = this.env;
+    this.env = new Map(outer);
+
+    const params = getParameterList(expr);
+    if (params) {
+      const elements = getVectorElements(params).filter(e => !(isSymbol(e) && e.name === ','));
+      let index = 0;
+      elements.forEach((element, i) => {
+        const binding = isSymbol(element) ? this.scopes.getDefinition(element) : undefined;
+        if (!binding || binding.kind !== 'parameter') return;
+
+        const param = signature.params[index++];
+        let type = param ? param.type : ANY_TYPE;
+        const next = i + (binding.node.name.endsWith(':') ? 2 : 1);
+        const defaultValue = isFormSymbol(elements[next], '=') ? elements[next + 1] : undefined;
+        if (defaultValue) {
+          const defaultType = this.inferExpr(defaultValue);
+          if (type === ANY_TYPE && param && !param.rest) type = defaultType;
+        }
+        if (param?.rest) type = 'Vector';
+
+        this.bindingTypes.set(binding, type);
+        this.env.set(binding, type);
+      });
+    }
+
+    this.returns.push([]);
+    this.recurTargets.push(undefined);
+    this.active.add(expr);
+    const bodyType = this.inferSequence(expr.elements.slice(getFunctionBodyStart(expr)));
+    this.active.delete(expr);
+    const returned = this.returns.pop()!;
+    this.recurTargets.pop();
+
+    if (!signature.declared) {
+      signature.returnType = visibleType([bodyType, ...returned].reduce(joinTypes));
+    }
+
+    // Assignments made by the body can happen whenever it is called
+    const inner = this.env;
+    this.env = outer;
+    for (const [binding, type] of inner) {
+      const before = outer.get(binding);
+      if (before !== undefined && before !== type) {
+        outer.set(binding, joinTypes(before, type));
+      }
+    }
+  }
+
+  /**
+   * Walk `(let x value)`, which binds x for the statements after it
+   */
+  private inferStatementBinding(expr: SList): string {
+    const name = expr.elements[1];
+    const type = this.inferSequence(expr.elements.slice(2));
+    const binding = name && isSymbol(name) ? this.scopes.getDefinition(name) : undefined;
+    if (binding) {
+      this.bind(binding, expr.elements.length > 2 ? type : ANY_TYPE);
+    }
+    return type;
+  }
+
+  /**
+   * Walk `(let (a 1 b 2) body)`, `if-let` and `when-let`
+   */
+  private inferBindingList(expr: SList): string {
+    const keyword = getFormKeyword(expr);
+    this.bindPairs(expr);
+
+    if (keyword === 'if-let') {
+      return this.inferBranches(expr.elements[2], expr.elements[3]);
+    }
+    if (keyword === 'when-let') {
+      return this.inferBranches(undefined, undefined, expr.elements.slice(2));
+    }
+    return this.inferSequence(expr.elements.slice(2));
+  }
+
+  /**
+   * Bind the pairs of a binding list in order and return the bindings
+   */
+  private bindPairs(expr: SList): Binding[] {
+    const bindings: Binding[] = [];
+    const list = expr.elements[1];
+    if (!list || !isList(list)) return bindings;
+
+    const elements = getVectorElements(list).filter(e => !(isSymbol(e) && e.name === ','));
+    for (let i = 0; i < elements.length; i += 2) {
+      const name = elements[i];
+      const value = elements[i + 1];
+      const type = value ? this.inferExpr(value) : ANY_TYPE;
+      const binding = isSymbol(name) ? this.scopes.getDefinition(name) : undefined;
+      if (binding) {
+        this.bind(binding, type);
+        bindings.push(binding);
+      }
+    }
+    return bindings;
+  }
+
+  private bind(binding: Binding, type: string): void {
+    this.bindingTypes.set(binding, type);
+    this.env.set(binding, type);
+  }
+
+  /**
+   * Walk a loop; recur rebinds its bindings, so their types are widened by
+   * the values recur passes
+   */
+  private inferLoop(expr: SList): string {
+    const bindings = this.bindPairs(expr);
+    let type = NIL_TYPE;
+
+    this.recurTargets.push(bindings);
+    this.inferRepeated(() => {
+      type = this.inferSequence(expr.elements.slice(2));
+    });
+    this.recurTargets.pop();
+
+    return type;
+  }
+
+  private inferRecur(expr: SList): void {
+    const types = expr.elements.slice(1).map(arg => this.inferExpr(arg));
+    const bindings = this.recurTargets[this.recurTargets.length - 1];
+    bindings?.forEach((binding, index) => {
+      if (types[index] !== undefined) this.env.set(binding, types[index]);
+    });
+  }
+
+  /**
+   * Walk `(for (x coll) body)` or `(for (i from: 0 to: 10) body)`
+   */
+  private inferFor(expr: SList): string {
+    const list = expr.elements[1];
+    if (list && isList(list)) {
+      const [name, ...rest] = getVectorElements(list);
+      const values = rest.filter(element => !(isSymbol(element) && element.name.endsWith(':')));
+      const types = values.map(value => this.inferExpr(value));
+      const binding = name && isSymbol(name) ? this.scopes.getDefinition(name) : undefined;
+
+      if (binding) {
+        const ranged = rest.some(element => isSymbol(element) && element.name.endsWith(':'));
+        const source = types.length > 0 ? types.reduce(joinTypes) : ANY_TYPE;
+        this.bind(binding, ranged || NUMERIC_TYPES.includes(source) ? 'Int' : elementType(source));
+      }
+    }
+
+    this.inferRepeated(() => this.inferSequence(expr.elements.slice(2)));
+    return NIL_TYPE;
+  }
+
+  /**
+   * Walk a loop body until the types it assigns settle; the body may also
+   * not run at all
+   */
+  private inferRepeated(walk: () => void): void {
+    const before = new Map(this.env);
+    for (let pass = 0; pass < 3; pass++) {
+      const start = new Map(this.env);
+      walk();
+      const merged = mergeEnvironments(before, this.env);
+      this.env = merged;
+      if (sameEnvironment(merged, start)) return;
+    }
+  }
+
+  private inferIf(expr: SList): string {
+    const test = expr.elements[1];
+    if (test) this.inferExpr(test);
+    return this.inferBranches(expr.elements[2], expr.elements[3], undefined, test);
+  }
+
+  private inferWhen(expr: SList): string {
+    const test = expr.elements[1];
+    if (test) this.inferExpr(test);
+    const narrowed = getFormKeyword(expr) === 'when' ? test : undefined;
+    return this.inferBranches(undefined, undefined, expr.elements.slice(2), narrowed);
+  }
+
+  /**
+   * Walk the two branches of a conditional, or a body that may not run, and
+   * merge the environments they leave
+   */
+  private inferBranches(then: SExp | undefined, otherwise: SExp | undefined, body?: SExp[], test?: SExp): string {
+    const before = this.env;
+
+    this.env = new Map(before);
+    this.narrow(test);
+    const thenType = body ? this.inferSequence(body) : then ? this.inferExpr(then) : NIL_TYPE;
+    const thenEnv = this.env;
+
+    this.env = new Map(before);
+    const elseType = otherwise ? this.inferExpr(otherwise) : NIL_TYPE;
+    this.env = mergeEnvironments(thenEnv, this.env);
+
+    return joinTypes(thenType, elseType);
+  }
+
+  /**
+   * Walk cond or match clauses; tests run in order, one body at most
+   */
+  private inferClauses(clauses: SExp[], walkTests: boolean): string {
+    const outcomes: Map<Binding, string>[] = [];
+    let type: string | undefined;
+    let exhaustive = false;
+
+    for (const clause of clauses) {
+      if (!isList(clause) || clause.elements.length === 0) continue;
+
+      const test = clause.elements[0];
+      if (walkTests) this.inferExpr(test);
+      if (isSymbol(test) && ['else', ':else', '_', 'default'].includes(test.name)) exhaustive = true;
+      if (isBoolean(test) && test.value) exhaustive = true;
+
+      const before = this.env;
+      this.env = new Map(before);
+      if (walkTests) this.narrow(test);
+      const bodyType = this.inferSequence(clause.elements.slice(1));
+      outcomes.push(this.env);
+      this.env = before;
+      type = type === undefined ? bodyType : joinTypes(type, bodyType);
+    }
+
+    if (!exhaustive) {
+      outcomes.push(this.env);
+    }
+    this.env = outcomes.reduce(mergeEnvironments);
+    return type === undefined ? NIL_TYPE : type;
+  }
+
+  /**
+   * Narrow the binding a type predicate tests, such as x in `(string? x)`
+   */
+  private narrow(test: SExp | undefined): void {
+    if (!test || !isList(test) || test.elements.length !== 2) return;
+
+    const [predicate, subject] = test.elements;
+    if (!isSymbol(predicate) || !isSymbol(subject) || subject.name.includes('.')) return;
+
+    const type = TYPE_PREDICATES[predicate.name];
+    const binding = this.scopes.resolve(subject);
+    if (type && binding && !this.scopes.resolve(predicate)) {
+      this.env.set(binding, type);
+    }
+  }
+
+  /**
+   * Walk `(set! target value)`: a binding takes the type of the value from
+   * here on, an unannotated field widens to it
+   */
+  private inferAssignment(expr: SList): string {
+    const [, target, value] = expr.elements;
+    const type = value ? this.inferExpr(value) : ANY_TYPE;
+    if (!target || !isSymbol(target)) return type;
+
+    const [head, ...members] = target.name.split('.');
+    if (head === 'this' && this.currentClass && members.length === 1) {
+      this.widenField(this.currentClass, members[0], type);
+      return type;
+    }
+
+    const binding = this.scopes.resolve(target);
+    if (!binding) return type;
+
+    if (members.length === 0) {
+      this.env.set(binding, type);
+      this.referenceTypes.set(target, type);
+    } else if (members.length === 1) {
+      const classType = this.classes.get(this.currentType(binding));
+      if (classType) this.widenField(classType, members[0], type);
+    }
+    return type;
+  }
+
+  private widenField(classType: ClassType, field: string, type: string): void {
+    if (this.annotatedFields.has(`${classType.name}.${field}`)) return;
+    const current = classType.fields.get(field);
+    classType.fields.set(field, current === undefined ? type : joinTypes(current, type));
+  }
+
+  /**
+   * Walk a class body with `this` bound to the class
+   */
+  private inferClass(expr: SList): void {
+    const name = expr.elements[1];
+    const classType = name && isSymbol(name) ? this.classes.get(name.name) : undefined;
+    const outer = this.currentClass;
+    this.currentClass = classType;
+
+    for (const member of expr.elements.slice(2)) {
+      const keyword = getFormKeyword(member);
+      if (!isList(member) || !keyword) continue;
+
+      if (keyword === 'var' || keyword === 'let' || keyword === 'field') {
+        const field = member.elements[1];
+        if (!field || !isSymbol(field)) continue;
+
+        const values = member.elements.slice(field.name.endsWith(':') ? 3 : 2);
+        if (values.length > 0 && classType) {
+          this.widenField(classType, getBindingName(field), this.inferSequence(values));
+        }
+        const binding = this.scopes.getDefinition(field);
+        const type = classType?.fields.get(getBindingName(field));
+        if (binding && type) this.bindingTypes.set(binding, type);
+      } else if (keyword === 'fn' || keyword === 'fx' || keyword === 'constructor') {
+        this.inferFunction(member);
+        const field = member.elements[1];
+        const binding = field && isSymbol(field) ? this.scopes.getDefinition(field) : undefined;
+        if (binding) this.bindingTypes.set(binding, FUNCTION_TYPE);
+      }
+    }
+
+    this.currentClass = outer;
+  }
+
+  private inferVector(elements: SExp[]): string {
+    const types = elements
+      .filter(element => !(isSymbol(element) && element.name === ','))
+      .map(element => this.inferExpr(element));
+    if (types.length === 0) return 'Vector';
+
+    const element = types.reduce(joinTypes);
+    return element === ANY_TYPE ? 'Vector' : `[${element}]`;
+  }
+
+  /**
+   * Walk `(get obj key)`: fields of classes by name, elements of vectors
+   */
+  private inferGet(expr: SList): string {
+    const [, target, key] = expr.elements;
+    const targetType = target ? this.inferExpr(target) : ANY_TYPE;
+    const keyType = key ? this.inferExpr(key) : ANY_TYPE;
+
+    if (key && (isString(key) || (isLiteral(key) && typeof key.value === 'string'))) {
+      return this.memberChainType(targetType, String(key.value).split('.'));
+    }
+    if (NUMERIC_TYPES.includes(keyType)) {
+      return elementType(targetType);
+    }
+    return ANY_TYPE;
+  }
+
+  /**
+   * Walk a call: functions of the module return their signature's type,
+   * methods their class's, and built-ins follow the standard library
+   */
+  private inferCall(expr: SList): string {
+    const [head, ...args] = expr.elements;
+    const argTypes = args.map(arg => this.inferExpr(arg));
+
+    if (!isSymbol(head)) {
+      this.inferExpr(head);
+      return ANY_TYPE;
+    }
+
+    const [name, ...members] = head.name.split('.');
+
+    // obj.method or this.method
+    if (members.length > 0 && name) {
+      const objectType = name === 'this' && this.currentClass
+        ? this.memberChainType(this.currentClass.name, members.slice(0, -1))
+        : this.inferSymbolPrefix(head, members.slice(0, -1));
+      if (objectType !== undefined) {
+        this.types.set(head, FUNCTION_TYPE);
+        return this.memberType(objectType, members[members.length - 1], true);
+      }
+    }
+
+    const binding = this.scopes.resolve(head);
+    this.inferExpr(head);
+
+    if (binding) {
+      if (binding.kind === 'function') {
+        const signature = this.functions.get(binding.form);
+        if (!signature) return ANY_TYPE;
+        return this.active.has(binding.form) && !signature.declared ? NEVER_TYPE : signature.returnType;
+      }
+      if (binding.kind === 'member' && this.currentClass) {
+        return this.memberType(this.currentClass.name, binding.name, true);
+      }
+      if (binding.kind === 'enum' && members.length === 1) {
+        // Cases with associated values: (Payment.cash amount: 10)
+        return binding.name;
+      }
+      return ANY_TYPE;
+    }
+
+    if (members.length === 1 && this.enums.isEnumType(name)) {
+      return name;
+    }
+    if (ARITHMETIC_OPERATORS.includes(head.name)) {
+      return arithmeticType(head.name, argTypes);
+    }
+    if (head.name.endsWith('?') && !TYPE_PREDICATES[head.name]) {
+      return 'Bool';
+    }
+    return STDLIB_RETURN_TYPES[head.name] || (TYPE_PREDICATES[head.name] ? 'Bool' : ANY_TYPE);
+  }
+
+  /**
+   * The type of the object part of a dotted call head, when its first part
+   * is a binding of the module
+   */
+  private inferSymbolPrefix(head: SSymbol, members: string[]): string | undefined {
+    const binding = this.scopes.resolve(head);
+    if (!binding || binding.kind === 'enum') return undefined;
+
+    const type = this.currentType(binding);
+    this.referenceTypes.set(head, type);
+    return this.memberChainType(type, members);
+  }
+}
+
+/**
+ * Read the declared parameter and return types of a function form
+ */
+function readSignature(form: SList): FunctionType {
+  const params: ParameterType[] = [];
+  const list = getParameterList(form);
+
+  if (list) {
+    const elements = getVectorElements(list).filter(e => !(isSymbol(e) && e.name === ','));
+    let rest = false;
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i];
+      if (!isSymbol(element)) continue;
+
+      if (element.name === '&') {
+        rest = true;
+        continue;
+      }
+      if (element.name === '=') {
+        if (params.length > 0) params[params.length - 1].optional = true;
+        i++;
+        continue;
+      }
+
+      const annotation = element.name.length > 1 && element.name.endsWith(':') ? elements[i + 1] : undefined;
+      params.push({
+        name: getBindingName(element),
+        type: annotation ? typeName(annotation) : ANY_TYPE,
+        optional: rest,
+        rest
+      });
+      if (annotation) i++;
+    }
+  }
+
+  const annotation = form.elements[getFunctionBodyStart(form) - 1];
+  const returnType = isFormOf(annotation, ['->']) && annotation.elements[1] ? typeName(annotation.elements[1]) : undefined;
+  return { params, returnType: returnType || ANY_TYPE, declared: !!returnType };
+}
+
+/**
+ * Get the index of the first body expression of a function form, after
+ * its name, parameters and return type
+ */
+function getFunctionBodyStart(form: SList): number {
+  const params = getParameterList(form);
+  let index = params ? form.elements.indexOf(params) + 1 : 2;
+  if (isFormOf(form.elements[index], ['->'])) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Read a type annotation: `Int`, or `[Int]` for a vector of Int
+ */
+function typeName(expr: SExp): string {
+  if (isSymbol(expr)) {
+    return expr.name;
+  }
+  if (isList(expr) && (expr.delimiter === 'bracket' || getFormKeyword(expr) === 'vector')) {
+    const [element] = getVectorElements(expr);
+    return element ? `[${typeName(element)}]` : 'Vector';
+  }
+  return ANY_TYPE;
+}
+
+function isFormSymbol(expr: SExp | undefined, name: string): boolean {
+  return !!expr && isSymbol(expr) && expr.name === name;
+}
+
+/**
+ * Hide the internal type of no value from callers
+ */
+function visibleType(type: string | undefined): string {
+  return type === undefined || type === NEVER_TYPE ? ANY_TYPE : type;
+}
+
+function literalType(value: string | number | boolean | null): string {
+  switch (typeof value) {
+    case 'number': return Number.isInteger(value) ? 'Int' : 'Float';
+    case 'string': return 'String';
+    case 'boolean': return 'Bool';
+    default: return value === null ? NIL_TYPE : ANY_TYPE;
+  }
+}
+
+function isVectorType(type: string): boolean {
+  return COLLECTION_TYPES.includes(type) || /^\[.*\]$/.test(type);
+}
+
+/**
+ * The type of the elements of a collection type
+ */
+function elementType(type: string): string {
+  const match = /^\[(.*)\]$/.exec(type);
+  return match ? match[1] : type === 'String' ? 'String' : ANY_TYPE;
+}
+
+/**
+ * The result of an arithmetic operator: `+` concatenates strings, integer
+ * operands give an Int except for division
+ */
+function arithmeticType(operator: string, operands: string[]): string {
+  if (operator === '+' && operands.includes('String')) {
+    return 'String';
+  }
+  if (operands.length === 0 || !operands.every(type => NUMERIC_TYPES.includes(type))) {
+    return ANY_TYPE;
+  }
+  if (operator === '/') {
+    return 'Number';
+  }
+  if (operands.every(type => type === 'Int')) {
+    return 'Int';
+  }
+  return operands.some(type => type === 'Float' || type === 'Double') ? 'Float' : 'Number';
+}
+
+/**
+ * Merge the environments of two paths that join: a binding either path
+ * changed gets the join of both types
+ */
+function mergeEnvironments(a: Map<Binding, string>, b: Map<Binding, string>): Map<Binding, string> {
+  const merged = new Map(a);
+  for (const [binding, type] of b) {
+    const other = merged.get(binding);
+    merged.set(binding, other === undefined ? type : joinTypes(other, type));
+  }
+  return merged;
+}
+
+function sameEnvironment(a: Map<Binding, string>, b: Map<Binding, string>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [binding, type] of a) {
+    if (b.get(binding) !== type) return false;
+  }
+  return true;
+}
@@ -0,0 +1,215 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList, SSymbol } from '../../parser';
+import { isList, isSymbol } from '../../s-exp/types';
+import { SymbolManager } from '../symbolManager';
+import { symbolRange } from '../utils/module-utils';
+import { TypeInference } from '../utils/type-inference';
+import { getFormKeyword } from '../utils/scope-utils';
+
+/**
+ * Equality operators a cond clause may compare an enum value with
+ */
+const EQUALITY_OPERATORS = ['=', '==', '===', 'eq?'];
+
+/**
+ * Clause tests that handle every remaining value
+ */
+const DEFAULT_CLAUSES = ['else', 'true', ':else', '_', 'default'];
+
+/**
+ * A cond or match form that branches on the cases of one enum
+ * - template is the first clause's case symbol, used to write new clauses
+ *   in the same style (`.case` or `Enum.case`)
+ */
+export interface EnumBranching {
+  form: SList;
+  keyword: string;
+  enumName: string;
+  covered: string[];
+  missing: string[];
+  template: SSymbol;
+}
+
+/**
+ * A case named by a clause, with the enum when written `Enum.case`
+ */
+interface CaseReference {
+  symbol: SSymbol;
+  enumName?: string;
+  caseName: string;
+}
+
+/**
+ * EnumExhaustivenessValidator warns when a `cond` or `match` over an enum
+ * value has no clause for some of the enum's cases and no default clause
+ */
+export class EnumExhaustivenessValidator {
+  private symbolManager: SymbolManager;
+
+  constructor(symbolManager: SymbolManager) {
+    this.symbolManager = symbolManager;
+  }
+
+  /**
+   * Check every cond and match form of a document
+   */
+  public validateEnumExhaustiveness(
+    document: TextDocument,
+    expressions: SExp[],
+    types: TypeInference,
+    diagnostics: Diagnostic[]
+  ): void {
+    const visit = (expr: SExp) => {
+      if (!isList(expr)) return;
+
+      const branching = this.getEnumBranching(expr, types);
+      if (branching && branching.missing.length > 0) {
+        const head = expr.elements[0] as SSymbol;
+        diagnostics.push({
+          severity: DiagnosticSeverity.Warning,
+          range: symbolRange(document, head),
+          message: `Missing cases of enum '${branching.enumName}' in ${branching.keyword}: ` +
+            branching.missing.map(name => `.${name}`).join(', '),
+          source: 'hql'
+        });
+      }
+
+      expr.elements.forEach(visit);
+    };
+
+    expressions.forEach(visit);
+  }
+
+  /**
+   * Recognize a form that branches on an enum value: every clause of a
+   * `(cond ((= x .a) ...) ...)` compares the same symbol with a case, or
+   * every clause of a `(match x (.a ...) ...)` names a case. Forms with a
+   * default clause are not returned.
+   */
+  public getEnumBranching(form: SList, types?: TypeInference): EnumBranching | undefined {
+    const keyword = getFormKeyword(form);
+    if ((keyword !== 'cond' && keyword !== 'match') || !isSymbol(form.elements[0]) || !form.elements[0].position) {
+      return undefined;
+    }
+
+    const subject = keyword === 'match' ? form.elements[1] : undefined;
+    const clauses = form.elements.slice(keyword === 'match' ? 2 : 1);
+    const references: CaseReference[] = [];
+    let subjectName = subject && isSymbol(subject) ? subject.name : undefined;
+    let subjectSymbol = subject && isSymbol(subject) ? subject : undefined;
+
+    for (const clause of clauses) {
+      if (!isList(clause) || clause.elements.length === 0) {
+        return undefined;
+      }
+
+      const test = clause.elements[0];
+      if (isSymbol(test) && DEFAULT_CLAUSES.includes(test.name)) {
+        return undefined;
+      }
+
+      if (keyword === 'match') {
+        const reference = isSymbol(test) ? this.getCaseReference(test) : undefined;
+        if (!reference) return undefined;
+        references.push(reference);
+        continue;
+      }
+
+      // (= subject .case) in either order
+      const comparison = this.getComparison(test);
+      if (!comparison || (subjectName !== undefined && comparison.subject.name !== subjectName)) {
+        return undefined;
+      }
+      subjectName = comparison.subject.name;
+      subjectSymbol = subjectSymbol || comparison.subject;
+      references.push(comparison.reference);
+    }
+
+    if (references.length === 0) {
+      return undefined;
+    }
+
+    const enumName = this.getEnumName(references, subjectSymbol, types);
+    if (!enumName) {
+      return undefined;
+    }
+
+    const cases = this.symbolManager.getEnumCases(enumName);
+    const covered = references.map(reference => reference.caseName);
+    return {
+      form,
+      keyword,
+      enumName,
+      covered,
+      missing: cases.filter(name => !covered.includes(name)),
+      template: references[0].symbol
+    };
+  }
+
+  /**
+   * Split `(= subject .case)` or `(= .case subject)` into its parts
+   */
+  private getComparison(test: SExp): { subject: SSymbol; reference: CaseReference } | undefined {
+    if (!isList(test) || test.elements.length !== 3) {
+      return undefined;
+    }
+
+    const [operator, left, right] = test.elements;
+    if (!isSymbol(operator) || !EQUALITY_OPERATORS.includes(operator.name) || !isSymbol(left) || !isSymbol(right)) {
+      return undefined;
+    }
+
+    const leftCase = this.getCaseReference(left);
+    const rightCase = this.getCaseReference(right);
+    if (rightCase && !leftCase) {
+      return { subject: left, reference: rightCase };
+    }
+    if (leftCase && !rightCase) {
+      return { subject: right, reference: leftCase };
+    }
+    return undefined;
+  }
+
+  /**
+   * Read `.case` or `Enum.case`, the latter only for known enums
+   */
+  private getCaseReference(symbol: SSymbol): CaseReference | undefined {
+    if (/^\.[^.]+$/.test(symbol.name)) {
+      return { symbol, caseName: symbol.name.substring(1) };
+    }
+
+    const parts = symbol.name.split('.');
+    if (parts.length === 2 && this.symbolManager.getEnumCases(parts[0]).includes(parts[1])) {
+      return { symbol, enumName: parts[0], caseName: parts[1] };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the enum a form branches on: the one its clauses name, or else the
+   * inferred type of the value it compares
+   */
+  private getEnumName(
+    references: CaseReference[],
+    subject: SSymbol | undefined,
+    types?: TypeInference
+  ): string | undefined {
+    const named = new Set(references.filter(r => r.enumName).map(r => r.enumName!));
+    if (named.size > 1) {
+      return undefined;
+    }
+    if (named.size === 1) {
+      return named.values().next().value;
+    }
+
+    const type = subject && types?.getReferenceType(subject);
+    return type && this.symbolManager.isEnumType(type) ? type : undefined;
+  }
+}
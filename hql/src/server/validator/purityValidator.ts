@@ -0,0 +1,259 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList, SSymbol } from '../../parser';
+import { isList, isSymbol } from '../../s-exp/types';
+import { symbolRange } from '../utils/module-utils';
+import { Binding, ScopeAnalysis } from '../utils/scope-analysis';
+import { getBodyStart, getFormKeyword } from '../utils/scope-utils';
+
+/**
+ * Functions that read or write the outside world
+ */
+const IO_FUNCTIONS = ['print', 'println', 'fetch', 'alert', 'prompt', 'confirm', 'setTimeout', 'setInterval'];
+
+/**
+ * Globals whose members all do I/O, e.g. `console.log`
+ */
+const IO_OBJECTS = ['console', 'document', 'window', 'process', 'localStorage', 'sessionStorage', 'Deno'];
+
+/**
+ * Functions of JavaScript globals that interop calls may use without side
+ * effects; other members of the same globals are not assumed to be pure
+ */
+const PURE_JS_FUNCTIONS = [
+  'Math.abs', 'Math.acos', 'Math.acosh', 'Math.asin', 'Math.asinh', 'Math.atan', 'Math.atan2', 'Math.atanh',
+  'Math.cbrt', 'Math.ceil', 'Math.clz32', 'Math.cos', 'Math.cosh', 'Math.exp', 'Math.expm1', 'Math.floor',
+  'Math.fround', 'Math.hypot', 'Math.imul', 'Math.log', 'Math.log10', 'Math.log1p', 'Math.log2', 'Math.max',
+  'Math.min', 'Math.pow', 'Math.round', 'Math.sign', 'Math.sin', 'Math.sinh', 'Math.sqrt', 'Math.tan',
+  'Math.tanh', 'Math.trunc',
+  'JSON.parse', 'JSON.stringify',
+  'Object.keys', 'Object.values', 'Object.entries', 'Object.fromEntries', 'Object.create', 'Object.is',
+  'Object.hasOwn', 'Object.hasOwnProperty', 'Object.getPrototypeOf', 'Object.getOwnPropertyNames',
+  'Object.isFrozen',
+  'String.fromCharCode', 'String.fromCodePoint', 'String.raw',
+  'Number.isFinite', 'Number.isInteger', 'Number.isNaN', 'Number.isSafeInteger', 'Number.parseFloat',
+  'Number.parseInt',
+  'Array.isArray', 'Array.from', 'Array.of'
+];
+
+/**
+ * Functions that return something different on every call
+ */
+const NONDETERMINISTIC_FUNCTIONS = [
+  'Math.random', 'Date.now', 'performance.now', 'crypto.randomUUID', 'crypto.getRandomValues'
+];
+
+/**
+ * Methods that change the object they are called on
+ */
+const MUTATING_METHODS = [
+  'push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin',
+  'set', 'delete', 'clear', 'add'
+];
+
+/**
+ * Object functions that change their first argument
+ */
+const MUTATING_OBJECT_FUNCTIONS = ['assign', 'defineProperty', 'defineProperties', 'setPrototypeOf'];
+
+/**
+ * Something a function body does that a pure function may not, described
+ * from the point of view of the function: "calls 'print', which performs I/O"
+ */
+interface Impurity {
+  node: SSymbol;
+  description: string;
+}
+
+/**
+ * PurityValidator checks that `fx` functions are pure: their bodies may not
+ * do I/O, make JavaScript interop calls, assign with `set!` or `js-set`,
+ * mutate their arguments or call `fn` functions. Calls to `fn` functions
+ * explain the chain of calls that leads to the side effect.
+ */
+export class PurityValidator {
+  // First side effect of each fn reached from an fx, null for none found
+  private effects: Map<SList, Impurity | null> = new Map();
+
+  /**
+   * Check every fx form of a document
+   */
+  public validatePurity(
+    document: TextDocument,
+    expressions: SExp[],
+    scopes: ScopeAnalysis,
+    diagnostics: Diagnostic[]
+  ): void {
+    this.effects = new Map();
+
+    const visit = (expr: SExp) => {
+      if (!isList(expr)) return;
+
+      const keyword = getFormKeyword(expr);
+      if (keyword === 'quote' || keyword === 'quasiquote') return;
+
+      if (keyword === 'fx') {
+        const name = expr.elements[1];
+        const label = name && isSymbol(name) ? `fx '${name.name}'` : 'fx';
+        for (const impurity of this.findImpurities(expr, scopes, true)) {
+          diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: symbolRange(document, impurity.node),
+            message: `${label} is not pure: it ${impurity.description}`,
+            source: 'hql'
+          });
+        }
+      }
+
+      expr.elements.forEach(visit);
+    };
+
+    expressions.forEach(visit);
+  }
+
+  /**
+   * Find the side effects in the body of a function. In an fx every call of
+   * an fn counts; elsewhere only calls that lead to a side effect do.
+   */
+  private findImpurities(form: SList, scopes: ScopeAnalysis, strict: boolean): Impurity[] {
+    const impurities: Impurity[] = [];
+    const isArgument = (binding: Binding | undefined) => binding?.kind === 'parameter' && binding.form === form;
+
+    const visit = (expr: SExp) => {
+      if (!isList(expr) || expr.elements.length === 0) return;
+
+      const keyword = getFormKeyword(expr);
+      // Templates are not run, nested fx forms are checked on their own
+      if (keyword === 'quote' || keyword === 'quasiquote' || (keyword === 'fx' && expr !== form)) return;
+
+      const impurity = this.checkForm(expr, form, scopes, strict, isArgument);
+      if (impurity) impurities.push(impurity);
+
+      expr.elements.forEach(visit);
+    };
+
+    form.elements.slice(getBodyStart(form) ?? 2).forEach(visit);
+    return impurities;
+  }
+
+  /**
+   * Check one form of a function body for a side effect of its own
+   */
+  private checkForm(
+    expr: SList,
+    form: SList,
+    scopes: ScopeAnalysis,
+    strict: boolean,
+    isArgument: (binding: Binding | undefined) => boolean
+  ): Impurity | undefined {
+    const [head, target, second] = expr.elements;
+    if (!isSymbol(head) || !head.position) return undefined;
+
+    const argumentOf = (expr: SExp | undefined): string | undefined =>
+      expr && isSymbol(expr) && isArgument(scopes.resolve(expr)) ? expr.name.split('.')[0] : undefined;
+
+    switch (head.name) {
+      case 'set!': {
+        if (!target || !isSymbol(target)) return undefined;
+        const argument = target.name.includes('.') ? argumentOf(target) : undefined;
+        return {
+          node: head,
+          description: argument
+            ? `mutates its argument '${argument}' with set!`
+            : `assigns to '${target.name}' with set!`
+        };
+      }
+
+      case 'js-set': {
+        const argument = argumentOf(target);
+        return {
+          node: head,
+          description: argument ? `mutates its argument '${argument}' with js-set` : 'assigns a property with js-set'
+        };
+      }
+
+      case 'js-call':
+      case 'js-method': {
+        const object = target && isSymbol(target) ? target.name : undefined;
+        const method = second && 'value' in second ? String(second.value) : '';
+        const argument = argumentOf(target);
+
+        if (object && IO_OBJECTS.includes(object.split('.')[0])) {
+          return { node: head, description: `calls '${object}.${method}', which performs I/O` };
+        }
+        if (argument && MUTATING_METHODS.includes(method)) {
+          return { node: head, description: `mutates its argument '${argument}' with ${method}` };
+        }
+        if (object && NONDETERMINISTIC_FUNCTIONS.includes(`${object}.${method}`)) {
+          return { node: head, description: `calls '${object}.${method}', which is not deterministic` };
+        }
+        if (object === 'Object' && MUTATING_OBJECT_FUNCTIONS.includes(method)) {
+          const changed = argumentOf(expr.elements[3]);
+          return changed ? { node: head, description: `mutates its argument '${changed}' with Object.${method}` } : undefined;
+        }
+        if (object && PURE_JS_FUNCTIONS.includes(`${object}.${method}`)) {
+          return undefined;
+        }
+        return { node: head, description: `makes a JavaScript interop call with ${head.name}` };
+      }
+    }
+
+    const [object, ...members] = head.name.split('.');
+    const method = members[members.length - 1];
+
+    if (IO_FUNCTIONS.includes(head.name) || (members.length > 0 && IO_OBJECTS.includes(object))) {
+      if (scopes.resolve(head)) return undefined;
+      return { node: head, description: `calls '${head.name}', which performs I/O` };
+    }
+
+    // (Math.random) and (.random Math)
+    const receiver = head.name.startsWith('.') && target && isSymbol(target) ? target : head;
+    const called = receiver === head ? head.name : receiver.name + head.name;
+    if (NONDETERMINISTIC_FUNCTIONS.includes(called)) {
+      if (scopes.resolve(receiver)) return undefined;
+      return { node: head, description: `calls '${called}', which is not deterministic` };
+    }
+
+    // (.push xs x), (xs.push x) and (Object.assign xs ...) on an argument
+    const mutated = head.name.startsWith('.') && MUTATING_METHODS.includes(head.name.substring(1)) ? argumentOf(target)
+      : members.length === 1 && MUTATING_METHODS.includes(method) ? argumentOf(head)
+      : object === 'Object' && MUTATING_OBJECT_FUNCTIONS.includes(method) ? argumentOf(target)
+      : undefined;
+    if (mutated) {
+      return { node: head, description: `mutates its argument '${mutated}' with ${head.name.startsWith('.') ? head.name.substring(1) : method}` };
+    }
+
+    const binding = scopes.resolve(head);
+    const calleeKeyword = getFormKeyword(binding?.form);
+    if (binding?.kind !== 'function' || members.length > 0 || binding.form === form ||
+        (calleeKeyword !== 'fn' && calleeKeyword !== 'lambda')) {
+      return undefined;
+    }
+
+    const effect = this.getEffect(binding.form, scopes);
+    if (effect) {
+      return { node: head, description: `calls '${binding.name}', which ${effect.description}` };
+    }
+    return strict ? { node: head, description: `calls '${binding.name}', which is not an fx function` } : undefined;
+  }
+
+  /**
+   * Get the first side effect of an fn, following the fn functions it calls
+   */
+  private getEffect(form: SList, scopes: ScopeAnalysis): Impurity | null {
+    if (this.effects.has(form)) {
+      return this.effects.get(form)!;
+    }
+
+    // Recursive calls reach a function that is still being checked
+    this.effects.set(form, null);
+    const effect = this.findImpurities(form, scopes, false)[0] || null;
+    this.effects.set(form, effect);
+    return effect;
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { SExp, SList } from '../../parser';
+import { isList, isSymbol } from '../../s-exp/types';
+import { symbolRange } from '../utils/module-utils';
+import { getBindingPairs, getFormKeyword, getParameterList, getParameterSymbols } from '../utils/scope-utils';
+
+/**
+ * The form a `recur` jumps back to, and how many values it rebinds
+ */
+interface RecurTarget {
+  description: string;
+  arity: number;
+}
+
+/**
+ * Forms whose last element is evaluated in the tail position of the form,
+ * after the given number of leading elements (the keyword, tests, bindings)
+ */
+const TAIL_BODY_FORMS: { [keyword: string]: number } = {
+  'do': 1,
+  'when': 2,
+  'unless': 2,
+  'let': 2,
+  'var': 2,
+  'when-let': 2
+};
+
+/**
+ * RecurValidator checks that each `recur` is in tail position of the
+ * nearest enclosing `loop` or function and passes one value per loop
+ * binding or parameter
+ */
+export class RecurValidator {
+  /**
+   * Check the recur forms inside some expressions
+   */
+  public validateRecur(document: TextDocument, expressions: SExp[], diagnostics: Diagnostic[]): void {
+    for (const expr of expressions) {
+      this.visit(document, expr, undefined, false, diagnostics);
+    }
+  }
+
+  /**
+   * Visit an expression; tail tells whether its value is the value of the
+   * current target's body
+   */
+  private visit(
+    document: TextDocument,
+    expr: SExp,
+    target: RecurTarget | undefined,
+    tail: boolean,
+    diagnostics: Diagnostic[]
+  ): void {
+    if (!isList(expr) || expr.elements.length === 0) {
+      return;
+    }
+
+    const keyword = getFormKeyword(expr);
+    const visitAll = (elements: SExp[], tailAtEnd: boolean, inner: RecurTarget | undefined = target) => {
+      elements.forEach((element, index) =>
+        this.visit(document, element, inner, tailAtEnd && index === elements.length - 1, diagnostics)
+      );
+    };
+
+    switch (keyword) {
+      case 'recur':
+        this.checkRecur(document, expr, target, tail, diagnostics);
+        visitAll(expr.elements.slice(1), false);
+        return;
+
+      // Templates build code for other places, and macros expand elsewhere
+      case 'quote':
+      case 'quasiquote':
+      case 'macro':
+      case 'defmacro':
+        return;
+
+      case 'fn':
+      case 'fx':
+      case 'lambda':
+      case 'constructor': {
+        const params = getParameterList(expr);
+        const name = expr.elements[1];
+        const inner = {
+          description: keyword === 'constructor' ? 'the constructor parameters'
+            : name && isSymbol(name) ? `the parameters of '${name.name}'` : 'the function parameters',
+          arity: params ? getParameterSymbols(params).length : 0
+        };
+        const bodyStart = params ? expr.elements.indexOf(params) + 1 : 2;
+        const body = expr.elements.slice(bodyStart).filter(element => getFormKeyword(element) !== '->');
+        visitAll(body, true, inner);
+        return;
+      }
+
+      case 'loop': {
+        const bindings = expr.elements[1];
+        const inner = { description: 'the loop bindings', arity: getBindingPairs(expr).length };
+        if (bindings && isList(bindings)) {
+          visitAll(bindings.elements, false);
+        }
+        visitAll(expr.elements.slice(2), true, inner);
+        return;
+      }
+
+      case 'if':
+      case 'if-let':
+        visitAll(expr.elements.slice(1, 2), false);
+        expr.elements.slice(2).forEach(branch => this.visit(document, branch, target, tail, diagnostics));
+        return;
+
+      case 'cond':
+        for (const clause of expr.elements.slice(1)) {
+          if (!isList(clause)) continue;
+          this.visit(document, clause.elements[0], target, false, diagnostics);
+          visitAll(clause.elements.slice(1), tail);
+        }
+        return;
+
+      case 'match':
+        this.visit(document, expr.elements[1], target, false, diagnostics);
+        for (const clause of expr.elements.slice(2)) {
+          if (isList(clause)) visitAll(clause.elements.slice(1), tail);
+        }
+        return;
+    }
+
+    // (let x 1) only binds a name; (let (x 1) body) has a body
+    const bodyStart = keyword ? TAIL_BODY_FORMS[keyword] : undefined;
+    const isStatement = (keyword === 'let' || keyword === 'var') && !isList(expr.elements[1]);
+    if (bodyStart !== undefined && !isStatement) {
+      visitAll(expr.elements.slice(1, bodyStart), false);
+      visitAll(expr.elements.slice(bodyStart), tail);
+      return;
+    }
+
+    // Arguments of calls and everything else are never in tail position
+    visitAll(expr.elements, false);
+  }
+
+  /**
+   * Report a recur without a target, outside tail position, or with the
+   * wrong number of values
+   */
+  private checkRecur(
+    document: TextDocument,
+    expr: SList,
+    target: RecurTarget | undefined,
+    tail: boolean,
+    diagnostics: Diagnostic[]
+  ): void {
+    const head = expr.elements[0];
+    if (!isSymbol(head) || !head.position) {
+      return;
+    }
+
+    const report = (message: string) => diagnostics.push({
+      severity: DiagnosticSeverity.Error,
+      range: symbolRange(document, head),
+      message,
+      source: 'hql'
+    });
+
+    if (!target) {
+      report('recur can only be used inside a loop or function');
+      return;
+    }
+
+    if (!tail) {
+      report('recur must be in tail position');
+    }
+
+    const count = expr.elements.length - 1;
+    if (count !== target.arity) {
+      report(`recur expects ${target.arity} argument${target.arity === 1 ? '' : 's'} to match ${target.description}, got ${count}`);
+    }
+  }
+}
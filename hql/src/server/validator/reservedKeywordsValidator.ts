@@ -21,6 +21,8 @@ export class ReservedKeywordsValidator {
     'await', 'break', 'catch', 'static', 'delete', 'finally', 'in',
     'instanceof', 'package', 'private', 'protected', 'public', 'try'
   ];
+  // Keywords reserved by the project configuration during a validation run
+  private projectKeywords: string[] = [];
   
   /**
    * Check for reserved keywords in expressions
@@ -28,10 +30,17 @@ export class ReservedKeywordsValidator {
   public validateReservedKeywords(
     document: TextDocument,
     expressions: SExp[],
-    diagnostics: Diagnostic[]
+    diagnostics: Diagnostic[],
+    projectKeywords: string[] = []
   ): void {
-    for (const expr of expressions) {
-      this.checkExpressionForReservedKeywords(document, expr, diagnostics);
+    // Keywords a project reserves apply for this run only
+    this.projectKeywords = projectKeywords.map(keyword => keyword.toLowerCase());
+    try {
+      for (const expr of expressions) {
+        this.checkExpressionForReservedKeywords(document, expr, diagnostics);
+      }
+    } finally {
+      this.projectKeywords = [];
     }
   }
   
@@ -57,7 +66,7 @@ export class ReservedKeywordsValidator {
           
           // Check for reserved keyword usage in definitions
           if (['fn', 'fx', 'let', 'var', 'enum', 'class', 'struct', 'macro'].includes(keyword)) {
-            if (this.reservedKeywords.includes(symbolName.toLowerCase())) {
+            if (this.isReserved(symbolName)) {
               if (symbolPos) {
                 // Convert 1-based line/column to 0-based
                 const range = Range.create(
@@ -103,7 +112,7 @@ export class ReservedKeywordsValidator {
                 // Extract parameter name without the colon
                 const paramName = argText.substring(0, argText.length - 1);
                 
-                if (this.reservedKeywords.includes(paramName.toLowerCase()) && argPos) {
+                if (this.isReserved(paramName) && argPos) {
                   // Convert 1-based line/column to 0-based
                   const range = Range.create(
                     Position.create(argPos.line - 1, argPos.column - 1),
@@ -135,7 +144,7 @@ export class ReservedKeywordsValidator {
                   if (isSymbol(element)) {
                       const symbolName = (element as SSymbol).name;
                       const symbolPos = (element as SSymbol).position;
-                      if (this.reservedKeywords.includes(symbolName.toLowerCase())) {
+                      if (this.isReserved(symbolName)) {
                           if (symbolPos) {
                               // Convert 1-based line/column to 0-based
                               const range = Range.create(
@@ -185,7 +194,7 @@ export class ReservedKeywordsValidator {
         const paramName = (param as SSymbol).name;
         const paramPos = (param as SSymbol).position;
         
-        if (this.reservedKeywords.includes(paramName.toLowerCase()) && paramPos) {
+        if (this.isReserved(paramName) && paramPos) {
           // Convert 1-based line/column to 0-based
           const range = Range.create(
             Position.create(paramPos.line - 1, paramPos.column - 1),
@@ -206,7 +215,7 @@ export class ReservedKeywordsValidator {
           const paramName = (paramTypePair.elements[0] as SSymbol).name;
           const paramPos = (paramTypePair.elements[0] as SSymbol).position;
           
-          if (this.reservedKeywords.includes(paramName.toLowerCase()) && paramPos) {
+          if (this.isReserved(paramName) && paramPos) {
             // Convert 1-based line/column to 0-based
             const range = Range.create(
               Position.create(paramPos.line - 1, paramPos.column - 1),
@@ -225,6 +234,13 @@ export class ReservedKeywordsValidator {
     }
   }
   
+  /**
+   * Check a name against the built-in and project keywords
+   */
+  private isReserved(name: string): boolean {
+    return this.isReservedKeyword(name) || this.projectKeywords.includes(name.toLowerCase());
+  }
+  
   /**
    * Check if a symbol is a reserved keyword
    */
@@ -9,6 +9,7 @@ import {
 import { SExp, SList, SSymbol, SourcePosition } from '../../parser';
 import { isList, isSymbol, isLiteral, isString, isNumber, isBoolean } from '../../s-exp/types';
 import { SymbolManager } from '../symbolManager';
+import { TypeInference } from '../utils/type-inference';
 
 /**
  * TypeValidator provides type checking for HQL
@@ -22,11 +23,14 @@ export class TypeValidator {
   
   /**
    * Check for type errors in function calls
+   * @param types The inferred types of the document, used for arguments
+   *   that are not literals
    */
   public validateFunctionCall(
     document: TextDocument,
     expr: SList,
-    diagnostics: Diagnostic[]
+    diagnostics: Diagnostic[],
+    types?: TypeInference
   ): void {
     if (expr.elements.length === 0 || !isSymbol(expr.elements[0])) {
       return;
@@ -40,6 +44,11 @@ export class TypeValidator {
       return;
     }
     
+    // A local binding shadows the module's function of the same name
+    if (types?.scopes.resolve(funcSymbol)?.scope.parent) {
+      return;
+    }
+    
     // Find function definition in document symbols
     const funcDef = this.symbolManager.getDocumentSymbols(document.uri).find(
       sym => sym.kind === 12 && sym.name === funcName // 12 = Function
@@ -54,7 +63,7 @@ export class TypeValidator {
     
     // If it's a pure function (fx), do more strict type checking
     if (isPure) {
-      this.validatePureFunctionCall(document, expr, funcDef, diagnostics);
+      this.validatePureFunctionCall(document, expr, funcDef, diagnostics, types);
       return;
     }
     
@@ -64,6 +73,12 @@ export class TypeValidator {
       return;
     }
     
+    // Named arguments are matched by name rather than counted
+    if (this.hasNamedArguments(expr)) {
+      this.validateNamedParameters(document, expr, funcDef, diagnostics, types, false);
+      return;
+    }
+    
     // Calculate required parameters (those without defaults)
     const requiredParamCount = params.filter((p: any) => !p.defaultValue).length;
     const actualParamCount = expr.elements.length - 1;
@@ -94,7 +109,8 @@ export class TypeValidator {
     document: TextDocument,
     expr: SList,
     funcDef: any,
-    diagnostics: Diagnostic[]
+    diagnostics: Diagnostic[],
+    types?: TypeInference
   ): void {
     if (!isSymbol(expr.elements[0])) {
       return;
@@ -113,19 +129,9 @@ export class TypeValidator {
     const requiredParamCount = params.filter((p: any) => !p.defaultValue).length;
     const actualParamCount = expr.elements.length - 1;
     
-    // Check for named parameters
-    let namedArguments = false;
-    for (let i = 1; i < expr.elements.length; i++) {
-      if (isSymbol(expr.elements[i]) && 
-          (expr.elements[i] as SSymbol).name.endsWith(':')) {
-        namedArguments = true;
-        break;
-      }
-    }
-    
     // If using named arguments, handle differently
-    if (namedArguments) {
-      this.validateNamedParameters(document, expr, funcDef, diagnostics);
+    if (this.hasNamedArguments(expr)) {
+      this.validateNamedParameters(document, expr, funcDef, diagnostics, types);
       return;
     }
     
@@ -160,8 +166,8 @@ export class TypeValidator {
       }
       
       // Check argument type against parameter type
-      const argType = this.inferExpressionType(argExpr);
-      if (argType && !this.isTypeCompatible(argType, param.type)) {
+      const argType = this.getArgumentType(argExpr, types);
+      if (argType && !this.isTypeCompatible(argType, param.type, types)) {
         this.addDiagnostic(
           document,
           argExpr,
@@ -174,13 +180,25 @@ export class TypeValidator {
   }
   
   /**
-   * Validate a function call with named parameters
+   * Whether a call passes any argument as `name: value`
+   */
+  private hasNamedArguments(expr: SList): boolean {
+    return expr.elements.slice(1).some(arg => isSymbol(arg) && arg.name.endsWith(':'));
+  }
+  
+  /**
+   * Validate a function call with named parameters. Each `name: value`
+   * pair is one argument; positional arguments before them fill the
+   * leading parameters.
+   * @param checkTypes Whether to check the values against parameter types
    */
   private validateNamedParameters(
     document: TextDocument,
     expr: SList,
     funcDef: any,
-    diagnostics: Diagnostic[]
+    diagnostics: Diagnostic[],
+    types?: TypeInference,
+    checkTypes: boolean = true
   ): void {
     const funcName = (expr.elements[0] as SSymbol).name;
     const params = funcDef.data.params;
@@ -191,20 +209,23 @@ export class TypeValidator {
       paramMap.set(param.name, param);
     }
     
+    const supplied = new Set<string>();
+    let positionalCount = 0;
+    
     // Check each named argument
     for (let i = 1; i < expr.elements.length; i++) {
       const argExpr = expr.elements[i];
       
-      // Skip non-symbol arguments
-      if (!isSymbol(argExpr)) {
+      // Positional arguments take the parameters in order
+      if (!isSymbol(argExpr) || !argExpr.name.endsWith(':')) {
+        if (positionalCount < params.length) {
+          supplied.add(params[positionalCount].name);
+        }
+        positionalCount++;
         continue;
       }
       
-      const argName = (argExpr as SSymbol).name;
-      if (!argName.endsWith(':')) {
-        // Not a named parameter, skip
-        continue;
-      }
+      const argName = argExpr.name;
       
       // Extract the parameter name without colon
       const paramName = argName.substring(0, argName.length - 1);
@@ -218,8 +239,10 @@ export class TypeValidator {
           DiagnosticSeverity.Warning,
           diagnostics
         );
+        i++; // its value is not a positional argument
         continue;
       }
+      supplied.add(paramName);
       
       // Check if there's a value for this named parameter
       if (i + 1 >= expr.elements.length) {
@@ -237,9 +260,9 @@ export class TypeValidator {
       const valueExpr = expr.elements[i + 1];
       const param = paramMap.get(paramName);
       
-      if (param.type && param.type !== 'Any') {
-        const valueType = this.inferExpressionType(valueExpr);
-        if (valueType && !this.isTypeCompatible(valueType, param.type)) {
+      if (checkTypes && param.type && param.type !== 'Any') {
+        const valueType = this.getArgumentType(valueExpr, types);
+        if (valueType && !this.isTypeCompatible(valueType, param.type, types)) {
           this.addDiagnostic(
             document,
             valueExpr,
@@ -253,6 +276,38 @@ export class TypeValidator {
       // Skip the value since we've processed it
       i++;
     }
+    
+    if (positionalCount > params.length) {
+      this.addDiagnostic(
+        document,
+        expr,
+        `Too many arguments in call to '${funcName}'. Expected at most ${params.length}, got ${positionalCount}`,
+        DiagnosticSeverity.Warning,
+        diagnostics
+      );
+      return;
+    }
+    
+    // Required parameters given neither by position nor by name
+    for (const param of params) {
+      if (!param.defaultValue && !supplied.has(param.name)) {
+        this.addDiagnostic(
+          document,
+          expr,
+          `Missing argument for parameter '${param.name}' in call to '${funcName}'`,
+          DiagnosticSeverity.Warning,
+          diagnostics
+        );
+      }
+    }
+  }
+  
+  /**
+   * Get the type of an argument: the inferred type when the document's
+   * types are known, otherwise the type of a literal
+   */
+  private getArgumentType(expr: SExp, types?: TypeInference): string | null {
+    return types ? types.typeOf(expr) : this.inferExpressionType(expr);
   }
   
   /**
@@ -348,7 +403,7 @@ export class TypeValidator {
   /**
    * Check if two types are compatible
    */
-  private isTypeCompatible(sourceType: string, targetType: string): boolean {
+  private isTypeCompatible(sourceType: string, targetType: string, types?: TypeInference): boolean {
     if (sourceType === targetType) {
       return true;
     }
@@ -374,7 +429,19 @@ export class TypeValidator {
     if (sourceType.startsWith('[') && targetType.startsWith('[')) {
       const sourceInnerType = sourceType.substring(1, sourceType.length - 1);
       const targetInnerType = targetType.substring(1, targetType.length - 1);
-      return this.isTypeCompatible(sourceInnerType, targetInnerType);
+      return this.isTypeCompatible(sourceInnerType, targetInnerType, types);
+    }
+    
+    // Untyped collections may hold elements of any type
+    const collections = ['List', 'Vector', 'Array'];
+    if ((collections.includes(sourceType) && targetType.startsWith('[')) ||
+        (sourceType.startsWith('[') && collections.includes(targetType))) {
+      return true;
+    }
+    
+    // Instances of subclasses
+    if (types?.isSubclass(sourceType, targetType)) {
+      return true;
     }
     
     // Check if the target type is an enum and source is a compatible value
@@ -416,6 +483,21 @@ export class TypeValidator {
     diagnostics: Diagnostic[]
   ): void {
     try {
+      // Parsed nodes carry their full source range
+      if (expr.range) {
+        diagnostics.push({
+          severity,
+          range: {
+            start: { line: expr.range.start.line - 1, character: expr.range.start.column - 1 },
+            end: { line: expr.range.end.line - 1, character: expr.range.end.column - 1 }
+          },
+          message,
+          source: 'hql'
+        });
+        
+        return;
+      }
+      
       // Get the position information if available
       const pos = (expr as any).position as SourcePosition | undefined;
       if (pos) {
@@ -0,0 +1,86 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag
+} from 'vscode-languageserver';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { symbolRange } from '../utils/module-utils';
+import { Binding, ScopeAnalysis } from '../utils/scope-analysis';
+import { getFormKeyword } from '../utils/scope-utils';
+
+/**
+ * UnusedSymbolsValidator reports dead code: imports, local bindings and
+ * parameters that are never read, and top-level functions that are neither
+ * exported nor called. Names starting with `_` are meant to be unused and
+ * are left alone.
+ */
+export class UnusedSymbolsValidator {
+  /**
+   * Check the bindings of a module for ones nothing reads
+   * @param exportedNames Top-level names the module exports
+   */
+  public validateUnusedSymbols(
+    document: TextDocument,
+    analysis: ScopeAnalysis,
+    exportedNames: Set<string>,
+    diagnostics: Diagnostic[]
+  ): void {
+    for (const binding of analysis.getBindings()) {
+      if (binding.name.startsWith('_')) continue;
+
+      const message = this.getUnusedMessage(binding, analysis, exportedNames);
+      if (message) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Hint,
+          range: symbolRange(document, binding.node, 0, binding.name.length),
+          message,
+          tags: [DiagnosticTag.Unnecessary],
+          source: 'hql'
+        });
+      }
+    }
+  }
+
+  /**
+   * Describe why a binding is unused, or return undefined when it is used
+   * or may be used from elsewhere
+   */
+  private getUnusedMessage(binding: Binding, analysis: ScopeAnalysis, exportedNames: Set<string>): string | undefined {
+    const references = analysis.getReferences(binding);
+    const isModule = !binding.scope.parent;
+
+    switch (binding.kind) {
+      case 'import':
+        return references.length === 0 ? `Import '${binding.name}' is never used` : undefined;
+
+      case 'parameter':
+        return references.length === 0 ? `Parameter '${binding.name}' is never used` : undefined;
+
+      case 'function': {
+        if (!isModule) break;
+
+        // Exported functions are called from other modules, and calls
+        // from inside the function itself do not keep it alive
+        const keyword = getFormKeyword(binding.form);
+        const form = binding.form.range;
+        const calls = references.filter(symbol =>
+          !form || symbol.position!.offset < form.start.offset || symbol.position!.offset > form.end.offset
+        );
+        return (keyword === 'fn' || keyword === 'fx') && calls.length === 0 && !exportedNames.has(binding.name)
+          ? `Function '${binding.name}' is never called`
+          : undefined;
+      }
+    }
+
+    // Catch variables, loop iterators and class members are required by
+    // their forms; top-level bindings other than functions may be exported
+    // or run for their effects
+    if (isModule || ['exception', 'iterator', 'member'].includes(binding.kind)) {
+      return undefined;
+    }
+
+    return references.length === 0 ? `'${binding.name}' is declared but never used` : undefined;
+  }
+}
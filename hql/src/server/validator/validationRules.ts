@@ -0,0 +1,55 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+
+/**
+ * Identifiers of the validation rules a project can configure. Each
+ * diagnostic carries the identifier of its rule as its code.
+ */
+export const VALIDATION_RULES = [
+  'parse-error',
+  'reserved-keywords',
+  'form-syntax',
+  'loop-recur',
+  'unbalanced-delimiters',
+  'undefined-symbols',
+  'unused-symbols',
+  'enum-exhaustiveness',
+  'fx-purity',
+  'type-check'
+] as const;
+
+export type ValidationRule = typeof VALIDATION_RULES[number];
+
+/**
+ * How a project wants a rule reported: turned off or with a fixed severity
+ */
+export type RuleSetting = 'off' | 'error' | 'warning' | 'information' | 'hint';
+
+export const RULE_SETTINGS: RuleSetting[] = ['off', 'error', 'warning', 'information', 'hint'];
+
+const SEVERITIES: { [setting in Exclude<RuleSetting, 'off'>]: DiagnosticSeverity } = {
+  'error': DiagnosticSeverity.Error,
+  'warning': DiagnosticSeverity.Warning,
+  'information': DiagnosticSeverity.Information,
+  'hint': DiagnosticSeverity.Hint
+};
+
+/**
+ * Tag the diagnostics of a rule with its code and apply the project's
+ * setting for it; rules without a setting keep their own severities
+ */
+export function applyRuleSetting(
+  rule: ValidationRule,
+  diagnostics: Diagnostic[],
+  settings: { [rule: string]: RuleSetting }
+): Diagnostic[] {
+  const setting = settings[rule];
+  if (setting === 'off') {
+    return [];
+  }
+
+  return diagnostics.map(diagnostic => ({
+    ...diagnostic,
+    code: rule,
+    severity: setting ? SEVERITIES[setting] : diagnostic.severity
+  }));
+}
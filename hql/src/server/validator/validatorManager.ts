@@ -10,7 +10,35 @@ import { SymbolManager } from '../symbolManager';
 import { SyntaxValidator } from './syntaxValidator';
 import { TypeValidator } from './typeValidator';
 import { ReservedKeywordsValidator } from './reservedKeywordsValidator';
+import { UnusedSymbolsValidator } from './unusedSymbolsValidator';
+import { EnumExhaustivenessValidator } from './enumExhaustivenessValidator';
+import { PurityValidator } from './purityValidator';
+import { RecurValidator } from './recurValidator';
 import { isList, isSymbol } from '../../s-exp/types';
+import { ParsedDocument, shiftRange } from '../parseCache';
+import { ProjectConfigManager } from '../projectConfig';
+import { applyRuleSetting, RuleSetting } from './validationRules';
+import { analyzeScopes, ScopeAnalysis } from '../utils/scope-analysis';
+import { inferTypes, TypeInference } from '../utils/type-inference';
+import { isJsGlobal } from '../utils/js-globals';
+
+/**
+ * Diagnostics produced by the per-form checks of one top-level form
+ */
+interface FormDiagnostics {
+  reservedKeywords: Diagnostic[];
+  syntax: Diagnostic[];
+  recur: Diagnostic[];
+}
+
+/**
+ * Keywords that may appear where symbols are read without being defined
+ */
+const UNCHECKED_KEYWORDS = [
+  'from', 'as', 'case', 'class', 'enum', 'export', 'extends',
+  'import', 'implements', 'interface', 'new', 'return', 'super',
+  'this', 'throw', 'typeof', 'void', 'with', 'yield'
+];
 
 /**
 * ValidatorManager - Central manager for all validation functionality
@@ -20,12 +48,24 @@ export class ValidatorManager {
   private syntaxValidator: SyntaxValidator;
   private typeValidator: TypeValidator;
   private reservedKeywordsValidator: ReservedKeywordsValidator;
+  private unusedSymbolsValidator: UnusedSymbolsValidator;
+  private enumExhaustivenessValidator: EnumExhaustivenessValidator;
+  private purityValidator: PurityValidator;
+  private recurValidator: RecurValidator;
+  private projectConfig?: ProjectConfigManager;
+  // Per-form results, reused while the form is untouched by edits
+  private formDiagnostics: Map<string, Map<SExp, FormDiagnostics>> = new Map();
   
-  constructor(symbolManager: SymbolManager) {
+  constructor(symbolManager: SymbolManager, projectConfig?: ProjectConfigManager) {
     this.symbolManager = symbolManager;
+    this.projectConfig = projectConfig;
     this.syntaxValidator = new SyntaxValidator();
     this.typeValidator = new TypeValidator(symbolManager);
     this.reservedKeywordsValidator = new ReservedKeywordsValidator();
+    this.unusedSymbolsValidator = new UnusedSymbolsValidator();
+    this.enumExhaustivenessValidator = new EnumExhaustivenessValidator(symbolManager);
+    this.purityValidator = new PurityValidator();
+    this.recurValidator = new RecurValidator();
   }
   
   /**
@@ -37,79 +77,183 @@ export class ValidatorManager {
     thorough: boolean = false
   ): Promise<void> {
     try {
-      const text = textDocument.getText();
-      const diagnostics: Diagnostic[] = [];
-      
-      try {
-        // Try to parse the document with tolerant mode first to avoid unnecessary
-        // diagnostic errors during typing
-        const expressions = parse(text, true);
-        
-        // 1. First check for reserved keywords - high priority
-        this.reservedKeywordsValidator.validateReservedKeywords(textDocument, expressions, diagnostics);
-        
+      const diagnostics = await this.collectDiagnostics(textDocument, thorough, reservedKeywords => {
         // Send diagnostics immediately for reserved keywords
-        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [...diagnostics] });
-        
-        // 2. Check syntax errors
-        if (thorough) {
-          try {
-            // Parse with strict mode to find actual errors
-            parse(text, false);
-          } catch (error) {
-            if (error instanceof ParseError) {
-              // Add diagnostic for parse error
-              diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                  start: { line: error.position.line - 1, character: error.position.column - 1 },
-                  end: { line: error.position.line - 1, character: error.position.column }
-                },
-                message: error.message,
-                source: 'hql'
-              });
-            }
-          }
-        }
-        
-        // 3. Validate specific syntax constructs
-        this.validateSyntaxForExpressions(textDocument, expressions, diagnostics);
-        
-        // 4. Check for unbalanced parentheses
-        this.checkUnbalancedDelimiters(text, diagnostics);
-        
-        // 5. Check for undefined symbols
-        await this.checkUndefinedSymbols(textDocument, expressions, diagnostics);
-        
-        // 6. Check for type errors (if enabled)
-        if (thorough) {
-          this.validateTypesForExpressions(textDocument, expressions, diagnostics);
-        }
-        
-        // Send final diagnostics including all checks
+        connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: reservedKeywords });
+      });
+      
+      if (diagnostics) {
         connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
-      } catch (error) {
-        // If tolerant parsing also fails, the code is very broken, so just report the error
-        if (error instanceof ParseError) {
-          diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-              start: { line: error.position.line - 1, character: error.position.column - 1 },
-              end: { line: error.position.line - 1, character: error.position.column }
-            },
-            message: error.message,
-            source: 'hql'
-          });
-          connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
-        } else {
-          console.error(`Unhandled error in validation: ${error}`);
-        }
       }
     } catch (error) {
       console.error(`Error validating document: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
+  /**
+  * Run the checks on a text document and return its diagnostics, or
+  * undefined when validation failed unexpectedly. The reserved keyword
+  * results are handed out early, before the slower checks run.
+  */
+  public async collectDiagnostics(
+    textDocument: TextDocument,
+    thorough: boolean = false,
+    onReservedKeywords?: (diagnostics: Diagnostic[]) => void
+  ): Promise<Diagnostic[] | undefined> {
+    const text = textDocument.getText();
+    const diagnostics: Diagnostic[] = [];
+    const config = this.projectConfig?.getConfig(textDocument.uri);
+    const rules: { [rule: string]: RuleSetting } = config ? config.rules : {};
+    
+    try {
+      // Try to parse the document with tolerant mode first to avoid unnecessary
+      // diagnostic errors during typing. Only edited forms are re-parsed.
+      const parsed = this.symbolManager.getParsedDocument(textDocument);
+      const expressions = parsed.expressions;
+      const formDiagnostics = this.validateForms(textDocument, parsed, config ? config.reservedKeywords : []);
+      
+      // 1. First check for reserved keywords - high priority
+      for (const form of formDiagnostics) {
+        diagnostics.push(...applyRuleSetting('reserved-keywords', form.reservedKeywords, rules));
+      }
+      
+      onReservedKeywords?.([...diagnostics]);
+      
+      // 2. Check syntax errors
+      if (thorough) {
+        try {
+          // Parse with strict mode to find actual errors
+          parse(text, false);
+        } catch (error) {
+          if (error instanceof ParseError) {
+            // Add diagnostic for parse error
+            diagnostics.push(...applyRuleSetting('parse-error', [{
+              severity: DiagnosticSeverity.Error,
+              range: {
+                start: { line: error.position.line - 1, character: error.position.column - 1 },
+                end: { line: error.position.line - 1, character: error.position.column }
+              },
+              message: error.message,
+              source: 'hql'
+            }], rules));
+          }
+        }
+      }
+      
+      // 3. Validate specific syntax constructs
+      for (const form of formDiagnostics) {
+        diagnostics.push(...applyRuleSetting('form-syntax', form.syntax, rules));
+        diagnostics.push(...applyRuleSetting('loop-recur', form.recur, rules));
+      }
+      
+      // 4. Check for unbalanced parentheses
+      const delimiterDiagnostics: Diagnostic[] = [];
+      this.checkUnbalancedDelimiters(text, delimiterDiagnostics);
+      diagnostics.push(...applyRuleSetting('unbalanced-delimiters', delimiterDiagnostics, rules));
+      
+      // 5. Check for undefined symbols
+      const scopes = analyzeScopes(expressions);
+      const undefinedDiagnostics: Diagnostic[] = [];
+      await this.checkUndefinedSymbols(textDocument, scopes, undefinedDiagnostics);
+      diagnostics.push(...applyRuleSetting('undefined-symbols', undefinedDiagnostics, rules));
+      
+      // 6. Check for unused imports, bindings, parameters and functions
+      const unusedDiagnostics: Diagnostic[] = [];
+      this.unusedSymbolsValidator.validateUnusedSymbols(
+        textDocument,
+        scopes,
+        this.getExportedNames(textDocument.uri),
+        unusedDiagnostics
+      );
+      diagnostics.push(...applyRuleSetting('unused-symbols', unusedDiagnostics, rules));
+      
+      // 7. Check that cond/match forms over enums handle every case
+      const types = inferTypes(expressions, scopes, this.symbolManager);
+      const exhaustivenessDiagnostics: Diagnostic[] = [];
+      this.enumExhaustivenessValidator.validateEnumExhaustiveness(
+        textDocument,
+        expressions,
+        types,
+        exhaustivenessDiagnostics
+      );
+      diagnostics.push(...applyRuleSetting('enum-exhaustiveness', exhaustivenessDiagnostics, rules));
+      
+      // 8. Check that fx functions have no side effects
+      const purityDiagnostics: Diagnostic[] = [];
+      this.purityValidator.validatePurity(textDocument, expressions, scopes, purityDiagnostics);
+      diagnostics.push(...applyRuleSetting('fx-purity', purityDiagnostics, rules));
+      
+      // 9. Check for type errors (if enabled)
+      if (thorough) {
+        const typeDiagnostics: Diagnostic[] = [];
+        this.validateTypesForExpressions(textDocument, expressions, types, typeDiagnostics);
+        diagnostics.push(...applyRuleSetting('type-check', typeDiagnostics, rules));
+      }
+      
+      return diagnostics;
+    } catch (error) {
+      // If tolerant parsing also fails, the code is very broken, so just report the error
+      if (error instanceof ParseError) {
+        diagnostics.push(...applyRuleSetting('parse-error', [{
+          severity: DiagnosticSeverity.Error,
+          range: {
+            start: { line: error.position.line - 1, character: error.position.column - 1 },
+            end: { line: error.position.line - 1, character: error.position.column }
+          },
+          message: error.message,
+          source: 'hql'
+        }], rules));
+        return diagnostics;
+      }
+      console.error(`Unhandled error in validation: ${error}`);
+      return undefined;
+    }
+  }
+  
+  /**
+  * Forget the cached results of a document
+  */
+  public clearDocument(uri: string): void {
+    this.formDiagnostics.delete(uri);
+  }
+  
+  /**
+  * Run the checks that only depend on a single top-level form, reusing
+  * the results of forms that were not touched since the last run
+  */
+  private validateForms(document: TextDocument, parsed: ParsedDocument, reservedKeywords: string[]): FormDiagnostics[] {
+    const previous = this.formDiagnostics.get(document.uri) || new Map<SExp, FormDiagnostics>();
+    const current = new Map<SExp, FormDiagnostics>();
+    
+    for (const expr of parsed.expressions) {
+      const reused = parsed.reused.get(expr);
+      const cached = reused && previous.get(reused.previous);
+      let result: FormDiagnostics;
+      
+      if (reused && cached) {
+        const shift = (diagnostic: Diagnostic): Diagnostic => ({
+          ...diagnostic,
+          range: shiftRange(diagnostic.range, reused.lineDelta)
+        });
+        result = {
+          reservedKeywords: cached.reservedKeywords.map(shift),
+          syntax: cached.syntax.map(shift),
+          recur: cached.recur.map(shift)
+        };
+      } else {
+        result = { reservedKeywords: [], syntax: [], recur: [] };
+        this.reservedKeywordsValidator.validateReservedKeywords(document, [expr], result.reservedKeywords, reservedKeywords);
+        this.validateSyntaxForExpressions(document, [expr], result.syntax);
+        this.recurValidator.validateRecur(document, [expr], result.recur);
+      }
+      
+      current.set(expr, result);
+    }
+    
+    this.formDiagnostics.set(document.uri, current);
+    return Array.from(current.values());
+  }
+  
   /**
   * Validate syntax for all expressions
   */
@@ -168,6 +312,7 @@ export class ValidatorManager {
   private validateTypesForExpressions(
     document: TextDocument,
     expressions: any[],
+    types: TypeInference,
     diagnostics: Diagnostic[]
   ): void {
     for (const expr of expressions) {
@@ -176,13 +321,13 @@ export class ValidatorManager {
       
       // Validate function calls
       if (expr.elements.length > 0 && isSymbol(expr.elements[0])) {
-        this.typeValidator.validateFunctionCall(document, expr, diagnostics);
+        this.typeValidator.validateFunctionCall(document, expr, diagnostics, types);
       }
       
       // Recursively validate nested lists
       for (const elem of expr.elements) {
         if (isList(elem)) {
-          this.validateTypesForExpressions(document, [elem], diagnostics);
+          this.validateTypesForExpressions(document, [elem], types, diagnostics);
         }
       }
     }
@@ -261,413 +406,48 @@ export class ValidatorManager {
   
   
   /**
-  * Check for undefined symbols
+  * Get the names a document exports, under their local names
+  */
+  private getExportedNames(uri: string): Set<string> {
+    const names = new Set<string>();
+    for (const symbol of this.symbolManager.getDocumentSymbols(uri)) {
+      if (symbol.data?.exported) {
+        names.add(symbol.data.originalName || symbol.name);
+      }
+    }
+    return names;
+  }
+  
+  /**
+  * Check for symbols that no binding in scope, built-in or global accounts for
   */
   private async checkUndefinedSymbols(
     document: TextDocument,
-    expressions: any[],
+    scopes: ScopeAnalysis,
     diagnostics: Diagnostic[]
   ): Promise<void> {
-    // Get all defined symbols in the document
-    const documentSymbols = this.symbolManager.getDocumentSymbols(document.uri);
-    const definedSymbols = new Set<string>(
-      documentSymbols.map(s => s.name)
-    );
+    const builtIns = new Set<string>(this.getBuiltInSymbols());
     
-    // Add built-in symbols
-    const builtIns = this.getBuiltInSymbols();
-    builtIns.forEach(s => definedSymbols.add(s));
-    
-    // Collect all used symbols
-    const usedSymbols = new Set<string>();
-    const symbolOffsets = new Map<string, number[]>();
-    
-    this.collectSymbolUsages(expressions, usedSymbols, symbolOffsets, document);
-    
-    // Check for undefined symbols
-    for (const symbol of usedSymbols) {
-      // Skip JS globals and dot notations (method calls or property access)
-      if (this.isJsGlobal(symbol) || symbol.includes('.')) {
+    for (const symbol of scopes.getFreeReferences()) {
+      // Member access is checked through its object: `p` in `p.x`
+      const name = symbol.name.split('.')[0];
+      if (builtIns.has(name) || UNCHECKED_KEYWORDS.includes(name) || isJsGlobal(name)) {
         continue;
       }
       
-      if (!definedSymbols.has(symbol)) {
-        // This symbol is used but not defined
-        const offsets = symbolOffsets.get(symbol) || [];
-        for (const offset of offsets) {
-          // Find line and character for the offset
-          const position = document.positionAt(offset);
-          diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-              start: position,
-              end: { line: position.line, character: position.character + symbol.length }
-            },
-            message: `Symbol '${symbol}' is used but not defined`,
-            source: 'hql'
-          });
-        }
-      }
+      const position = document.positionAt(symbol.position!.offset);
+      diagnostics.push({
+        severity: DiagnosticSeverity.Warning,
+        range: {
+          start: position,
+          end: { line: position.line, character: position.character + name.length }
+        },
+        message: `Symbol '${name}' is used but not defined`,
+        source: 'hql'
+      });
     }
   }
   
-  /**
-  * Collect all symbol usages in expressions
-  */
-  /**
-  * Collect all symbol usages in expressions
-  */
-  private collectSymbolUsages(
-    expressions: any[],
-    usedSymbols: Set<string>,
-    symbolOffsets: Map<string, number[]>,
-    document: TextDocument
-  ): void {
-    // Special keywords that should not be checked as undefined symbols
-    const reservedKeywords = [
-      'from', 'as', 'case', 'class', 'enum', 'export', 'extends',
-      'import', 'implements', 'interface', 'new', 'return', 'super',
-      'this', 'throw', 'typeof', 'void', 'with', 'yield'
-    ];
-    
-    // Track function parameters and local variables throughout the scope
-    const parameterScopeStack: Map<string, Set<string>> = new Map();
-    parameterScopeStack.set('global', new Set<string>());
-    
-    // Helper to check if a symbol is in the current scope
-    const isInScope = (name: string, scope: string): boolean => {
-      // First check if this is a dot access (which should always be allowed)
-      if (name.includes('.')) {
-        const baseName = name.split('.')[0];
-        // If the base object is in scope, the whole dot access is valid
-        return isInScope(baseName, scope);
-      }
-      
-      if (parameterScopeStack.has(scope)) {
-        const scopeParams = parameterScopeStack.get(scope)!;
-        if (scopeParams.has(name)) {
-          return true;
-        }
-      }
-      
-      // Check global scope if not in local scope
-      if (scope !== 'global' && parameterScopeStack.has('global')) {
-        return parameterScopeStack.get('global')!.has(name);
-      }
-      
-      return false;
-    };
-    
-    // Collect function and parameter definitions first
-    const collectFunctionParameters = (expressions: SExp[], currentScope: string = 'global') => {
-      for (const expr of expressions) {
-        if (!isList(expr)) continue;
-        
-        const elements = (expr as SList).elements;
-        if (elements.length === 0) continue;
-        
-        // Check for function definition
-        if (isSymbol(elements[0]) && 
-        ((elements[0] as SSymbol).name === 'fn' || 
-        (elements[0] as SSymbol).name === 'fx')) {
-          
-          if (elements.length < 3) continue;
-          
-          // Get function name
-          if (!isSymbol(elements[1])) continue;
-          const funcName = (elements[1] as SSymbol).name;
-          
-          // Add function to current scope
-          if (parameterScopeStack.has(currentScope)) {
-            parameterScopeStack.get(currentScope)!.add(funcName);
-          }
-          
-          // Create a new scope for this function
-          const functionScope = `${currentScope}.${funcName}`;
-          if (!parameterScopeStack.has(functionScope)) {
-            parameterScopeStack.set(functionScope, new Set<string>());
-          }
-          
-          // Process parameter list
-          if (!isList(elements[2])) continue;
-          const params = (elements[2] as SList).elements;
-          
-          // Collect parameter names and properly handle typed parameters
-          for (let i = 0; i < params.length; i++) {
-            const param = params[i];
-            
-            // Handle rest parameters
-            if (isSymbol(param) && 
-            (param as SSymbol).name === '&' && 
-            i + 1 < params.length && 
-            isSymbol(params[i + 1])) {
-              
-              const restParam = params[i + 1] as SSymbol;
-              parameterScopeStack.get(functionScope)!.add(restParam.name);
-              i++; // Skip rest parameter
-              continue;
-            }
-            
-            // Handle standard parameter - this includes params that look like "name: Type"
-            if (isSymbol(param)) {
-              const paramName = (param as SSymbol).name;
-              // If this is a typed parameter (has a colon), extract just the name
-              const actualParamName = paramName.includes(':') ? paramName.split(':')[0].trim() : paramName;
-              parameterScopeStack.get(functionScope)!.add(actualParamName);
-              
-              // Skip type definition if present (after colon)
-              if (i + 1 < params.length && isSymbol(params[i + 1]) && !((params[i + 1] as SSymbol).name.startsWith(':'))) {
-                i++; // Skip the type
-              }
-              
-              // Skip default value if present
-              if (i + 2 < params.length && 
-                isSymbol(params[i + 1]) && 
-                (params[i + 1] as SSymbol).name === '=') {
-                  i += 2; // Skip = and the value
-                }
-              }
-              // Handle typed parameter as a list (name: Type)
-              else if (isList(param) && (param as SList).elements.length >= 1) {
-                const paramElements = (param as SList).elements;
-                if (isSymbol(paramElements[0])) {
-                  parameterScopeStack.get(functionScope)!.add((paramElements[0] as SSymbol).name);
-                }
-              }
-            }
-            
-            // Process function body recursively with the new scope
-            for (let i = 3; i < elements.length; i++) {
-              collectFunctionParameters([elements[i]], functionScope);
-            }
-          }
-          // Process let/var bindings
-          else if (isSymbol(elements[0]) && 
-          ((elements[0] as SSymbol).name === 'let' || 
-          (elements[0] as SSymbol).name === 'var')) {
-            
-            if (elements.length < 3) continue;
-            
-            // Simple binding: (let name value)
-            if (isSymbol(elements[1])) {
-              const bindingName = (elements[1] as SSymbol).name;
-              parameterScopeStack.get(currentScope)!.add(bindingName);
-            }
-            // Multi binding: (let (name1 value1 name2 value2) body)
-            else if (isList(elements[1])) {
-              const bindings = (elements[1] as SList).elements;
-              for (let i = 0; i < bindings.length; i += 2) {
-                if (i < bindings.length && isSymbol(bindings[i])) {
-                  const bindingName = (bindings[i] as SSymbol).name;
-                  parameterScopeStack.get(currentScope)!.add(bindingName);
-                }
-              }
-            }
-          }
-          // Process enum definitions
-          else if (isSymbol(elements[0]) && (elements[0] as SSymbol).name === 'enum') {
-            if (elements.length < 2 || !isSymbol(elements[1])) continue;
-            
-            const enumName = (elements[1] as SSymbol).name;
-            parameterScopeStack.get(currentScope)!.add(enumName);
-            
-            // Process enum cases
-            for (let i = 2; i < elements.length; i++) {
-              if (!isList(elements[i])) continue;
-              
-              const caseExpr = elements[i] as SList;
-              if (caseExpr.elements.length < 2 || 
-                !isSymbol(caseExpr.elements[0]) || 
-                (caseExpr.elements[0] as SSymbol).name !== 'case' ||
-                !isSymbol(caseExpr.elements[1])) continue;
-                
-                const caseName = (caseExpr.elements[1] as SSymbol).name;
-                // Add both enum name and qualified case name to scope
-                parameterScopeStack.get(currentScope)!.add(`${enumName}.${caseName}`);
-              }
-            }
-            
-            // Process nested expressions
-            for (const elem of elements) {
-              if (isList(elem)) {
-                collectFunctionParameters([elem], currentScope);
-              }
-            }
-          }
-        };
-        
-        // Collect all defined parameters and variables
-        collectFunctionParameters(expressions);
-        
-        // Now collect usage with the parameter scope information
-        const collectSymbolsInExpr = (expr: any, currentScope: string = 'global') => {
-          if (isSymbol(expr)) {
-            const name = (expr as SSymbol).name;
-            
-            // Skip certain symbols based on context
-            if (
-              // Skip keyword literals (starting with :)
-              name.startsWith(':') || 
-              // Skip reserved keywords
-              reservedKeywords.includes(name) ||
-              // Skip parameters defined in function scope
-              isInScope(name, currentScope)
-            ) {
-              return;
-            }
-            
-            // Handle dot notation (method calls or property access)
-            if (name.includes('.')) {
-              const parts = name.split('.');
-              // Only check the object part, not the method/property
-              if (parts.length > 1 && !isInScope(parts[0], currentScope)) {
-                // Check if the base object exists
-                usedSymbols.add(parts[0]);
-                
-                // Record offset if position is available
-                if (expr.position) {
-                  const offset = document.offsetAt({
-                    line: expr.position.line - 1,
-                    character: expr.position.column - 1
-                  });
-                  
-                  if (!symbolOffsets.has(parts[0])) {
-                    symbolOffsets.set(parts[0], []);
-                  }
-                  symbolOffsets.get(parts[0])?.push(offset);
-                }
-              }
-              return;
-            }
-            
-            // Handle named parameters (symbols ending with a colon)
-            if (name.endsWith(':')) {
-              return;
-            }
-            
-            // Add the symbol as used if not in current scope
-            if (!isInScope(name, currentScope)) {
-              usedSymbols.add(name);
-              
-              // Record offset if position is available
-              if (expr.position) {
-                const offset = document.offsetAt({
-                  line: expr.position.line - 1,
-                  character: expr.position.column - 1
-                });
-                
-                if (!symbolOffsets.has(name)) {
-                  symbolOffsets.set(name, []);
-                }
-                symbolOffsets.get(name)?.push(offset);
-              }
-            }
-          } else if (isList(expr)) {
-            const elements = (expr as SList).elements;
-            if (elements.length === 0) return;
-            
-            // Check for function definition
-            if (isSymbol(elements[0]) && 
-            ((elements[0] as SSymbol).name === 'fn' || 
-            (elements[0] as SSymbol).name === 'fx')) {
-              
-              if (elements.length < 3 || !isSymbol(elements[1])) return;
-              
-              const funcName = (elements[1] as SSymbol).name;
-              const functionScope = `${currentScope}.${funcName}`;
-              
-              // Process function body with function scope
-              for (let i = 3; i < elements.length; i++) {
-                collectSymbolsInExpr(elements[i], functionScope);
-              }
-              return;
-            }
-            
-            // Check for let/var with multiple bindings and body
-            if (isSymbol(elements[0]) && 
-            ((elements[0] as SSymbol).name === 'let' || 
-            (elements[0] as SSymbol).name === 'var') && 
-            elements.length >= 3 && 
-            isList(elements[1])) {
-              
-              // Process binding values within current scope
-              const bindings = (elements[1] as SList).elements;
-              for (let i = 1; i < bindings.length; i += 2) {
-                if (i < bindings.length) {
-                  collectSymbolsInExpr(bindings[i], currentScope);
-                }
-              }
-              
-              // Create a new scope for the body
-              const letScope = `${currentScope}.let${Date.now()}`;
-              if (!parameterScopeStack.has(letScope)) {
-                parameterScopeStack.set(letScope, new Set<string>());
-              }
-              
-              // Add bindings to let scope
-              for (let i = 0; i < bindings.length; i += 2) {
-                if (i < bindings.length && isSymbol(bindings[i])) {
-                  parameterScopeStack.get(letScope)!.add((bindings[i] as SSymbol).name);
-                }
-              }
-              
-              // Process body with let scope
-              for (let i = 2; i < elements.length; i++) {
-                collectSymbolsInExpr(elements[i], letScope);
-              }
-              return;
-            }
-            
-            // Special handling for method chains
-            if (elements.length > 0 && 
-              isSymbol(elements[0]) && 
-              (elements[0] as SSymbol).name.includes('.')) {
-                
-                // This is a method chain like (object.method arg1 arg2)
-                // Extract the object part and check it
-                const fullMethodName = (elements[0] as SSymbol).name;
-                const objectName = fullMethodName.split('.')[0];
-                
-                // Only check if the base object is not in scope
-                if (!isInScope(objectName, currentScope)) {
-                  usedSymbols.add(objectName);
-                  
-                  // Record offset if position is available
-                  if (elements[0].position) {
-                    const offset = document.offsetAt({
-                      line: elements[0].position.line - 1,
-                      character: elements[0].position.column - 1
-                    });
-                    
-                    if (!symbolOffsets.has(objectName)) {
-                      symbolOffsets.set(objectName, []);
-                    }
-                    symbolOffsets.get(objectName)?.push(offset);
-                  }
-                }
-                
-                // Process other arguments in the method call
-                for (let i = 1; i < elements.length; i++) {
-                  collectSymbolsInExpr(elements[i], currentScope);
-                }
-                
-                return;
-              }
-              
-              // Process all other expressions
-              for (const elem of elements) {
-                collectSymbolsInExpr(elem, currentScope);
-              }
-            }
-          };
-          
-          // Process all expressions
-          for (const expr of expressions) {
-            collectSymbolsInExpr(expr);
-          }
-        }
-        
-        
         /**
         * Get all built-in symbols for HQL
         */
@@ -708,31 +488,8 @@ export class ValidatorManager {
             'throw', 'try', 'catch', 'finally', 'new', 'into', 'this', 'super',
             'return', 'set!',
             
-            // Common short names that might be used in examples
-            'x', 'y', 'z', 'a', 'b', 'c', 'i', 'j', 'k', 'n', 'm',
-            
-            // DOM and web APIs when in browser context
-            'document', 'window',
-            
             // Syntax symbols
             '->'  // Return type arrow
           ];
         }
-        
-        /**
-        * Check if a symbol is a JavaScript global
-        */
-        private isJsGlobal(name: string): boolean {
-          const jsGlobals = [
-            'undefined', 'NaN', 'Infinity', 'Object', 'Array', 'String',
-            'Number', 'Boolean', 'RegExp', 'Date', 'Math', 'JSON',
-            'console', 'setTimeout', 'setInterval', 'clearTimeout',
-            'clearInterval', 'parseInt', 'parseFloat', 'isNaN',
-            'isFinite', 'encodeURI', 'decodeURI', 'encodeURIComponent',
-            'decodeURIComponent', 'Error', 'Promise', 'Map', 'Set',
-            'WeakMap', 'WeakSet', 'Symbol', 'Proxy', 'Reflect'
-          ];
-          
-          return jsGlobals.includes(name);
-        }
       }
\ No newline at end of file
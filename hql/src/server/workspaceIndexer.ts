@@ -0,0 +1,156 @@
+import { FileChangeType, FileEvent, WorkDoneProgressReporter } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { SymbolManager } from './symbolManager';
+import { ModuleManager } from './moduleManager';
+import { findFilesInDirectory, pathToUri, uriToPath } from './utils/module-utils';
+import { isScriptModule } from './utils/script-modules';
+
+/**
+ * WorkspaceIndexer loads every HQL file of the workspace into the symbol
+ * manager, so cross-file features know about files before they are opened,
+ * and keeps it in step with changes made outside the editor. Documents open
+ * in the editor always win over their copies on disk.
+ */
+export class WorkspaceIndexer {
+  private symbolManager: SymbolManager;
+  private moduleManager: ModuleManager;
+  private isOpen: (uri: string) => boolean;
+  private workspaceFolders: string[] = [];
+
+  /**
+   * @param isOpen Tells whether the editor has a document open
+   */
+  constructor(symbolManager: SymbolManager, moduleManager: ModuleManager, isOpen: (uri: string) => boolean) {
+    this.symbolManager = symbolManager;
+    this.moduleManager = moduleManager;
+    this.isOpen = isOpen;
+  }
+
+  /**
+   * Set the workspace folders to index
+   */
+  public setWorkspaceFolders(folders: { uri: string }[] | null | undefined): void {
+    this.workspaceFolders = (folders || []).map(folder => path.resolve(uriToPath(folder.uri)));
+  }
+
+  /**
+   * Index every HQL file of the workspace folders. Control returns to the
+   * event loop after each file so requests are still answered meanwhile.
+   */
+  public async indexWorkspace(progress?: WorkDoneProgressReporter): Promise<void> {
+    const files = this.workspaceFolders.flatMap(folder => findFilesInDirectory(folder, ['.hql']));
+    progress?.begin('Indexing HQL files', 0, `0/${files.length}`);
+
+    for (let i = 0; i < files.length; i++) {
+      await this.indexFile(pathToUri(files[i]));
+      progress?.report(Math.round((i + 1) * 100 / files.length), `${i + 1}/${files.length}`);
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    progress?.done();
+  }
+
+  /**
+   * Index a file from disk, dropping it when it no longer exists. Files open
+   * in the editor are left to the document events.
+   */
+  public async indexFile(uri: string): Promise<void> {
+    let text: string;
+    try {
+      text = fs.readFileSync(uriToPath(uri), 'utf8');
+    } catch (_e) {
+      this.removeFile(uri);
+      return;
+    }
+
+    if (this.isOpen(uri)) {
+      return;
+    }
+
+    // Each read is a new version, so cached parses of older text are not reused
+    const previous = this.symbolManager.getIndexedDocument(uri);
+    const document = TextDocument.create(uri, 'hql', previous ? previous.version + 1 : 0, text);
+
+    this.symbolManager.addIndexedDocument(document);
+    await this.symbolManager.updateDocumentSymbols(document);
+  }
+
+  /**
+   * Apply file events from the client and return the HQL modules whose
+   * symbols or imports may have changed
+   */
+  public async applyFileChanges(changes: FileEvent[]): Promise<string[]> {
+    const affected = new Set<string>();
+
+    for (const change of changes) {
+      const filePath = uriToPath(change.uri);
+
+      if (filePath.endsWith('.hql')) {
+        if (!this.isInWorkspace(filePath)) continue;
+
+        if (change.type === FileChangeType.Deleted) {
+          this.removeFile(change.uri);
+        } else {
+          await this.indexFile(change.uri);
+        }
+        affected.add(change.uri);
+      } else if (isScriptModule(filePath)) {
+        // Scripts and typings are not indexed themselves; what changes is the modules importing them
+        this.findImporters(change.uri).forEach(uri => affected.add(uri));
+      }
+    }
+
+    return Array.from(affected);
+  }
+
+  /**
+   * Go back to the copy on disk when the editor closes a workspace file,
+   * and forget files outside the workspace
+   */
+  public async documentClosed(uri: string): Promise<void> {
+    this.symbolManager.removeDocument(uri);
+    if (this.isInWorkspace(uriToPath(uri)) && fs.existsSync(uriToPath(uri))) {
+      await this.indexFile(uri);
+    } else {
+      this.removeFile(uri);
+    }
+  }
+
+  /**
+   * Find the open HQL modules that import a script. Typings may belong to
+   * a script elsewhere in their package, so a declaration file affects
+   * every module importing a script.
+   */
+  private findImporters(scriptUri: string): string[] {
+    const scriptPath = path.resolve(uriToPath(scriptUri));
+    const isDeclaration = /\.d\.m?ts$/.test(scriptPath);
+    return this.symbolManager.getOpenDocumentUris().filter(uri => {
+      const info = this.moduleManager.getModuleInfo(uri);
+      if (!info) return false;
+
+      for (const binding of info.imports.values()) {
+        const resolved = this.moduleManager.resolveModule(uri, binding.modulePath);
+        const resolvedPath = resolved && path.resolve(uriToPath(resolved));
+        if (resolvedPath && (resolvedPath === scriptPath || (isDeclaration && isScriptModule(resolvedPath)))) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Drop a file indexed from disk; open documents are kept
+   */
+  private removeFile(uri: string): void {
+    this.symbolManager.removeIndexedDocument(uri);
+  }
+
+  private isInWorkspace(filePath: string): boolean {
+    const resolved = path.resolve(filePath);
+    return this.workspaceFolders.some(folder => resolved.startsWith(folder + path.sep));
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  SymbolInformation,
+  WorkspaceSymbolParams
+} from 'vscode-languageserver';
+
+import { ExtendedSymbolInformation, SymbolManager } from './symbolManager';
+
+/**
+ * Most symbols returned for one query; the client asks again as the query grows
+ */
+const MAX_RESULTS = 256;
+
+/**
+ * WorkspaceSymbolProvider finds definitions across every indexed document
+ * by fuzzy matching their qualified names, e.g. `Shape.area` or `Color.red`
+ */
+export class WorkspaceSymbolProvider {
+  private symbolManager: SymbolManager;
+
+  constructor(symbolManager: SymbolManager) {
+    this.symbolManager = symbolManager;
+  }
+
+  /**
+   * Provide the symbols matching a query, best matches first
+   */
+  public provideWorkspaceSymbols(params: WorkspaceSymbolParams): SymbolInformation[] {
+    const query = params.query.trim();
+    const matches: { symbol: ExtendedSymbolInformation; score: number }[] = [];
+    const seen = new Set<string>();
+
+    for (const symbols of this.symbolManager.getAllSymbols().values()) {
+      for (const symbol of symbols) {
+        // Imports are found through the module that defines them
+        if (symbol.data?.imported || symbol.data?.isNamespaceImport) continue;
+
+        const { start } = symbol.location.range;
+        const key = `${symbol.location.uri}#${start.line}:${start.character}#${symbol.name}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const score = fuzzyScore(query, symbol.name);
+        if (score !== undefined) {
+          matches.push({ symbol, score });
+        }
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score || a.symbol.name.localeCompare(b.symbol.name));
+
+    return matches.slice(0, MAX_RESULTS).map(({ symbol }) => {
+      const separator = symbol.name.lastIndexOf('.');
+      return {
+        name: separator > 0 ? symbol.name.substring(separator + 1) : symbol.name,
+        kind: symbol.kind,
+        location: symbol.location,
+        containerName: separator > 0 ? symbol.name.substring(0, separator) : symbol.containerName || undefined
+      };
+    });
+  }
+}
+
+/**
+ * Score how well a query matches a name, or undefined when the query's
+ * characters do not all appear in order. Matches at the start of the name
+ * or of a word, and runs of consecutive characters, score higher.
+ */
+function fuzzyScore(query: string, name: string): number | undefined {
+  if (!query) {
+    return 0;
+  }
+
+  const lowerQuery = query.toLowerCase();
+  const lowerName = name.toLowerCase();
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+
+  for (const char of lowerQuery) {
+    const index = lowerName.indexOf(char, position);
+    if (index === -1) {
+      return undefined;
+    }
+
+    score += 1;
+    if (index === previous + 1) {
+      score += 5;
+    }
+    if (index === 0) {
+      score += 10;
+    } else if (isWordStart(name, index)) {
+      score += 8;
+    }
+
+    previous = index;
+    position = index + 1;
+  }
+
+  if (lowerName === lowerQuery) {
+    score += 100;
+  }
+
+  // Prefer shorter names among equal matches
+  return score - (name.length - query.length) * 0.1;
+}
+
+/**
+ * Check whether a character starts a word: after a separator or at a
+ * lower-to-upper case change
+ */
+function isWordStart(name: string, index: number): boolean {
+  const previous = name[index - 1];
+  const char = name[index];
+  return /[.\-_/?!]/.test(previous) ||
+    (previous === previous.toLowerCase() && char !== char.toLowerCase());
+}
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { BencodeDecoder, BencodeError, BencodeValue, encode } from '../../nrepl/bencode';
+
+function decodeAll(chunks: Buffer[]): BencodeValue[] {
+  const decoder = new BencodeDecoder();
+  return chunks.flatMap(chunk => decoder.push(chunk));
+}
+
+/**
+ * Cut a buffer into pieces of `size` bytes
+ */
+function split(buffer: Buffer, size: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    chunks.push(buffer.subarray(offset, offset + size));
+  }
+  return chunks;
+}
+
+describe('bencode', () => {
+  describe('encode', () => {
+    it('encodes integers, strings and lists', () => {
+      assert.strictEqual(encode(42).toString(), 'i42e');
+      assert.strictEqual(encode(-7).toString(), 'i-7e');
+      assert.strictEqual(encode('hello').toString(), '5:hello');
+      assert.strictEqual(encode(['a', 1, []]).toString(), 'l1:ai1elee');
+    });
+
+    it('sorts dictionary keys and leaves out missing fields', () => {
+      assert.strictEqual(
+        encode({ op: 'eval', code: '(+ 1 2)', ns: undefined, id: '1' }).toString(),
+        'd4:code7:(+ 1 2)2:id1:12:op4:evale'
+      );
+    });
+
+    it('counts string lengths in bytes', () => {
+      assert.strictEqual(encode('λ→').toString('utf8'), '5:λ→');
+    });
+
+    it('sends booleans as strings', () => {
+      assert.strictEqual(encode(true).toString(), '4:true');
+    });
+  });
+
+  describe('BencodeDecoder', () => {
+    const message = { id: '1', session: 'abc', status: ['done'], value: 'λ 3', count: 12 };
+    const bytes = encode(message);
+
+    it('decodes what encode produces', () => {
+      assert.deepStrictEqual(decodeAll([bytes]), [message]);
+    });
+
+    it('decodes several values from one chunk', () => {
+      assert.deepStrictEqual(decodeAll([Buffer.concat([encode(1), encode('x'), encode(['y'])])]), [1, 'x', ['y']]);
+    });
+
+    it('keeps an unfinished value until the rest arrives', () => {
+      const decoder = new BencodeDecoder();
+      assert.deepStrictEqual(decoder.push(bytes.subarray(0, 10)), []);
+      assert.deepStrictEqual(decoder.push(bytes.subarray(10)), [message]);
+    });
+
+    it('decodes input split at every byte', () => {
+      const stream = Buffer.concat([bytes, encode({ out: 'printed\n' }), bytes]);
+      assert.deepStrictEqual(decodeAll(split(stream, 1)), [message, { out: 'printed\n' }, message]);
+    });
+
+    it('decodes input split across chunk boundaries of any size', () => {
+      const stream = Buffer.concat([bytes, bytes]);
+      for (let size = 2; size < stream.length; size++) {
+        assert.deepStrictEqual(decodeAll(split(stream, size)), [message, message], `chunks of ${size} bytes`);
+      }
+    });
+
+    it('rejects data that is not bencode', () => {
+      assert.throws(() => new BencodeDecoder().push(Buffer.from('x')), BencodeError);
+      assert.throws(() => new BencodeDecoder().push(Buffer.from('i4.2e')), BencodeError);
+    });
+
+    it('drops a partial value on reset', () => {
+      const decoder = new BencodeDecoder();
+      decoder.push(bytes.subarray(0, 5));
+      decoder.reset();
+      assert.deepStrictEqual(decoder.push(bytes), [message]);
+    });
+  });
+});
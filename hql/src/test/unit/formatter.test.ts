@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HqlFormatter } from '../../server/formatter/hqlFormatter';
+
+const EXAMPLES_DIR = path.resolve(__dirname, '../../../examples');
+
+function format(text: string): string {
+  const document = TextDocument.create('file:///test.hql', 'hql', 1, text);
+  return TextDocument.applyEdits(document, new HqlFormatter().formatDocument(document));
+}
+
+describe('HqlFormatter', () => {
+  describe('enums', () => {
+    const source = fs.readFileSync(path.join(EXAMPLES_DIR, 'enum.hql'), 'utf8');
+
+    it('keeps the raw type on the head line of examples/enum.hql', () => {
+      const formatted = format(source);
+      assert.match(formatted, /^\(enum StatusCode: Int\n {2}\(case ok 200\)$/m);
+      assert.match(formatted, /^\(enum HttpStatus : Int\n {2}\(case ok 200\)$/m);
+    });
+
+    it('formats examples/enum.hql to a fixed point', () => {
+      const formatted = format(source);
+      assert.strictEqual(format(formatted), formatted);
+    });
+
+    it('keeps enums without a raw type on the name line', () => {
+      assert.strictEqual(
+        format('(enum Direction\n(case north)\n(case south))\n'),
+        '(enum Direction\n  (case north)\n  (case south))\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from '../../cli/hqlTools';
+
+const CLEAN = '(fn double (x) (* x 2))\n\n(print (double 2))\n';
+const MISFORMATTED = '(fn double (x)\n(* x 2))\n\n(print (double 2))\n';
+const UNBALANCED = '(print (+ 1 2)\n';
+
+describe('hql-tools', () => {
+  let root: string;
+  let cwd: string;
+
+  /**
+   * Run the command line in the temporary directory, collecting its output
+   */
+  async function run(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    const output = { stdout: '', stderr: '' };
+    const stdoutWrite = process.stdout.write;
+    const stderrWrite = process.stderr.write;
+    const log = console.log;
+    process.stdout.write = ((chunk: string) => { output.stdout += chunk; return true; }) as typeof process.stdout.write;
+    process.stderr.write = ((chunk: string) => { output.stderr += chunk; return true; }) as typeof process.stderr.write;
+    console.log = () => { /* progress messages of the shared code */ };
+    try {
+      return { code: await main(args), ...output };
+    } finally {
+      process.stdout.write = stdoutWrite;
+      process.stderr.write = stderrWrite;
+      console.log = log;
+    }
+  }
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(root, file), content);
+  const read = (file: string) => fs.readFileSync(path.join(root, file), 'utf8');
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'hql-tools-')));
+    cwd = process.cwd();
+    process.chdir(root);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('lint', () => {
+    it('exits with 0 when no file has errors', async () => {
+      write('main.hql', CLEAN);
+      const result = await run('lint');
+      assert.strictEqual(result.code, 0, result.stdout);
+    });
+
+    it('exits with 1 and reports where a file has errors', async () => {
+      write('main.hql', CLEAN);
+      write('broken.hql', UNBALANCED);
+      const result = await run('lint', '--format', 'json');
+
+      assert.strictEqual(result.code, 1);
+      const files = new Set((JSON.parse(result.stdout) as { file: string; severity: string }[])
+        .filter(entry => entry.severity === 'error')
+        .map(entry => entry.file));
+      assert.deepStrictEqual([...files], ['broken.hql']);
+    });
+
+    it('exits with 0 when the project turns the failing rules into warnings', async () => {
+      write('broken.hql', UNBALANCED);
+      const rules = { 'unbalanced-delimiters': 'warning', 'parse-error': 'warning' };
+      write('hql.json', JSON.stringify({ lint: { rules } }));
+      assert.strictEqual((await run('lint', 'broken.hql')).code, 0);
+    });
+  });
+
+  describe('fmt', () => {
+    it('exits with 0 from --check when every file is formatted', async () => {
+      write('main.hql', CLEAN);
+      assert.strictEqual((await run('fmt', '--check')).code, 0);
+    });
+
+    it('exits with 1 from --check and lists the files that need formatting, without changing them', async () => {
+      write('main.hql', CLEAN);
+      write('messy.hql', MISFORMATTED);
+      const result = await run('fmt', '--check');
+
+      assert.strictEqual(result.code, 1);
+      assert.strictEqual(result.stdout, 'messy.hql\n');
+      assert.strictEqual(read('messy.hql'), MISFORMATTED);
+    });
+
+    it('formats files in place', async () => {
+      write('messy.hql', MISFORMATTED);
+      assert.strictEqual((await run('fmt')).code, 0);
+      assert.strictEqual(read('messy.hql'), CLEAN);
+      assert.strictEqual((await run('fmt', '--check')).code, 0);
+    });
+
+    it('exits with 1 for a file that does not parse', async () => {
+      write('broken.hql', UNBALANCED);
+      assert.strictEqual((await run('fmt', '--check')).code, 1);
+    });
+  });
+
+  it('exits with 2 for invalid usage', async () => {
+    assert.strictEqual((await run()).code, 2);
+    assert.strictEqual((await run('compile')).code, 2);
+    assert.strictEqual((await run('lint', '--format', 'xml')).code, 2);
+    assert.strictEqual((await run('fmt', 'missing.hql')).code, 2);
+  });
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as net from 'net';
+import { BencodeDecoder, encode } from '../../nrepl/bencode';
+import { NReplClient, NReplError } from '../../nrepl/nrepl-client';
+import { SocketTransport } from '../../nrepl/socket-transport';
+import { NReplMessage, NReplRequest } from '../../nrepl/transport';
+
+/**
+ * A fake nREPL server. Replies are written a few bytes at a time, so the
+ * client has to put messages together from arbitrary chunks.
+ */
+class FakeServer {
+  public requests: NReplRequest[] = [];
+  private server = net.createServer(socket => this.accept(socket));
+  private sockets: Set<net.Socket> = new Set();
+  // Evaluations of `(sleep)` wait here for an interrupt
+  private sleeping: Map<string, NReplRequest> = new Map();
+
+  public listen(): Promise<number> {
+    return new Promise(resolve => {
+      this.server.listen(0, '127.0.0.1', () => resolve((this.server.address() as net.AddressInfo).port));
+    });
+  }
+
+  public close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Drop every connection, as a server that goes away would
+   */
+  public disconnect(): void {
+    this.sockets.forEach(socket => socket.destroy());
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    const decoder = new BencodeDecoder();
+    socket.on('data', chunk => {
+      for (const request of decoder.push(chunk)) {
+        this.requests.push(request as NReplRequest);
+        this.handle(socket, request as NReplRequest);
+      }
+    });
+  }
+
+  private handle(socket: net.Socket, request: NReplRequest): void {
+    const reply = (message: NReplMessage) => {
+      const bytes = encode({ id: request.id, session: request.session, ...message });
+      for (let offset = 0; offset < bytes.length; offset += 3) {
+        socket.write(bytes.subarray(offset, offset + 3));
+      }
+    };
+
+    switch (request.op) {
+      case 'clone':
+        reply({ 'new-session': 'session-1', status: ['done'] });
+        break;
+      case 'describe':
+        reply({ ops: { eval: {}, interrupt: {} }, status: ['done'] });
+        break;
+      case 'eval':
+        if (request.code === '(sleep)') {
+          this.sleeping.set(String(request.id), request);
+          reply({ out: 'sleeping\n' });
+          break;
+        }
+        reply({ out: 'hello\n' });
+        reply({ err: 'careful\n' });
+        reply({ value: String(request.code), ns: 'user' });
+        reply({ status: ['done'] });
+        break;
+      case 'interrupt': {
+        const interrupted = this.sleeping.get(String(request['interrupt-id']));
+        if (interrupted) {
+          this.sleeping.delete(String(request['interrupt-id']));
+          const bytes = encode({ id: interrupted.id, session: interrupted.session, status: ['interrupted', 'done'] });
+          socket.write(bytes);
+        }
+        reply({ status: interrupted ? ['done'] : ['session-idle', 'done'] });
+        break;
+      }
+      case 'close':
+        reply({ status: ['session-closed', 'done'] });
+        break;
+      default:
+        reply({ status: ['error', 'unknown-op', 'done'] });
+    }
+  }
+}
+
+describe('NReplClient', () => {
+  let server: FakeServer;
+  let client: NReplClient;
+  let port: number;
+
+  beforeEach(async () => {
+    server = new FakeServer();
+    port = await server.listen();
+    client = new NReplClient(new SocketTransport('127.0.0.1', port));
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('clones a session and sends later requests in it', async () => {
+    await client.describe();
+    assert.ok(client.isConnected);
+
+    const [clone, describe] = server.requests;
+    assert.strictEqual(clone.op, 'clone');
+    assert.strictEqual(clone.session, undefined);
+    assert.strictEqual(describe.op, 'describe');
+    assert.strictEqual(describe.session, 'session-1');
+  });
+
+  it('connects once for concurrent requests', async () => {
+    await Promise.all([client.describe(), client.describe()]);
+    assert.strictEqual(server.requests.filter(request => request.op === 'clone').length, 1);
+  });
+
+  it('gives every request its own id', async () => {
+    const results = await Promise.all([client.eval('(+ 1 2)'), client.eval('(* 2 3)')]);
+    assert.deepStrictEqual(results.map(result => result.values), [['(+ 1 2)'], ['(* 2 3)']]);
+
+    const ids = server.requests.map(request => request.id);
+    assert.strictEqual(new Set(ids).size, ids.length);
+  });
+
+  it('collects the streamed output, values and namespace of an evaluation', async () => {
+    const output: string[] = [];
+    const result = await client.eval('(+ 1 2)', { onOutput: (stream, text) => output.push(`${stream}:${text}`) });
+
+    assert.deepStrictEqual(result, {
+      values: ['(+ 1 2)'],
+      out: 'hello\n',
+      err: 'careful\n',
+      ns: 'user',
+      interrupted: false
+    });
+    assert.deepStrictEqual(output, ['out:hello\n', 'err:careful\n']);
+  });
+
+  it('interrupts the evaluation when the signal aborts', async () => {
+    const controller = new AbortController();
+    const result = await client.eval('(sleep)', {
+      signal: controller.signal,
+      onOutput: () => controller.abort()
+    });
+    assert.ok(result.interrupted);
+
+    const evalRequest = server.requests.find(request => request.op === 'eval');
+    const interrupt = server.requests.find(request => request.op === 'interrupt');
+    assert.ok(evalRequest && interrupt);
+    assert.strictEqual(interrupt['interrupt-id'], evalRequest.id);
+    assert.strictEqual(interrupt.session, 'session-1');
+  });
+
+  it('fails the requests in flight when the connection is lost', async () => {
+    await client.connect();
+    let closed = false;
+    client.onClose(() => { closed = true; });
+
+    await assert.rejects(client.eval('(sleep)', { onOutput: () => server.disconnect() }));
+    assert.ok(closed);
+    assert.ok(!client.isConnected);
+  });
+
+  it('fails a request the server stops answering and closes the session', async () => {
+    await client.close();
+    client = new NReplClient(new SocketTransport('127.0.0.1', port), 50);
+
+    await client.connect();
+    const closed = new Promise<void>(resolve => client.onClose(resolve));
+
+    const output: string[] = [];
+    await assert.rejects(
+      client.eval('(sleep)', { onOutput: (_, text) => output.push(text) }),
+      (error: NReplError) => error.status.includes('timeout')
+    );
+    assert.deepStrictEqual(output, ['sleeping\n']);
+
+    await closed;
+    assert.ok(server.requests.some(request => request.op === 'close' && request.session === 'session-1'));
+    assert.ok(!client.isConnected);
+  });
+
+  it('closes its session', async () => {
+    await client.connect();
+    await client.close();
+    assert.ok(server.requests.some(request => request.op === 'close' && request.session === 'session-1'));
+    assert.ok(!client.isConnected);
+  });
+});
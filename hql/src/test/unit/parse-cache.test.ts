@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parse, SExp } from '../../parser';
+import { ParseCache, ParsedDocument } from '../../server/parseCache';
+
+const URI = 'file:///test.hql';
+
+const TEXT = [
+  ';; helpers',
+  '(fn double (x)',
+  '  (* x 2))',
+  '',
+  '(let y (double 21)) ; the answer',
+  '',
+  '(print y)',
+  ''
+].join('\n');
+
+/**
+ * Parse `before`, then `after` as the next version of the same document
+ */
+function reparse(before: string, after: string): ParsedDocument {
+  const cache = new ParseCache();
+  cache.getParsedDocument(TextDocument.create(URI, 'hql', 1, before));
+  return cache.getParsedDocument(TextDocument.create(URI, 'hql', 2, after));
+}
+
+/**
+ * Drop the fields a copy leaves undefined, so trees compare by content
+ */
+function plain(expressions: SExp[]): unknown {
+  return JSON.parse(JSON.stringify(expressions));
+}
+
+/**
+ * Check that re-parsing gives the same tree, positions included, as
+ * parsing the new text from scratch
+ */
+function assertSameAsFullParse(before: string, after: string): ParsedDocument {
+  const parsed = reparse(before, after);
+  assert.deepStrictEqual(plain(parsed.expressions), plain(parse(after, true)));
+  return parsed;
+}
+
+describe('ParseCache', () => {
+  it('returns the cached parse while the document is unchanged', () => {
+    const cache = new ParseCache();
+    const document = TextDocument.create(URI, 'hql', 1, TEXT);
+    assert.strictEqual(cache.getParsedDocument(document), cache.getParsedDocument(document));
+  });
+
+  it('reuses the forms an edit inside one form does not touch', () => {
+    const parsed = assertSameAsFullParse(TEXT, TEXT.replace('(* x 2)', '(* x 3)'));
+    assert.strictEqual(parsed.reused.size, 2);
+  });
+
+  it('moves the forms after inserted lines', () => {
+    const parsed = assertSameAsFullParse(TEXT, TEXT.replace('\n(let y', '\n(let z 1)\n\n(let y'));
+    const print = parsed.expressions[parsed.expressions.length - 1];
+    assert.strictEqual(parsed.reused.get(print)?.lineDelta, 2);
+  });
+
+  it('matches a full parse for edits that change the form structure', () => {
+    const edits: Array<[string, string]> = [
+      ['(* x 2))', '(* x 2)'],                   // unclose a list
+      ['(let y', '(let y (+ 1'],                  // open a list mid-document
+      ['(print y)', '(print y))'],                // stray closing paren
+      ['(print y)\n', '(print y)\n; trailing\n'], // comment after the last form
+      ['\n(let y', '\n; about y\n(let y'],        // comment leading a form
+      [';; helpers\n', ''],                       // drop the first line
+      ['(let y (double 21)) ; the answer\n', '']  // remove a whole form
+    ];
+    for (const [from, to] of edits) {
+      assert.ok(TEXT.includes(from), `'${from}' is not in the text`);
+      assertSameAsFullParse(TEXT, TEXT.replace(from, to));
+    }
+  });
+
+  it('matches a full parse after typing a form one character at a time', () => {
+    const typed = '(let z (double y))\n';
+    const at = TEXT.indexOf('(print y)');
+    const cache = new ParseCache();
+    let version = 1;
+    cache.getParsedDocument(TextDocument.create(URI, 'hql', version, TEXT));
+
+    for (let length = 1; length <= typed.length; length++) {
+      const text = TEXT.substring(0, at) + typed.substring(0, length) + TEXT.substring(at);
+      const parsed = cache.getParsedDocument(TextDocument.create(URI, 'hql', ++version, text));
+      assert.deepStrictEqual(plain(parsed.expressions), plain(parse(text, true)), `after typing '${typed.substring(0, length)}'`);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseProjectConfig, ProjectConfigManager } from '../../server/projectConfig';
+import { pathToUri } from '../../server/utils/module-utils';
+
+describe('project configuration', () => {
+  let root: string;
+  let manager: ProjectConfigManager;
+
+  /**
+   * Write a configuration file below the workspace root
+   */
+  const write = (file: string, content: object) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content));
+  };
+
+  const configOf = (file: string) => manager.getConfig(pathToUri(path.join(root, file)));
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'hql-config-')));
+    manager = new ProjectConfigManager();
+    manager.setWorkspaceFolders([{ uri: pathToUri(root) }]);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('lets nearer files override settings and adds up the rest', () => {
+    write('hql.json', {
+      format: { indentSize: 2, lineWidth: 100, indentRules: { when: 1 } },
+      lint: { rules: { 'unused-symbols': 'off', 'fx-purity': 'error' }, reservedKeywords: ['spam'] },
+      modulePaths: ['lib']
+    });
+    write('app/hql.json', {
+      format: { indentSize: 4, indentRules: { match: 1 } },
+      lint: { rules: { 'unused-symbols': 'hint' }, reservedKeywords: ['eggs'] },
+      modulePaths: ['vendor']
+    });
+
+    const config = configOf('app/main.hql');
+    assert.deepStrictEqual(config.format, { indentSize: 4, lineWidth: 100, indentRules: { when: 1, match: 1 } });
+    assert.deepStrictEqual(config.rules, { 'unused-symbols': 'hint', 'fx-purity': 'error' });
+    assert.deepStrictEqual(config.reservedKeywords, ['spam', 'eggs']);
+    assert.deepStrictEqual(config.modulePaths, [path.join(root, 'app', 'vendor'), path.join(root, 'lib')]);
+    assert.deepStrictEqual(config.files, [path.join(root, 'hql.json'), path.join(root, 'app', 'hql.json')]);
+  });
+
+  it('lets hql.json override .hqlfmt in the same directory', () => {
+    write('.hqlfmt', { format: { indentSize: 8, alignParameters: true } });
+    write('hql.json', { format: { indentSize: 2 } });
+
+    assert.deepStrictEqual(configOf('main.hql').format, { indentSize: 2, alignParameters: true, indentRules: {} });
+  });
+
+  it('stops at a file marked as root', () => {
+    write('hql.json', { lint: { reservedKeywords: ['spam'] } });
+    write('app/hql.json', { root: true, lint: { reservedKeywords: ['eggs'] } });
+
+    assert.deepStrictEqual(configOf('app/main.hql').reservedKeywords, ['eggs']);
+  });
+
+  it('picks up a changed file', () => {
+    write('hql.json', { format: { indentSize: 2 } });
+    assert.strictEqual(configOf('main.hql').format.indentSize, 2);
+
+    write('hql.json', { format: { indentSize: 4 } });
+    manager.invalidate();
+    assert.strictEqual(configOf('main.hql').format.indentSize, 4);
+  });
+
+  describe('parseProjectConfig', () => {
+    it('keeps the valid entries and describes the invalid ones', () => {
+      const { config, problems } = parseProjectConfig(JSON.stringify({
+        format: { indentSize: -1, lineWidth: 80 },
+        lint: { rules: { 'unused-symbols': 'loud', 'no-such-rule': 'off' }, reservedKeywords: ['ok'] },
+        colour: 'blue'
+      }));
+
+      assert.deepStrictEqual(config.format, { lineWidth: 80 });
+      assert.deepStrictEqual(config.rules, {});
+      assert.deepStrictEqual(config.reservedKeywords, ['ok']);
+      assert.strictEqual(problems.length, 4);
+      assert.ok(problems.includes('Unknown setting "colour"'));
+      assert.ok(problems.includes('"format.indentSize" must be a non-negative integer'));
+    });
+
+    it('reports JSON it cannot read', () => {
+      const { problems } = parseProjectConfig('{ "format": ');
+      assert.strictEqual(problems.length, 1);
+      assert.match(problems[0], /^Invalid JSON/);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from 'assert';
+import { CodeAction } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ModuleManager } from '../../server/moduleManager';
+import { RefactorProvider } from '../../server/refactorManager';
+import { SymbolManager } from '../../server/symbolManager';
+
+const URI = 'file:///test.hql';
+
+/**
+ * The refactorings offered for `selected` (its first occurrence) in
+ * `text`, or for a cursor at its start when `cursor` is set
+ */
+async function refactorings(text: string, selected: string, cursor: boolean = false): Promise<{ document: TextDocument; actions: CodeAction[] }> {
+  const symbolManager = new SymbolManager();
+  const document = TextDocument.create(URI, 'hql', 1, text);
+  symbolManager.addDocument(document);
+  await symbolManager.updateDocumentSymbols(document);
+
+  const offset = text.indexOf(selected);
+  assert.ok(offset >= 0, `'${selected}' is not in the text`);
+  const range = {
+    start: document.positionAt(offset),
+    end: document.positionAt(cursor ? offset : offset + selected.length)
+  };
+
+  const provider = new RefactorProvider(symbolManager, new ModuleManager(symbolManager));
+  return { document, actions: provider.provideRefactorings({ textDocument: { uri: URI }, range, context: { diagnostics: [] } }) };
+}
+
+/**
+ * The text after applying the refactoring with the given title, or
+ * undefined when it isn't offered
+ */
+async function refactor(title: string, text: string, selected: string, cursor: boolean = false): Promise<string | undefined> {
+  const { document, actions } = await refactorings(text, selected, cursor);
+  const action = actions.find(a => a.title === title);
+  return action && TextDocument.applyEdits(document, action.edit!.changes![URI]);
+}
+
+describe('RefactorProvider', () => {
+  describe('extract to let', () => {
+    it('binds the selection before the statement that contains it', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x)\n  (print (* x 2)))', '(* x 2)'),
+        '(fn f (x)\n  (let extracted (* x 2))\n  (print extracted))'
+      );
+    });
+
+    it('wraps just the branch of an if, so the guard still applies', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x) (if (nil? x) 0 (+ (.length x) 1)))', '(.length x)'),
+        '(fn f (x) (if (nil? x) 0 (let (extracted (.length x)) (+ extracted 1))))'
+      );
+    });
+
+    it('wraps the operand of a short-circuiting and', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x) (and x (> (.length x) 1)))', '(.length x)'),
+        '(fn f (x) (and x (let (extracted (.length x)) (> extracted 1))))'
+      );
+    });
+
+    it('wraps the value of a cond clause', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x) (cond ((nil? x) 0) (true (.length x))))', '(.length x)'),
+        '(fn f (x) (cond ((nil? x) 0) (true (let (extracted (.length x)) extracted))))'
+      );
+    });
+
+    it('hoists the condition of an if, which always runs', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x) (if (nil? x) 0 1))', '(nil? x)'),
+        '(fn f (x) (let extracted (nil? x)) (if extracted 0 1))'
+      );
+    });
+
+    it('is not offered for the test of a later cond clause', async () => {
+      assert.strictEqual(
+        await refactor('Extract to let', '(fn f (x) (cond ((nil? x) 0) ((.empty x) 1)))', '(.empty x)'),
+        undefined
+      );
+    });
+  });
+
+  describe('inline', () => {
+    it('replaces the one use of a let binding with its value', async () => {
+      assert.strictEqual(
+        await refactor("Inline variable 'total'", '(fn f (x)\n  (let total (+ x 1))\n  (print total))', 'total', true),
+        '(fn f (x)\n  (print (+ x 1)))'
+      );
+    });
+
+    it('copies a plain value to every use', async () => {
+      assert.strictEqual(
+        await refactor("Inline variable 'n'", '(fn f ()\n  (let n 2)\n  (* n n))', 'n 2', true),
+        '(fn f ()\n  (* 2 2))'
+      );
+    });
+
+    it('does not copy a computed value to several uses', async () => {
+      assert.strictEqual(
+        await refactor("Inline variable 'total'", '(fn f (x)\n  (let total (+ x 1))\n  (* total total))', 'total', true),
+        undefined
+      );
+    });
+
+    it('does not inline a binding that is assigned later', async () => {
+      assert.strictEqual(
+        await refactor("Inline variable 'n'", '(fn f ()\n  (let n 2)\n  (set! n 3)\n  n)', 'n 2', true),
+        undefined
+      );
+    });
+
+    it('replaces a call with the function body, matching named arguments', async () => {
+      assert.strictEqual(
+        await refactor("Inline function 'area'", '(fn area (w: Int h: Int) (* w h))\n(print (area h: 3 w: 2))', 'area h', true),
+        '(fn area (w: Int h: Int) (* w h))\n(print (* 2 3))'
+      );
+    });
+  });
+
+  describe('convert let to var', () => {
+    it('rewrites the let keyword', async () => {
+      assert.strictEqual(
+        await refactor('Convert let to var', '(let count 0)\n(print count)', 'count', true),
+        '(var count 0)\n(print count)'
+      );
+    });
+
+    it('is not offered on a use of the binding', async () => {
+      assert.strictEqual(
+        await refactor('Convert let to var', '(let count 0)\n(print count)', 'count)', true),
+        undefined
+      );
+    });
+  });
+});
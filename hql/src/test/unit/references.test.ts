@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ModuleManager } from '../../server/moduleManager';
+import { ProjectConfigManager } from '../../server/projectConfig';
+import { RenameProvider } from '../../server/renameManager';
+import { SymbolManager } from '../../server/symbolManager';
+import { pathToUri } from '../../server/utils/module-utils';
+
+const FILES: { [name: string]: string } = {
+  'hql.json': JSON.stringify({ lint: { reservedKeywords: ['forbidden'] } }),
+  'colors.hql': [
+    '(enum Color',
+    '  (case red)',
+    '  (case green))',
+    '(fn paint (c: Color) (-> String)',
+    '  (cond ((=== c .red) "R") ((=== c .green) "G") (else "?")))',
+    '(export [Color paint])',
+    ''
+  ].join('\n'),
+  'main.hql': [
+    '(import [Color paint] from "./colors.hql")',
+    '(import [paint as draw] from "./colors.hql")',
+    '(let c Color.red)',
+    '(print (paint .red) (paint c: .green) (draw Color.green))',
+    '(print (=== c .red) (.red "not a case"))',
+    ''
+  ].join('\n')
+};
+
+describe('references and rename', () => {
+  let root: string;
+  let moduleManager: ModuleManager;
+  let renameProvider: RenameProvider;
+
+  const uriOf = (file: string) => pathToUri(path.join(root, file));
+
+  /**
+   * The position of the `nth` occurrence of `text` in a file
+   */
+  const positionOf = (file: string, text: string, nth: number = 0) => {
+    const content = FILES[file];
+    let offset = -1;
+    for (let i = 0; i <= nth; i++) {
+      offset = content.indexOf(text, offset + 1);
+    }
+    assert.ok(offset >= 0, `'${text}' is not in ${file}`);
+    return TextDocument.create(uriOf(file), 'hql', 1, content).positionAt(offset);
+  };
+
+  /**
+   * The `file:line:character` of each reference to the symbol at a position
+   */
+  const referencesAt = (file: string, text: string, nth: number = 0) => {
+    const occurrence = moduleManager.resolveAtPosition(uriOf(file), positionOf(file, text, nth));
+    assert.ok(occurrence, `nothing to resolve at '${text}'`);
+    return moduleManager.findReferences(occurrence.target)
+      .map(r => `${path.basename(r.uri)}:${r.range.start.line}:${r.range.start.character}`)
+      .sort();
+  };
+
+  const rename = (file: string, text: string, newName: string, nth: number = 0): Promise<WorkspaceEdit | null> =>
+    renameProvider.provideRename({ textDocument: { uri: uriOf(file) }, position: positionOf(file, text, nth), newName });
+
+  /**
+   * The files after applying a workspace edit
+   */
+  const applyEdit = (edit: WorkspaceEdit): { [name: string]: string } => {
+    const result: { [name: string]: string } = {};
+    for (const [uri, edits] of Object.entries(edit.changes || {})) {
+      const file = Object.keys(FILES).find(name => uriOf(name) === uri)!;
+      result[file] = TextDocument.applyEdits(TextDocument.create(uri, 'hql', 1, FILES[file]), edits as TextEdit[]);
+    }
+    return result;
+  };
+
+  before(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'hql-references-')));
+    for (const [name, content] of Object.entries(FILES)) {
+      fs.writeFileSync(path.join(root, name), content);
+    }
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const projectConfig = new ProjectConfigManager();
+    projectConfig.setWorkspaceFolders([{ uri: pathToUri(root) }]);
+    moduleManager = new ModuleManager(new SymbolManager(), projectConfig);
+    moduleManager.setWorkspaceFolders([{ uri: pathToUri(root) }]);
+    renameProvider = new RenameProvider(moduleManager, projectConfig);
+  });
+
+  it('finds the uses of a function across modules, including aliased imports', () => {
+    assert.deepStrictEqual(referencesAt('colors.hql', 'paint'), [
+      'colors.hql:3:4',
+      'colors.hql:5:15',
+      'main.hql:0:15',
+      'main.hql:1:18',
+      'main.hql:1:9',
+      'main.hql:3:21',
+      'main.hql:3:39',
+      'main.hql:3:8'
+    ]);
+  });
+
+  it('finds enum case uses written in full and as .case shorthands', () => {
+    const expected = [
+      'colors.hql:1:8',
+      'colors.hql:4:17',
+      'main.hql:2:13',
+      'main.hql:3:15',
+      'main.hql:4:15'
+    ];
+    assert.deepStrictEqual(referencesAt('colors.hql', 'red'), expected);
+    assert.deepStrictEqual(referencesAt('main.hql', '.red)', 1), expected);
+  });
+
+  it('does not take a .method call for an enum case', () => {
+    const occurrence = moduleManager.resolveAtPosition(uriOf('main.hql'), positionOf('main.hql', '.red "'));
+    assert.strictEqual(occurrence, undefined);
+  });
+
+  it('renames a function everywhere but keeps aliases', async () => {
+    const edit = await rename('main.hql', 'paint', 'colorize', 2);
+    assert.ok(edit);
+    const files = applyEdit(edit);
+
+    assert.match(files['colors.hql'], /\(fn colorize \(c: Color\)/);
+    assert.match(files['colors.hql'], /\(export \[Color colorize\]\)/);
+    assert.match(files['main.hql'], /^\(import \[Color colorize\] from/);
+    assert.match(files['main.hql'], /\(import \[colorize as draw\]/);
+    assert.match(files['main.hql'], /\(print \(colorize \.red\) \(colorize c: \.green\) \(draw Color\.green\)\)/);
+  });
+
+  it('renames an enum case together with its .case shorthands', async () => {
+    const edit = await rename('colors.hql', 'red', 'crimson');
+    assert.ok(edit);
+    const files = applyEdit(edit);
+
+    assert.match(files['colors.hql'], /\(case crimson\)/);
+    assert.match(files['colors.hql'], /\(=== c \.crimson\) "R"/);
+    assert.match(files['main.hql'], /\(let c Color\.crimson\)/);
+    assert.match(files['main.hql'], /\(paint \.crimson\)/);
+    assert.match(files['main.hql'], /\(=== c \.crimson\) \(\.red "not a case"\)/);
+  });
+
+  it('refuses keywords the project reserves', async () => {
+    await assert.rejects(rename('main.hql', 'paint', 'forbidden', 2), (error: ResponseError<void>) =>
+      /reserved keyword/.test(error.message));
+  });
+});
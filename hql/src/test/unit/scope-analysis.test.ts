@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parse } from '../../parser';
+import { SymbolManager } from '../../server/symbolManager';
+import { analyzeScopes, ScopeAnalysis } from '../../server/utils/scope-analysis';
+import { ValidatorManager } from '../../server/validator/validatorManager';
+
+function analyze(text: string): ScopeAnalysis {
+  return analyzeScopes(parse(text, true));
+}
+
+function referencesTo(scopes: ScopeAnalysis, name: string): number {
+  const binding = scopes.getBindings().find(b => b.name === name);
+  assert.ok(binding, `no binding for '${name}'`);
+  return scopes.getReferences(binding).length;
+}
+
+async function unusedSymbols(text: string): Promise<string[]> {
+  const symbolManager = new SymbolManager();
+  const document = TextDocument.create('file:///test.hql', 'hql', 1, text);
+  symbolManager.addDocument(document);
+  await symbolManager.updateDocumentSymbols(document);
+
+  const diagnostics = await new ValidatorManager(symbolManager).collectDiagnostics(document, true);
+  return (diagnostics || []).filter(d => d.code === 'unused-symbols').map(d => d.message);
+}
+
+describe('scope analysis', () => {
+  it('resolves parameters, shadowing and statement bindings', () => {
+    const scopes = analyze('(let x 1)\n(fn f (x) (let y x) y)\n(f x)');
+    const [moduleX, parameterX] = scopes.getBindings().filter(b => b.name === 'x');
+
+    assert.strictEqual(parameterX.kind, 'parameter');
+    assert.strictEqual(scopes.getReferences(moduleX).length, 1);
+    assert.strictEqual(scopes.getReferences(parameterX).length, 1);
+    assert.strictEqual(referencesTo(scopes, 'y'), 1);
+  });
+
+  it('counts names a macro template uses as reads of module bindings', () => {
+    const scopes = analyze('(import [helper] from "./lib.hql")\n(fn twice (y) (* y 2))\n(macro m (v) `(helper (twice ~v)))');
+    assert.strictEqual(referencesTo(scopes, 'helper'), 1);
+    assert.strictEqual(referencesTo(scopes, 'twice'), 1);
+    assert.strictEqual(referencesTo(scopes, 'v'), 1);
+  });
+
+  it('leaves template symbols that are not module bindings unresolved', () => {
+    const scopes = analyze('(macro m (v) `(let v 1))');
+    assert.strictEqual(referencesTo(scopes, 'v'), 0);
+    assert.deepStrictEqual(scopes.getFreeReferences().map(s => s.name), []);
+  });
+
+  it('reads the object of a (. obj method) call but not the method', () => {
+    const scopes = analyze('(fn len (x) (. x length))');
+    assert.strictEqual(referencesTo(scopes, 'x'), 1);
+    assert.deepStrictEqual(scopes.getFreeReferences().map(s => s.name), []);
+  });
+
+  describe('unused symbols', () => {
+    it('keeps imports and functions that a macro expands to', async () => {
+      const unused = await unusedSymbols(
+        '(import [helper] from "./lib.hql")\n' +
+        '(fn twice (y) (* y 2))\n' +
+        '(macro use-helper (v) `(helper (twice ~v)))\n' +
+        '(print (use-helper 1))\n'
+      );
+      assert.deepStrictEqual(unused, []);
+    });
+
+    it('keeps a parameter used as the object of (. x method)', async () => {
+      assert.deepStrictEqual(await unusedSymbols('(fn len (x) (. x length))\n(print (len "a"))\n'), []);
+    });
+
+    it('reports an import nothing uses', async () => {
+      assert.deepStrictEqual(
+        await unusedSymbols('(import [helper] from "./lib.hql")\n(print 1)\n'),
+        ["Import 'helper' is never used"]
+      );
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { parse, SList, SSymbol } from '../../parser';
+import { analyzeScopes } from '../../server/utils/scope-analysis';
+import { inferTypes, TypeInference } from '../../server/utils/type-inference';
+
+function infer(text: string): TypeInference {
+  const expressions = parse(text, true);
+  return inferTypes(expressions, analyzeScopes(expressions), { isEnumType: name => name === 'Color' });
+}
+
+/**
+ * The type of the first binding with a name
+ */
+function bindingType(types: TypeInference, name: string): string {
+  const binding = types.scopes.getBindings().find(b => b.name === name);
+  assert.ok(binding, `no binding for '${name}'`);
+  return types.getBindingType(binding);
+}
+
+describe('type inference', () => {
+  it('types let bindings from their values', () => {
+    const types = infer('(enum Color (case red))\n(let n 1)\n(let s "a")\n(let xs [1 2 3])\n(let c Color.red)\n(let m n)');
+    assert.strictEqual(bindingType(types, 'n'), 'Int');
+    assert.strictEqual(bindingType(types, 's'), 'String');
+    assert.strictEqual(bindingType(types, 'xs'), '[Int]');
+    assert.strictEqual(bindingType(types, 'c'), 'Color');
+    assert.strictEqual(bindingType(types, 'm'), 'Int');
+  });
+
+  it('infers return types from function bodies and types calls with them', () => {
+    const types = infer('(fn area (w: Int h: Int) (* w h))\n(fn greet (name) (str "hi " name))\n(let a (area 2 3))\n(let g (greet "x"))');
+    const area = types.scopes.getBindings().find(b => b.name === 'area')!;
+
+    assert.deepStrictEqual(types.getFunctionType(area), {
+      params: [
+        { name: 'w', type: 'Int', optional: false, rest: false },
+        { name: 'h', type: 'Int', optional: false, rest: false }
+      ],
+      returnType: 'Int',
+      declared: false
+    });
+    assert.strictEqual(bindingType(types, 'a'), 'Int');
+    assert.strictEqual(bindingType(types, 'g'), 'String');
+  });
+
+  it('types class fields from their defaults and assignments', () => {
+    const types = infer(
+      '(class Point\n' +
+      '  (var x 0)\n' +
+      '  (var label "p")\n' +
+      '  (constructor (x: Int) (set! this.x x))\n' +
+      '  (fn next () (+ this.x 1)))\n' +
+      '(let p (new Point 1))\n' +
+      '(let px p.x)'
+    );
+    const point = types.getClassType('Point');
+    assert.ok(point);
+
+    assert.deepStrictEqual([...point.fields], [['x', 'Int'], ['label', 'String']]);
+    assert.strictEqual(point.methods.get('next')?.returnType, 'Int');
+    assert.strictEqual(bindingType(types, 'p'), 'Point');
+    assert.strictEqual(bindingType(types, 'px'), 'Int');
+  });
+
+  it('follows assignments to the type a later read sees', () => {
+    const expressions = parse('(var v 1)\n(set! v "x")\n(print v)', true);
+    const types = inferTypes(expressions, analyzeScopes(expressions), { isEnumType: () => false });
+    const read = (expressions[2] as SList).elements[1] as SSymbol;
+
+    assert.strictEqual(bindingType(types, 'v'), 'Int');
+    assert.strictEqual(types.getReferenceType(read), 'String');
+  });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SymbolManager } from '../../server/symbolManager';
+import { ValidatorManager } from '../../server/validator/validatorManager';
+
+/**
+ * The messages of the diagnostics a rule reports for a document
+ */
+async function diagnose(text: string, rule: string): Promise<string[]> {
+  const symbolManager = new SymbolManager();
+  const document = TextDocument.create('file:///test.hql', 'hql', 1, text);
+  symbolManager.addDocument(document);
+  await symbolManager.updateDocumentSymbols(document);
+
+  const diagnostics = await new ValidatorManager(symbolManager).collectDiagnostics(document, true);
+  return (diagnostics || []).filter(d => d.code === rule).map(d => d.message);
+}
+
+const COLOR = '(enum Color (case red) (case green) (case blue))\n';
+
+describe('ValidatorManager', () => {
+  describe('enum exhaustiveness', () => {
+    it('reports the cases a cond over an annotated parameter misses', async () => {
+      assert.deepStrictEqual(
+        await diagnose(COLOR + '(fn name (c: Color) (cond ((=== c .red) 1) ((=== c .green) 2)))', 'enum-exhaustiveness'),
+        ["Missing cases of enum 'Color' in cond: .blue"]
+      );
+    });
+
+    it('finds the enum of a binding from its inferred type', async () => {
+      assert.deepStrictEqual(
+        await diagnose(COLOR + '(let c Color.red)\n(print (cond ((=== c .red) 1) ((=== c .green) 2)))', 'enum-exhaustiveness'),
+        ["Missing cases of enum 'Color' in cond: .blue"]
+      );
+    });
+
+    it('names the enum from the clauses of a match', async () => {
+      assert.deepStrictEqual(
+        await diagnose(COLOR + '(fn name (c) (match c (Color.red 1)))', 'enum-exhaustiveness'),
+        ["Missing cases of enum 'Color' in match: .green, .blue"]
+      );
+    });
+
+    it('accepts a default clause or every case', async () => {
+      assert.deepStrictEqual(
+        await diagnose(
+          COLOR +
+          '(fn a (c: Color) (cond ((=== c .red) 1) (else 2)))\n' +
+          '(fn b (c: Color) (cond ((=== c .red) 1) ((=== c .green) 2) ((=== c .blue) 3)))',
+          'enum-exhaustiveness'
+        ),
+        []
+      );
+    });
+  });
+
+  describe('loop/recur', () => {
+    it('accepts recur in tail position with one value per binding', async () => {
+      assert.deepStrictEqual(
+        await diagnose('(print (loop (i 0 acc 1) (if (< i 5) (recur (+ i 1) (* acc 2)) acc)))', 'loop-recur'),
+        []
+      );
+    });
+
+    it('reports recur outside tail position', async () => {
+      assert.deepStrictEqual(
+        await diagnose('(print (loop (i 0) (if (< i 5) (+ 1 (recur (+ i 1))) i)))', 'loop-recur'),
+        ['recur must be in tail position']
+      );
+    });
+
+    it('reports recur with the wrong number of values', async () => {
+      assert.deepStrictEqual(
+        await diagnose('(print (loop (i 0 acc 1) (if (< i 5) (recur (+ i 1)) acc)))', 'loop-recur'),
+        ['recur expects 2 arguments to match the loop bindings, got 1']
+      );
+    });
+
+    it('reports recur with nothing to jump back to', async () => {
+      assert.deepStrictEqual(await diagnose('(recur 1)', 'loop-recur'), ['recur can only be used inside a loop or function']);
+    });
+  });
+
+  describe('fx purity', () => {
+    it('accepts an fx that only computes with its arguments', async () => {
+      assert.deepStrictEqual(await diagnose('(fx add (a: Int b: Int) (-> Int) (+ a b))', 'fx-purity'), []);
+    });
+
+    it('reports I/O and mutation of arguments', async () => {
+      assert.deepStrictEqual(
+        await diagnose('(fx log (x: Int) (-> Int) (print x) x)\n(fx grow (xs) (.push xs 1) xs)', 'fx-purity'),
+        [
+          "fx 'log' is not pure: it calls 'print', which performs I/O",
+          "fx 'grow' is not pure: it mutates its argument 'xs' with push"
+        ]
+      );
+    });
+
+    it('explains the chain of calls through fn functions', async () => {
+      assert.deepStrictEqual(
+        await diagnose('(fn shout (s) (print s) s)\n(fx greet (name) (shout name))', 'fx-purity'),
+        ["fx 'greet' is not pure: it calls 'shout', which calls 'print', which performs I/O"]
+      );
+    });
+  });
+});